@@ -0,0 +1,65 @@
+/**
+ * Drift detection CLI command.
+ *
+ * Provides `drift`: report generated files that are unchanged, modified by
+ * the user, or deleted since generation.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { Command } from "commander";
+import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
+import { handleDrift, formatDriftOutput, formatDriftJson } from "../handlers/driftHandler.js";
+import { formatJsonError } from "../ux/CliJson.js";
+
+/**
+ * Builds the `drift` command.
+ *
+ * @returns Configured Commander command
+ */
+export function buildDriftCommand(): Command {
+  return new Command("drift")
+    .description("Report generated files that were modified or deleted since generation")
+    .option("--target <dir>", "Project directory", ".")
+    .option("--json", "Output as JSON for scripting", false)
+    .action(async (options: { target: string; json: boolean }) => {
+      try {
+        const result = await handleDrift({
+          targetDir: path.resolve(process.cwd(), options.target),
+        });
+
+        if (options.json) {
+          // JSON mode: clean JSON to stdout only
+          process.stdout.write(formatDriftJson(result) + "\n");
+        } else {
+          // Human mode: formatted output
+          for (const line of formatDriftOutput(result)) {
+            process.stdout.write(line + "\n");
+          }
+        }
+      } catch (err) {
+        const userMessage = toUserMessage(err);
+
+        if (options.json) {
+          // JSON mode: error as JSON
+          const jsonErr = formatJsonError({
+            message: userMessage.message,
+            code: userMessage.code,
+            context: { command: "drift" },
+          });
+          process.stdout.write(jsonErr + "\n");
+        } else {
+          // Human mode: formatted error
+          const prefix = userMessage.code ? `${userMessage.code}: ` : "";
+          let output = `Error: ${prefix}${userMessage.message}`;
+          if (err instanceof ScaffoldError && err.hint) {
+            output += `\n\nHint: ${err.hint}`;
+          }
+          process.stderr.write(output + "\n");
+        }
+
+        process.exitCode = 1;
+      }
+    });
+}
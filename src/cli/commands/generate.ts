@@ -4,12 +4,23 @@
  * Generates code from an installed pack's archetype templates.
  *
  * Usage:
- *   scaffoldix generate <packId>:<archetypeId> [--target <dir>] [--dry-run]
+ *   scaffoldix generate <packId>[@<version>]:<archetypeId> [--target <dir>] [--dry-run]
+ *                       [--set name=value ...] [--inputs <file|->] [--pack-version <v>]
+ *                       [--strict]
+ *   scaffoldix generate --replay <generationId|last> [--pack-version <v>] [--set name=value ...]
  *
  * Examples:
  *   scaffoldix generate java-spring:base-entity
  *   scaffoldix generate react-starter:component --target ./src/components
  *   scaffoldix generate my-pack:default --dry-run
+ *   scaffoldix generate my-pack:default --yes --set projectName=demo
+ *   scaffoldix generate my-pack:default --yes --inputs answers.yaml
+ *   cat answers.json | scaffoldix generate my-pack:default --yes --inputs -
+ *   scaffoldix generate my-pack@1.2.0:default
+ *   scaffoldix generate my-pack:default --pack-version "^1.2"
+ *   scaffoldix generate my-pack:default --strict
+ *   scaffoldix generate --replay last --force
+ *   scaffoldix generate --replay 3f2a --pack-version 1.3.0 --set name=Order
  *
  * @module
  */
@@ -21,12 +32,21 @@ import { initStorePaths } from "../../core/utils/paths.js";
 import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
 import {
   handleGenerate,
+  resolveReplay,
   formatGenerateOutput,
   formatTraceOutput,
 } from "../handlers/generateHandler.js";
 import { getCliUx, createCliUx, setDefaultCliUx } from "../ux/CliUx.js";
 import { createCliSpinner } from "../ux/CliSpinner.js";
 import { createPromptRunner } from "../prompts/PromptRunner.js";
+import { collectProvidedInputs } from "../../core/generate/InputSources.js";
+
+/**
+ * Commander option parser that accumulates repeated flag values.
+ */
+function collectRepeatable(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
 /**
  * Builds the `generate` command.
@@ -38,21 +58,48 @@ export function buildGenerateCommand(_logger: Logger): Command {
   const generateCommand = new Command("generate")
     .alias("g")
     .description("Generate code from an installed pack archetype")
-    .argument("<ref>", "Pack and archetype reference (e.g., java-spring:base-entity)")
+    .argument(
+      "[ref]",
+      "Pack and archetype reference (e.g., java-spring:base-entity or java-spring@1.2.0:base-entity)",
+    )
     .option("--target <dir>", "Target directory for generated files", ".")
     .option("--dry-run", "Preview what would be generated without writing files", false)
     .option("--yes", "Non-interactive mode: use defaults without prompting", false)
     .option("--force", "Overwrite existing files without prompting", false)
     .option("--verbose", "Show detailed timing trace for each phase", false)
+    .option("--strict", "Fail on missing template variables and helpers", false)
+    .option(
+      "--set <name=value>",
+      "Provide an input value (repeatable, overrides --inputs)",
+      collectRepeatable,
+      [],
+    )
+    .option(
+      "--inputs <file>",
+      "Read input values from a YAML/JSON file, or '-' for stdin (requires --yes)",
+    )
+    .option(
+      "--pack-version <version>",
+      "Installed pack version to use: exact (1.2.0) or range (^1.2, ~0.3)",
+    )
+    .option(
+      "--replay <generationId>",
+      "Replay a recorded generation ('last', an ID or ID prefix) with its pack, archetype and inputs",
+    )
     .action(
       async (
-        ref: string,
+        refArg: string | undefined,
         options: {
           target: string;
           dryRun: boolean;
           yes: boolean;
           force: boolean;
           verbose: boolean;
+          strict: boolean;
+          set: string[];
+          inputs?: string;
+          packVersion?: string;
+          replay?: string;
         },
       ) => {
         // Set up UX with verbose level if requested
@@ -69,15 +116,70 @@ export function buildGenerateCommand(_logger: Logger): Command {
           // Resolve target directory to absolute path
           const targetDir = path.resolve(process.cwd(), options.target);
 
+          const nonInteractive = options.yes || options.replay !== undefined;
+
+          // Collect input values from --inputs and --set (before the spinner starts,
+          // since --inputs - reads from stdin)
+          let providedData = await collectProvidedInputs({
+            set: options.set,
+            inputsFile: options.inputs,
+            cwd: process.cwd(),
+            interactive: !nonInteractive,
+          });
+
+          // Replay: take the pack, archetype, version and inputs from the recorded
+          // generation, with --pack-version and --set/--inputs on top
+          let ref = refArg;
+          let version = options.packVersion;
+          let label = ref;
+          if (options.replay !== undefined) {
+            if (ref !== undefined) {
+              throw new ScaffoldError(
+                "Cannot combine an archetype reference with --replay",
+                "GENERATE_REPLAY_WITH_REF",
+                { ref, replay: options.replay },
+                undefined,
+                `--replay reuses the pack and archetype of the recorded generation. ` +
+                  `Drop "${ref}", or drop --replay to generate it directly.`,
+                undefined,
+                true,
+              );
+            }
+            const plan = await resolveReplay({
+              generation: options.replay,
+              targetDir,
+              version,
+              overrides: providedData,
+            });
+            ref = plan.ref;
+            version = plan.version;
+            providedData = plan.data;
+            label =
+              `${plan.generation.packId}@${version}:${plan.generation.archetypeId}` +
+              ` (replay of ${plan.generation.id})`;
+          }
+          if (ref === undefined) {
+            throw new ScaffoldError(
+              "Missing archetype reference",
+              "GENERATE_REF_REQUIRED",
+              {},
+              undefined,
+              `Pass a reference (e.g., "java-spring:base-entity"), ` +
+                `or --replay <generationId|last> to replay a recorded generation.`,
+              undefined,
+              true,
+            );
+          }
+
           // Show what we're doing
           if (options.dryRun) {
-            ux.info(`Dry run: ${ref}`);
+            ux.info(`Dry run: ${label}`);
           } else {
-            spinner.start(`Generating from ${ref}`);
+            spinner.start(`Generating from ${label}`);
           }
 
-          // Create prompt adapter for interactive mode
-          const promptAdapter = options.yes ? undefined : createPromptRunner();
+          // Create prompt adapter for interactive mode (replays never prompt)
+          const promptAdapter = nonInteractive ? undefined : createPromptRunner();
 
           // Execute handler
           const result = await handleGenerate(
@@ -85,10 +187,12 @@ export function buildGenerateCommand(_logger: Logger): Command {
               ref,
               targetDir,
               dryRun: options.dryRun,
-              data: {}, // Provided values (from future --set flags)
-              nonInteractive: options.yes,
+              data: providedData,
+              nonInteractive,
               prompt: promptAdapter,
               force: options.force,
+              strict: options.strict,
+              version,
             },
             {
               registryFile: storePaths.registryFile,
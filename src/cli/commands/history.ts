@@ -0,0 +1,112 @@
+/**
+ * Generation history CLI commands.
+ *
+ * Provides commands for reading the project's generation history:
+ * - `history`: List recorded generations, newest first
+ * - `history show <id>`: Show one generation report in full
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { Command } from "commander";
+import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
+import {
+  handleHistory,
+  handleHistoryShow,
+  formatHistoryOutput,
+  formatHistoryJson,
+  formatHistoryShowOutput,
+  formatHistoryShowJson,
+} from "../handlers/historyHandler.js";
+import { formatJsonError } from "../ux/CliJson.js";
+
+/**
+ * Writes a command error to stdout as JSON, or to stderr for humans.
+ */
+function reportError(err: unknown, json: boolean, context: Record<string, unknown>): void {
+  const userMessage = toUserMessage(err);
+
+  if (json) {
+    // JSON mode: error as JSON
+    const jsonErr = formatJsonError({
+      message: userMessage.message,
+      code: userMessage.code,
+      context,
+    });
+    process.stdout.write(jsonErr + "\n");
+  } else {
+    // Human mode: formatted error
+    const prefix = userMessage.code ? `${userMessage.code}: ` : "";
+    let output = `Error: ${prefix}${userMessage.message}`;
+    if (err instanceof ScaffoldError && err.hint) {
+      output += `\n\nHint: ${err.hint}`;
+    }
+    process.stderr.write(output + "\n");
+  }
+
+  process.exitCode = 1;
+}
+
+/**
+ * Builds the `history` command with its subcommands.
+ *
+ * @returns Configured Commander command
+ */
+export function buildHistoryCommand(): Command {
+  // ─────────────────────────────────────────────────────────────────────────
+  // history
+  // ─────────────────────────────────────────────────────────────────────────
+  const historyCommand = new Command("history")
+    .description("List the generations recorded in a project")
+    .option("--target <dir>", "Project directory", ".")
+    .option("--json", "Output as JSON for scripting", false)
+    .action(async (options: { target: string; json: boolean }) => {
+      try {
+        const result = await handleHistory({
+          targetDir: path.resolve(process.cwd(), options.target),
+        });
+
+        if (options.json) {
+          process.stdout.write(formatHistoryJson(result) + "\n");
+        } else {
+          for (const line of formatHistoryOutput(result)) {
+            process.stdout.write(line + "\n");
+          }
+        }
+      } catch (err) {
+        reportError(err, options.json, { command: "history" });
+      }
+    });
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // history show <id>
+  // ─────────────────────────────────────────────────────────────────────────
+  historyCommand
+    .command("show")
+    .argument("<id>", "Generation ID, unique ID prefix, or 'last'")
+    .description("Show a generation report: inputs, patches, hooks and checks")
+    // --target and --json belong to `history` and may follow the ID
+    .configureHelp({ showGlobalOptions: true })
+    .action(async (id: string, _options: unknown, command: Command) => {
+      const options = command.optsWithGlobals<{ target: string; json: boolean }>();
+      try {
+        const result = await handleHistoryShow({
+          id,
+          targetDir: path.resolve(process.cwd(), options.target),
+        });
+
+        if (options.json) {
+          process.stdout.write(formatHistoryShowJson(result) + "\n");
+        } else {
+          for (const line of formatHistoryShowOutput(result)) {
+            process.stdout.write(line + "\n");
+          }
+        }
+      } catch (err) {
+        reportError(err, options.json, { command: "history show", id });
+      }
+    });
+
+  return historyCommand;
+}
@@ -0,0 +1,66 @@
+/**
+ * Patch management CLI commands.
+ *
+ * Provides commands for managing patches applied to a project:
+ * - `patch revert <key>`: Remove the block a patch inserted, by idempotency key
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { Command } from "commander";
+import { initStorePaths } from "../../core/utils/paths.js";
+import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
+import { handlePatchRevert, formatPatchRevertOutput } from "../handlers/patchRevertHandler.js";
+
+/**
+ * Builds the `patch` command with all subcommands.
+ *
+ * @returns Configured Commander command
+ */
+export function buildPatchCommand(): Command {
+  const patchCommand = new Command("patch").description("Manage patches applied to a project");
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // patch revert <key>
+  // ─────────────────────────────────────────────────────────────────────────
+  patchCommand
+    .command("revert")
+    .argument("<key>", "Idempotency key of the patch to revert")
+    .description("Remove the block a patch inserted, together with its stamp")
+    .option("--target <dir>", "Project directory", ".")
+    .option("--file <path>", "Only revert the patch in this file (relative to the target)")
+    .action(async (key: string, options: { target: string; file?: string }) => {
+      try {
+        const storePaths = initStorePaths();
+
+        const result = await handlePatchRevert(
+          {
+            idempotencyKey: key,
+            targetDir: path.resolve(process.cwd(), options.target),
+            file: options.file,
+          },
+          { storeDir: storePaths.storeDir },
+        );
+
+        for (const line of formatPatchRevertOutput(result)) {
+          process.stdout.write(line + "\n");
+        }
+      } catch (err) {
+        // Format error for user
+        const userMessage = toUserMessage(err);
+        const prefix = userMessage.code ? `${userMessage.code}: ` : "";
+
+        // Include hint if available
+        let output = `Error: ${prefix}${userMessage.message}`;
+        if (err instanceof ScaffoldError && err.hint) {
+          output += `\n\nHint: ${err.hint}`;
+        }
+
+        process.stderr.write(output + "\n");
+        process.exitCode = 1;
+      }
+    });
+
+  return patchCommand;
+}
@@ -0,0 +1,64 @@
+/**
+ * Project status CLI command.
+ *
+ * Provides `status`: summarize which packs and archetypes shaped a project.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { Command } from "commander";
+import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
+import { handleStatus, formatStatusOutput, formatStatusJson } from "../handlers/statusHandler.js";
+import { formatJsonError } from "../ux/CliJson.js";
+
+/**
+ * Builds the `status` command.
+ *
+ * @returns Configured Commander command
+ */
+export function buildStatusCommand(): Command {
+  return new Command("status")
+    .description("Summarize the packs and archetypes that generated into a project")
+    .option("--target <dir>", "Project directory", ".")
+    .option("--json", "Output as JSON for scripting", false)
+    .action(async (options: { target: string; json: boolean }) => {
+      try {
+        const result = await handleStatus({
+          targetDir: path.resolve(process.cwd(), options.target),
+        });
+
+        if (options.json) {
+          // JSON mode: clean JSON to stdout only
+          process.stdout.write(formatStatusJson(result) + "\n");
+        } else {
+          // Human mode: formatted output
+          for (const line of formatStatusOutput(result)) {
+            process.stdout.write(line + "\n");
+          }
+        }
+      } catch (err) {
+        const userMessage = toUserMessage(err);
+
+        if (options.json) {
+          // JSON mode: error as JSON
+          const jsonErr = formatJsonError({
+            message: userMessage.message,
+            code: userMessage.code,
+            context: { command: "status" },
+          });
+          process.stdout.write(jsonErr + "\n");
+        } else {
+          // Human mode: formatted error
+          const prefix = userMessage.code ? `${userMessage.code}: ` : "";
+          let output = `Error: ${prefix}${userMessage.message}`;
+          if (err instanceof ScaffoldError && err.hint) {
+            output += `\n\nHint: ${err.hint}`;
+          }
+          process.stderr.write(output + "\n");
+        }
+
+        process.exitCode = 1;
+      }
+    });
+}
@@ -0,0 +1,50 @@
+/**
+ * Undo CLI command.
+ *
+ * Provides `undo [generationId]`: revert a generation, deleting the files it
+ * created and restoring the files it overwrote or patched from its backup.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { Command } from "commander";
+import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
+import { handleUndo, formatUndoOutput } from "../handlers/undoHandler.js";
+
+/**
+ * Builds the `undo` command.
+ *
+ * @returns Configured Commander command
+ */
+export function buildUndoCommand(): Command {
+  return new Command("undo")
+    .description("Revert a generation, restoring the files it overwrote or patched")
+    .argument("[generationId]", "Generation ID, unique ID prefix, or 'last' (default: latest)")
+    .option("--target <dir>", "Project directory", ".")
+    .action(async (generationId: string | undefined, options: { target: string }) => {
+      try {
+        const result = await handleUndo({
+          targetDir: path.resolve(process.cwd(), options.target),
+          id: generationId,
+        });
+
+        for (const line of formatUndoOutput(result)) {
+          process.stdout.write(line + "\n");
+        }
+      } catch (err) {
+        // Format error for user
+        const userMessage = toUserMessage(err);
+        const prefix = userMessage.code ? `${userMessage.code}: ` : "";
+
+        // Include hint if available
+        let output = `Error: ${prefix}${userMessage.message}`;
+        if (err instanceof ScaffoldError && err.hint) {
+          output += `\n\nHint: ${err.hint}`;
+        }
+
+        process.stderr.write(output + "\n");
+        process.exitCode = 1;
+      }
+    });
+}
@@ -0,0 +1,71 @@
+/**
+ * Upgrade CLI command.
+ *
+ * Provides `upgrade [pack]`: move the archetypes generated into a project to
+ * a newer installed pack version, three-way merging with the user's edits.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { Command } from "commander";
+import { initStorePaths } from "../../core/utils/paths.js";
+import { toUserMessage, ScaffoldError } from "../../core/errors/errors.js";
+import { handleUpgrade, formatUpgradeOutput } from "../handlers/upgradeHandler.js";
+
+/**
+ * Builds the `upgrade` command.
+ *
+ * @returns Configured Commander command
+ */
+export function buildUpgradeCommand(): Command {
+  return new Command("upgrade")
+    .description("Upgrade generated archetypes to a newer pack version, merging your changes")
+    .argument("[pack]", "Only upgrade archetypes generated from this pack (default: all)")
+    .option("--target <dir>", "Project directory", ".")
+    .option("--to <version>", "Pack version to upgrade to: exact (0.2.0) or range (^0.2)")
+    .option("--reject", "Keep your side of conflicts and write the rest to .rej files", false)
+    .option("--allow-downgrade", "Allow --to a version lower than the project's", false)
+    .action(
+      async (
+        pack: string | undefined,
+        options: { target: string; to?: string; reject: boolean; allowDowngrade: boolean },
+      ) => {
+        try {
+          const storePaths = initStorePaths();
+
+          const result = await handleUpgrade(
+            {
+              targetDir: path.resolve(process.cwd(), options.target),
+              packId: pack,
+              version: options.to,
+              reject: options.reject,
+              allowDowngrade: options.allowDowngrade,
+            },
+            {
+              registryFile: storePaths.registryFile,
+              packsDir: storePaths.packsDir,
+              storeDir: storePaths.storeDir,
+            },
+          );
+
+          for (const line of formatUpgradeOutput(result)) {
+            process.stdout.write(line + "\n");
+          }
+        } catch (err) {
+          // Format error for user
+          const userMessage = toUserMessage(err);
+          const prefix = userMessage.code ? `${userMessage.code}: ` : "";
+
+          // Include hint if available
+          let output = `Error: ${prefix}${userMessage.message}`;
+          if (err instanceof ScaffoldError && err.hint) {
+            output += `\n\nHint: ${err.hint}`;
+          }
+
+          process.stderr.write(output + "\n");
+          process.exitCode = 1;
+        }
+      },
+    );
+}
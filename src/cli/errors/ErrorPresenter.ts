@@ -167,11 +167,23 @@ function normalizeError(error: unknown): ScaffoldError {
 
 /**
  * Formats error details for display.
+ *
+ * A `file` with a numeric `line` (and optional `column`), as reported for
+ * template errors, is shown as a single `Location: file:line:column` entry.
  */
 function formatDetails(details: Record<string, unknown>): string[] {
   const lines: string[] = [];
+  const location = formatLocation(details);
+  const positionKeys = location ? ["file", "line", "column"] : [];
+
+  if (location) {
+    lines.push(`Location: ${location}`);
+  }
 
   for (const [key, value] of Object.entries(details)) {
+    if (positionKeys.includes(key)) {
+      continue;
+    }
     if (Array.isArray(value)) {
       // Special handling for arrays (e.g., conflictingFiles, errors)
       if (value.length > 0) {
@@ -190,6 +202,17 @@ function formatDetails(details: Record<string, unknown>): string[] {
   return lines;
 }
 
+/**
+ * Formats `file:line:column` from error details, if they carry a position.
+ */
+function formatLocation(details: Record<string, unknown>): string | undefined {
+  const { file, line, column } = details;
+  if (typeof file !== "string" || typeof line !== "number") {
+    return undefined;
+  }
+  return typeof column === "number" ? `${file}:${line}:${column}` : `${file}:${line}`;
+}
+
 /**
  * Formats a camelCase key for display.
  */
@@ -0,0 +1,131 @@
+/**
+ * Handler for the `drift` CLI command.
+ *
+ * Compares the files recorded in the project's generation reports with the
+ * project, and reports each as unchanged, modified by the user, or deleted
+ * since it was generated.
+ *
+ * @module
+ */
+
+import { ProjectStateManager } from "../../core/state/ProjectStateManager.js";
+import {
+  collectOwnedFiles,
+  detectDrift,
+  type DriftEntry,
+  type DriftStatus,
+} from "../../core/state/FileOwnership.js";
+import { formatJsonOutput } from "../ux/CliJson.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for the drift handler.
+ */
+export interface DriftInput {
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+}
+
+/**
+ * Result of the drift operation.
+ */
+export interface DriftResult {
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** Generated files compared with the project, sorted by path */
+  readonly files: DriftEntry[];
+
+  /** Number of files in each state */
+  readonly summary: Record<DriftStatus, number>;
+}
+
+// =============================================================================
+// Handler Implementation
+// =============================================================================
+
+/**
+ * Handles the `drift` command.
+ *
+ * Only files recorded by generations since file tracking (state v3) are
+ * compared; a project without state has no generated files.
+ *
+ * @param input - Project directory
+ * @returns Drift state of every generated file
+ * @throws ScaffoldError if the state file is invalid
+ */
+export async function handleDrift(input: DriftInput): Promise<DriftResult> {
+  const { targetDir } = input;
+  const state = await new ProjectStateManager().read(targetDir);
+
+  const files = await detectDrift(targetDir, collectOwnedFiles(state));
+  const summary: Record<DriftStatus, number> = { unchanged: 0, modified: 0, deleted: 0 };
+  for (const file of files) {
+    summary[file.status]++;
+  }
+
+  return { targetDir, files, summary };
+}
+
+// =============================================================================
+// Output Formatting
+// =============================================================================
+
+/**
+ * Formats the drift result for CLI output.
+ *
+ * @param result - The drift result
+ * @returns Array of output lines
+ */
+export function formatDriftOutput(result: DriftResult): string[] {
+  if (result.files.length === 0) {
+    return [
+      `No generated files are recorded in ${result.targetDir}.`,
+      "Files are tracked from the next `scaffoldix generate` on.",
+    ];
+  }
+
+  const statusWidth = Math.max(...result.files.map((f) => f.status.length), "STATUS".length);
+  const pathWidth = Math.max(...result.files.map((f) => f.path.length), "FILE".length);
+
+  const lines: string[] = [];
+  const header = `${"STATUS".padEnd(statusWidth)}  ${"FILE".padEnd(pathWidth)}  TEMPLATE`;
+  lines.push(header);
+  lines.push("-".repeat(header.length));
+
+  for (const file of result.files) {
+    lines.push(
+      `${file.status.padEnd(statusWidth)}  ${file.path.padEnd(pathWidth)}  ${file.template ?? "(patched)"}`.trimEnd(),
+    );
+  }
+
+  const { unchanged, modified, deleted } = result.summary;
+  lines.push("");
+  lines.push(
+    `${result.files.length} generated file(s): ${unchanged} unchanged, ` +
+      `${modified} modified, ${deleted} deleted`,
+  );
+
+  return lines;
+}
+
+// =============================================================================
+// JSON Output
+// =============================================================================
+
+/**
+ * Formats the drift result as JSON.
+ *
+ * @param result - The drift result
+ * @returns JSON string
+ */
+export function formatDriftJson(result: DriftResult): string {
+  return formatJsonOutput({
+    targetDir: result.targetDir,
+    summary: result.summary,
+    files: result.files,
+  });
+}
@@ -15,7 +15,12 @@ import * as path from "node:path";
 import * as crypto from "node:crypto";
 import { ScaffoldError } from "../../core/errors/errors.js";
 import { PackResolver } from "../../core/store/PackResolver.js";
-import { ManifestLoader, type PackManifest } from "../../core/manifest/ManifestLoader.js";
+import {
+  ManifestLoader,
+  type PackManifest,
+  type Archetype,
+  type ManifestInputDefinition,
+} from "../../core/manifest/ManifestLoader.js";
 import { CompatibilityChecker } from "../../core/compatibility/CompatibilityChecker.js";
 import { CLI_VERSION } from "../version.js";
 import {
@@ -23,7 +28,13 @@ import {
   computeRenderPlan,
   type FileEntry,
   type RenameRules,
+  type RenderParams,
 } from "../../core/render/Renderer.js";
+import { resolveRenameRules } from "../../core/render/RenameResolver.js";
+import { resolveFanOut } from "../../core/render/FanOut.js";
+import type { EscapeHtmlSetting } from "../../core/render/EscapePolicy.js";
+import { loadPackTemplateEngine } from "../../core/render/PackTemplateEngine.js";
+import type { TemplateEngine } from "../../core/render/TemplateHelpers.js";
 import { ConflictDetector, GenerateConflictError } from "../../core/conflicts/ConflictDetector.js";
 import {
   ProjectStateManager,
@@ -31,8 +42,15 @@ import {
   type PatchItem,
   type CommandItem,
 } from "../../core/state/ProjectStateManager.js";
+import { hashGeneratedFiles } from "../../core/state/FileOwnership.js";
+import {
+  listGenerations,
+  findGeneration,
+  isPatchRevert,
+} from "../../core/state/GenerationHistory.js";
 import { PatchEngine, type PatchApplySummary } from "../../core/patch/PatchEngine.js";
 import { PatchResolver } from "../../core/patch/PatchResolver.js";
+import { collectAppliedPatches, type AppliedPatch } from "../../core/patch/AppliedPatches.js";
 import {
   HookRunner,
   type HookRunSummary,
@@ -61,13 +79,15 @@ import { printDryRunPreview } from "../printers/DryRunPreviewPrinter.js";
 export interface ArchetypeRef {
   readonly packId: string;
   readonly archetypeId: string;
+  /** Version or range from `pack@version:archetype`, if given */
+  readonly version?: string;
 }
 
 /**
  * Input for the generate handler.
  */
 export interface GenerateInput {
-  /** Archetype reference in "packId:archetypeId" format */
+  /** Archetype reference in "packId:archetypeId" or "packId@version:archetypeId" format */
   readonly ref: string;
 
   /** Target directory for generated files */
@@ -79,10 +99,16 @@ export interface GenerateInput {
   /** Data to pass to templates (collected from user or defaults) */
   readonly data: Record<string, unknown>;
 
-  /** Optional rename rules for filename placeholders */
+  /**
+   * Optional rename rules for filename placeholders.
+   * Merged over the rules derived from inputs and the manifest `rename:` section.
+   */
   readonly renameRules?: RenameRules;
 
-  /** Optional version to select (for multi-version packs) */
+  /**
+   * Optional exact version or range to select (for multi-version packs).
+   * Must agree with the version in `ref`, if both are given.
+   */
   readonly version?: string;
 
   /** Whether running in non-interactive mode (--yes) */
@@ -93,6 +119,46 @@ export interface GenerateInput {
 
   /** Whether to overwrite existing files (--force) */
   readonly force?: boolean;
+
+  /**
+   * Whether missing template variables and helpers fail generation (--strict).
+   * Enables strict mode on top of the pack/archetype `strict` settings.
+   */
+  readonly strict?: boolean;
+}
+
+/**
+ * Input for resolving a replay (`generate --replay`).
+ */
+export interface ReplayInput {
+  /** Generation ID, unique ID prefix, or `last` */
+  readonly generation: string;
+
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+
+  /** Exact version or range to replay against instead of the recorded version */
+  readonly version?: string;
+
+  /** Input values that override the recorded ones (--set, --inputs) */
+  readonly overrides?: Record<string, unknown>;
+}
+
+/**
+ * What a replay generates: the recorded pack, archetype and inputs.
+ */
+export interface ReplayPlan {
+  /** The generation being replayed */
+  readonly generation: GenerationReport;
+
+  /** Archetype reference in "packId:archetypeId" format */
+  readonly ref: string;
+
+  /** Pack version to generate with */
+  readonly version: string;
+
+  /** Recorded inputs with the overrides applied */
+  readonly data: Record<string, unknown>;
 }
 
 /**
@@ -127,13 +193,25 @@ export interface PatchReportEntry {
 
   /** Reason for skip or failure */
   readonly reason?: string;
+
+  /** Keys changed by a structural merge (e.g. `dependencies.zod`) */
+  readonly changedKeys?: string[];
+
+  /** Content hash of a stamp-less patch (`stamp: none`) */
+  readonly contentHash?: string;
+
+  /** Lines inserted under the stamp (for reverting the patch) */
+  readonly lines?: number;
+
+  /** Exact text inserted, stamp included (for reverting the patch) */
+  readonly inserted?: string;
 }
 
 /**
  * Patch application summary.
  */
 export interface PatchReport {
-  /** Total patches in manifest */
+  /** Total patch entries (one per target file, or per skipped patch) */
   readonly total: number;
 
   /** Patches successfully applied */
@@ -294,18 +372,53 @@ function deriveStorePath(packsDir: string, packId: string, hash: string): string
   return path.join(packsDir, sanitizedId, hash);
 }
 
+/**
+ * Converts a manifest input definition into the resolver's InputDefinition.
+ *
+ * Carries every validation rule (length, regex, range, integer), custom
+ * messages and the `when` condition, so generate enforces the same rules
+ * the manifest declares in both interactive and --yes modes.
+ */
+export function toInputDefinition(input: ManifestInputDefinition): InputDefinition {
+  return {
+    name: input.name,
+    type: input.type ?? "string",
+    required: input.required,
+    default: input.default,
+    prompt: input.prompt,
+    description: input.description,
+    minLength: input.minLength,
+    maxLength: input.maxLength,
+    regex: input.regex,
+    min: input.min,
+    max: input.max,
+    integer: input.integer,
+    options: input.options,
+    messages: input.messages,
+    when: input.when,
+  };
+}
+
 /**
  * Input for applying patches.
  */
-interface ApplyPatchesInput {
+export interface ApplyPatchesInput {
   readonly patches: NonNullable<
     import("../../core/manifest/ManifestLoader.js").Archetype["patches"]
   >;
   readonly data: Record<string, unknown>;
   readonly packStorePath: string;
+  /** Directory the patches are applied in (staging) */
   readonly targetDir: string;
+  /** Project directory: globs also match its files, which are copied into targetDir */
+  readonly projectDir: string;
+  readonly stagingManager: StagingManager;
   readonly packId: string;
   readonly archetypeId: string;
+  readonly escapeHtml?: EscapeHtmlSetting;
+  readonly strict?: boolean;
+  readonly templateEngine?: TemplateEngine;
+  readonly appliedPatches?: ReadonlyMap<string, AppliedPatch>;
 }
 
 /**
@@ -350,11 +463,27 @@ function createCheckLogger(): CheckLogger {
 /**
  * Applies patches from manifest to target directory.
  *
+ * Patch targets are expanded against the staging and project directories,
+ * and the project files they resolve to are copied into staging first.
+ *
  * @param input - Patches and context
  * @returns Patch application report
  */
-async function applyPatches(input: ApplyPatchesInput): Promise<PatchReport> {
-  const { patches, data, packStorePath, targetDir, packId, archetypeId } = input;
+export async function applyPatches(input: ApplyPatchesInput): Promise<PatchReport> {
+  const {
+    patches,
+    data,
+    packStorePath,
+    targetDir,
+    projectDir,
+    stagingManager,
+    packId,
+    archetypeId,
+    escapeHtml,
+    strict,
+    templateEngine,
+    appliedPatches,
+  } = input;
 
   // 1. Resolve patch content (template rendering)
   const resolver = new PatchResolver();
@@ -362,9 +491,23 @@ async function applyPatches(input: ApplyPatchesInput): Promise<PatchReport> {
     patches,
     data,
     packStorePath,
+    escapeHtml,
+    strict,
+    engine: templateEngine,
+    roots: [targetDir, projectDir],
   });
 
-  // 2. Apply patches using PatchEngine
+  // 2. Patches may target project files that were not rendered
+  const overlaid = await stagingManager.overlay(
+    targetDir,
+    projectDir,
+    resolved.operations.map((op) => op.file),
+  );
+  if (overlaid.length > 0) {
+    console.log(`[staging] Copied ${overlaid.length} existing file(s) for patching...`);
+  }
+
+  // 3. Apply patches using PatchEngine
   const engine = new PatchEngine();
   let summary: PatchApplySummary;
 
@@ -372,6 +515,7 @@ async function applyPatches(input: ApplyPatchesInput): Promise<PatchReport> {
     summary = await engine.applyAll(resolved.operations, {
       rootDir: targetDir,
       strict: true,
+      appliedPatches,
     });
   } catch (error) {
     // If PatchEngine throws (vs returning failed status), wrap it
@@ -390,32 +534,271 @@ async function applyPatches(input: ApplyPatchesInput): Promise<PatchReport> {
     );
   }
 
-  // 3. Convert to PatchReport format
+  // 4. Convert to PatchReport format, putting condition skips back in manifest order
   const entries: PatchReportEntry[] = summary.results.map((r) => ({
     kind: r.kind,
     file: r.file,
     idempotencyKey: r.idempotencyKey,
     status: r.status,
     reason: r.reason,
+    changedKeys: r.changedKeys,
+    contentHash: r.contentHash,
+    lines: r.lines,
+    inserted: r.inserted,
   }));
+  for (const { index, kind, file, idempotencyKey, reason } of resolved.skipped) {
+    entries.splice(index, 0, { kind, file, idempotencyKey, status: "skipped", reason });
+  }
 
   return {
-    total: patches.length,
+    total: entries.length,
     applied: summary.applied,
-    skipped: summary.skipped,
+    skipped: summary.skipped + resolved.skipped.length,
     failed: summary.failed,
     entries,
   };
 }
 
+// =============================================================================
+// Archetype Loading
+// =============================================================================
+
+/**
+ * An archetype of an installed pack version, loaded from the store.
+ */
+export interface LoadedArchetype {
+  /** Pack identifier */
+  readonly packId: string;
+
+  /** Resolved pack version */
+  readonly packVersion: string;
+
+  /** Pack directory in the store */
+  readonly storePath: string;
+
+  /** Pack manifest */
+  readonly manifest: PackManifest;
+
+  /** The archetype's manifest entry */
+  readonly archetype: Archetype;
+
+  /** Absolute path to the archetype's template directory */
+  readonly templateDir: string;
+
+  /** Isolated template engine, when the pack ships partials or helpers */
+  readonly templateEngine?: TemplateEngine;
+}
+
+/**
+ * Settings for rendering a loaded archetype with resolved inputs. Shared by
+ * the conflict check, the dry-run preview and rendering.
+ */
+export type ArchetypeRenderSettings = Omit<RenderParams, "targetDir" | "dryRun" | "force"> & {
+  readonly renameRules: RenameRules;
+};
+
+/**
+ * Loads an archetype from an installed pack version.
+ *
+ * ## Process
+ *
+ * 1. Resolve the pack version in the registry
+ * 2. Validate the pack store path exists
+ * 3. Load the manifest, check compatibility and find the archetype
+ * 4. Validate the template directory exists
+ * 5. Load the pack's partials and helpers
+ *
+ * @param ref - Pack ID, archetype ID and optional version or range
+ * @param deps - Registry file and packs directory
+ * @param trace - Trace the steps are recorded in
+ * @returns The loaded archetype
+ * @throws ScaffoldError if the pack version is not installed or the archetype cannot be loaded
+ */
+export async function loadArchetype(
+  ref: ArchetypeRef,
+  deps: Pick<GenerateDependencies, "registryFile" | "packsDir">,
+  trace: EngineTrace = new EngineTrace(),
+): Promise<LoadedArchetype> {
+  const { packId, archetypeId, version } = ref;
+  const { registryFile, packsDir } = deps;
+
+  // 1. Resolve pack version (supports multi-version selection)
+  trace.start("resolve pack", { packId });
+  const resolver = new PackResolver(registryFile);
+  const resolvedPack = await resolver.resolve(packId, version);
+
+  // Get full entry for pack version/origin metadata
+  const packEntry = {
+    id: packId,
+    version: resolvedPack.version,
+    hash: resolvedPack.hash,
+    origin: resolvedPack.origin,
+    installedAt: resolvedPack.installedAt,
+  };
+  trace.end("resolve pack");
+
+  // 2. Validate pack store path exists
+  trace.start("validate store path", { packId });
+  const storePath = deriveStorePath(packsDir, packEntry.id, packEntry.hash);
+
+  try {
+    await fs.access(storePath);
+  } catch {
+    trace.end("validate store path");
+    throw new ScaffoldError(
+      `Pack is registered but missing from store`,
+      "PACK_STORE_MISSING",
+      {
+        packId,
+        storePath,
+        hash: packEntry.hash,
+      },
+      undefined,
+      `Pack '${packId}' is registered but its files are missing from the store at ${storePath}. ` +
+        `Try reinstalling the pack with \`scaffoldix pack add <path>\`.`,
+      undefined,
+      true,
+    );
+  }
+  trace.end("validate store path");
+
+  // 3. Load manifest and find archetype
+  trace.start("load manifest", { packId });
+  const manifestLoader = new ManifestLoader();
+  const manifest = await manifestLoader.loadFromDir(storePath);
+
+  // Check pack compatibility with current CLI version
+  validateCompatibility(manifest);
+  trace.end("load manifest");
+
+  trace.start("find archetype", { packId, archetypeId });
+  const archetype = manifest.archetypes.find((a) => a.id === archetypeId);
+
+  if (!archetype) {
+    trace.end("find archetype");
+    const availableArchetypes = manifest.archetypes.map((a) => a.id).join(", ");
+    throw new ScaffoldError(
+      `Archetype '${archetypeId}' not found in pack '${packId}'`,
+      "ARCHETYPE_NOT_FOUND",
+      {
+        packId,
+        archetypeId,
+        availableArchetypes: manifest.archetypes.map((a) => a.id),
+      },
+      undefined,
+      `Archetype '${archetypeId}' does not exist in pack '${packId}'. ` +
+        `Available archetypes: ${availableArchetypes}. ` +
+        `Run \`scaffoldix pack info ${packId}\` to see all archetypes.`,
+      undefined,
+      true,
+    );
+  }
+  trace.end("find archetype");
+
+  // 4. Validate template directory exists
+  trace.start("validate template dir", { archetypeId });
+  const templateDir = path.join(storePath, archetype.templateRoot);
+
+  try {
+    const stat = await fs.stat(templateDir);
+    if (!stat.isDirectory()) {
+      throw new Error("Not a directory");
+    }
+  } catch {
+    trace.end("validate template dir");
+    throw new ScaffoldError(
+      `Template directory not found`,
+      "TEMPLATE_DIR_NOT_FOUND",
+      {
+        packId,
+        archetypeId,
+        templateRoot: archetype.templateRoot,
+        templateDir,
+      },
+      undefined,
+      `The template directory '${archetype.templateRoot}' does not exist in pack '${packId}'. ` +
+        `Expected at: ${templateDir}. ` +
+        `The pack may be corrupted. Try reinstalling with \`scaffoldix pack add <path>\`.`,
+      undefined,
+      true,
+    );
+  }
+  trace.end("validate template dir");
+
+  // 5. Build an isolated template engine when the pack ships partials/helpers
+  const { partials, helpers } = manifest.scaffoldix ?? {};
+  let templateEngine: TemplateEngine | undefined;
+  if (partials || (helpers && helpers.length > 0)) {
+    trace.start("load pack helpers", { packId });
+    templateEngine = await loadPackTemplateEngine({ packDir: storePath, partials, helpers });
+    trace.end("load pack helpers");
+  }
+
+  return {
+    packId,
+    packVersion: packEntry.version,
+    storePath,
+    manifest,
+    archetype,
+    templateDir,
+    templateEngine,
+  };
+}
+
+/**
+ * Resolves how an archetype renders with the given inputs: filename rename
+ * rules, fan-out instances, HTML escaping, template modes and strictness.
+ *
+ * @param loaded - The loaded archetype
+ * @param data - Resolved inputs
+ * @param options - Explicit rename rules and the `--strict` flag
+ * @returns Render settings (everything but the target directory)
+ */
+export function resolveRenderSettings(
+  loaded: LoadedArchetype,
+  data: Record<string, unknown>,
+  options: { readonly renameRules?: RenameRules; readonly strict?: boolean } = {},
+): ArchetypeRenderSettings {
+  const { manifest, archetype, templateEngine } = loaded;
+
+  return {
+    templateDir: loaded.templateDir,
+    data,
+    // Filename rename rules from inputs and manifest
+    renameRules: resolveRenameRules({
+      data,
+      rename: archetype.rename,
+      explicit: options.renameRules,
+      engine: templateEngine,
+    }),
+    // Fan-out templates expand into one instance per list element
+    fanOut: resolveFanOut({
+      rules: archetype.fanOut,
+      data,
+      rename: archetype.rename,
+      explicit: options.renameRules,
+      engine: templateEngine,
+    }),
+    // Archetype escaping setting overrides the pack-wide one
+    escapeHtml: archetype.escapeHtml ?? manifest.scaffoldix?.escapeHtml,
+    engine: templateEngine,
+    fileRules: archetype.files,
+    // Verbatim copies and custom delimiters, by template glob
+    templateModes: { copy: archetype.copy, delimiters: archetype.delimiters },
+    // --strict always wins; otherwise the archetype setting overrides the pack-wide one
+    strict: options.strict || (archetype.strict ?? manifest.scaffoldix?.strict ?? false),
+  };
+}
+
 // =============================================================================
 // Public API
 // =============================================================================
 
 /**
- * Parses an archetype reference string into packId and archetypeId.
+ * Parses an archetype reference string into packId, archetypeId and
+ * an optional pack version.
  *
- * @param ref - Reference string in "packId:archetypeId" format
+ * @param ref - Reference string in "packId[@version]:archetypeId" format
  * @returns Parsed reference
  * @throws ScaffoldError if format is invalid
  *
@@ -425,6 +808,9 @@ async function applyPatches(input: ApplyPatchesInput): Promise<PatchReport> {
  *
  * parseArchetypeRef("@org/pack:component")
  * // => { packId: "@org/pack", archetypeId: "component" }
+ *
+ * parseArchetypeRef("@org/pack@^1.2:component")
+ * // => { packId: "@org/pack", archetypeId: "component", version: "^1.2" }
  */
 export function parseArchetypeRef(ref: string): ArchetypeRef {
   // Find the last colon (to handle scoped packages like @org/pack:arch)
@@ -443,9 +829,15 @@ export function parseArchetypeRef(ref: string): ArchetypeRef {
     );
   }
 
-  const packId = ref.slice(0, lastColonIndex).trim();
+  const packPart = ref.slice(0, lastColonIndex).trim();
   const archetypeId = ref.slice(lastColonIndex + 1).trim();
 
+  // A version follows the last "@" that isn't the scope prefix
+  const versionSeparatorIndex = packPart.lastIndexOf("@");
+  const hasVersion = versionSeparatorIndex > 0;
+  const packId = hasVersion ? packPart.slice(0, versionSeparatorIndex).trim() : packPart;
+  const version = hasVersion ? packPart.slice(versionSeparatorIndex + 1).trim() : undefined;
+
   if (!packId) {
     throw new ScaffoldError(
       `Invalid archetype reference: missing pack ID`,
@@ -472,7 +864,20 @@ export function parseArchetypeRef(ref: string): ArchetypeRef {
     );
   }
 
-  return { packId, archetypeId };
+  if (version === "") {
+    throw new ScaffoldError(
+      `Invalid archetype reference: missing pack version`,
+      "INVALID_ARCHETYPE_REF",
+      { ref },
+      undefined,
+      `Expected format: packId@version:archetypeId (e.g., "java-spring@1.2.0:base-entity"). ` +
+        `Version cannot be empty after "@".`,
+      undefined,
+      true,
+    );
+  }
+
+  return version ? { packId, archetypeId, version } : { packId, archetypeId };
 }
 
 /**
@@ -487,11 +892,11 @@ export function parseArchetypeRef(ref: string): ArchetypeRef {
  * 5. Validate template directory exists
  * 6. For non-dry-run: create staging directory
  * 7. Render templates to staging (or dry-run plan)
- * 8. Apply patches in staging
+ * 8. Apply patches in staging (existing target files they touch are overlaid first)
  * 9. Run postGenerate hooks in staging
  * 10. Run checks in staging
  * 11. Write state.json in staging
- * 12. Commit staging to target (atomic move)
+ * 12. Commit staging to target (moved, or merged into an existing target)
  *
  * ## Transactional Semantics
  *
@@ -515,91 +920,33 @@ export async function handleGenerate(
   const trace = new EngineTrace();
 
   // 1. Parse archetype reference
-  const { packId, archetypeId } = parseArchetypeRef(ref);
-
-  // 2. Resolve pack version (supports multi-version selection)
-  trace.start("resolve pack", { packId });
-  const resolver = new PackResolver(registryFile);
-  const resolvedPack = await resolver.resolve(packId, version);
-
-  // Get full entry for pack version/origin metadata
-  const packEntry = {
-    id: packId,
-    version: resolvedPack.version,
-    hash: resolvedPack.hash,
-    origin: resolvedPack.origin,
-    installedAt: resolvedPack.installedAt,
-  };
-  trace.end("resolve pack");
+  const { packId, archetypeId, version: refVersion } = parseArchetypeRef(ref);
 
-  // 3. Validate pack store path exists
-  trace.start("validate store path", { packId });
-  const storePath = deriveStorePath(packsDir, packEntry.id, packEntry.hash);
-
-  try {
-    await fs.access(storePath);
-  } catch {
-    trace.end("validate store path");
+  if (refVersion && version && refVersion !== version) {
     throw new ScaffoldError(
-      `Pack is registered but missing from store`,
-      "PACK_STORE_MISSING",
-      {
-        packId,
-        storePath,
-        hash: packEntry.hash,
-      },
+      `Conflicting pack versions: '${refVersion}' in reference and '${version}' from --pack-version`,
+      "PACK_VERSION_CONFLICT",
+      { packId, refVersion, version },
       undefined,
-      `Pack '${packId}' is registered but its files are missing from the store at ${storePath}. ` +
-        `Try reinstalling the pack with \`scaffoldix pack add <path>\`.`,
+      `Specify the pack version either in the reference (${packId}@<version>:${archetypeId}) ` +
+        `or with --pack-version, not both.`,
       undefined,
       true,
     );
   }
-  trace.end("validate store path");
+  const requestedVersion = refVersion ?? version;
 
-  // 4. Load manifest and find archetype
-  trace.start("load manifest", { packId });
-  const manifestLoader = new ManifestLoader();
-  const manifest = await manifestLoader.loadFromDir(storePath);
-
-  // Check pack compatibility with current CLI version
-  validateCompatibility(manifest);
-  trace.end("load manifest");
-
-  trace.start("find archetype", { packId, archetypeId });
-  const archetype = manifest.archetypes.find((a) => a.id === archetypeId);
-
-  if (!archetype) {
-    trace.end("find archetype");
-    const availableArchetypes = manifest.archetypes.map((a) => a.id).join(", ");
-    throw new ScaffoldError(
-      `Archetype '${archetypeId}' not found in pack '${packId}'`,
-      "ARCHETYPE_NOT_FOUND",
-      {
-        packId,
-        archetypeId,
-        availableArchetypes: manifest.archetypes.map((a) => a.id),
-      },
-      undefined,
-      `Archetype '${archetypeId}' does not exist in pack '${packId}'. ` +
-        `Available archetypes: ${availableArchetypes}. ` +
-        `Run \`scaffoldix pack info ${packId}\` to see all archetypes.`,
-      undefined,
-      true,
-    );
-  }
-  trace.end("find archetype");
+  // 2-5. Resolve the pack version and load the archetype from the store
+  const loaded = await loadArchetype(
+    { packId, archetypeId, version: requestedVersion },
+    deps,
+    trace,
+  );
+  const { storePath, archetype } = loaded;
 
-  // 4b. Resolve inputs from archetype schema
+  // 5b. Resolve inputs from archetype schema
   trace.start("resolve inputs", { archetypeId });
-  const inputsSchema: InputDefinition[] | undefined = archetype.inputs?.map((inp) => ({
-    name: inp.name,
-    type: inp.type ?? "string",
-    required: inp.required,
-    default: inp.default,
-    prompt: inp.prompt,
-    options: inp.options,
-  }));
+  const inputsSchema: InputDefinition[] | undefined = archetype.inputs?.map(toInputDefinition);
 
   const resolvedData = await resolveInputs({
     inputsSchema,
@@ -610,45 +957,19 @@ export async function handleGenerate(
   });
   trace.end("resolve inputs");
 
-  // 5. Validate template directory exists
-  trace.start("validate template dir", { archetypeId });
-  const templateDir = path.join(storePath, archetype.templateRoot);
-
-  try {
-    const stat = await fs.stat(templateDir);
-    if (!stat.isDirectory()) {
-      throw new Error("Not a directory");
-    }
-  } catch {
-    trace.end("validate template dir");
-    throw new ScaffoldError(
-      `Template directory not found`,
-      "TEMPLATE_DIR_NOT_FOUND",
-      {
-        packId,
-        archetypeId,
-        templateRoot: archetype.templateRoot,
-        templateDir,
-      },
-      undefined,
-      `The template directory '${archetype.templateRoot}' does not exist in pack '${packId}'. ` +
-        `Expected at: ${templateDir}. ` +
-        `The pack may be corrupted. Try reinstalling with \`scaffoldix pack add <path>\`.`,
-      undefined,
-      true,
-    );
-  }
-  trace.end("validate template dir");
+  // 5c. Resolve rename rules, fan-out, escaping, template modes and strictness
+  const settings = resolveRenderSettings(loaded, resolvedData, {
+    renameRules,
+    strict: input.strict,
+  });
+  const { escapeHtml, strict } = settings;
 
   // ===========================================================================
   // Conflict Detection - Check against ACTUAL target before staging
   // ===========================================================================
 
   trace.start("detect conflicts");
-  const renderPlan = await computeRenderPlan({
-    templateDir,
-    renameRules,
-  });
+  const renderPlan = await computeRenderPlan(settings);
 
   const conflictDetector = new ConflictDetector();
   const conflictReport = await conflictDetector.detectConflicts({
@@ -683,12 +1004,7 @@ export async function handleGenerate(
 
     // Compute full preview with CREATE/MODIFY/NOOP analysis
     const previewPlanner = new PreviewPlanner();
-    const previewReport = await previewPlanner.computePreview({
-      templateDir,
-      targetDir,
-      data: resolvedData,
-      renameRules,
-    });
+    const previewReport = await previewPlanner.computePreview({ ...settings, targetDir });
 
     trace.end("compute preview");
 
@@ -700,14 +1016,14 @@ export async function handleGenerate(
       srcRelativePath: f.sourceTemplate,
       destRelativePath: f.relativePath,
       destAbsolutePath: f.absolutePath,
-      mode: f.isBinary ? "copied" : "rendered",
+      mode: f.mode,
     }));
 
     const filesWouldOverwrite: FileEntry[] = previewReport.modifies.map((f) => ({
       srcRelativePath: f.sourceTemplate,
       destRelativePath: f.relativePath,
       destAbsolutePath: f.absolutePath,
-      mode: f.isBinary ? "copied" : "rendered",
+      mode: f.mode,
     }));
 
     const patches = archetype.patches;
@@ -765,10 +1081,8 @@ export async function handleGenerate(
     trace.start("render templates");
     console.log(`[staging] Rendering templates...`);
     renderResult = await renderArchetype({
-      templateDir,
+      ...settings,
       targetDir: stagingDir, // Render to staging, not target
-      data: resolvedData,
-      renameRules,
       dryRun: false,
       force,
     });
@@ -780,14 +1094,21 @@ export async function handleGenerate(
 
     if (hasPatches) {
       trace.start("apply patches", { count: patches.length });
+
       console.log(`[staging] Applying patches...`);
       patchReport = await applyPatches({
         patches,
         data: resolvedData,
         packStorePath: storePath,
         targetDir: stagingDir, // Patches in staging
+        projectDir: targetDir,
+        stagingManager,
         packId,
         archetypeId,
+        escapeHtml,
+        strict,
+        templateEngine: loaded.templateEngine,
+        appliedPatches: collectAppliedPatches(await new ProjectStateManager().read(targetDir)),
       });
       trace.end("apply patches");
 
@@ -877,7 +1198,7 @@ export async function handleGenerate(
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       packId,
-      packVersion: packEntry.version,
+      packVersion: loaded.packVersion,
       archetypeId,
       inputs: resolvedData,
       status: "success",
@@ -897,6 +1218,10 @@ export async function handleGenerate(
             idempotencyKey: e.idempotencyKey,
             status: e.status,
             reason: e.reason,
+            changedKeys: e.changedKeys,
+            contentHash: e.contentHash,
+            lines: e.lines,
+            inserted: e.inserted,
           }),
         ),
       };
@@ -930,14 +1255,30 @@ export async function handleGenerate(
       };
     }
 
+    // Record the rendered and patched files with the content being committed
+    generationReport.files = await hashGeneratedFiles(stagingDir, [
+      ...renderResult.filesWritten.map((f) => ({
+        path: f.destRelativePath,
+        template: f.srcRelativePath,
+      })),
+      ...(patchReport?.entries ?? [])
+        .filter((e) => e.status === "applied")
+        .map((e) => ({ path: e.file })),
+    ]);
+
     await stateManager.recordGeneration(stagingDir, generationReport);
     trace.end("write state");
 
-    // 13. Commit staging to target (atomic move)
-    // Use force: true to allow overwriting existing target (regeneration use case)
+    // 13. Commit staging to target
+    // Merge into an existing target so project files outside staging are kept,
+    // backing up the files it replaces so `scaffoldix undo` can restore them
     trace.start("commit staging");
     console.log(`[staging] Committing to target: ${targetDir}`);
-    await stagingManager.commit(stagingDir, targetDir, { force: true });
+    await stagingManager.commit(stagingDir, targetDir, {
+      merge: true,
+      backupDir: stateManager.getBackupDir(targetDir, generationReport.id),
+    });
+    await stateManager.pruneBackups(targetDir);
     console.log(`[staging] Successfully committed to target.`);
     trace.end("commit staging");
   } catch (error) {
@@ -996,6 +1337,41 @@ export async function handleGenerate(
   };
 }
 
+/**
+ * Resolves a recorded generation into the generate input that replays it.
+ *
+ * The recorded pack, archetype, version and inputs are reused. A different
+ * version and input overrides can be given, e.g. to regenerate after fixing
+ * a template bug in a new pack version. Inputs the archetype no longer
+ * declares are ignored by input resolution. Patch revert records are not
+ * generations and cannot be replayed; `last` skips them.
+ *
+ * @param input - Generation reference, project directory, version and overrides
+ * @returns Reference, version and inputs for handleGenerate
+ * @throws ScaffoldError GENERATION_NOT_FOUND if no generation matches the reference
+ * @throws ScaffoldError GENERATION_REF_AMBIGUOUS if an ID prefix matches several generations
+ *
+ * @example
+ * const plan = await resolveReplay({ generation: "last", targetDir, overrides: { name: "Order" } });
+ * await handleGenerate({ ...plan, targetDir, dryRun: false, nonInteractive: true }, deps);
+ */
+export async function resolveReplay(input: ReplayInput): Promise<ReplayPlan> {
+  const { targetDir, version, overrides = {} } = input;
+  const state = await new ProjectStateManager().read(targetDir);
+  const generation = findGeneration(
+    listGenerations(state).filter((g) => !isPatchRevert(g)),
+    input.generation,
+    targetDir,
+  );
+
+  return {
+    generation,
+    ref: `${generation.packId}:${generation.archetypeId}`,
+    version: version ?? generation.packVersion,
+    data: { ...generation.inputs, ...overrides },
+  };
+}
+
 /**
  * Formats the generate result for CLI output.
  *
@@ -1109,6 +1485,9 @@ export function formatPatchReport(report: PatchReport): string {
       const status = entry.status.toUpperCase();
       const reason = entry.reason ? ` (${entry.reason})` : "";
       lines.push(`  [${status}] ${entry.kind} ${entry.file} (${entry.idempotencyKey})${reason}`);
+      if (entry.changedKeys && entry.changedKeys.length > 0) {
+        lines.push(`    changed: ${entry.changedKeys.join(", ")}`);
+      }
     }
   }
 
@@ -0,0 +1,271 @@
+/**
+ * Handler for the `history` and `history show <id>` CLI commands.
+ *
+ * Reads the generation reports that `generate` records in
+ * `.scaffoldix/state.json` (the last 50 generations) and lists them, or
+ * shows one report in full: inputs, patches, hooks and checks.
+ *
+ * @module
+ */
+
+import {
+  ProjectStateManager,
+  type GenerationReport,
+} from "../../core/state/ProjectStateManager.js";
+import { listGenerations, findGeneration } from "../../core/state/GenerationHistory.js";
+import { formatJsonOutput } from "../ux/CliJson.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for the history handler.
+ */
+export interface HistoryInput {
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+}
+
+/**
+ * Input for the history show handler.
+ */
+export interface HistoryShowInput extends HistoryInput {
+  /** Generation ID, unique ID prefix, or `last` */
+  readonly id: string;
+}
+
+/**
+ * One generation in the history list.
+ */
+export interface HistoryEntry {
+  /** Generation ID */
+  readonly id: string;
+
+  /** ISO 8601 timestamp */
+  readonly timestamp: string;
+
+  /** Pack identifier */
+  readonly packId: string;
+
+  /** Pack version */
+  readonly packVersion: string;
+
+  /** Archetype identifier */
+  readonly archetypeId: string;
+
+  /** Final status */
+  readonly status: GenerationReport["status"];
+
+  /** Stage that failed (failed generations only) */
+  readonly failureStage?: string;
+
+  /** When the generation was reverted by `undo` (reverted generations only) */
+  readonly revertedAt?: string;
+
+  /** Record kind (`patch-revert` for `patch revert` runs) */
+  readonly kind?: GenerationReport["kind"];
+}
+
+/**
+ * Result of the history operation.
+ */
+export interface HistoryResult {
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** Recorded generations, newest first */
+  readonly generations: HistoryEntry[];
+}
+
+/**
+ * Result of the history show operation.
+ */
+export interface HistoryShowResult {
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** The full generation report */
+  readonly generation: GenerationReport;
+}
+
+// =============================================================================
+// Handler Implementation
+// =============================================================================
+
+/**
+ * Handles the `history` command.
+ *
+ * A project without state has an empty history.
+ *
+ * @param input - Project directory
+ * @returns Recorded generations, newest first
+ * @throws ScaffoldError if the state file is invalid
+ */
+export async function handleHistory(input: HistoryInput): Promise<HistoryResult> {
+  const { targetDir } = input;
+  const state = await new ProjectStateManager().read(targetDir);
+
+  const generations = listGenerations(state)
+    .map((g) => ({
+      id: g.id,
+      timestamp: g.timestamp,
+      packId: g.packId,
+      packVersion: g.packVersion,
+      archetypeId: g.archetypeId,
+      status: g.status,
+      failureStage: g.error?.stage,
+      revertedAt: g.revertedAt,
+      kind: g.kind,
+    }))
+    .reverse();
+
+  return { targetDir, generations };
+}
+
+/**
+ * Handles the `history show <id>` command.
+ *
+ * @param input - Project directory and generation reference
+ * @returns The full generation report
+ * @throws ScaffoldError GENERATION_NOT_FOUND if no generation matches the reference
+ * @throws ScaffoldError GENERATION_REF_AMBIGUOUS if an ID prefix matches several generations
+ */
+export async function handleHistoryShow(input: HistoryShowInput): Promise<HistoryShowResult> {
+  const { targetDir, id } = input;
+  const state = await new ProjectStateManager().read(targetDir);
+
+  return { targetDir, generation: findGeneration(listGenerations(state), id, targetDir) };
+}
+
+// =============================================================================
+// Output Formatting
+// =============================================================================
+
+/**
+ * Formats the history result for CLI output.
+ *
+ * @param result - The history result
+ * @returns Array of output lines
+ */
+export function formatHistoryOutput(result: HistoryResult): string[] {
+  if (result.generations.length === 0) {
+    return [`No generations recorded in ${result.targetDir}.`];
+  }
+
+  const rows = result.generations.map((g) => [
+    g.id,
+    g.timestamp,
+    `${g.packId}@${g.packVersion}`,
+    g.archetypeId,
+    g.failureStage
+      ? `${g.status} (${g.failureStage})`
+      : [g.status, g.kind === "patch-revert" && "(patch revert)", g.revertedAt && "(reverted)"]
+          .filter(Boolean)
+          .join(" "),
+  ]);
+  const header = ["ID", "TIMESTAMP", "PACK", "ARCHETYPE", "STATUS"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]) : cell)).join("  ");
+
+  const lines = [formatRow(header)];
+  lines.push("-".repeat(lines[0].length));
+  for (const row of rows) {
+    lines.push(formatRow(row));
+  }
+
+  return lines;
+}
+
+/**
+ * Formats the history show result for CLI output.
+ *
+ * @param result - The history show result
+ * @returns Array of output lines
+ */
+export function formatHistoryShowOutput(result: HistoryShowResult): string[] {
+  const g = result.generation;
+  const lines: string[] = [];
+
+  lines.push(`Generation: ${g.id}`);
+  lines.push(`Timestamp: ${g.timestamp}`);
+  lines.push(`Pack: ${g.packId}@${g.packVersion}`);
+  lines.push(`Archetype: ${g.archetypeId}`);
+  lines.push(`Status: ${g.status}`);
+  if (g.kind === "patch-revert") {
+    lines.push("Kind: patch revert");
+  }
+  if (g.revertedAt) {
+    lines.push(`Reverted: ${g.revertedAt}`);
+  }
+  if (g.error) {
+    lines.push(`Failed at: ${g.error.stage}: ${g.error.message}`);
+    if (g.error.details) {
+      lines.push(`  ${g.error.details}`);
+    }
+  }
+
+  lines.push("");
+  const inputs = Object.entries(g.inputs);
+  lines.push(inputs.length > 0 ? "Inputs:" : "Inputs: (none)");
+  for (const [name, value] of inputs) {
+    lines.push(`  ${name}: ${JSON.stringify(value)}`);
+  }
+
+  if (g.patches) {
+    lines.push("");
+    lines.push(
+      `Patches: total=${g.patches.total} applied=${g.patches.applied} ` +
+        `skipped=${g.patches.skipped} failed=${g.patches.failed}`,
+    );
+    for (const item of g.patches.items) {
+      const reason = item.reason ? ` (${item.reason})` : "";
+      lines.push(
+        `  [${item.status.toUpperCase()}] ${item.kind} ${item.file} (${item.idempotencyKey})${reason}`,
+      );
+    }
+  }
+
+  for (const [title, summary] of [
+    ["Hooks", g.hooks],
+    ["Checks", g.checks],
+  ] as const) {
+    if (summary && summary.items.length > 0) {
+      lines.push("");
+      lines.push(`${title}:`);
+      for (const item of summary.items) {
+        const duration = item.durationMs !== undefined ? `, ${item.durationMs}ms` : "";
+        lines.push(
+          `  [${item.status.toUpperCase()}] ${item.command} (exit ${item.exitCode}${duration})`,
+        );
+      }
+    }
+  }
+
+  return lines;
+}
+
+// =============================================================================
+// JSON Output
+// =============================================================================
+
+/**
+ * Formats the history result as JSON.
+ *
+ * @param result - The history result
+ * @returns JSON string
+ */
+export function formatHistoryJson(result: HistoryResult): string {
+  return formatJsonOutput({ targetDir: result.targetDir, generations: result.generations });
+}
+
+/**
+ * Formats the history show result as JSON (the generation report as stored).
+ *
+ * @param result - The history show result
+ * @returns JSON string
+ */
+export function formatHistoryShowJson(result: HistoryShowResult): string {
+  return formatJsonOutput(result.generation);
+}
@@ -0,0 +1,212 @@
+/**
+ * Handler for the `patch revert` CLI command.
+ *
+ * Reverts a patch applied by an earlier generation: the block inserted under
+ * its `SCAFFOLDIX_PATCH:<key>` stamp is removed, together with the stamp. The
+ * `PatchItem` records in `.scaffoldix/state.json` say which files the key was
+ * applied to and how many lines each block has.
+ *
+ * The removals go through staging and are committed together, so a failure in
+ * any file leaves the project untouched. The revert is recorded in the project
+ * state as a `patch-revert` record with `remove` patch items, so later
+ * generations and reverts see the key as removed, and with the new content
+ * hashes of the edited files, so they do not show as drift. Its commit takes a
+ * backup, so `scaffoldix undo` can put the patch back.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import { ScaffoldError } from "../../core/errors/errors.js";
+import { PatchEngine, type PatchApplyResult } from "../../core/patch/PatchEngine.js";
+import { StagingManager } from "../../core/staging/StagingManager.js";
+import { collectAppliedPatches } from "../../core/patch/AppliedPatches.js";
+import { hashGeneratedFiles } from "../../core/state/FileOwnership.js";
+import {
+  ProjectStateManager,
+  type GenerationReport,
+} from "../../core/state/ProjectStateManager.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for the patch revert handler.
+ */
+export interface PatchRevertInput {
+  /** Idempotency key of the patch to revert */
+  readonly idempotencyKey: string;
+
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+
+  /** Only revert the patch in this file (relative to targetDir) */
+  readonly file?: string;
+}
+
+/**
+ * Dependencies for the patch revert handler.
+ */
+export interface PatchRevertDependencies {
+  /** Store directory holding the staging area */
+  readonly storeDir: string;
+}
+
+/**
+ * Result of reverting a patch.
+ */
+export interface PatchRevertResult {
+  /** Idempotency key that was reverted */
+  readonly idempotencyKey: string;
+
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** One result per file the patch was applied to */
+  readonly results: PatchApplyResult[];
+}
+
+// =============================================================================
+// Handler Implementation
+// =============================================================================
+
+/**
+ * Handles the `patch revert <key>` command.
+ *
+ * ## Process (Transactional)
+ *
+ * 1. Read the project state and collect the currently applied patches
+ * 2. Select the files the key was applied to (optionally one file)
+ * 3. Remove each block and its stamp with a `remove` operation in staging
+ * 4. Record the removals in the project state in staging
+ * 5. Commit staging to the project with a backup
+ *
+ * @param input - Key, project directory and optional file
+ * @param deps - Store directory for staging
+ * @returns Per-file results
+ * @throws ScaffoldError PATCH_NOT_APPLIED if the state has no applied patch with that key
+ * @throws ScaffoldError PATCH_REVERT_UNSUPPORTED if the patch kind cannot be reverted
+ */
+export async function handlePatchRevert(
+  input: PatchRevertInput,
+  deps: PatchRevertDependencies,
+): Promise<PatchRevertResult> {
+  const { idempotencyKey, targetDir, file } = input;
+
+  // 1. Collect applied patches
+  const stateManager = new ProjectStateManager();
+  const state = await stateManager.read(targetDir);
+  const applied = collectAppliedPatches(state);
+
+  // 2. Select the patch records for this key
+  const matches = [...applied.values()].filter(
+    (p) => p.idempotencyKey === idempotencyKey && (file === undefined || p.file === file),
+  );
+
+  if (matches.length === 0) {
+    const keys = [...new Set([...applied.values()].map((p) => p.idempotencyKey))];
+    throw new ScaffoldError(
+      `Patch '${idempotencyKey}' is not applied${file ? ` to ${file}` : ""}`,
+      "PATCH_NOT_APPLIED",
+      { idempotencyKey, file, targetDir },
+      undefined,
+      keys.length > 0
+        ? `Applied patches in ${targetDir}: ${keys.join(", ")}.`
+        : `No applied patches are recorded in ${targetDir}/.scaffoldix/state.json.`,
+      undefined,
+      true,
+    );
+  }
+
+  const stagingManager = new StagingManager(deps.storeDir);
+  const stagingDir = await stagingManager.createStagingDir();
+
+  try {
+    // 3. Remove each block in staging
+    await stagingManager.overlay(
+      stagingDir,
+      targetDir,
+      matches.map((m) => m.file),
+    );
+    const engine = new PatchEngine();
+    const results: PatchApplyResult[] = [];
+    for (const match of matches) {
+      results.push(
+        await engine.applyPatch(
+          { kind: "remove", file: match.file, idempotencyKey },
+          { rootDir: stagingDir, appliedPatches: applied },
+        ),
+      );
+    }
+
+    // 4. Record the revert, attributed to the generation that applied the patch
+    const origin =
+      state && "generations" in state
+        ? state.generations.find((g) => g.id === matches[0].generationId)
+        : undefined;
+    let backupDir: string | undefined;
+    if (origin) {
+      const report: GenerationReport = {
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        packId: origin.packId,
+        packVersion: origin.packVersion,
+        archetypeId: origin.archetypeId,
+        inputs: origin.inputs,
+        status: "success",
+        kind: "patch-revert",
+        patches: {
+          total: results.length,
+          applied: results.filter((r) => r.status === "applied").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          failed: 0,
+          items: results.map((r) => ({
+            kind: r.kind,
+            file: r.file,
+            idempotencyKey: r.idempotencyKey,
+            status: r.status,
+            reason: r.reason,
+          })),
+        },
+        files: await hashGeneratedFiles(
+          stagingDir,
+          results.filter((r) => r.status === "applied").map((r) => ({ path: r.file })),
+        ),
+      };
+
+      const stagingStatePath = stateManager.getStatePath(stagingDir);
+      await fs.mkdir(path.dirname(stagingStatePath), { recursive: true });
+      await fs.copyFile(stateManager.getStatePath(targetDir), stagingStatePath);
+      await stateManager.recordGeneration(stagingDir, report);
+      backupDir = stateManager.getBackupDir(targetDir, report.id);
+    }
+
+    // 5. Commit the edited files and the state together
+    await stagingManager.commit(stagingDir, targetDir, { merge: true, backupDir });
+    await stateManager.pruneBackups(targetDir);
+
+    return { idempotencyKey, targetDir, results };
+  } catch (error) {
+    await stagingManager.cleanup(stagingDir);
+    throw error;
+  }
+}
+
+/**
+ * Formats a patch revert result for CLI output.
+ *
+ * @param result - The patch revert result
+ * @returns Human-readable message lines
+ */
+export function formatPatchRevertOutput(result: PatchRevertResult): string[] {
+  const lines = [`Reverted patch ${result.idempotencyKey}`];
+  for (const r of result.results) {
+    lines.push(
+      r.status === "applied" ? `  - ${r.file}` : `  - ${r.file} (stamp not found, left unchanged)`,
+    );
+  }
+  return lines;
+}
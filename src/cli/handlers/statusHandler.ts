@@ -0,0 +1,226 @@
+/**
+ * Handler for the `status` CLI command.
+ *
+ * Summarizes the project state in `.scaffoldix/state.json`: which packs and
+ * archetypes shaped the project, how often each ran and how the last run
+ * went, and how many patches are currently applied.
+ *
+ * @module
+ */
+
+import {
+  ProjectStateManager,
+  type GenerationReport,
+} from "../../core/state/ProjectStateManager.js";
+import { listGenerations, isPatchRevert } from "../../core/state/GenerationHistory.js";
+import { collectAppliedPatches } from "../../core/patch/AppliedPatches.js";
+import { formatJsonOutput } from "../ux/CliJson.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for the status handler.
+ */
+export interface StatusInput {
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+}
+
+/**
+ * Runs of one archetype in the project.
+ */
+export interface ArchetypeStatus {
+  /** Archetype identifier */
+  readonly archetypeId: string;
+
+  /** Number of recorded generations */
+  readonly runs: number;
+
+  /** Number of those generations that failed */
+  readonly failures: number;
+
+  /** ISO 8601 timestamp of the latest generation */
+  readonly lastTimestamp: string;
+
+  /** Status of the latest generation */
+  readonly lastStatus: GenerationReport["status"];
+}
+
+/**
+ * A pack that generated into the project.
+ */
+export interface PackStatus {
+  /** Pack identifier */
+  readonly packId: string;
+
+  /** Pack version of the latest generation */
+  readonly version: string;
+
+  /** Archetypes that ran, sorted by ID */
+  readonly archetypes: ArchetypeStatus[];
+}
+
+/**
+ * Result of the status operation.
+ */
+export interface StatusResult {
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** Whether the project has a state file */
+  readonly initialized: boolean;
+
+  /** Generation counts */
+  readonly generations: {
+    readonly total: number;
+    readonly succeeded: number;
+    readonly failed: number;
+  };
+
+  /** The latest generation, if any */
+  readonly lastGeneration?: {
+    readonly id: string;
+    readonly timestamp: string;
+    readonly packId: string;
+    readonly packVersion: string;
+    readonly archetypeId: string;
+    readonly status: GenerationReport["status"];
+  };
+
+  /** Packs that generated into the project, sorted by ID */
+  readonly packs: PackStatus[];
+
+  /** Number of patches currently applied (file and idempotency key pairs) */
+  readonly appliedPatches: number;
+}
+
+// =============================================================================
+// Handler Implementation
+// =============================================================================
+
+/**
+ * Handles the `status` command.
+ *
+ * @param input - Project directory
+ * @returns Project summary (empty for a project without state)
+ * @throws ScaffoldError if the state file is invalid
+ */
+export async function handleStatus(input: StatusInput): Promise<StatusResult> {
+  const { targetDir } = input;
+  const state = await new ProjectStateManager().read(targetDir);
+  // Patch reverts only remove patches; they are not runs of an archetype
+  const generations = listGenerations(state).filter((g) => !isPatchRevert(g));
+
+  // Group runs by pack, then archetype (generations are oldest first)
+  const packs = new Map<string, { version: string; archetypes: Map<string, ArchetypeStatus> }>();
+  for (const g of generations) {
+    const pack = packs.get(g.packId) ?? { version: g.packVersion, archetypes: new Map() };
+    pack.version = g.packVersion;
+
+    const previous = pack.archetypes.get(g.archetypeId);
+    pack.archetypes.set(g.archetypeId, {
+      archetypeId: g.archetypeId,
+      runs: (previous?.runs ?? 0) + 1,
+      failures: (previous?.failures ?? 0) + (g.status === "failure" ? 1 : 0),
+      lastTimestamp: g.timestamp,
+      lastStatus: g.status,
+    });
+    packs.set(g.packId, pack);
+  }
+
+  const last = generations[generations.length - 1];
+  const failed = generations.filter((g) => g.status === "failure").length;
+
+  return {
+    targetDir,
+    initialized: state !== null,
+    generations: {
+      total: generations.length,
+      succeeded: generations.length - failed,
+      failed,
+    },
+    lastGeneration: last && {
+      id: last.id,
+      timestamp: last.timestamp,
+      packId: last.packId,
+      packVersion: last.packVersion,
+      archetypeId: last.archetypeId,
+      status: last.status,
+    },
+    packs: [...packs.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([packId, pack]) => ({
+        packId,
+        version: pack.version,
+        archetypes: [...pack.archetypes.values()].sort((a, b) =>
+          a.archetypeId.localeCompare(b.archetypeId),
+        ),
+      })),
+    appliedPatches: collectAppliedPatches(state).size,
+  };
+}
+
+// =============================================================================
+// Output Formatting
+// =============================================================================
+
+/**
+ * Formats the status result for CLI output.
+ *
+ * @param result - The status result
+ * @returns Array of output lines
+ */
+export function formatStatusOutput(result: StatusResult): string[] {
+  if (!result.initialized) {
+    return [
+      `No Scaffoldix state in ${result.targetDir}.`,
+      "Generate into it with `scaffoldix generate <pack>:<archetype> --target <dir>`.",
+    ];
+  }
+
+  const { total, succeeded, failed } = result.generations;
+  const lines: string[] = [];
+
+  lines.push(`Project: ${result.targetDir}`);
+  lines.push(`Generations: ${total} (${succeeded} succeeded, ${failed} failed)`);
+  if (result.lastGeneration) {
+    const g = result.lastGeneration;
+    lines.push(
+      `Last generation: ${g.packId}@${g.packVersion}:${g.archetypeId} ${g.status} at ${g.timestamp}`,
+    );
+  }
+  lines.push(`Applied patches: ${result.appliedPatches}`);
+
+  if (result.packs.length > 0) {
+    lines.push("");
+    lines.push("Packs:");
+    for (const pack of result.packs) {
+      lines.push(`  ${pack.packId}@${pack.version}`);
+      for (const a of pack.archetypes) {
+        const runs = `${a.runs} run${a.runs === 1 ? "" : "s"}`;
+        const failures = a.failures > 0 ? `, ${a.failures} failed` : "";
+        lines.push(
+          `    - ${a.archetypeId} (${runs}${failures}, last ${a.lastStatus} at ${a.lastTimestamp})`,
+        );
+      }
+    }
+  }
+
+  return lines;
+}
+
+// =============================================================================
+// JSON Output
+// =============================================================================
+
+/**
+ * Formats the status result as JSON.
+ *
+ * @param result - The status result
+ * @returns JSON string
+ */
+export function formatStatusJson(result: StatusResult): string {
+  return formatJsonOutput(result);
+}
@@ -0,0 +1,269 @@
+/**
+ * Handler for the `undo` CLI command.
+ *
+ * Reverts a generation committed to the project: files it created are
+ * deleted, and files it overwrote, patched or removed are restored from the
+ * backup its commit took in `.scaffoldix/backups/<generationId>/`. The
+ * generation stays in the history, marked as reverted.
+ *
+ * Undo refuses to run when any of those files changed since the generation,
+ * so it never throws away the user's edits or a later generation's output.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { ScaffoldError } from "../../core/errors/errors.js";
+import {
+  ProjectStateManager,
+  type GenerationReport,
+} from "../../core/state/ProjectStateManager.js";
+import { listGenerations, findGeneration } from "../../core/state/GenerationHistory.js";
+import { hashFileContent } from "../../core/state/FileOwnership.js";
+import {
+  readBackupManifest,
+  getBackupFilePath,
+  type BackupEntry,
+} from "../../core/staging/Backups.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for the undo handler.
+ */
+export interface UndoInput {
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+
+  /** Generation ID, unique ID prefix, or `last` (default: latest not reverted) */
+  readonly id?: string;
+}
+
+/**
+ * Result of the undo operation.
+ */
+export interface UndoResult {
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** The reverted generation */
+  readonly generation: GenerationReport;
+
+  /** Files the generation created, now deleted */
+  readonly deleted: string[];
+
+  /** Files the generation overwrote, patched or removed, now restored */
+  readonly restored: string[];
+}
+
+/**
+ * A file whose content differs from what the generation committed.
+ */
+interface ChangedFile {
+  readonly path: string;
+  readonly change: "modified" | "deleted" | "recreated";
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Whether a backup entry is project metadata rather than a project file.
+ *
+ * The state file is committed with every generation, but undo records the
+ * revert in it instead of restoring it.
+ */
+function isMetadata(entry: BackupEntry): boolean {
+  return entry.path === ".scaffoldix" || entry.path.startsWith(".scaffoldix/");
+}
+
+/**
+ * Compares the project with what a generation committed.
+ *
+ * @returns The files that changed since, in manifest order
+ */
+async function findChangedFiles(
+  targetDir: string,
+  entries: readonly BackupEntry[],
+): Promise<ChangedFile[]> {
+  const changed: ChangedFile[] = [];
+
+  for (const entry of entries) {
+    let content: Buffer | undefined;
+    try {
+      content = await fs.readFile(path.join(targetDir, entry.path));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+    }
+
+    if (entry.action === "removed") {
+      if (content) {
+        changed.push({ path: entry.path, change: "recreated" });
+      }
+    } else if (!content) {
+      changed.push({ path: entry.path, change: "deleted" });
+    } else if (hashFileContent(content) !== entry.hash) {
+      changed.push({ path: entry.path, change: "modified" });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Removes the directories above a deleted file that are left empty, up to
+ * the project root.
+ */
+async function removeEmptyParents(targetDir: string, relativePath: string): Promise<void> {
+  let dir = path.dirname(relativePath);
+  while (dir !== "." && dir !== "") {
+    try {
+      await fs.rmdir(path.join(targetDir, dir));
+    } catch {
+      // Not empty (or already gone)
+      return;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+// =============================================================================
+// Handler Implementation
+// =============================================================================
+
+/**
+ * Handles the `undo [generationId]` command.
+ *
+ * ## Process
+ *
+ * 1. Select the generation (by reference, or the latest not reverted)
+ * 2. Read the backup its commit took
+ * 3. Refuse if any file it committed changed since
+ * 4. Delete created files and restore the backed-up originals
+ * 5. Mark the generation as reverted and delete its backup
+ *
+ * @param input - Project directory and optional generation reference
+ * @returns The reverted generation and the files deleted and restored
+ * @throws ScaffoldError GENERATION_NOT_FOUND if no generation matches the reference
+ * @throws ScaffoldError GENERATION_ALREADY_REVERTED if the generation was undone before
+ * @throws ScaffoldError UNDO_BACKUP_MISSING if the generation has no backup
+ * @throws ScaffoldError UNDO_FILES_CHANGED if files changed since the generation
+ */
+export async function handleUndo(input: UndoInput): Promise<UndoResult> {
+  const { targetDir, id } = input;
+  const stateManager = new ProjectStateManager();
+  const generations = listGenerations(await stateManager.read(targetDir));
+
+  // 1. Select the generation
+  const generation =
+    id !== undefined
+      ? findGeneration(generations, id, targetDir)
+      : findGeneration(
+          generations.filter((g) => g.revertedAt === undefined),
+          "last",
+          targetDir,
+        );
+
+  if (generation.revertedAt !== undefined) {
+    throw new ScaffoldError(
+      `Generation '${generation.id}' was already reverted`,
+      "GENERATION_ALREADY_REVERTED",
+      { id: generation.id, targetDir, revertedAt: generation.revertedAt },
+      undefined,
+      `It was undone at ${generation.revertedAt}. ` +
+        `Run \`scaffoldix history --target ${targetDir}\` to list the recorded generations.`,
+      undefined,
+      true,
+    );
+  }
+
+  // 2. Read the backup
+  const backupDir = stateManager.getBackupDir(targetDir, generation.id);
+  const manifest = await readBackupManifest(backupDir);
+  if (!manifest) {
+    throw new ScaffoldError(
+      `Generation '${generation.id}' cannot be undone: it has no backup`,
+      "UNDO_BACKUP_MISSING",
+      { id: generation.id, targetDir, backupDir },
+      undefined,
+      `Only generations committed with a backup in .scaffoldix/backups/ can be undone. ` +
+        `Generations and \`patch revert\` runs made before backups were introduced, ` +
+        `and failed generations, have none.`,
+      undefined,
+      true,
+    );
+  }
+  const entries = manifest.files.filter((entry) => !isMetadata(entry));
+
+  // 3. Refuse if the project changed since
+  const changed = await findChangedFiles(targetDir, entries);
+  if (changed.length > 0) {
+    const list = changed.map((f) => `${f.path} (${f.change})`).join(", ");
+    throw new ScaffoldError(
+      `Cannot undo generation '${generation.id}': ${changed.length} file(s) changed since`,
+      "UNDO_FILES_CHANGED",
+      { id: generation.id, targetDir, files: changed },
+      undefined,
+      `Changed since the generation: ${list}. ` +
+        `Undoing would lose these changes. Revert them (or undo later generations first) ` +
+        `and run undo again.`,
+      undefined,
+      true,
+    );
+  }
+
+  // 4. Delete created files and restore the originals
+  const deleted: string[] = [];
+  const restored: string[] = [];
+  for (const entry of entries) {
+    const targetPath = path.join(targetDir, entry.path);
+    if (entry.action === "created") {
+      await fs.rm(targetPath, { force: true });
+      await removeEmptyParents(targetDir, entry.path);
+      deleted.push(entry.path);
+    } else {
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.copyFile(getBackupFilePath(backupDir, entry.path), targetPath);
+      restored.push(entry.path);
+    }
+  }
+
+  // 5. Record the revert
+  await stateManager.markReverted(targetDir, generation.id);
+  await fs.rm(backupDir, { recursive: true, force: true });
+
+  return { targetDir, generation, deleted, restored };
+}
+
+// =============================================================================
+// Output Formatting
+// =============================================================================
+
+/**
+ * Formats the undo result for CLI output.
+ *
+ * @param result - The undo result
+ * @returns Array of output lines
+ */
+export function formatUndoOutput(result: UndoResult): string[] {
+  const g = result.generation;
+  const lines = [`Reverted generation ${g.id} (${g.packId}@${g.packVersion}:${g.archetypeId})`];
+
+  for (const file of result.deleted) {
+    lines.push(`  deleted   ${file}`);
+  }
+  for (const file of result.restored) {
+    lines.push(`  restored  ${file}`);
+  }
+  if (result.deleted.length === 0 && result.restored.length === 0) {
+    lines.push("  No project files were changed by this generation.");
+  }
+
+  return lines;
+}
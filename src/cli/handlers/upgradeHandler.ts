@@ -0,0 +1,692 @@
+/**
+ * Handler for the `upgrade` CLI command.
+ *
+ * Moves archetypes generated into a project to a newer pack version, keeping
+ * the user's edits. For each archetype generation recorded in
+ * `.scaffoldix/state.json`, the archetype is rendered again with the stored
+ * inputs from both pack versions:
+ *
+ * - **base**: the version the project was generated with
+ * - **theirs**: the version to upgrade to
+ *
+ * and each file is merged three ways with the project's current file
+ * (**ours**). Files the user did not touch take the new version; files only
+ * the user changed are kept; files both changed are merged line by line.
+ * Overlapping changes are conflicts, written with conflict markers or, with
+ * `--reject`, kept as the user's version next to a `.rej` file.
+ *
+ * The merged files and the new version's patches go through staging and are
+ * committed together. Each upgrade is recorded as a new generation with the
+ * outcome of every file. Hooks and checks are not run.
+ *
+ * A target version lower than the one a generation used is a downgrade and
+ * needs `allowDowngrade`; it is merged the same way.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import { ScaffoldError } from "../../core/errors/errors.js";
+import { PackResolver, compareSemver } from "../../core/store/PackResolver.js";
+import { renderArchetype } from "../../core/render/Renderer.js";
+import { StagingManager } from "../../core/staging/StagingManager.js";
+import { resolveInputs } from "../../core/generate/InputResolver.js";
+import { collectAppliedPatches } from "../../core/patch/AppliedPatches.js";
+import { mergeText, formatRejects, type MergeLabels } from "../../core/merge/ThreeWayMerge.js";
+import { hashGeneratedFiles, type GeneratedFileSource } from "../../core/state/FileOwnership.js";
+import { listGenerations, isPatchRevert } from "../../core/state/GenerationHistory.js";
+import {
+  ProjectStateManager,
+  type GenerationReport,
+  type UpgradeFile,
+} from "../../core/state/ProjectStateManager.js";
+import {
+  loadArchetype,
+  resolveRenderSettings,
+  applyPatches,
+  toInputDefinition,
+  type LoadedArchetype,
+  type PatchReport,
+  type GenerateDependencies,
+} from "./generateHandler.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for the upgrade handler.
+ */
+export interface UpgradeInput {
+  /** Project directory containing `.scaffoldix/state.json` */
+  readonly targetDir: string;
+
+  /** Only upgrade archetypes generated from this pack (default: all packs) */
+  readonly packId?: string;
+
+  /** Exact version or range to upgrade to (default: latest installed); needs packId */
+  readonly version?: string;
+
+  /** Keep the project's side of conflicts and write the rest to `.rej` files */
+  readonly reject?: boolean;
+
+  /** Allow moving to a lower version than the project was generated with */
+  readonly allowDowngrade?: boolean;
+}
+
+/**
+ * Dependencies for the upgrade handler.
+ */
+export type UpgradeDependencies = GenerateDependencies;
+
+/**
+ * An archetype generation that was upgraded.
+ */
+export interface UpgradedArchetype {
+  readonly packId: string;
+  readonly archetypeId: string;
+
+  /** Version the archetype was generated with */
+  readonly fromVersion: string;
+
+  /** Version it was upgraded to */
+  readonly toVersion: string;
+
+  /** ID of the generation recording the upgrade */
+  readonly generationId: string;
+
+  /** Outcome for every file either version generates, sorted by path */
+  readonly files: UpgradeFile[];
+
+  /** Patches of the new version, if it has any */
+  readonly patchReport?: PatchReport;
+}
+
+/**
+ * An archetype generation already at the requested version.
+ */
+export interface UpToDateArchetype {
+  readonly packId: string;
+  readonly archetypeId: string;
+  readonly version: string;
+}
+
+/**
+ * Result of the upgrade operation.
+ */
+export interface UpgradeResult {
+  /** Project directory */
+  readonly targetDir: string;
+
+  /** Archetype generations that were upgraded, in history order */
+  readonly upgraded: UpgradedArchetype[];
+
+  /** Archetype generations that were already at the requested version */
+  readonly upToDate: UpToDateArchetype[];
+}
+
+/**
+ * Where merged files go and how conflicts are written.
+ */
+interface MergeContext {
+  readonly targetDir: string;
+  readonly stagingDir: string;
+  readonly labels: MergeLabels;
+  readonly reject: boolean;
+}
+
+/**
+ * The upgrade of one file.
+ */
+interface FileUpgrade {
+  readonly file: UpgradeFile;
+
+  /** Where the file's new content is, if the upgrade writes it or the project has it already */
+  readonly recordFrom?: "staging" | "project";
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Selects the generations to upgrade: the latest successful generation of
+ * each pack, archetype and input set that was not reverted. Patch revert
+ * records are not generations and are skipped. A generation that
+ * was upgraded already is replaced by its upgrade.
+ */
+function selectGenerations(
+  generations: readonly GenerationReport[],
+  packId: string | undefined,
+): GenerationReport[] {
+  const live = generations.filter(
+    (g) => g.status === "success" && g.revertedAt === undefined && !isPatchRevert(g),
+  );
+  const upgraded = new Set(live.flatMap((g) => (g.upgrade ? [g.upgrade.fromGeneration] : [])));
+  const latest = new Map<string, GenerationReport>();
+
+  for (const generation of live) {
+    const key = `${generation.packId}:${generation.archetypeId}:${JSON.stringify(generation.inputs)}`;
+    latest.set(key, generation);
+  }
+
+  return [...latest.values()].filter(
+    (g) => !upgraded.has(g.id) && (packId === undefined || g.packId === packId),
+  );
+}
+
+/**
+ * Loads the pack version a generation was made with, which must still be
+ * installed to serve as the merge base.
+ */
+async function loadBase(
+  generation: GenerationReport,
+  deps: UpgradeDependencies,
+): Promise<LoadedArchetype> {
+  const { packId, archetypeId, packVersion } = generation;
+  try {
+    return await loadArchetype({ packId, archetypeId, version: packVersion }, deps);
+  } catch (error) {
+    if (error instanceof ScaffoldError && error.code === "VERSION_NOT_FOUND") {
+      throw new ScaffoldError(
+        `Base version ${packVersion} of pack '${packId}' is not installed`,
+        "UPGRADE_BASE_MISSING",
+        { packId, archetypeId, packVersion, generationId: generation.id },
+        undefined,
+        `The project was generated with ${packId}@${packVersion}. Upgrading merges its output ` +
+          `with the new version's, so it must stay installed. ` +
+          `Install that version again with \`scaffoldix pack add <path>\`; versions are kept ` +
+          `side by side.`,
+        error,
+        true,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Renders an archetype into an empty directory.
+ *
+ * @returns Template path of each rendered file, by output path
+ */
+async function renderInto(
+  loaded: LoadedArchetype,
+  data: Record<string, unknown>,
+  dir: string,
+): Promise<Map<string, string>> {
+  const result = await renderArchetype({
+    ...resolveRenderSettings(loaded, data),
+    targetDir: dir,
+    dryRun: false,
+    force: true,
+  });
+
+  return new Map(
+    result.filesWritten.map((f) => [
+      f.destRelativePath.split(path.sep).join("/"),
+      f.srcRelativePath,
+    ]),
+  );
+}
+
+/**
+ * Reads a file, or returns undefined if it does not exist.
+ */
+async function readIfExists(filePath: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Whether content is binary and cannot be merged line by line.
+ */
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+/**
+ * Upgrades one file, writing whatever changes into staging.
+ *
+ * @param relativePath - Path relative to the project
+ * @param base - Content generated by the old version, if it generated the file
+ * @param theirs - Content generated by the new version, if it generates the file
+ * @param context - Project, staging and conflict settings
+ * @returns The file's outcome, and where its new content is if the upgrade records it
+ */
+async function upgradeFile(
+  relativePath: string,
+  base: Buffer | undefined,
+  theirs: Buffer | undefined,
+  context: MergeContext,
+): Promise<FileUpgrade> {
+  const ours = await readIfExists(path.join(context.targetDir, relativePath));
+  const stage = async (file: string, content: Buffer | string) => {
+    const stagedPath = path.join(context.stagingDir, file);
+    await fs.mkdir(path.dirname(stagedPath), { recursive: true });
+    await fs.writeFile(stagedPath, content);
+  };
+  const outcome = (
+    result: UpgradeFile["outcome"],
+    reason?: string,
+    recordFrom?: FileUpgrade["recordFrom"],
+  ): FileUpgrade => ({
+    file: { path: relativePath, outcome: result, ...(reason !== undefined && { reason }) },
+    ...(recordFrom && { recordFrom }),
+  });
+
+  // Dropped by the new version
+  if (!theirs) {
+    if (ours && !(base && ours.equals(base))) {
+      return outcome("conflict", "modified in the project, removed from the pack");
+    }
+    return outcome("removed");
+  }
+
+  // Deleted from the project, or new in the new version
+  if (!ours) {
+    if (!base) {
+      await stage(relativePath, theirs);
+      return outcome("added", undefined, "staging");
+    }
+    return theirs.equals(base)
+      ? outcome("unchanged", "deleted in the project")
+      : outcome("conflict", "deleted in the project, changed in the pack");
+  }
+
+  if (ours.equals(theirs)) {
+    return outcome("unchanged", undefined, "project");
+  }
+  if (base && theirs.equals(base)) {
+    return outcome("unchanged", "changed in the project only");
+  }
+  if (base && ours.equals(base)) {
+    await stage(relativePath, theirs);
+    return outcome("updated", undefined, "staging");
+  }
+  if (isBinary(ours) || isBinary(theirs) || (base && isBinary(base))) {
+    return outcome("conflict", "binary file changed in the project and the pack");
+  }
+
+  // Changed on both sides (or added on both sides): merge line by line
+  const merge = mergeText(
+    base?.toString("utf-8") ?? "",
+    ours.toString("utf-8"),
+    theirs.toString("utf-8"),
+    context.labels,
+  );
+  if (merge.conflicts.length === 0) {
+    await stage(relativePath, merge.merged);
+    return outcome("merged", undefined, "staging");
+  }
+
+  const count = `${merge.conflicts.length} conflicting change(s)`;
+  if (context.reject) {
+    await stage(relativePath, merge.mergedOurs);
+    await stage(`${relativePath}.rej`, formatRejects(merge.conflicts, context.labels));
+    return outcome("conflict", `${count} written to ${relativePath}.rej`, "staging");
+  }
+  await stage(relativePath, merge.merged);
+  return outcome("conflict", `${count} marked in the file`, "staging");
+}
+
+/**
+ * Upgrades one archetype generation to a pack version and commits the result.
+ *
+ * ## Process (Transactional)
+ *
+ * 1. Load both pack versions and resolve the inputs for the new one
+ * 2. Render both versions into scratch directories
+ * 3. Merge every file either version generates into staging
+ * 4. Apply the new version's patches in staging
+ * 5. Record the upgrade in the project state in staging
+ * 6. Commit staging to the project, deleting files the new version dropped
+ */
+async function upgradeGeneration(
+  generation: GenerationReport,
+  toVersion: string,
+  input: UpgradeInput,
+  deps: UpgradeDependencies,
+): Promise<UpgradedArchetype> {
+  const { targetDir, reject = false } = input;
+  const { packId, archetypeId } = generation;
+
+  // 1. Load both versions
+  const base = await loadBase(generation, deps);
+  const theirs = await loadArchetype({ packId, archetypeId, version: toVersion }, deps);
+  const data = await resolveInputs({
+    inputsSchema: theirs.archetype.inputs?.map(toInputDefinition),
+    nonInteractive: true,
+    provided: generation.inputs,
+    archetypeRef: `${packId}@${toVersion}:${archetypeId}`,
+  });
+
+  const stagingManager = new StagingManager(deps.storeDir);
+  const baseDir = await stagingManager.createStagingDir();
+  const theirsDir = await stagingManager.createStagingDir();
+  const stagingDir = await stagingManager.createStagingDir();
+
+  try {
+    // 2. Render both versions
+    const baseFiles = await renderInto(base, generation.inputs, baseDir);
+    const theirFiles = await renderInto(theirs, data, theirsDir);
+
+    // 3. Merge each file into staging
+    const context: MergeContext = {
+      targetDir,
+      stagingDir,
+      labels: { ours: "project", theirs: `${packId}@${theirs.packVersion}` },
+      reject,
+    };
+    const paths = [...new Set([...baseFiles.keys(), ...theirFiles.keys()])].sort((a, b) =>
+      a.localeCompare(b),
+    );
+    const upgrades: FileUpgrade[] = [];
+    for (const file of paths) {
+      upgrades.push(
+        await upgradeFile(
+          file,
+          baseFiles.has(file) ? await fs.readFile(path.join(baseDir, file)) : undefined,
+          theirFiles.has(file) ? await fs.readFile(path.join(theirsDir, file)) : undefined,
+          context,
+        ),
+      );
+    }
+
+    // 4. Apply the new version's patches; keys applied before are skipped
+    const stateManager = new ProjectStateManager();
+    let patchReport: PatchReport | undefined;
+    const patches = theirs.archetype.patches;
+    if (patches && patches.length > 0) {
+      const settings = resolveRenderSettings(theirs, data);
+      patchReport = await applyPatches({
+        patches,
+        data,
+        packStorePath: theirs.storePath,
+        targetDir: stagingDir,
+        projectDir: targetDir,
+        stagingManager,
+        packId,
+        archetypeId,
+        escapeHtml: settings.escapeHtml,
+        strict: settings.strict,
+        templateEngine: theirs.templateEngine,
+        appliedPatches: collectAppliedPatches(await stateManager.read(targetDir)),
+      });
+
+      if (patchReport.failed > 0) {
+        const failedPatches = patchReport.entries.filter((e) => e.status === "failed");
+        throw new ScaffoldError(
+          `Patch application failed`,
+          "PATCH_APPLICATION_FAILED",
+          { packId, archetypeId, patchReport, failedPatches },
+          undefined,
+          `Upgrade aborted: ${patchReport.failed} patch(es) failed. ` +
+            `${failedPatches.map((p) => `${p.idempotencyKey}: ${p.reason}`).join("; ")}. ` +
+            `Project was not modified.`,
+          undefined,
+          true,
+        );
+      }
+    }
+
+    // 5. Record the upgrade with the files it left in the project
+    const patched = new Set(
+      (patchReport?.entries ?? []).filter((e) => e.status === "applied").map((e) => e.file),
+    );
+    const sources: Record<"staging" | "project", GeneratedFileSource[]> = {
+      staging: [],
+      project: [],
+    };
+    for (const { file, recordFrom } of upgrades) {
+      if (recordFrom) {
+        sources[patched.has(file.path) ? "staging" : recordFrom].push({
+          path: file.path,
+          template: theirFiles.get(file.path),
+        });
+      }
+    }
+    sources.staging.push(...[...patched].map((file) => ({ path: file })));
+
+    const report: GenerationReport = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      packId,
+      packVersion: theirs.packVersion,
+      archetypeId,
+      inputs: data,
+      status: "success",
+      files: [
+        ...(await hashGeneratedFiles(stagingDir, sources.staging)),
+        ...(await hashGeneratedFiles(targetDir, sources.project)),
+      ].sort((a, b) => a.path.localeCompare(b.path)),
+      upgrade: {
+        fromVersion: generation.packVersion,
+        fromGeneration: generation.id,
+        files: upgrades.map((u) => u.file),
+      },
+    };
+    if (patchReport) {
+      report.patches = {
+        total: patchReport.total,
+        applied: patchReport.applied,
+        skipped: patchReport.skipped,
+        failed: patchReport.failed,
+        items: patchReport.entries.map((e) => ({
+          kind: e.kind,
+          file: e.file,
+          idempotencyKey: e.idempotencyKey,
+          status: e.status,
+          reason: e.reason,
+          changedKeys: e.changedKeys,
+          contentHash: e.contentHash,
+          lines: e.lines,
+          inserted: e.inserted,
+        })),
+      };
+    }
+
+    const stagingStatePath = stateManager.getStatePath(stagingDir);
+    await fs.mkdir(path.dirname(stagingStatePath), { recursive: true });
+    await fs.copyFile(stateManager.getStatePath(targetDir), stagingStatePath);
+    await stateManager.recordGeneration(stagingDir, report);
+
+    // 6. Commit, deleting the files the new version no longer generates
+    await stagingManager.commit(stagingDir, targetDir, {
+      merge: true,
+      backupDir: stateManager.getBackupDir(targetDir, report.id),
+      remove: upgrades.filter((u) => u.file.outcome === "removed").map((u) => u.file.path),
+    });
+    await stateManager.pruneBackups(targetDir);
+
+    return {
+      packId,
+      archetypeId,
+      fromVersion: generation.packVersion,
+      toVersion: theirs.packVersion,
+      generationId: report.id,
+      files: report.upgrade!.files,
+      patchReport,
+    };
+  } catch (error) {
+    await stagingManager.cleanup(stagingDir);
+    throw error;
+  } finally {
+    await stagingManager.cleanup(baseDir);
+    await stagingManager.cleanup(theirsDir);
+  }
+}
+
+// =============================================================================
+// Handler Implementation
+// =============================================================================
+
+/**
+ * Handles the `upgrade [pack]` command.
+ *
+ * ## Process
+ *
+ * 1. Read the project state and select the generations to upgrade
+ * 2. Resolve the version to upgrade each pack to, rejecting downgrades
+ * 3. Upgrade each generation not at that version, committing one at a time
+ *
+ * @param input - Project directory, optional pack and version, conflict style
+ * @param deps - Store paths
+ * @returns Upgraded and up-to-date archetype generations
+ * @throws ScaffoldError UPGRADE_PACK_REQUIRED if a version is given without a pack
+ * @throws ScaffoldError PACK_NOT_GENERATED if the pack has no generations in the project
+ * @throws ScaffoldError UPGRADE_DOWNGRADE if the target version is lower and downgrades are not allowed
+ * @throws ScaffoldError UPGRADE_BASE_MISSING if the version a generation used is not installed
+ */
+export async function handleUpgrade(
+  input: UpgradeInput,
+  deps: UpgradeDependencies,
+): Promise<UpgradeResult> {
+  const { targetDir, packId, version, allowDowngrade = false } = input;
+
+  if (version && !packId) {
+    throw new ScaffoldError(
+      `A target version needs a pack`,
+      "UPGRADE_PACK_REQUIRED",
+      { version },
+      undefined,
+      `Name the pack to upgrade: \`scaffoldix upgrade <pack> --to ${version}\`.`,
+      undefined,
+      true,
+    );
+  }
+
+  // 1. Select generations
+  const generations = listGenerations(await new ProjectStateManager().read(targetDir));
+  const selected = selectGenerations(generations, packId);
+
+  if (packId && selected.length === 0) {
+    const packs = [...new Set(generations.map((g) => g.packId))];
+    throw new ScaffoldError(
+      `Pack '${packId}' has not generated anything in this project`,
+      "PACK_NOT_GENERATED",
+      { packId, targetDir },
+      undefined,
+      packs.length > 0
+        ? `Packs generated in ${targetDir}: ${packs.join(", ")}.`
+        : `No generations are recorded in ${targetDir}/.scaffoldix/state.json.`,
+      undefined,
+      true,
+    );
+  }
+
+  // 2. Resolve each pack's target version before anything is committed
+  const resolver = new PackResolver(deps.registryFile);
+  const targetVersions = new Map<string, string>();
+  for (const generation of selected) {
+    let toVersion = targetVersions.get(generation.packId);
+    if (toVersion === undefined) {
+      toVersion = (await resolver.resolve(generation.packId, version)).version;
+      targetVersions.set(generation.packId, toVersion);
+    }
+
+    if (!allowDowngrade && compareSemver(toVersion, generation.packVersion) < 0) {
+      throw new ScaffoldError(
+        `${generation.packId}:${generation.archetypeId} would be downgraded ` +
+          `from ${generation.packVersion} to ${toVersion}`,
+        "UPGRADE_DOWNGRADE",
+        {
+          packId: generation.packId,
+          archetypeId: generation.archetypeId,
+          fromVersion: generation.packVersion,
+          toVersion,
+        },
+        undefined,
+        `Pass --allow-downgrade to move to ${toVersion}, ` +
+          `or --to a version of at least ${generation.packVersion}.`,
+        undefined,
+        true,
+      );
+    }
+  }
+
+  // 3. Upgrade each generation to its pack's target version
+  const upgraded: UpgradedArchetype[] = [];
+  const upToDate: UpToDateArchetype[] = [];
+
+  for (const generation of selected) {
+    const toVersion = targetVersions.get(generation.packId)!;
+
+    if (generation.packVersion === toVersion) {
+      upToDate.push({
+        packId: generation.packId,
+        archetypeId: generation.archetypeId,
+        version: toVersion,
+      });
+      continue;
+    }
+
+    upgraded.push(await upgradeGeneration(generation, toVersion, input, deps));
+  }
+
+  return { targetDir, upgraded, upToDate };
+}
+
+// =============================================================================
+// Output Formatting
+// =============================================================================
+
+/**
+ * Formats the upgrade result for CLI output.
+ *
+ * Files left as they were without a reason (the project already matches the
+ * new version) are not listed.
+ *
+ * @param result - The upgrade result
+ * @returns Array of output lines
+ */
+export function formatUpgradeOutput(result: UpgradeResult): string[] {
+  if (result.upgraded.length === 0 && result.upToDate.length === 0) {
+    return [`Nothing to upgrade: no generations are recorded in ${result.targetDir}.`];
+  }
+
+  const lines: string[] = [];
+
+  for (const upgrade of result.upgraded) {
+    const verb =
+      compareSemver(upgrade.toVersion, upgrade.fromVersion) < 0 ? "Downgraded" : "Upgraded";
+    lines.push(
+      `${verb} ${upgrade.packId}:${upgrade.archetypeId} ` +
+        `${upgrade.fromVersion} → ${upgrade.toVersion}`,
+    );
+
+    const listed = upgrade.files.filter((f) => f.outcome !== "unchanged" || f.reason);
+    const width = Math.max(0, ...listed.map((f) => f.outcome.length));
+    for (const file of listed) {
+      const reason = file.reason ? ` (${file.reason})` : "";
+      lines.push(`  ${file.outcome.padEnd(width)}  ${file.path}${reason}`);
+    }
+
+    if (upgrade.patchReport) {
+      const { applied, skipped } = upgrade.patchReport;
+      lines.push(`  Patches: ${applied} applied, ${skipped} skipped`);
+    }
+  }
+
+  for (const current of result.upToDate) {
+    lines.push(`${current.packId}:${current.archetypeId} is up to date (${current.version})`);
+  }
+
+  const conflicts = result.upgraded.flatMap((u) =>
+    u.files.filter((f) => f.outcome === "conflict").map((f) => f.path),
+  );
+  if (conflicts.length > 0) {
+    lines.push("");
+    lines.push(`${conflicts.length} file(s) need manual resolution: ${conflicts.join(", ")}`);
+  }
+
+  return lines;
+}
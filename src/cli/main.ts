@@ -5,6 +5,12 @@ import { buildPackCommand } from "./commands/pack.js";
 import { buildGenerateCommand } from "./commands/generate.js";
 import { buildArchetypesCommand } from "./commands/archetypes.js";
 import { buildDoctorCommand } from "./commands/doctor.js";
+import { buildPatchCommand } from "./commands/patch.js";
+import { buildHistoryCommand } from "./commands/history.js";
+import { buildStatusCommand } from "./commands/status.js";
+import { buildDriftCommand } from "./commands/drift.js";
+import { buildUpgradeCommand } from "./commands/upgrade.js";
+import { buildUndoCommand } from "./commands/undo.js";
 import { createCliUx, setDefaultCliUx, parseLogLevel, getCliUx } from "./ux/CliUx.js";
 import { CLI_VERSION } from "./version.js";
 
@@ -37,6 +43,12 @@ async function main() {
   program.addCommand(buildGenerateCommand(logger));
   program.addCommand(buildArchetypesCommand(logger));
   program.addCommand(buildDoctorCommand());
+  program.addCommand(buildPatchCommand());
+  program.addCommand(buildHistoryCommand());
+  program.addCommand(buildStatusCommand());
+  program.addCommand(buildDriftCommand());
+  program.addCommand(buildUpgradeCommand());
+  program.addCommand(buildUndoCommand());
 
   try {
     await program.parseAsync(process.argv);
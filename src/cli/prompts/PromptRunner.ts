@@ -85,6 +85,7 @@ function toEnhancedDef(input: InputDefinition): EnhancedInputDefinition {
     integer: input.integer,
     options: input.options,
     messages: input.messages,
+    when: input.when,
   };
 }
 
@@ -131,6 +132,12 @@ export class PromptRunner implements PromptAdapter {
         return this.promptEnum(input);
       case "number":
         return this.promptNumber(input);
+      case "list":
+        // Comma-separated answer, split into items by InputResolver
+        return this.promptString({
+          ...input,
+          prompt: input.prompt ?? `Enter ${input.name} (comma-separated):`,
+        });
       case "string":
       default:
         return this.promptString(input);
@@ -267,11 +274,8 @@ export class PromptRunner implements PromptAdapter {
           return value;
         }
 
-        // Report validation error for testing
-        const message =
-          input.messages?.[validation.message?.includes("minLength") ? "minLength" : "invalid"] ??
-          validation.message;
-        this.options.onValidationError?.(message ?? "Validation failed");
+        // Report validation error (validateInput already applies the pack's custom messages)
+        this.options.onValidationError?.(validation.message ?? "Validation failed");
       } catch (err) {
         // Re-throw cancellation errors
         if (err instanceof ScaffoldError && err.code === "USER_CANCELLED") {
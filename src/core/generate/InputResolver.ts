@@ -4,7 +4,7 @@
  * Handles input resolution for generate command with support for:
  * - Non-interactive mode (--yes) using defaults only
  * - Interactive mode with prompting for missing required inputs
- * - Type coercion (string to number/boolean)
+ * - Type coercion (string to number/boolean/list)
  * - Enhanced validation (minLength, maxLength, regex, min, max, integer)
  * - Conditional prompts (when clause)
  * - Enum options as objects with value/label
@@ -29,7 +29,7 @@ import {
 /**
  * Supported input types.
  */
-export type InputType = "string" | "number" | "boolean" | "enum";
+export type InputType = "string" | "number" | "boolean" | "enum" | "list";
 
 /**
  * Definition of a single input from manifest schema.
@@ -166,6 +166,26 @@ function coerceValue(value: unknown, type: InputType, inputName: string): unknow
     );
   }
 
+  if (type === "list") {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (typeof value === "string") {
+      // Comma-separated values from --set or interactive prompts
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+    }
+    throw new ScaffoldError(
+      `Input '${inputName}' cannot be converted to list: '${JSON.stringify(value)}'`,
+      "INPUT_TYPE_ERROR",
+      { inputName, value },
+      undefined,
+      `Provide '${inputName}' as an array in an --inputs file, or as comma-separated values.`,
+    );
+  }
+
   // enum type - no coercion, validation happens separately
   return value;
 }
@@ -250,9 +270,7 @@ function validateEnumLegacy(
  * @returns Resolved input values
  * @throws ScaffoldError if required inputs are missing or validation fails
  */
-export async function resolveInputs(
-  params: ResolveInputsParams,
-): Promise<Record<string, unknown>> {
+export async function resolveInputs(params: ResolveInputsParams): Promise<Record<string, unknown>> {
   const { inputsSchema, nonInteractive, prompt, provided = {}, archetypeRef } = params;
 
   // No inputs defined - return provided values as-is (backward compatibility)
@@ -344,7 +362,8 @@ export async function resolveInputs(
       "MISSING_REQUIRED_INPUTS",
       archetypeRef ? { archetypeRef } : undefined, // details
       undefined, // data
-      "Run without --yes to be prompted for values, or add defaults to the manifest.", // hint
+      "Provide values with --set name=value or --inputs <file>, run without --yes to be " +
+        "prompted, or add defaults to the manifest.", // hint
     );
   }
 
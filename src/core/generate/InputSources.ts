@@ -0,0 +1,230 @@
+/**
+ * InputSources module for collecting pre-provided input values.
+ *
+ * Gathers input values supplied outside of interactive prompts so that
+ * generation can run unattended (CI, bots, scripts):
+ * - `--set name=value` flags (repeatable)
+ * - `--inputs <file>` answer files (YAML or JSON)
+ * - `--inputs -` to read an answer document from stdin (non-interactive only:
+ *   stdin is at EOF once read, so prompts could not get answers)
+ *
+ * Values collected here are passed to `resolveInputs()` as `provided`, so
+ * they go through the same coercion and validation as every other source.
+ *
+ * ## Precedence
+ *
+ * `--set` flags override values from the answer file.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { ScaffoldError } from "../errors/errors.js";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Special `--inputs` value meaning "read the answer document from stdin".
+ */
+export const STDIN_SOURCE = "-";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Parameters for collecting provided inputs.
+ */
+export interface CollectProvidedInputsParams {
+  /** Raw `--set` values, each in `name=value` form */
+  readonly set?: readonly string[];
+
+  /** Path to an answer file, or "-" for stdin */
+  readonly inputsFile?: string;
+
+  /** Base directory for resolving a relative answer file path */
+  readonly cwd: string;
+
+  /** Whether missing inputs will be prompted for afterwards (default: false) */
+  readonly interactive?: boolean;
+
+  /** Reads all of stdin (injectable for testing) */
+  readonly readStdin?: () => Promise<string>;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parses repeated `--set name=value` flags into a record.
+ *
+ * Only the first `=` separates name from value, so values may contain `=`.
+ * Values are kept as strings; type coercion happens in `resolveInputs()`.
+ *
+ * @param entries - Raw flag values
+ * @returns Parsed values keyed by input name
+ * @throws ScaffoldError if an entry has no `=` or an empty name
+ *
+ * @example
+ * parseSetFlags(["projectName=demo", "port=8080"])
+ * // => { projectName: "demo", port: "8080" }
+ */
+export function parseSetFlags(entries: readonly string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const separatorIndex = entry.indexOf("=");
+    const name = separatorIndex === -1 ? "" : entry.slice(0, separatorIndex).trim();
+
+    if (separatorIndex === -1 || !name) {
+      throw new ScaffoldError(
+        `Invalid --set value: "${entry}"`,
+        "INPUT_SET_INVALID",
+        { entry },
+        undefined,
+        `Expected format: --set name=value (e.g., --set projectName=my-app).`,
+        undefined,
+        true,
+      );
+    }
+
+    result[name] = entry.slice(separatorIndex + 1);
+  }
+
+  return result;
+}
+
+/**
+ * Parses an answer document into a record of input values.
+ *
+ * JSON files are parsed strictly; anything else is parsed as YAML
+ * (which also accepts JSON, so stdin can carry either format).
+ *
+ * @param content - Raw document content
+ * @param source - File path or "-" (for format detection and error context)
+ * @returns Parsed values keyed by input name
+ * @throws ScaffoldError if the document is invalid or not a mapping
+ */
+export function parseInputsDocument(content: string, source: string): Record<string, unknown> {
+  const label = source === STDIN_SOURCE ? "stdin" : source;
+  let parsed: unknown;
+
+  try {
+    parsed =
+      path.extname(source).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    throw new ScaffoldError(
+      `Failed to parse inputs from ${label}`,
+      "INPUTS_FILE_PARSE_ERROR",
+      { source: label, reason: cause.message },
+      undefined,
+      `The inputs document from ${label} is not valid YAML or JSON: ${cause.message}`,
+      cause,
+      true,
+    );
+  }
+
+  // An empty document means "no answers"
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ScaffoldError(
+      `Inputs from ${label} must be a mapping of input names to values`,
+      "INPUTS_FILE_PARSE_ERROR",
+      { source: label },
+      undefined,
+      `The inputs document must be an object, e.g.:\n  projectName: my-app\n  port: 8080`,
+      undefined,
+      true,
+    );
+  }
+
+  return { ...(parsed as Record<string, unknown>) };
+}
+
+// =============================================================================
+// Collection
+// =============================================================================
+
+/**
+ * Reads all of process.stdin as UTF-8.
+ */
+async function readProcessStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Reads an answer document from a file or stdin.
+ */
+async function readInputsSource(
+  source: string,
+  cwd: string,
+  readStdin: () => Promise<string>,
+): Promise<string> {
+  if (source === STDIN_SOURCE) {
+    return readStdin();
+  }
+
+  const absolutePath = path.resolve(cwd, source);
+  try {
+    return await fs.readFile(absolutePath, "utf-8");
+  } catch (error) {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    throw new ScaffoldError(
+      `Inputs file not found: ${source}`,
+      "INPUTS_FILE_READ_ERROR",
+      { source, absolutePath, reason: cause.message },
+      undefined,
+      `Could not read the inputs file at ${absolutePath}. Check the path passed to --inputs.`,
+      cause,
+      true,
+    );
+  }
+}
+
+/**
+ * Collects provided input values from `--inputs` and `--set`.
+ *
+ * @param params - Raw flag values and environment
+ * @returns Merged values (`--set` wins over the answer file)
+ * @throws ScaffoldError if a flag or document is invalid, or if stdin is
+ *   requested while prompts are still to run
+ */
+export async function collectProvidedInputs(
+  params: CollectProvidedInputsParams,
+): Promise<Record<string, unknown>> {
+  const { set = [], inputsFile, cwd, interactive = false, readStdin = readProcessStdin } = params;
+
+  if (inputsFile === STDIN_SOURCE && interactive) {
+    throw new ScaffoldError(
+      "Cannot read inputs from stdin in interactive mode",
+      "INPUTS_STDIN_INTERACTIVE",
+      { source: inputsFile },
+      undefined,
+      `Prompts read their answers from stdin, which --inputs - consumes. ` +
+        `Add --yes to run without prompts, or pass the answers in a file.`,
+      undefined,
+      true,
+    );
+  }
+
+  let fromFile: Record<string, unknown> = {};
+  if (inputsFile !== undefined) {
+    const content = await readInputsSource(inputsFile, cwd, readStdin);
+    fromFile = parseInputsDocument(content, inputsFile);
+  }
+
+  return { ...fromFile, ...parseSetFlags(set) };
+}
@@ -38,7 +38,7 @@ export type EnumOption = string | { readonly value: string; readonly label?: str
  */
 export interface EnhancedInputDefinition {
   readonly name: string;
-  readonly type: "string" | "number" | "boolean" | "enum";
+  readonly type: "string" | "number" | "boolean" | "enum" | "list";
   readonly required?: boolean;
   readonly default?: unknown;
   readonly prompt?: string;
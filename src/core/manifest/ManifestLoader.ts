@@ -29,6 +29,8 @@ import * as path from "node:path";
 import { parse as parseYaml, YAMLParseError } from "yaml";
 import { z } from "zod";
 import { ScaffoldError } from "../errors/errors.js";
+import { parseWhenExpression } from "../patch/WhenExpression.js";
+import { STAMP_STYLES } from "../patch/PatchStamp.js";
 
 // =============================================================================
 // Constants
@@ -57,6 +59,20 @@ const nonEmptyString = (fieldName: string) =>
     .transform((s) => s.trim())
     .refine((s) => s.length > 0, { message: `${fieldName} cannot be empty` });
 
+/**
+ * Schema for a patch `when` expression, checked for syntax at load time.
+ */
+const WhenExpressionSchema = z.string().superRefine((expression, ctx) => {
+  try {
+    parseWhenExpression(expression);
+  } catch (err) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${(err as Error).message} (in '${expression}')`,
+    });
+  }
+});
+
 /**
  * Validates exactly one of contentTemplate or path is provided.
  */
@@ -66,13 +82,47 @@ function validateContentSource(data: { contentTemplate?: string; path?: string }
   return (hasContentTemplate && !hasPath) || (!hasContentTemplate && hasPath);
 }
 
+/**
+ * Like validateContentSource, but an empty contentTemplate is allowed
+ * (regex_replace can delete the match).
+ */
+function validateReplacementSource(data: { contentTemplate?: string; path?: string }): boolean {
+  const hasPath = data.path !== undefined && data.path !== "";
+  return (data.contentTemplate !== undefined) !== hasPath;
+}
+
+/**
+ * Target fields shared by every patch kind.
+ *
+ * A patch names its target with exactly one of:
+ * - file: Path relative to project root, or a glob (e.g. `src/**\/*.controller.ts`)
+ * - files: List of paths and globs
+ *
+ * Globs are expanded against the project when the patch is applied, see
+ * PatchTargets. `minMatches` is the fewest files the targets must match
+ * (default 1); fewer matches fail a strict patch and skip a non-strict one.
+ */
+const patchTargetFields = {
+  file: nonEmptyString("Patch file").optional(),
+  files: z
+    .array(nonEmptyString("Patch files entry"))
+    .min(1, "Patch files cannot be empty")
+    .optional(),
+  minMatches: z.number().int().nonnegative("minMatches must be a non-negative integer").optional(),
+};
+
+/**
+ * Stamp comment syntax of a text patch, or `none` for stamp-less idempotency.
+ */
+const StampStyleSchema = z.enum(STAMP_STYLES);
+
 /**
  * Schema for marker_insert operation.
  *
  * Inserts content immediately after markerStart, before existing content.
  *
  * Required fields:
- * - file: Target file path relative to project root
+ * - file or files: Target path(s) or globs relative to project root
  * - idempotencyKey: Unique key for idempotency
  * - markerStart: Start marker string to find
  * - markerEnd: End marker string to find
@@ -81,12 +131,14 @@ function validateContentSource(data: { contentTemplate?: string; path?: string }
  * Optional fields:
  * - description: Human-readable description
  * - strict: Strictness flag (default true at runtime)
- * - when: Reserved for future conditional execution
+ * - minMatches: Fewest files the targets must match (default 1)
+ * - stamp: Stamp comment syntax (default: from the file extension, see PatchStamp)
+ * - when: Condition on resolved inputs (see WhenExpression)
  */
 const MarkerInsertSchema = z
   .object({
     kind: z.literal("marker_insert"),
-    file: nonEmptyString("Patch file"),
+    ...patchTargetFields,
     idempotencyKey: nonEmptyString("Patch idempotencyKey"),
     markerStart: nonEmptyString("markerStart"),
     markerEnd: nonEmptyString("markerEnd"),
@@ -102,7 +154,8 @@ const MarkerInsertSchema = z
     path: z.string().optional(),
     description: z.string().optional(),
     strict: z.boolean().optional(),
-    when: z.string().optional(),
+    stamp: StampStyleSchema.optional(),
+    when: WhenExpressionSchema.optional(),
   })
   .refine(validateContentSource, {
     message: "Provide exactly one of contentTemplate or path",
@@ -116,7 +169,7 @@ const MarkerInsertSchema = z
 const MarkerReplaceSchema = z
   .object({
     kind: z.literal("marker_replace"),
-    file: nonEmptyString("Patch file"),
+    ...patchTargetFields,
     idempotencyKey: nonEmptyString("Patch idempotencyKey"),
     markerStart: nonEmptyString("markerStart"),
     markerEnd: nonEmptyString("markerEnd"),
@@ -124,7 +177,8 @@ const MarkerReplaceSchema = z
     path: z.string().optional(),
     description: z.string().optional(),
     strict: z.boolean().optional(),
-    when: z.string().optional(),
+    stamp: StampStyleSchema.optional(),
+    when: WhenExpressionSchema.optional(),
   })
   .refine(validateContentSource, {
     message: "Provide exactly one of contentTemplate or path",
@@ -139,18 +193,256 @@ const MarkerReplaceSchema = z
 const AppendIfMissingSchema = z
   .object({
     kind: z.literal("append_if_missing"),
-    file: nonEmptyString("Patch file"),
+    ...patchTargetFields,
+    idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+    contentTemplate: z.string().optional(),
+    path: z.string().optional(),
+    description: z.string().optional(),
+    strict: z.boolean().optional(),
+    stamp: StampStyleSchema.optional(),
+    when: WhenExpressionSchema.optional(),
+  })
+  .refine(validateContentSource, {
+    message: "Provide exactly one of contentTemplate or path",
+  });
+
+/**
+ * Which occurrence of an anchor to use: first, last, or a 1-based index.
+ */
+const AnchorOccurrenceSchema = z.union([
+  z.enum(["first", "last"]),
+  z.number().int().positive("occurrence must be a positive integer"),
+]);
+
+/**
+ * Adds a schema issue when a field is not a valid regular expression.
+ */
+function checkRegex(pattern: string, field: string, ctx: z.RefinementCtx): void {
+  try {
+    new RegExp(pattern, "gm");
+  } catch (err) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${field} is not a valid regular expression: ${(err as Error).message}`,
+      path: [field],
+    });
+  }
+}
+
+/**
+ * Builds the schema for insert_before / insert_after operations.
+ *
+ * Inserts content on its own lines before or after the line containing an
+ * anchor. Does NOT need markers in the target file.
+ *
+ * Required fields:
+ * - anchor: Literal string to find (a regular expression when regex is true)
+ *
+ * Optional fields:
+ * - regex: Treat anchor as a regular expression
+ * - occurrence: first (default), last, or a 1-based index
+ */
+function anchorInsertSchema<K extends "insert_before" | "insert_after">(kind: K) {
+  return z
+    .object({
+      kind: z.literal(kind),
+      ...patchTargetFields,
+      idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+      anchor: nonEmptyString("anchor"),
+      regex: z.boolean().optional(),
+      occurrence: AnchorOccurrenceSchema.optional(),
+      contentTemplate: z.string().optional(),
+      path: z.string().optional(),
+      description: z.string().optional(),
+      strict: z.boolean().optional(),
+      stamp: StampStyleSchema.optional(),
+      when: WhenExpressionSchema.optional(),
+    })
+    .refine(validateContentSource, {
+      message: "Provide exactly one of contentTemplate or path",
+    })
+    .superRefine((data, ctx) => {
+      if (data.regex) {
+        checkRegex(data.anchor, "anchor", ctx);
+      }
+    });
+}
+
+const InsertBeforeSchema = anchorInsertSchema("insert_before");
+const InsertAfterSchema = anchorInsertSchema("insert_after");
+
+/**
+ * Schema for regex_replace operation.
+ *
+ * Replaces a match of `pattern` with the rendered content, which may
+ * reference capture groups ($1, $<name>, $&).
+ *
+ * Optional fields:
+ * - occurrence: first (default), last, or a 1-based index
+ */
+const RegexReplaceSchema = z
+  .object({
+    kind: z.literal("regex_replace"),
+    ...patchTargetFields,
+    idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+    pattern: nonEmptyString("pattern"),
+    occurrence: AnchorOccurrenceSchema.optional(),
+    contentTemplate: z.string().optional(),
+    path: z.string().optional(),
+    description: z.string().optional(),
+    strict: z.boolean().optional(),
+    stamp: StampStyleSchema.optional(),
+    when: WhenExpressionSchema.optional(),
+  })
+  .refine(validateReplacementSource, {
+    message: "Provide exactly one of contentTemplate or path",
+  })
+  .superRefine((data, ctx) => checkRegex(data.pattern, "pattern", ctx));
+
+/**
+ * Schema for json_merge operation.
+ *
+ * Deep-merges a rendered JSON fragment into a JSON file (package.json,
+ * tsconfig.json, ...). Does NOT use markers or stamps.
+ *
+ * Optional fields:
+ * - arrayStrategy: append-unique (default), replace, or by-key
+ * - arrayKey: Element field matched by the by-key strategy (required for it)
+ */
+const JsonMergeSchema = z
+  .object({
+    kind: z.literal("json_merge"),
+    ...patchTargetFields,
     idempotencyKey: nonEmptyString("Patch idempotencyKey"),
     contentTemplate: z.string().optional(),
     path: z.string().optional(),
+    arrayStrategy: z.enum(["append-unique", "replace", "by-key"]).optional(),
+    arrayKey: z.string().min(1).optional(),
     description: z.string().optional(),
     strict: z.boolean().optional(),
-    when: z.string().optional(),
+    when: WhenExpressionSchema.optional(),
   })
   .refine(validateContentSource, {
     message: "Provide exactly one of contentTemplate or path",
+  })
+  .refine((data) => data.arrayStrategy !== "by-key" || data.arrayKey !== undefined, {
+    message: "arrayStrategy by-key requires arrayKey",
+    path: ["arrayKey"],
   });
 
+/**
+ * Schema for yaml_merge operation.
+ *
+ * Merges a rendered YAML fragment into a YAML file, keeping its comments,
+ * anchors and formatting. Does NOT use markers or stamps.
+ *
+ * Optional fields:
+ * - keyPath: Dotted path of the mapping to merge into (e.g. services.api.environment)
+ * - arrayStrategy: append-unique (default), replace, or by-key
+ * - arrayKey: Element field matched by the by-key strategy (required for it)
+ */
+const YamlMergeSchema = z
+  .object({
+    kind: z.literal("yaml_merge"),
+    ...patchTargetFields,
+    idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+    contentTemplate: z.string().optional(),
+    path: z.string().optional(),
+    keyPath: z
+      .string()
+      .regex(/^[^.]+(\.[^.]+)*$/, "keyPath must be dot-separated keys, e.g. services.api")
+      .optional(),
+    arrayStrategy: z.enum(["append-unique", "replace", "by-key"]).optional(),
+    arrayKey: z.string().min(1).optional(),
+    description: z.string().optional(),
+    strict: z.boolean().optional(),
+    when: WhenExpressionSchema.optional(),
+  })
+  .refine(validateContentSource, {
+    message: "Provide exactly one of contentTemplate or path",
+  })
+  .refine((data) => data.arrayStrategy !== "by-key" || data.arrayKey !== undefined, {
+    message: "arrayStrategy by-key requires arrayKey",
+    path: ["arrayKey"],
+  });
+
+/**
+ * Builds the schema for ts_add_import / ts_add_export operations.
+ *
+ * Adds the import or export declarations in the rendered content to a
+ * TypeScript or JavaScript file, merging names into existing declarations
+ * of the same module. Does NOT use markers or stamps.
+ */
+function tsDeclarationSchema<K extends "ts_add_import" | "ts_add_export">(kind: K) {
+  return z
+    .object({
+      kind: z.literal(kind),
+      ...patchTargetFields,
+      idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+      contentTemplate: z.string().optional(),
+      path: z.string().optional(),
+      description: z.string().optional(),
+      strict: z.boolean().optional(),
+      when: WhenExpressionSchema.optional(),
+    })
+    .refine(validateContentSource, {
+      message: "Provide exactly one of contentTemplate or path",
+    });
+}
+
+const TsAddImportSchema = tsDeclarationSchema("ts_add_import");
+const TsAddExportSchema = tsDeclarationSchema("ts_add_export");
+
+/**
+ * Builds the schema for ts_append_array_element / ts_add_object_property operations.
+ *
+ * Adds the rendered elements or properties to an array or object literal in
+ * a TypeScript or JavaScript file. Does NOT use markers or stamps.
+ *
+ * Required fields:
+ * - target: Dotted path of the literal (e.g. routes, config.providers)
+ */
+function tsLiteralSchema<K extends "ts_append_array_element" | "ts_add_object_property">(kind: K) {
+  return z
+    .object({
+      kind: z.literal(kind),
+      ...patchTargetFields,
+      idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+      target: z
+        .string()
+        .regex(
+          /^[A-Za-z_$][\w$]*(\.[^.]+)*$/,
+          "target must be a declaration name followed by dot-separated properties, e.g. config.providers",
+        ),
+      contentTemplate: z.string().optional(),
+      path: z.string().optional(),
+      description: z.string().optional(),
+      strict: z.boolean().optional(),
+      when: WhenExpressionSchema.optional(),
+    })
+    .refine(validateContentSource, {
+      message: "Provide exactly one of contentTemplate or path",
+    });
+}
+
+const TsAppendArrayElementSchema = tsLiteralSchema("ts_append_array_element");
+const TsAddObjectPropertySchema = tsLiteralSchema("ts_add_object_property");
+
+/**
+ * Schema for remove operation.
+ *
+ * Removes the block inserted by an earlier patch with the same file and
+ * idempotencyKey, together with its stamp. Has no content.
+ */
+const RemoveSchema = z.object({
+  kind: z.literal("remove"),
+  ...patchTargetFields,
+  idempotencyKey: nonEmptyString("Patch idempotencyKey"),
+  description: z.string().optional(),
+  strict: z.boolean().optional(),
+  when: WhenExpressionSchema.optional(),
+});
+
 /**
  * Raw patch schema without marker validation for append_if_missing.
  */
@@ -158,34 +450,69 @@ const RawPatchSchema = z.discriminatedUnion("kind", [
   MarkerInsertSchema,
   MarkerReplaceSchema,
   AppendIfMissingSchema,
+  InsertBeforeSchema,
+  InsertAfterSchema,
+  RegexReplaceSchema,
+  JsonMergeSchema,
+  YamlMergeSchema,
+  TsAddImportSchema,
+  TsAddExportSchema,
+  TsAppendArrayElementSchema,
+  TsAddObjectPropertySchema,
+  RemoveSchema,
 ]);
 
 /**
- * Custom patch schema with validation for forbidden marker fields on append_if_missing.
+ * Custom patch schema with validation for forbidden marker fields on
+ * kinds that locate their target without markers, and for the target
+ * (exactly one of file or files).
  *
- * Uses superRefine to validate that append_if_missing does not include markers,
+ * Uses superRefine to validate that markerless kinds do not include markers,
  * providing actionable error messages.
  */
 const PatchSchema = z
   .object({
-    kind: z.enum(["marker_insert", "marker_replace", "append_if_missing"]),
+    kind: z.enum([
+      "marker_insert",
+      "marker_replace",
+      "append_if_missing",
+      "insert_before",
+      "insert_after",
+      "regex_replace",
+      "json_merge",
+      "yaml_merge",
+      "ts_add_import",
+      "ts_add_export",
+      "ts_append_array_element",
+      "ts_add_object_property",
+      "remove",
+    ]),
+    file: z.unknown().optional(),
+    files: z.unknown().optional(),
     markerStart: z.string().optional(),
     markerEnd: z.string().optional(),
   })
   .passthrough()
   .superRefine((data, ctx) => {
-    if (data.kind === "append_if_missing") {
+    if ((data.file === undefined) === (data.files === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Provide exactly one of file or files",
+        path: ["file"],
+      });
+    }
+    if (data.kind !== "marker_insert" && data.kind !== "marker_replace") {
       if (data.markerStart !== undefined) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: "append_if_missing does not use markers. Remove markerStart.",
+          message: `${data.kind} does not use markers. Remove markerStart.`,
           path: ["markerStart"],
         });
       }
       if (data.markerEnd !== undefined) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: "append_if_missing does not use markers. Remove markerEnd.",
+          message: `${data.kind} does not use markers. Remove markerEnd.`,
           path: ["markerEnd"],
         });
       }
@@ -253,7 +580,7 @@ const InputDefinitionSchema = z
       .refine((s) => s.length > 0, { message: "Input name cannot be empty" }),
 
     /** Type of the input value */
-    type: z.enum(["string", "number", "boolean", "enum"]).default("string"),
+    type: z.enum(["string", "number", "boolean", "enum", "list"]).default("string"),
 
     /** Whether this input is required */
     required: z.boolean().optional(),
@@ -356,6 +683,63 @@ const InputDefinitionSchema = z
     }
   });
 
+/**
+ * Schema for the HTML escaping setting (see EscapePolicy).
+ *
+ * Either a boolean applying to every file, or glob-based rules.
+ */
+const EscapeHtmlSchema = z.union([
+  z.boolean(),
+  z.object({
+    default: z.boolean().optional(),
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+  }),
+]);
+
+/**
+ * Schema for a conditional file rule (see FileRules).
+ *
+ * `include` globs are generated only when `when` holds; `exclude` globs are
+ * skipped when `when` holds (always, without `when`).
+ */
+const FileRuleSchema = z
+  .object({
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+    when: WhenClauseSchema.optional(),
+  })
+  .refine((rule) => (rule.include?.length ?? 0) + (rule.exclude?.length ?? 0) > 0, {
+    message: "File rule must declare at least one include or exclude glob",
+  });
+
+/**
+ * Schema for a fan-out rule (see FanOut).
+ *
+ * Templates matching `templates` render once per element of the `each`
+ * list input, with the element bound to `as`.
+ */
+const FanOutRuleSchema = z.object({
+  templates: z.array(z.string().min(1)).min(1, "Fan-out rule must declare at least one template"),
+  each: z.string().min(1),
+  as: z.string().min(1),
+});
+
+/**
+ * Schema for a custom delimiter rule (see TemplateModes).
+ *
+ * Templates matching `files` use `open`/`close` instead of `{{`/`}}`.
+ */
+const DelimiterRuleSchema = z
+  .object({
+    files: z.array(z.string().min(1)).min(1, "Delimiter rule must declare at least one file glob"),
+    open: z.string().min(2, "Delimiter must be at least 2 characters"),
+    close: z.string().min(2, "Delimiter must be at least 2 characters"),
+  })
+  .refine((rule) => rule.open !== rule.close, {
+    message: "Opening and closing delimiters must differ",
+  });
+
 /**
  * Schema for a single archetype definition.
  *
@@ -426,6 +810,80 @@ const ArchetypeSchema = z.object({
    * ```
    */
   inputs: z.array(InputDefinitionSchema).optional(),
+
+  /**
+   * Optional filename rename rules mapping a path placeholder to a Handlebars
+   * expression rendered against the resolved inputs. Input placeholders like
+   * `__name__` and `__name_pascal__` are available without declaring them here.
+   *
+   * @example
+   * ```yaml
+   * rename:
+   *   __Entity__: "{{entityName}}Entity"
+   * ```
+   */
+  rename: z.record(z.string().min(1), z.string()).optional(),
+
+  /**
+   * Optional HTML escaping setting for this archetype's templates and patches.
+   * Overrides `scaffoldix.escapeHtml`. By default only HTML files are escaped.
+   */
+  escapeHtml: EscapeHtmlSchema.optional(),
+
+  /**
+   * Optional strict template mode for this archetype's templates and patches.
+   * Overrides `scaffoldix.strict`. Missing variables and helpers fail the render.
+   */
+  strict: z.boolean().optional(),
+
+  /**
+   * Optional rules deciding which template files are generated, based on
+   * resolved inputs. Skipped files never appear in plans or conflict reports.
+   *
+   * @example
+   * ```yaml
+   * files:
+   *   - include: ["src/**\/*.test.ts"]
+   *     when: { input: includeTests, equals: true }
+   * ```
+   */
+  files: z.array(FileRuleSchema).optional(),
+
+  /**
+   * Optional rules rendering templates once per element of a list input.
+   *
+   * @example
+   * ```yaml
+   * fanOut:
+   *   - templates: ["src/__entity__.repository.ts"]
+   *     each: entities
+   *     as: entity
+   * ```
+   */
+  fanOut: z.array(FanOutRuleSchema).optional(),
+
+  /**
+   * Optional globs of templates copied verbatim, without Handlebars rendering.
+   *
+   * @example
+   * ```yaml
+   * copy: [".github/workflows/**"]
+   * ```
+   */
+  copy: z.array(z.string().min(1)).optional(),
+
+  /**
+   * Optional alternative delimiters for templates containing literal `{{`.
+   *
+   * @example
+   * ```yaml
+   * delimiters:
+   *   - files: ["src/**\/*.vue"]
+   *     open: "[["
+   *     close: "]]"
+   * ```
+   */
+  delimiters: z.array(DelimiterRuleSchema).optional(),
 });
 
 /**
@@ -463,12 +921,39 @@ const CompatibilitySchema = z.object({
   incompatible: z.array(z.string()).optional(),
 });
 
+/**
+ * Schema for a path that must stay inside the pack root.
+ */
+const packRelativePath = (fieldName: string) =>
+  nonEmptyString(fieldName).refine(
+    (p) => !path.isAbsolute(p) && !path.normalize(p).split(/[\\/]/).includes(".."),
+    { message: `${fieldName} must be a relative path inside the pack` },
+  );
+
 /**
  * Schema for Scaffoldix-specific configuration in the manifest.
  */
 const ScaffoldixConfigSchema = z.object({
   /** Version compatibility constraints */
   compatibility: CompatibilitySchema.optional(),
+
+  /** Pack-wide HTML escaping setting (default: only HTML files are escaped) */
+  escapeHtml: EscapeHtmlSchema.optional(),
+
+  /** Pack-wide strict template mode: fail on missing variables and helpers (default: false) */
+  strict: z.boolean().optional(),
+
+  /**
+   * Directory of Handlebars partials, relative to pack root.
+   * Each file is registered by its path without extension (`{{> license/header}}`).
+   */
+  partials: packRelativePath("scaffoldix.partials").optional(),
+
+  /**
+   * Helper modules (JS/ESM), relative to pack root. Exported functions are
+   * registered as helpers for this pack's renders only.
+   */
+  helpers: z.array(packRelativePath("scaffoldix.helpers entry")).optional(),
 });
 
 /**
@@ -509,11 +994,84 @@ export type MarkerReplacePatch = z.infer<typeof MarkerReplaceSchema>;
  */
 export type AppendIfMissingPatch = z.infer<typeof AppendIfMissingSchema>;
 
+/**
+ * Patch operation for insert_before.
+ * Inserts content before the line containing an anchor.
+ */
+export type InsertBeforePatch = z.infer<typeof InsertBeforeSchema>;
+
+/**
+ * Patch operation for insert_after.
+ * Inserts content after the line containing an anchor.
+ */
+export type InsertAfterPatch = z.infer<typeof InsertAfterSchema>;
+
+/**
+ * Patch operation for regex_replace.
+ * Replaces a regex match with content.
+ */
+export type RegexReplacePatch = z.infer<typeof RegexReplaceSchema>;
+
+/**
+ * Patch operation for json_merge.
+ * Deep-merges a JSON fragment into a JSON file.
+ */
+export type JsonMergePatch = z.infer<typeof JsonMergeSchema>;
+
+/**
+ * Patch operation for yaml_merge.
+ * Merges a YAML fragment into a YAML file, keeping comments.
+ */
+export type YamlMergePatch = z.infer<typeof YamlMergeSchema>;
+
+/**
+ * Patch operation for ts_add_import.
+ * Adds import declarations to a TypeScript or JavaScript file.
+ */
+export type TsAddImportPatch = z.infer<typeof TsAddImportSchema>;
+
+/**
+ * Patch operation for ts_add_export.
+ * Adds export declarations to a TypeScript or JavaScript file.
+ */
+export type TsAddExportPatch = z.infer<typeof TsAddExportSchema>;
+
+/**
+ * Patch operation for ts_append_array_element.
+ * Appends elements to an array literal.
+ */
+export type TsAppendArrayElementPatch = z.infer<typeof TsAppendArrayElementSchema>;
+
+/**
+ * Patch operation for ts_add_object_property.
+ * Adds properties to an object literal.
+ */
+export type TsAddObjectPropertyPatch = z.infer<typeof TsAddObjectPropertySchema>;
+
+/**
+ * Patch operation for remove.
+ * Reverts an earlier patch by idempotency key.
+ */
+export type RemovePatch = z.infer<typeof RemoveSchema>;
+
 /**
  * Union type of all patch operations.
  * Discriminated on the `kind` field.
  */
-export type PatchOperation = MarkerInsertPatch | MarkerReplacePatch | AppendIfMissingPatch;
+export type PatchOperation =
+  | MarkerInsertPatch
+  | MarkerReplacePatch
+  | AppendIfMissingPatch
+  | InsertBeforePatch
+  | InsertAfterPatch
+  | RegexReplacePatch
+  | JsonMergePatch
+  | YamlMergePatch
+  | TsAddImportPatch
+  | TsAddExportPatch
+  | TsAppendArrayElementPatch
+  | TsAddObjectPropertyPatch
+  | RemovePatch;
 
 /** A single archetype definition */
 export type Archetype = z.infer<typeof ArchetypeSchema>;
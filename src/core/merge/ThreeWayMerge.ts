@@ -0,0 +1,303 @@
+/**
+ * Line-based three-way text merge.
+ *
+ * Merges two descendants of a common ancestor, the way `diff3` does:
+ *
+ * - **base**: the file as an earlier pack version generated it
+ * - **ours**: the file as it is in the project now (user edits included)
+ * - **theirs**: the file as the new pack version generates it
+ *
+ * Both descendants are diffed against the base (Myers' algorithm). Regions
+ * where neither side changed the base are stable; between them, a region
+ * changed on one side only takes that side's lines, a region changed the
+ * same way on both sides takes either, and a region changed differently on
+ * both sides is a conflict.
+ *
+ * Conflicts are returned both inline, between `<<<<<<<` / `=======` /
+ * `>>>>>>>` markers, and as separate hunks for a `.rej` file next to a
+ * merge that keeps the project's side.
+ *
+ * @module
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Labels written after the conflict markers.
+ */
+export interface MergeLabels {
+  /** Label of the project's side (`<<<<<<<`) */
+  readonly ours: string;
+
+  /** Label of the new version's side (`>>>>>>>`) */
+  readonly theirs: string;
+}
+
+/**
+ * A region both sides changed differently.
+ */
+export interface MergeConflict {
+  /** 1-based line of the region in the merge that keeps the project's side */
+  readonly line: number;
+
+  /** The project's lines */
+  readonly ours: string;
+
+  /** The common ancestor's lines */
+  readonly base: string;
+
+  /** The new version's lines */
+  readonly theirs: string;
+}
+
+/**
+ * Result of a three-way merge.
+ */
+export interface TextMergeResult {
+  /** Merged text, with conflict markers around each conflicting region */
+  readonly merged: string;
+
+  /** Merged text that keeps the project's side of each conflicting region */
+  readonly mergedOurs: string;
+
+  /** Conflicting regions, in file order (empty for a clean merge) */
+  readonly conflicts: MergeConflict[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default conflict marker labels. */
+const DEFAULT_LABELS: MergeLabels = { ours: "project", theirs: "pack" };
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Splits text into lines, each keeping its line ending.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Finds the longest common subsequence of two line lists with Myers' O(ND)
+ * algorithm.
+ *
+ * @returns Index pairs `[i, j]` with `a[i] === b[j]`, increasing in both
+ */
+function myersMatches(a: readonly string[], b: readonly string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1 .. d+1] before step d, for backtracking
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return matches.reverse();
+}
+
+/**
+ * Maps each line of `base` to its matching line in `other`, or -1.
+ *
+ * The common prefix and suffix are matched directly, so Myers only runs on
+ * the changed middle.
+ */
+function matchLines(base: readonly string[], other: readonly string[]): Int32Array {
+  const matched = new Int32Array(base.length).fill(-1);
+
+  let start = 0;
+  while (start < base.length && start < other.length && base[start] === other[start]) {
+    matched[start] = start;
+    start++;
+  }
+
+  let baseEnd = base.length;
+  let otherEnd = other.length;
+  while (baseEnd > start && otherEnd > start && base[baseEnd - 1] === other[otherEnd - 1]) {
+    baseEnd--;
+    otherEnd--;
+    matched[baseEnd] = otherEnd;
+  }
+
+  const middle = myersMatches(base.slice(start, baseEnd), other.slice(start, otherEnd));
+  for (const [i, j] of middle) {
+    matched[start + i] = start + j;
+  }
+
+  return matched;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Merges the project's and the new version's changes to a file.
+ *
+ * @param base - Common ancestor (generated by the old version)
+ * @param ours - Current project content
+ * @param theirs - Content generated by the new version
+ * @param labels - Conflict marker labels
+ * @returns Merged text and any conflicts
+ *
+ * @example
+ * const result = mergeText("a\nb\nc\n", "a\nB\nc\n", "a\nb\nc\nd\n");
+ * // result.merged === "a\nB\nc\nd\n", result.conflicts.length === 0
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = DEFAULT_LABELS,
+): TextMergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatch = matchLines(baseLines, ourLines);
+  const theirMatch = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  const mergedOurs: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let oursLineCount = 0;
+
+  const take = (lines: readonly string[]) => {
+    merged.push(...lines);
+    mergedOurs.push(...lines);
+    oursLineCount += lines.length;
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  for (;;) {
+    // Stable lines: unchanged on both sides
+    while (i < baseLines.length && ourMatch[i] === j && theirMatch[i] === k) {
+      take([baseLines[i]]);
+      i++;
+      j++;
+      k++;
+    }
+    if (i >= baseLines.length && j >= ourLines.length && k >= theirLines.length) {
+      break;
+    }
+
+    // Unstable region up to the next base line both sides kept
+    let nextI = i;
+    while (nextI < baseLines.length && (ourMatch[nextI] < 0 || theirMatch[nextI] < 0)) {
+      nextI++;
+    }
+    const nextJ = nextI < baseLines.length ? ourMatch[nextI] : ourLines.length;
+    const nextK = nextI < baseLines.length ? theirMatch[nextI] : theirLines.length;
+
+    const baseText = baseLines.slice(i, nextI).join("");
+    const ourRegion = ourLines.slice(j, nextJ);
+    const theirRegion = theirLines.slice(k, nextK);
+    const ourText = ourRegion.join("");
+    const theirText = theirRegion.join("");
+
+    if (ourText === baseText || ourText === theirText) {
+      take(theirRegion);
+    } else if (theirText === baseText) {
+      take(ourRegion);
+    } else {
+      conflicts.push({
+        line: oursLineCount + 1,
+        ours: ourText,
+        base: baseText,
+        theirs: theirText,
+      });
+      merged.push(
+        `<<<<<<< ${labels.ours}\n`,
+        withTrailingNewline(ourText),
+        "=======\n",
+        withTrailingNewline(theirText),
+        `>>>>>>> ${labels.theirs}\n`,
+      );
+      mergedOurs.push(...ourRegion);
+      oursLineCount += ourRegion.length;
+    }
+
+    i = nextI;
+    j = nextJ;
+    k = nextK;
+  }
+
+  return { merged: merged.join(""), mergedOurs: mergedOurs.join(""), conflicts };
+}
+
+/**
+ * Formats conflicts as the content of a `.rej` file: one hunk per conflict,
+ * headed by its line in the file that kept the project's side.
+ *
+ * @param conflicts - Conflicts from mergeText
+ * @param labels - Conflict marker labels
+ * @returns Reject file content
+ */
+export function formatRejects(
+  conflicts: readonly MergeConflict[],
+  labels: MergeLabels = DEFAULT_LABELS,
+): string {
+  return conflicts
+    .map(
+      (c) =>
+        `@@ line ${c.line} @@\n` +
+        `<<<<<<< ${labels.ours}\n${withTrailingNewline(c.ours)}` +
+        `=======\n${withTrailingNewline(c.theirs)}` +
+        `>>>>>>> ${labels.theirs}\n`,
+    )
+    .join("\n");
+}
+
+/**
+ * Appends a newline unless the text is empty or already ends with one, so a
+ * conflict marker always starts its own line.
+ */
+function withTrailingNewline(text: string): string {
+  return text === "" || text.endsWith("\n") ? text : text + "\n";
+}
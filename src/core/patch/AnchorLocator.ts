@@ -0,0 +1,163 @@
+/**
+ * Anchor matching for marker-free patches.
+ *
+ * `insert_before`, `insert_after` and `regex_replace` patch hand-written
+ * files that contain no Scaffoldix markers. They locate an anchor instead:
+ * a literal string or a regular expression, picking the first, last or nth
+ * occurrence.
+ *
+ * Regular expressions are compiled with the `g` and `m` flags, so `^` and `$`
+ * match at line boundaries.
+ *
+ * @module
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Which occurrence of an anchor to use: `first`, `last` or a 1-based index.
+ */
+export type AnchorOccurrence = "first" | "last" | number;
+
+/**
+ * How to find an anchor in a file.
+ */
+export interface AnchorSpec {
+  /** Literal string, or regular expression source when `regex` is set */
+  readonly pattern: string;
+
+  /** Treat `pattern` as a regular expression (default: false) */
+  readonly regex?: boolean;
+
+  /** Occurrence to use (default: first) */
+  readonly occurrence?: AnchorOccurrence;
+}
+
+/**
+ * A located anchor.
+ */
+export interface AnchorMatch {
+  /** Offset of the match in the content */
+  readonly index: number;
+
+  /** Matched text */
+  readonly text: string;
+
+  /** Capture groups (index 0 is the whole match) */
+  readonly groups: readonly (string | undefined)[];
+
+  /** Named capture groups */
+  readonly namedGroups: Readonly<Record<string, string | undefined>>;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Escapes a literal string for use in a regular expression.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles an anchor into a global, multiline regular expression.
+ */
+function compileAnchor(spec: AnchorSpec): RegExp {
+  return new RegExp(spec.regex ? spec.pattern : escapeRegExp(spec.pattern), "gm");
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Checks whether a string is a valid regular expression.
+ *
+ * @param pattern - Regular expression source
+ * @returns Error message, or undefined if the pattern is valid
+ */
+export function getRegexError(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern, "gm");
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * Formats an occurrence for messages (`first`, `last`, `3rd`).
+ *
+ * @param occurrence - Occurrence setting
+ * @returns Human-readable occurrence
+ */
+export function describeOccurrence(occurrence: AnchorOccurrence = "first"): string {
+  if (typeof occurrence === "string") {
+    return occurrence;
+  }
+  const suffix =
+    occurrence % 100 >= 11 && occurrence % 100 <= 13
+      ? "th"
+      : (["th", "st", "nd", "rd"][occurrence % 10] ?? "th");
+  return `${occurrence}${suffix}`;
+}
+
+/**
+ * Finds the requested occurrence of an anchor.
+ *
+ * Empty regex matches are ignored.
+ *
+ * @param content - File content
+ * @param spec - Anchor pattern and occurrence
+ * @returns The match, or undefined if the anchor (or that occurrence) is missing
+ * @throws SyntaxError if `spec.regex` is set and the pattern is invalid
+ */
+export function locateAnchor(content: string, spec: AnchorSpec): AnchorMatch | undefined {
+  const matches = [...content.matchAll(compileAnchor(spec))].filter((m) => m[0] !== "");
+  const { occurrence = "first" } = spec;
+
+  const match =
+    occurrence === "first"
+      ? matches[0]
+      : occurrence === "last"
+        ? matches.at(-1)
+        : matches[occurrence - 1];
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    index: match.index,
+    text: match[0],
+    groups: [...match],
+    namedGroups: { ...match.groups },
+  };
+}
+
+/**
+ * Expands `$&`, `$1`..`$99`, `$<name>` and `$$` in a replacement string,
+ * like `String.prototype.replace`.
+ *
+ * @param replacement - Replacement text
+ * @param match - Located anchor
+ * @returns Replacement with group references substituted
+ */
+export function expandReplacement(replacement: string, match: AnchorMatch): string {
+  return replacement.replace(/\$(\$|&|<([^>]+)>|\d{1,2})/g, (token, ref: string, name?: string) => {
+    if (ref === "$") {
+      return "$";
+    }
+    if (ref === "&") {
+      return match.text;
+    }
+    if (name !== undefined) {
+      return match.namedGroups[name] ?? "";
+    }
+    const index = Number(ref);
+    return index > 0 && index < match.groups.length ? (match.groups[index] ?? "") : token;
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * Applied patches recorded in project state.
+ *
+ * The `patches.items` of each generation in `.scaffoldix/state.json` say
+ * which idempotency keys were applied to which files. Replaying them in order
+ * gives the patches currently in the project:
+ *
+ * - `applied` (or skipped as `already_applied`) records the patch
+ * - an applied `remove` forgets it
+ *
+ * Generations reverted by `scaffoldix undo` are skipped: their files were
+ * restored to what they were before the patches.
+ *
+ * The engine uses these records for stamp-less idempotency (content hash) and
+ * to know what to remove when reverting a patch.
+ *
+ * @module
+ */
+
+import type { ProjectState } from "../state/ProjectStateManager.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A patch currently applied to a project file.
+ */
+export interface AppliedPatch {
+  /** Patch kind */
+  readonly kind: string;
+
+  /** Target file path (relative to the project root) */
+  readonly file: string;
+
+  /** Idempotency key */
+  readonly idempotencyKey: string;
+
+  /** Content hash of a stamp-less patch */
+  readonly contentHash?: string;
+
+  /** Lines of content inserted under the stamp */
+  readonly lines?: number;
+
+  /** Exact text inserted, stamp included */
+  readonly inserted?: string;
+
+  /** ID of the generation that recorded the patch */
+  readonly generationId: string;
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Builds the lookup key of an applied patch.
+ *
+ * @param file - Target file path
+ * @param idempotencyKey - Patch idempotency key
+ * @returns Key for `PatchOptions.appliedPatches`
+ */
+export function appliedPatchKey(file: string, idempotencyKey: string): string {
+  return `${file}#${idempotencyKey}`;
+}
+
+/**
+ * Collects the patches currently applied to a project.
+ *
+ * @param state - Project state (null or v1 state have no patch records)
+ * @returns Applied patches keyed by `appliedPatchKey(file, idempotencyKey)`
+ */
+export function collectAppliedPatches(state: ProjectState | null): Map<string, AppliedPatch> {
+  const applied = new Map<string, AppliedPatch>();
+  if (!state || !("generations" in state)) {
+    return applied;
+  }
+
+  // Later generations win
+  for (const generation of state.generations) {
+    if (generation.revertedAt !== undefined) {
+      continue;
+    }
+    for (const item of generation.patches?.items ?? []) {
+      const key = appliedPatchKey(item.file, item.idempotencyKey);
+
+      if (item.kind === "remove") {
+        if (item.status === "applied") {
+          applied.delete(key);
+        }
+        continue;
+      }
+
+      if (
+        item.status === "applied" ||
+        (item.status === "skipped" && item.reason === "already_applied")
+      ) {
+        applied.set(key, {
+          kind: item.kind,
+          file: item.file,
+          idempotencyKey: item.idempotencyKey,
+          contentHash: item.contentHash,
+          lines: item.lines ?? applied.get(key)?.lines,
+          inserted: item.inserted ?? applied.get(key)?.inserted,
+          generationId: generation.id,
+        });
+      }
+    }
+  }
+  return applied;
+}
@@ -0,0 +1,232 @@
+/**
+ * Structural merging for data-file patches (`json_merge`).
+ *
+ * Deep-merges a fragment into a parsed document and records which keys
+ * changed. The merge is idempotent: merging the same fragment twice yields
+ * no changes the second time, so no text stamp is needed.
+ *
+ * ## Merge Rules
+ *
+ * - Objects merge recursively; existing keys keep their position, new keys
+ *   are appended in fragment order.
+ * - Scalars (and mismatched types) in the fragment replace the target value.
+ * - Arrays follow the configured strategy:
+ *   - `append-unique` (default): append fragment elements not already present
+ *   - `replace`: the fragment array replaces the target array
+ *   - `by-key`: object elements with the same `arrayKey` value are merged,
+ *     others are appended
+ *
+ * ## Changed Keys
+ *
+ * Changed keys are dotted paths (`dependencies.zod`, `compilerOptions.paths`).
+ * Array changes are reported on the array itself, or on the matched element
+ * for `by-key` (`plugins[name=vite].options`).
+ *
+ * @module
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How arrays present in both the target and the fragment are merged.
+ */
+export type ArrayMergeStrategy = "append-unique" | "replace" | "by-key";
+
+/**
+ * Options for a structural merge.
+ */
+export interface StructuredMergeOptions {
+  /** Array merge strategy (default: append-unique) */
+  readonly arrayStrategy?: ArrayMergeStrategy;
+
+  /** Element field identifying array entries for the `by-key` strategy */
+  readonly arrayKey?: string;
+}
+
+/**
+ * Result of a structural merge.
+ */
+export interface StructuredMergeResult {
+  /** The merged value (the target is not mutated) */
+  readonly value: unknown;
+
+  /** Paths of the keys that changed, in merge order */
+  readonly changedKeys: string[];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Checks whether a value is a plain object (not an array or null).
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compares two JSON-like values structurally (object key order is ignored).
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Joins a parent path and a key into a dotted path.
+ */
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Merges two arrays according to the configured strategy.
+ */
+function mergeArrays(
+  target: unknown[],
+  fragment: unknown[],
+  keyPath: string,
+  options: StructuredMergeOptions,
+  changedKeys: string[],
+): unknown[] {
+  const { arrayStrategy = "append-unique", arrayKey } = options;
+
+  if (arrayStrategy === "replace") {
+    if (!isDeepEqual(target, fragment)) {
+      changedKeys.push(keyPath);
+      return [...fragment];
+    }
+    return target;
+  }
+
+  const result = [...target];
+  let appended = false;
+
+  for (const element of fragment) {
+    const key =
+      arrayStrategy === "by-key" && arrayKey ? getElementKey(element, arrayKey) : undefined;
+
+    if (key !== undefined) {
+      const index = result.findIndex((item) => getElementKey(item, arrayKey!) === key);
+      const elementPath = `${keyPath}[${arrayKey}=${String(key)}]`;
+      if (index === -1) {
+        result.push(element);
+        changedKeys.push(elementPath);
+      } else {
+        result[index] = mergeValues(result[index], element, elementPath, options, changedKeys);
+      }
+      continue;
+    }
+
+    if (!result.some((item) => isDeepEqual(item, element))) {
+      result.push(element);
+      appended = true;
+    }
+  }
+
+  if (appended) {
+    changedKeys.push(keyPath);
+  }
+  return result;
+}
+
+/**
+ * Reads the identifying field of an array element, if it has one.
+ */
+function getElementKey(element: unknown, arrayKey: string): unknown {
+  if (!isPlainObject(element)) {
+    return undefined;
+  }
+  const key = element[arrayKey];
+  return typeof key === "string" || typeof key === "number" || typeof key === "boolean"
+    ? key
+    : undefined;
+}
+
+/**
+ * Merges a fragment value into a target value at a path.
+ */
+function mergeValues(
+  target: unknown,
+  fragment: unknown,
+  keyPath: string,
+  options: StructuredMergeOptions,
+  changedKeys: string[],
+): unknown {
+  if (isPlainObject(target) && isPlainObject(fragment)) {
+    const result: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(fragment)) {
+      const childPath = joinPath(keyPath, key);
+      if (!Object.hasOwn(result, key)) {
+        result[key] = value;
+        changedKeys.push(childPath);
+      } else {
+        result[key] = mergeValues(result[key], value, childPath, options, changedKeys);
+      }
+    }
+    return result;
+  }
+
+  if (Array.isArray(target) && Array.isArray(fragment)) {
+    return mergeArrays(target, fragment, keyPath, options, changedKeys);
+  }
+
+  if (!isDeepEqual(target, fragment)) {
+    changedKeys.push(keyPath);
+    return fragment;
+  }
+  return target;
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Deep-merges a fragment into a target document.
+ *
+ * @param target - Parsed target document
+ * @param fragment - Parsed fragment to merge in
+ * @param options - Array merge settings
+ * @returns Merged value and the keys that changed (empty if already merged)
+ */
+export function mergeStructured(
+  target: unknown,
+  fragment: unknown,
+  options: StructuredMergeOptions = {},
+): StructuredMergeResult {
+  const changedKeys: string[] = [];
+  const value = mergeValues(target, fragment, "", options, changedKeys);
+  return { value, changedKeys };
+}
+
+/**
+ * Detects the indentation of a JSON document.
+ *
+ * @param content - JSON source
+ * @returns Indentation for `JSON.stringify` (0 for single-line documents)
+ */
+export function detectJsonIndent(content: string): string | number {
+  const trimmed = content.trim();
+  if (!trimmed.includes("\n")) {
+    // `{}` has no indentation to keep; other single-line documents stay compact
+    return trimmed === "{}" || trimmed === "[]" || trimmed === "" ? 2 : 0;
+  }
+  const match = /^([ \t]+)\S/m.exec(content);
+  return match ? match[1] : 2;
+}
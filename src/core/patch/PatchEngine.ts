@@ -10,16 +10,42 @@
  * - `marker_insert`: Insert content between markers
  * - `marker_replace`: Replace content between markers
  * - `append_if_missing`: Append content to end of file if not present
+ * - `insert_before` / `insert_after`: Insert content on its own lines before
+ *   or after the line containing an anchor (literal or regex)
+ * - `regex_replace`: Replace an anchor match with content
+ * - `json_merge`: Deep-merge a JSON fragment into a JSON file
+ * - `yaml_merge`: Merge a YAML fragment into a YAML file, keeping comments
+ * - `ts_add_import` / `ts_add_export` / `ts_append_array_element` /
+ *   `ts_add_object_property`: Edit TypeScript and JavaScript through their
+ *   syntax tree (see TsPatch)
+ * - `remove`: Remove the block an earlier patch inserted, with its stamp
  *
  * ## Idempotency
  *
- * All operations use an explicit "stamp" comment based on `idempotencyKey`:
+ * Text operations use an explicit "stamp" comment based on `idempotencyKey`,
+ * written in the target file's comment syntax (see PatchStamp):
  * ```
- * SCAFFOLDIX_PATCH:<idempotencyKey>
+ * // SCAFFOLDIX_PATCH:<idempotencyKey>
+ * # SCAFFOLDIX_PATCH:<idempotencyKey>
  * ```
  *
  * If the stamp is present in the file, the operation is skipped to prevent
- * duplicate modifications.
+ * duplicate modifications. Stamp-less operations (`stamp: none`) are skipped
+ * when `appliedPatches` records the same content hash instead.
+ *
+ * `json_merge`, `yaml_merge` and the TypeScript operations do not write a
+ * stamp. They are skipped when the fragment, declarations or entries are
+ * already in the file (see JsonMerge, YamlMerge and TsPatch).
+ *
+ * ## Reverting
+ *
+ * Inserting operations (`marker_insert`, `append_if_missing`, `insert_before`,
+ * `insert_after`) report the exact text they inserted, stamp and added line
+ * breaks included. `remove` finds the stamp again and cuts exactly that text
+ * out, using the record of the patch in `appliedPatches`, so the file is
+ * restored byte for byte. Records from before the text was kept only have a
+ * line count, and are removed line by line. Replacements and merges overwrite
+ * the original text, so they cannot be reverted.
  *
  * ## Atomic Writes
  *
@@ -33,13 +59,30 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import * as crypto from "node:crypto";
 import { ScaffoldError } from "../errors/errors.js";
-
-// =============================================================================
-// Constants
-// =============================================================================
-
-/** Stamp prefix for idempotency detection. */
-const STAMP_PREFIX = "SCAFFOLDIX_PATCH:";
+import {
+  mergeStructured,
+  detectJsonIndent,
+  isPlainObject,
+  type ArrayMergeStrategy,
+} from "./JsonMerge.js";
+import { mergeYaml } from "./YamlMerge.js";
+import {
+  locateAnchor,
+  expandReplacement,
+  describeOccurrence,
+  getRegexError,
+  type AnchorOccurrence,
+  type AnchorMatch,
+} from "./AnchorLocator.js";
+import {
+  resolveStampStyle,
+  formatStamp,
+  hasStamp,
+  locateStamp,
+  hashPatchContent,
+  type StampStyle,
+} from "./PatchStamp.js";
+import { appliedPatchKey, type AppliedPatch } from "./AppliedPatches.js";
 
 // =============================================================================
 // Types
@@ -54,6 +97,17 @@ interface PatchOperationBase {
 
   /** Unique key for idempotency checking. */
   readonly idempotencyKey: string;
+
+  /** Strict mode for this operation (default: `PatchOptions.strict`). */
+  readonly strict?: boolean;
+}
+
+/**
+ * Base fields of text operations, which are made idempotent by a stamp.
+ */
+interface StampedOperationBase extends PatchOperationBase {
+  /** Stamp comment syntax (default: from the file extension). */
+  readonly stamp?: StampStyle;
 }
 
 /**
@@ -61,7 +115,7 @@ interface PatchOperationBase {
  *
  * Content is inserted immediately after markerStart.
  */
-export interface MarkerInsertOperation extends PatchOperationBase {
+export interface MarkerInsertOperation extends StampedOperationBase {
   readonly kind: "marker_insert";
 
   /** Start marker string to find in the file. */
@@ -79,7 +133,7 @@ export interface MarkerInsertOperation extends PatchOperationBase {
  *
  * Everything between markerStart and markerEnd is replaced with content.
  */
-export interface MarkerReplaceOperation extends PatchOperationBase {
+export interface MarkerReplaceOperation extends StampedOperationBase {
   readonly kind: "marker_replace";
 
   /** Start marker string to find in the file. */
@@ -95,20 +149,222 @@ export interface MarkerReplaceOperation extends PatchOperationBase {
 /**
  * Append content to end of file if not already present.
  */
-export interface AppendIfMissingOperation extends PatchOperationBase {
+export interface AppendIfMissingOperation extends StampedOperationBase {
   readonly kind: "append_if_missing";
 
   /** Content to append (already resolved, no Handlebars processing). */
   readonly content: string;
 }
 
+/**
+ * Anchor fields shared by marker-free text operations.
+ */
+interface AnchorFields {
+  /** Literal string (or regex source when `regex` is set) to locate. */
+  readonly anchor: string;
+
+  /** Treat `anchor` as a regular expression. */
+  readonly regex?: boolean;
+
+  /** Which occurrence of the anchor to use (default: first). */
+  readonly occurrence?: AnchorOccurrence;
+}
+
+/**
+ * Insert content on its own lines before the line containing an anchor.
+ */
+export interface InsertBeforeOperation extends StampedOperationBase, AnchorFields {
+  readonly kind: "insert_before";
+
+  /** Content to insert (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * Insert content on its own lines after the line containing an anchor.
+ */
+export interface InsertAfterOperation extends StampedOperationBase, AnchorFields {
+  readonly kind: "insert_after";
+
+  /** Content to insert (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * Replace an anchor match with content.
+ *
+ * The content may reference capture groups (`$1`, `$<name>`, `$&`).
+ */
+export interface RegexReplaceOperation extends StampedOperationBase {
+  readonly kind: "regex_replace";
+
+  /** Regular expression to match. */
+  readonly pattern: string;
+
+  /** Which match to replace (default: first). */
+  readonly occurrence?: AnchorOccurrence;
+
+  /** Replacement (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * Deep-merge a JSON fragment into a JSON file.
+ *
+ * Keeps the file's indentation and key order; new keys are appended.
+ */
+export interface JsonMergeOperation extends PatchOperationBase {
+  readonly kind: "json_merge";
+
+  /** JSON object to merge (already resolved, no Handlebars processing). */
+  readonly content: string;
+
+  /** Array merge strategy (default: append-unique). */
+  readonly arrayStrategy?: ArrayMergeStrategy;
+
+  /** Element field identifying array entries for the `by-key` strategy. */
+  readonly arrayKey?: string;
+}
+
+/**
+ * Merge a YAML fragment into a YAML file.
+ *
+ * Keeps comments, anchors and formatting of the untouched parts of the file.
+ */
+export interface YamlMergeOperation extends PatchOperationBase {
+  readonly kind: "yaml_merge";
+
+  /** YAML mapping to merge (already resolved, no Handlebars processing). */
+  readonly content: string;
+
+  /** Dotted path of the mapping to merge into (default: document root). */
+  readonly keyPath?: string;
+
+  /** Array merge strategy (default: append-unique). */
+  readonly arrayStrategy?: ArrayMergeStrategy;
+
+  /** Element field identifying array entries for the `by-key` strategy. */
+  readonly arrayKey?: string;
+}
+
+/**
+ * Add import declarations to a TypeScript or JavaScript file.
+ *
+ * Names are merged into an existing import of the same module.
+ */
+export interface TsAddImportOperation extends PatchOperationBase {
+  readonly kind: "ts_add_import";
+
+  /** Import declarations (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * Add export declarations to a TypeScript or JavaScript file.
+ *
+ * Names are merged into an existing export of the same module.
+ */
+export interface TsAddExportOperation extends PatchOperationBase {
+  readonly kind: "ts_add_export";
+
+  /** Export declarations (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * Append elements to an array literal.
+ */
+export interface TsAppendArrayElementOperation extends PatchOperationBase {
+  readonly kind: "ts_append_array_element";
+
+  /** Dotted path of the array literal (e.g. `routes`, `config.plugins`). */
+  readonly target: string;
+
+  /** Comma-separated elements (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * Add properties to an object literal.
+ */
+export interface TsAddObjectPropertyOperation extends PatchOperationBase {
+  readonly kind: "ts_add_object_property";
+
+  /** Dotted path of the object literal (e.g. `config.providers`). */
+  readonly target: string;
+
+  /** Comma-separated properties (already resolved, no Handlebars processing). */
+  readonly content: string;
+}
+
+/**
+ * TypeScript-aware operations.
+ */
+export type TsOperation =
+  | TsAddImportOperation
+  | TsAddExportOperation
+  | TsAppendArrayElementOperation
+  | TsAddObjectPropertyOperation;
+
+/**
+ * Remove the block an earlier patch inserted, with its stamp.
+ *
+ * `idempotencyKey` is the key of the patch to remove.
+ */
+export interface RemoveOperation extends PatchOperationBase {
+  readonly kind: "remove";
+}
+
 /**
  * Union type of all supported patch operations.
  */
 export type PatchOperation =
   | MarkerInsertOperation
   | MarkerReplaceOperation
-  | AppendIfMissingOperation;
+  | AppendIfMissingOperation
+  | InsertBeforeOperation
+  | InsertAfterOperation
+  | RegexReplaceOperation
+  | JsonMergeOperation
+  | YamlMergeOperation
+  | TsOperation
+  | RemoveOperation;
+
+/**
+ * Operations that write a stamp (all but structural merges, TypeScript
+ * operations and removals).
+ */
+type TextOperation = Exclude<
+  PatchOperation,
+  JsonMergeOperation | YamlMergeOperation | TsOperation | RemoveOperation
+>;
+
+/**
+ * Kinds of the TypeScript-aware operations.
+ */
+const TS_KINDS: ReadonlySet<string> = new Set([
+  "ts_add_import",
+  "ts_add_export",
+  "ts_append_array_element",
+  "ts_add_object_property",
+]);
+
+/**
+ * Checks whether an operation is TypeScript-aware.
+ */
+function isTsOperation(op: PatchOperation): op is TsOperation {
+  return TS_KINDS.has(op.kind);
+}
+
+/**
+ * Kinds whose block can be removed again by `remove`.
+ */
+const REVERTIBLE_KINDS: ReadonlySet<string> = new Set([
+  "marker_insert",
+  "append_if_missing",
+  "insert_before",
+  "insert_after",
+]);
 
 /**
  * Options for applying patches.
@@ -131,6 +387,12 @@ export interface PatchOptions {
    * - "crlf": Force CRLF line endings.
    */
   readonly newline?: "preserve" | "lf" | "crlf";
+
+  /**
+   * Patches applied by earlier generations, keyed by
+   * `appliedPatchKey(file, idempotencyKey)` (see AppliedPatches).
+   */
+  readonly appliedPatches?: ReadonlyMap<string, AppliedPatch>;
 }
 
 /**
@@ -151,6 +413,21 @@ export interface PatchApplyResult {
 
   /** Idempotency key used. */
   readonly idempotencyKey: string;
+
+  /**
+   * Keys changed by a structural merge (`json_merge`, `yaml_merge`), or
+   * entries added by a TypeScript operation.
+   */
+  readonly changedKeys?: string[];
+
+  /** Content hash of a stamp-less patch, to be recorded in project state. */
+  readonly contentHash?: string;
+
+  /** Lines of content inserted under the stamp, to be recorded for `remove`. */
+  readonly lines?: number;
+
+  /** Exact text inserted (stamp included), to be recorded for `remove`. */
+  readonly inserted?: string;
 }
 
 /**
@@ -205,7 +482,8 @@ export class PatchEngine {
    * @returns Result indicating success, skip, or failure
    */
   async applyPatch(op: PatchOperation, opts: PatchOptions): Promise<PatchApplyResult> {
-    const { rootDir, strict = true } = opts;
+    const { rootDir } = opts;
+    const strict = op.strict ?? opts.strict ?? true;
     const absolutePath = path.resolve(rootDir, op.file);
 
     // Check if file exists
@@ -229,6 +507,17 @@ export class PatchEngine {
         return await this.applyAppendToNewFile(op, absolutePath);
       }
 
+      // Non-strict mode: merge into an empty document for structural merges
+      if (op.kind === "json_merge") {
+        return await this.applyJsonMerge(op, "", absolutePath, opts);
+      }
+      if (op.kind === "yaml_merge") {
+        return await this.applyYamlMerge(op, "", absolutePath, opts);
+      }
+      if (op.kind === "ts_add_import" || op.kind === "ts_add_export") {
+        return await this.applyTsOperation(op, "", absolutePath, opts);
+      }
+
       // For marker operations, we can't proceed without the file
       return {
         status: "skipped",
@@ -243,19 +532,41 @@ export class PatchEngine {
     let content = await fs.readFile(absolutePath, "utf-8");
     const originalLineEnding = this.detectLineEnding(content);
 
-    // Check if patch was already applied (idempotency)
-    const stamp = this.buildStamp(op.idempotencyKey);
-    if (content.includes(stamp)) {
+    // Structural merges are idempotent by comparison, not by stamp
+    if (op.kind === "json_merge") {
+      return await this.applyJsonMerge(op, content, absolutePath, opts);
+    }
+    if (op.kind === "yaml_merge") {
+      return await this.applyYamlMerge(op, content, absolutePath, opts);
+    }
+    if (isTsOperation(op)) {
+      return await this.applyTsOperation(op, content, absolutePath, opts);
+    }
+    if (op.kind === "remove") {
+      return await this.applyRemove(op, content, absolutePath, opts);
+    }
+
+    // Check if patch was already applied (idempotency). Stamps are detected
+    // for every style, so files stamped by earlier runs are never re-patched.
+    const contentHash = this.getContentHash(op);
+    const lines = this.getBlockLines(op);
+    const alreadyApplied =
+      hasStamp(content, op.idempotencyKey) ||
+      (contentHash !== undefined && this.wasAppliedWithoutStamp(op, content, contentHash, opts));
+    if (alreadyApplied) {
       return {
         status: "skipped",
         reason: "already_applied",
         file: op.file,
         kind: op.kind,
         idempotencyKey: op.idempotencyKey,
+        contentHash,
+        lines,
       };
     }
 
     // Apply the operation
+    const original = content;
     switch (op.kind) {
       case "marker_insert":
         content = await this.applyMarkerInsert(op, content, absolutePath, strict);
@@ -269,10 +580,30 @@ export class PatchEngine {
         content = this.applyAppendIfMissing(op, content, originalLineEnding);
         break;
 
+      case "insert_before":
+      case "insert_after":
+        content = this.applyInsertAtAnchor(op, content, absolutePath, strict);
+        break;
+
+      case "regex_replace":
+        content = this.applyRegexReplace(op, content, absolutePath, strict);
+        break;
+
       default:
         throw new Error(`Unknown patch kind: ${(op as PatchOperation).kind}`);
     }
 
+    // Non-strict operations leave the file alone when their target is missing
+    if (!strict && content === original) {
+      return {
+        status: "skipped",
+        reason: "target_not_found",
+        file: op.file,
+        kind: op.kind,
+        idempotencyKey: op.idempotencyKey,
+      };
+    }
+
     // Normalize line endings if needed
     content = this.normalizeLineEndings(content, opts.newline, originalLineEnding);
 
@@ -284,6 +615,16 @@ export class PatchEngine {
       file: op.file,
       kind: op.kind,
       idempotencyKey: op.idempotencyKey,
+      contentHash,
+      lines,
+      inserted:
+        lines === undefined
+          ? undefined
+          : this.getInsertedText(
+              this.normalizeLineEndings(original, opts.newline, originalLineEnding),
+              content,
+              op.idempotencyKey,
+            ),
     };
   }
 
@@ -396,9 +737,8 @@ export class PatchEngine {
     }
 
     // Build stamped content
-    const stamp = this.buildStamp(op.idempotencyKey);
     const lineEnding = this.detectLineEnding(content);
-    const stampedContent = `${stamp}${lineEnding}${op.content}`;
+    const stampedContent = `${this.buildStampLine(op, lineEnding)}${op.content}`;
 
     // Insert after markerStart
     const insertPoint = startIndex + markerStart.length;
@@ -461,9 +801,8 @@ export class PatchEngine {
     }
 
     // Build stamped content
-    const stamp = this.buildStamp(op.idempotencyKey);
     const lineEnding = this.detectLineEnding(content);
-    const stampedContent = `${stamp}${lineEnding}${op.content}`;
+    const stampedContent = `${this.buildStampLine(op, lineEnding)}${op.content}`;
 
     // Replace content between markers
     const before = content.slice(0, startIndex + markerStart.length);
@@ -481,13 +820,292 @@ export class PatchEngine {
     content: string,
     lineEnding: string,
   ): string {
-    const stamp = this.buildStamp(op.idempotencyKey);
+    const stampLine = this.buildStampLine(op, lineEnding);
 
     // Ensure file ends with newline
     const needsTrailingNewline = content.length > 0 && !content.endsWith("\n");
     const trailingNewline = needsTrailingNewline ? lineEnding : "";
 
-    return `${content}${trailingNewline}${stamp}${lineEnding}${op.content}${lineEnding}`;
+    return `${content}${trailingNewline}${stampLine}${op.content}${lineEnding}`;
+  }
+
+  /**
+   * Applies insert_before / insert_after operations.
+   * Inserts stamped content as whole lines next to the anchor's line.
+   */
+  private applyInsertAtAnchor(
+    op: InsertBeforeOperation | InsertAfterOperation,
+    content: string,
+    absolutePath: string,
+    strict: boolean,
+  ): string {
+    const match = this.findAnchor(op, op.anchor, op.regex, content, absolutePath, strict);
+    if (!match) {
+      return content;
+    }
+
+    const lineEnding = this.detectLineEnding(content);
+    const block = this.buildStampedBlock(op, lineEnding);
+
+    if (op.kind === "insert_before") {
+      const lineStart = content.lastIndexOf("\n", match.index - 1) + 1;
+      return content.slice(0, lineStart) + block + content.slice(lineStart);
+    }
+
+    const matchEnd = match.index + match.text.length;
+    const lineEnd = match.text.endsWith("\n") ? matchEnd - 1 : content.indexOf("\n", matchEnd);
+    if (lineEnd === -1) {
+      // Anchor is on the last line and the file has no trailing newline
+      return `${content}${lineEnding}${block.replace(/\r?\n$/, "")}`;
+    }
+    return content.slice(0, lineEnd + 1) + block + content.slice(lineEnd + 1);
+  }
+
+  /**
+   * Applies regex_replace operation.
+   * Replaces the match and stamps the line it starts on.
+   */
+  private applyRegexReplace(
+    op: RegexReplaceOperation,
+    content: string,
+    absolutePath: string,
+    strict: boolean,
+  ): string {
+    const match = this.findAnchor(op, op.pattern, true, content, absolutePath, strict);
+    if (!match) {
+      return content;
+    }
+
+    const lineEnding = this.detectLineEnding(content);
+    const lineStart = content.lastIndexOf("\n", match.index - 1) + 1;
+    const replacement = expandReplacement(op.content, match);
+
+    return (
+      content.slice(0, lineStart) +
+      this.buildStampLine(op, lineEnding) +
+      content.slice(lineStart, match.index) +
+      replacement +
+      content.slice(match.index + match.text.length)
+    );
+  }
+
+  /**
+   * Applies a TypeScript-aware operation.
+   * Edits the syntax tree and rewrites the file only if something was added.
+   */
+  private async applyTsOperation(
+    op: TsOperation,
+    content: string,
+    absolutePath: string,
+    opts: PatchOptions,
+  ): Promise<PatchApplyResult> {
+    // Loaded on demand: the TypeScript compiler is large
+    const { applyTsPatch } = await import("./TsPatch.js");
+    const result = applyTsPatch(content, op.content, {
+      kind: op.kind,
+      file: op.file,
+      idempotencyKey: op.idempotencyKey,
+      target: "target" in op ? op.target : undefined,
+      strict: op.strict ?? opts.strict,
+    });
+
+    if (result.targetMissing || result.added.length === 0) {
+      return {
+        status: "skipped",
+        reason: result.targetMissing ? "target_not_found" : "already_applied",
+        file: op.file,
+        kind: op.kind,
+        idempotencyKey: op.idempotencyKey,
+      };
+    }
+
+    const lineEnding = this.detectLineEnding(content);
+    await this.atomicWrite(
+      absolutePath,
+      this.normalizeLineEndings(result.content, opts.newline, lineEnding),
+    );
+
+    return {
+      status: "applied",
+      file: op.file,
+      kind: op.kind,
+      idempotencyKey: op.idempotencyKey,
+      changedKeys: result.added,
+    };
+  }
+
+  /**
+   * Applies remove operation.
+   * Deletes the stamp of an earlier patch and the lines it inserted under it.
+   */
+  private async applyRemove(
+    op: RemoveOperation,
+    content: string,
+    absolutePath: string,
+    opts: PatchOptions,
+  ): Promise<PatchApplyResult> {
+    const stamp = locateStamp(content, op.idempotencyKey);
+    if (!stamp) {
+      return {
+        status: "skipped",
+        reason: "not_applied",
+        file: op.file,
+        kind: op.kind,
+        idempotencyKey: op.idempotencyKey,
+      };
+    }
+
+    const record = opts.appliedPatches?.get(appliedPatchKey(op.file, op.idempotencyKey));
+    const reason = !record
+      ? "the project state has no record of it"
+      : !REVERTIBLE_KINDS.has(record.kind)
+        ? `${record.kind} patches overwrite the original content`
+        : record.lines === undefined && record.inserted === undefined
+          ? "it was applied by a version that did not record its size"
+          : undefined;
+    if (!record || reason) {
+      throw new ScaffoldError(
+        `Cannot revert patch '${op.idempotencyKey}' in ${op.file}: ${reason}`,
+        "PATCH_REVERT_UNSUPPORTED",
+        { file: op.file, idempotencyKey: op.idempotencyKey, kind: record?.kind, reason },
+        undefined,
+        `Only marker_insert, append_if_missing, insert_before and insert_after patches ` +
+          `recorded in .scaffoldix/state.json can be reverted. ` +
+          `Remove the block under the SCAFFOLDIX_PATCH:${op.idempotencyKey} stamp in ` +
+          `${absolutePath} by hand.`,
+        undefined,
+        true,
+      );
+    }
+
+    // Older records only have a line count. marker_insert content is followed by
+    // the text after the marker, so its last line break is kept
+    const updated =
+      record.inserted !== undefined
+        ? this.removeInsertedText(content, stamp, record.inserted, op, absolutePath)
+        : this.removeStampedBlock(
+            content,
+            stamp,
+            record.lines ?? 0,
+            record.kind === "marker_insert",
+          );
+    await this.atomicWrite(absolutePath, updated);
+
+    return {
+      status: "applied",
+      file: op.file,
+      kind: op.kind,
+      idempotencyKey: op.idempotencyKey,
+    };
+  }
+
+  /**
+   * Cuts the exact text a patch inserted out of the content, located by its
+   * stamp. Throws PATCH_REVERT_MODIFIED if the text was edited since.
+   */
+  private removeInsertedText(
+    content: string,
+    stamp: { start: number; end: number },
+    inserted: string,
+    op: RemoveOperation,
+    absolutePath: string,
+  ): string {
+    const insertedStamp = locateStamp(inserted, op.idempotencyKey);
+    const from = stamp.start - (insertedStamp?.start ?? 0);
+    if (!insertedStamp || from < 0 || !content.startsWith(inserted, from)) {
+      throw new ScaffoldError(
+        `Cannot revert patch '${op.idempotencyKey}' in ${op.file}: the block was edited`,
+        "PATCH_REVERT_MODIFIED",
+        { file: op.file, idempotencyKey: op.idempotencyKey },
+        undefined,
+        `The block under the SCAFFOLDIX_PATCH:${op.idempotencyKey} stamp in ${absolutePath} ` +
+          `no longer matches what the patch inserted. Remove it by hand.`,
+        undefined,
+        true,
+      );
+    }
+    return content.slice(0, from) + content.slice(from + inserted.length);
+  }
+
+  /**
+   * Cuts a stamp and the given number of following lines out of the content
+   * (for records that only have a line count).
+   * A stamp on its own line is removed with the line; a stamp after other
+   * text (marker_insert on the marker's line) from the stamp on.
+   */
+  private removeStampedBlock(
+    content: string,
+    stamp: { start: number; end: number },
+    lines: number,
+    keepLastLineBreak: boolean,
+  ): string {
+    const lineStart = content.lastIndexOf("\n", stamp.start - 1) + 1;
+    let from = content.slice(lineStart, stamp.start).trim() === "" ? lineStart : stamp.start;
+
+    // Rest of the stamp line
+    const stampLineEnd = content.indexOf("\n", stamp.end);
+    let to = stampLineEnd === -1 ? content.length : stampLineEnd + 1;
+
+    // Inserted lines
+    for (let i = 0; i < lines && to < content.length; i++) {
+      const lineEnd = content.indexOf("\n", to);
+      if (lineEnd === -1) {
+        to = content.length;
+      } else if (i === lines - 1 && keepLastLineBreak) {
+        to = content[lineEnd - 1] === "\r" ? lineEnd - 1 : lineEnd;
+      } else {
+        to = lineEnd + 1;
+      }
+    }
+
+    // A block at the end of a file without trailing newline took the previous line break
+    if (to === content.length && !content.endsWith("\n") && from > 0) {
+      from = content[from - 2] === "\r" ? from - 2 : from - 1;
+    }
+
+    return content.slice(0, from) + content.slice(to);
+  }
+
+  /**
+   * Locates the anchor of a marker-free operation.
+   * Returns undefined (non-strict) or throws PATCH_MARKER_NOT_FOUND (strict) if missing.
+   */
+  private findAnchor(
+    op: InsertBeforeOperation | InsertAfterOperation | RegexReplaceOperation,
+    anchor: string,
+    regex: boolean | undefined,
+    content: string,
+    absolutePath: string,
+    strict: boolean,
+  ): AnchorMatch | undefined {
+    const regexError = regex ? getRegexError(anchor) : undefined;
+    if (regexError) {
+      throw new ScaffoldError(
+        `Invalid anchor pattern in patch '${op.idempotencyKey}'`,
+        "PATCH_INVALID",
+        { file: op.file, anchor, reason: regexError },
+        undefined,
+        `The pattern '${anchor}' is not a valid regular expression: ${regexError}`,
+        undefined,
+        true,
+      );
+    }
+
+    const match = locateAnchor(content, { pattern: anchor, regex, occurrence: op.occurrence });
+    if (!match && strict) {
+      const occurrence = describeOccurrence(op.occurrence);
+      throw new ScaffoldError(
+        `Patch anchor not found in file`,
+        "PATCH_MARKER_NOT_FOUND",
+        { file: op.file, marker: anchor, markerType: "anchor", occurrence },
+        undefined,
+        `The ${occurrence} occurrence of ${regex ? "pattern" : "anchor"} '${anchor}' ` +
+          `was not found in ${absolutePath}. Check the anchor against the current file.`,
+        undefined,
+        true,
+      );
+    }
+    return match;
   }
 
   /**
@@ -497,9 +1115,8 @@ export class PatchEngine {
     op: AppendIfMissingOperation,
     absolutePath: string,
   ): Promise<PatchApplyResult> {
-    const stamp = this.buildStamp(op.idempotencyKey);
     const lineEnding = "\n"; // Default for new files
-    const content = `${stamp}${lineEnding}${op.content}${lineEnding}`;
+    const content = `${this.buildStampLine(op, lineEnding)}${op.content}${lineEnding}`;
 
     await this.atomicWrite(absolutePath, content);
 
@@ -508,6 +1125,109 @@ export class PatchEngine {
       file: op.file,
       kind: op.kind,
       idempotencyKey: op.idempotencyKey,
+      contentHash: this.getContentHash(op),
+      lines: this.getBlockLines(op),
+      inserted: this.getBlockLines(op) === undefined ? undefined : content,
+    };
+  }
+
+  /**
+   * Applies json_merge operation.
+   * Deep-merges the fragment and rewrites the file only if something changed.
+   */
+  private async applyJsonMerge(
+    op: JsonMergeOperation,
+    content: string,
+    absolutePath: string,
+    opts: PatchOptions,
+  ): Promise<PatchApplyResult> {
+    const target = content.trim() === "" ? {} : await this.parseJson(content, op, "target file");
+    const fragment = await this.parseJson(op.content, op, "patch content");
+
+    if (!isPlainObject(target) || !isPlainObject(fragment)) {
+      throw new ScaffoldError(
+        `json_merge requires JSON objects`,
+        "PATCH_JSON_INVALID",
+        { file: op.file, idempotencyKey: op.idempotencyKey },
+        undefined,
+        `Patch '${op.idempotencyKey}' can only merge a JSON object into a JSON object in ${op.file}.`,
+        undefined,
+        true,
+      );
+    }
+
+    const { value, changedKeys } = mergeStructured(target, fragment, {
+      arrayStrategy: op.arrayStrategy,
+      arrayKey: op.arrayKey,
+    });
+
+    if (changedKeys.length === 0) {
+      return {
+        status: "skipped",
+        reason: "already_applied",
+        file: op.file,
+        kind: op.kind,
+        idempotencyKey: op.idempotencyKey,
+      };
+    }
+
+    const lineEnding = this.detectLineEnding(content);
+    const trailingNewline = content === "" || /\n\s*$/.test(content) ? lineEnding : "";
+    const serialized = JSON.stringify(value, null, detectJsonIndent(content)) + trailingNewline;
+
+    await this.atomicWrite(
+      absolutePath,
+      this.normalizeLineEndings(serialized, opts.newline, lineEnding),
+    );
+
+    return {
+      status: "applied",
+      file: op.file,
+      kind: op.kind,
+      idempotencyKey: op.idempotencyKey,
+      changedKeys,
+    };
+  }
+
+  /**
+   * Applies yaml_merge operation.
+   * Merges into the parsed document and rewrites the file only if something changed.
+   */
+  private async applyYamlMerge(
+    op: YamlMergeOperation,
+    content: string,
+    absolutePath: string,
+    opts: PatchOptions,
+  ): Promise<PatchApplyResult> {
+    const { content: merged, changedKeys } = mergeYaml(content, op.content, {
+      file: op.file,
+      keyPath: op.keyPath,
+      arrayStrategy: op.arrayStrategy,
+      arrayKey: op.arrayKey,
+    });
+
+    if (changedKeys.length === 0) {
+      return {
+        status: "skipped",
+        reason: "already_applied",
+        file: op.file,
+        kind: op.kind,
+        idempotencyKey: op.idempotencyKey,
+      };
+    }
+
+    const lineEnding = this.detectLineEnding(content);
+    await this.atomicWrite(
+      absolutePath,
+      this.normalizeLineEndings(merged, opts.newline, lineEnding),
+    );
+
+    return {
+      status: "applied",
+      file: op.file,
+      kind: op.kind,
+      idempotencyKey: op.idempotencyKey,
+      changedKeys,
     };
   }
 
@@ -516,10 +1236,129 @@ export class PatchEngine {
   // ===========================================================================
 
   /**
-   * Builds the idempotency stamp string.
+   * Parses JSON, also accepting the comments and trailing commas of JSONC
+   * files such as `tsconfig.json`.
+   * Throws PATCH_JSON_INVALID with the parser's message.
+   */
+  private async parseJson(source: string, op: JsonMergeOperation, label: string): Promise<unknown> {
+    try {
+      return JSON.parse(source);
+    } catch {
+      // Not plain JSON: parse as JSONC below
+    }
+
+    // Loaded on demand: the TypeScript compiler is large
+    const ts = (await import("typescript")).default;
+    const { config, error } = ts.parseConfigFileTextToJson(op.file, source);
+    if (!error) {
+      return config;
+    }
+
+    const reason = ts.flattenDiagnosticMessageText(error.messageText, " ");
+    const position =
+      error.file && error.start !== undefined
+        ? error.file.getLineAndCharacterOfPosition(error.start)
+        : undefined;
+    const at = position ? ` (line ${position.line + 1}, column ${position.character + 1})` : "";
+    throw new ScaffoldError(
+      `Invalid JSON in ${label} for ${op.file}`,
+      "PATCH_JSON_INVALID",
+      { file: op.file, idempotencyKey: op.idempotencyKey, source: label, reason: reason + at },
+      undefined,
+      `Patch '${op.idempotencyKey}' could not parse the ${label} as JSON: ${reason}${at}`,
+      undefined,
+      true,
+    );
+  }
+
+  /**
+   * Builds stamped content as whole lines (ending with a line ending).
+   */
+  private buildStampedBlock(
+    op: InsertBeforeOperation | InsertAfterOperation,
+    lineEnding: string,
+  ): string {
+    const body = op.content.endsWith("\n") ? op.content : `${op.content}${lineEnding}`;
+    return `${this.buildStampLine(op, lineEnding)}${body}`;
+  }
+
+  /**
+   * Builds the stamp line (with line ending) in the file's comment syntax.
+   * Returns an empty string for stamp-less operations.
+   */
+  private buildStampLine(op: TextOperation, lineEnding: string): string {
+    const style = resolveStampStyle(op.file, op.stamp);
+    return style === "none" ? "" : `${formatStamp(op.idempotencyKey, style)}${lineEnding}`;
+  }
+
+  /**
+   * Checks whether a stamp-less operation was applied: the project state
+   * records the same content hash, and the file still holds the content (it
+   * may have been re-rendered since).
+   */
+  private wasAppliedWithoutStamp(
+    op: TextOperation,
+    content: string,
+    contentHash: string,
+    opts: PatchOptions,
+  ): boolean {
+    const recorded = opts.appliedPatches?.get(appliedPatchKey(op.file, op.idempotencyKey));
+    if (recorded?.contentHash !== contentHash) {
+      return false;
+    }
+    // Replacements may reference capture groups, so their text is not literal
+    return (
+      op.kind === "regex_replace" ||
+      content.replace(/\r\n/g, "\n").includes(op.content.replace(/\r\n/g, "\n"))
+    );
+  }
+
+  /**
+   * Counts the lines an inserting operation puts under its stamp
+   * (undefined for stamp-less operations and other kinds).
+   */
+  private getBlockLines(op: TextOperation): number | undefined {
+    if (!REVERTIBLE_KINDS.has(op.kind) || resolveStampStyle(op.file, op.stamp) === "none") {
+      return undefined;
+    }
+    const lines = op.content.split(/\r?\n/).length;
+    // insert_before / insert_after end the content with a line break instead of adding one
+    const insertsLine = op.kind === "insert_before" || op.kind === "insert_after";
+    return insertsLine && op.content.endsWith("\n") ? lines - 1 : lines;
+  }
+
+  /**
+   * Finds the text an inserting operation added: the one span that turns the
+   * old content into the new one and holds the patch's stamp.
+   * Returns undefined if the change is not a single insertion.
+   */
+  private getInsertedText(
+    before: string,
+    after: string,
+    idempotencyKey: string,
+  ): string | undefined {
+    const stamp = locateStamp(after, idempotencyKey);
+    if (!stamp || after.length < before.length) {
+      return undefined;
+    }
+
+    // Several insertion points can give the same result; take the last one before the stamp
+    const limit = Math.min(stamp.start, before.length);
+    let start = 0;
+    while (start < limit && before[start] === after[start]) {
+      start++;
+    }
+    const end = start + after.length - before.length;
+    return after.slice(end) === before.slice(start) ? after.slice(start, end) : undefined;
+  }
+
+  /**
+   * Hashes the content of a stamp-less operation (undefined for stamped ones).
    */
-  private buildStamp(idempotencyKey: string): string {
-    return `// ${STAMP_PREFIX}${idempotencyKey}`;
+  private getContentHash(op: TextOperation): string | undefined {
+    return resolveStampStyle(op.file, op.stamp) === "none"
+      ? hashPatchContent(op.content)
+      : undefined;
   }
 
   /**
@@ -4,6 +4,8 @@
  * This module resolves patch content from manifest definitions, handling:
  * - Inline contentTemplate: Rendered via Handlebars with generation inputs
  * - External path: Read from pack storage, then rendered via Handlebars
+ * - `when` conditions: Patches whose condition is false are skipped
+ * - Targets: `file` / `files` globs are expanded, one operation per file
  *
  * The resolver produces PatchEngine-ready operations where `content` is a
  * final string (no further template processing needed).
@@ -19,10 +21,27 @@
 
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import Handlebars from "handlebars";
 import { ScaffoldError } from "../errors/errors.js";
+import type { TemplateEngine } from "../render/TemplateHelpers.js";
+import { renderTemplateString } from "../render/TemplateDiagnostics.js";
+import { shouldEscapeHtml, type EscapeHtmlSetting } from "../render/EscapePolicy.js";
 import type { PatchOperation as ManifestPatch } from "../manifest/ManifestLoader.js";
 import type { PatchOperation as EnginePatch } from "./PatchEngine.js";
+import { evaluateWhen } from "./WhenExpression.js";
+import {
+  DEFAULT_MIN_MATCHES,
+  NO_MATCHING_FILES,
+  describePatchTarget,
+  expandPatchTargets,
+  patchTargetPatterns,
+} from "./PatchTargets.js";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Skip reason for patches whose `when` condition is false. */
+export const CONDITION_NOT_MET = "condition not met";
 
 // =============================================================================
 // Types
@@ -35,11 +54,30 @@ export interface ResolvePatchInput {
   /** The manifest patch definition */
   readonly patch: ManifestPatch;
 
+  /** Target file, relative to the project root (one expansion of the patch's targets) */
+  readonly file: string;
+
   /** Data for Handlebars rendering (same as generation inputs) */
   readonly data: Record<string, unknown>;
 
   /** Absolute path to the installed pack directory in store */
   readonly packStorePath: string;
+
+  /** HTML escaping setting, applied by target file path */
+  readonly escapeHtml?: EscapeHtmlSetting;
+
+  /** Whether missing variables and helpers fail the render */
+  readonly strict?: boolean;
+
+  /** Handlebars environment with pack partials/helpers */
+  readonly engine?: TemplateEngine;
+}
+
+/**
+ * Input for resolving a patch that has content (all kinds but `remove`).
+ */
+interface ContentPatchInput extends ResolvePatchInput {
+  readonly patch: Exclude<ManifestPatch, { kind: "remove" }>;
 }
 
 /**
@@ -54,6 +92,39 @@ export interface ResolveAllPatchesInput {
 
   /** Absolute path to the installed pack directory in store */
   readonly packStorePath: string;
+
+  /** HTML escaping setting, applied by target file path (default: HTML files only) */
+  readonly escapeHtml?: EscapeHtmlSetting;
+
+  /** Whether missing variables and helpers fail the render (default: false) */
+  readonly strict?: boolean;
+
+  /** Handlebars environment with pack partials/helpers (default: built-in helpers only) */
+  readonly engine?: TemplateEngine;
+
+  /** Absolute directories that target globs are matched against (default: none) */
+  readonly roots?: readonly string[];
+}
+
+/**
+ * A patch left out by its `when` condition, or by targets that match too
+ * few files in non-strict mode.
+ */
+export interface SkippedPatch {
+  /** Position of the skip among all resolved entries (operations and skips, in manifest order) */
+  readonly index: number;
+
+  /** Patch kind */
+  readonly kind: ManifestPatch["kind"];
+
+  /** Target file path, or the patch's target entries joined with commas */
+  readonly file: string;
+
+  /** Idempotency key */
+  readonly idempotencyKey: string;
+
+  /** Why the patch was skipped */
+  readonly reason: string;
 }
 
 /**
@@ -65,6 +136,9 @@ export interface ResolvedPatchesResult {
 
   /** Count of patches resolved */
   readonly count: number;
+
+  /** Patches skipped because their `when` condition is false or they match no files, in manifest order */
+  readonly skipped: SkippedPatch[];
 }
 
 // =============================================================================
@@ -91,30 +165,88 @@ export class PatchResolver {
   /**
    * Resolves multiple patches in order.
    *
+   * Patches with a `when` condition that is false for `data` are not
+   * resolved (their content is never rendered) and are listed in `skipped`.
+   *
+   * The targets of the other patches are expanded against `roots`, and the
+   * patch is resolved once per target file. Targets matching fewer than
+   * `minMatches` files fail a strict patch and skip a non-strict one.
+   *
    * @param input - Patches, data, and pack store path
    * @returns Resolved operations ready for PatchEngine
+   * @throws ScaffoldError PATCH_TARGETS_NOT_FOUND if a strict patch matches too few files
    * @throws ScaffoldError if content resolution fails
    */
   async resolveAll(input: ResolveAllPatchesInput): Promise<ResolvedPatchesResult> {
-    const { patches, data, packStorePath } = input;
+    const { patches, data, packStorePath, escapeHtml, strict, engine, roots = [] } = input;
     const operations: EnginePatch[] = [];
+    const skipped: SkippedPatch[] = [];
 
     for (let i = 0; i < patches.length; i++) {
       const patch = patches[i];
-      const operation = await this.resolvePatch(
-        {
-          patch,
-          data,
-          packStorePath,
-        },
-        i,
-      );
-      operations.push(operation);
+      const skip = (reason: string) =>
+        skipped.push({
+          index: operations.length + skipped.length,
+          kind: patch.kind,
+          file: describePatchTarget(patch),
+          idempotencyKey: patch.idempotencyKey,
+          reason,
+        });
+
+      if (patch.when !== undefined && !evaluateWhen(patch.when, data)) {
+        skip(CONDITION_NOT_MET);
+        continue;
+      }
+
+      const patterns = patchTargetPatterns(patch);
+      const files = await expandPatchTargets(patterns, roots);
+      const minMatches = patch.minMatches ?? DEFAULT_MIN_MATCHES;
+
+      if (files.length < minMatches) {
+        if (patch.strict === false) {
+          skip(NO_MATCHING_FILES);
+          continue;
+        }
+        throw new ScaffoldError(
+          `Patch targets matched ${files.length} file(s), expected at least ${minMatches}`,
+          "PATCH_TARGETS_NOT_FOUND",
+          {
+            patchRef: `patches[${i}]`,
+            idempotencyKey: patch.idempotencyKey,
+            patterns,
+            matches: files,
+            minMatches,
+          },
+          undefined,
+          `Patch '${patch.idempotencyKey}' targets ${patterns.join(", ")}. ` +
+            `Check the globs against the project, lower minMatches, ` +
+            `or set strict: false to skip the patch when nothing matches.`,
+          undefined,
+          true,
+        );
+      }
+
+      for (const file of files) {
+        const operation = await this.resolvePatch(
+          {
+            patch,
+            file,
+            data,
+            packStorePath,
+            escapeHtml,
+            strict,
+            engine,
+          },
+          i,
+        );
+        operations.push(operation);
+      }
     }
 
     return {
       operations,
       count: operations.length,
+      skipped,
     };
   }
 
@@ -127,38 +259,119 @@ export class PatchResolver {
    * @throws ScaffoldError if content resolution fails
    */
   private async resolvePatch(input: ResolvePatchInput, index?: number): Promise<EnginePatch> {
-    const { patch, data, packStorePath } = input;
+    const { patch, file } = input;
+
+    // remove has no content
+    if (patch.kind === "remove") {
+      return { kind: "remove", file, idempotencyKey: patch.idempotencyKey, strict: patch.strict };
+    }
 
     // Resolve content from contentTemplate or path
-    const content = await this.resolveContent(patch, data, packStorePath, index);
+    const content = await this.resolveContent({ ...input, patch }, index);
 
     // Build the engine operation based on kind
     switch (patch.kind) {
       case "marker_insert":
         return {
           kind: "marker_insert",
-          file: patch.file,
+          file,
           idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
           markerStart: patch.markerStart,
           markerEnd: patch.markerEnd,
           content,
+          stamp: patch.stamp,
         };
 
       case "marker_replace":
         return {
           kind: "marker_replace",
-          file: patch.file,
+          file,
           idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
           markerStart: patch.markerStart,
           markerEnd: patch.markerEnd,
           content,
+          stamp: patch.stamp,
         };
 
       case "append_if_missing":
         return {
           kind: "append_if_missing",
-          file: patch.file,
+          file,
           idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          content,
+          stamp: patch.stamp,
+        };
+
+      case "insert_before":
+      case "insert_after":
+        return {
+          kind: patch.kind,
+          file,
+          idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          anchor: patch.anchor,
+          regex: patch.regex,
+          occurrence: patch.occurrence,
+          content,
+          stamp: patch.stamp,
+        };
+
+      case "regex_replace":
+        return {
+          kind: "regex_replace",
+          file,
+          idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          pattern: patch.pattern,
+          occurrence: patch.occurrence,
+          content,
+          stamp: patch.stamp,
+        };
+
+      case "json_merge":
+        return {
+          kind: "json_merge",
+          file,
+          idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          content,
+          arrayStrategy: patch.arrayStrategy,
+          arrayKey: patch.arrayKey,
+        };
+
+      case "yaml_merge":
+        return {
+          kind: "yaml_merge",
+          file,
+          idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          content,
+          keyPath: patch.keyPath,
+          arrayStrategy: patch.arrayStrategy,
+          arrayKey: patch.arrayKey,
+        };
+
+      case "ts_add_import":
+      case "ts_add_export":
+        return {
+          kind: patch.kind,
+          file,
+          idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          content,
+        };
+
+      case "ts_append_array_element":
+      case "ts_add_object_property":
+        return {
+          kind: patch.kind,
+          file,
+          idempotencyKey: patch.idempotencyKey,
+          strict: patch.strict,
+          target: patch.target,
           content,
         };
 
@@ -172,18 +385,12 @@ export class PatchResolver {
   /**
    * Resolves patch content from contentTemplate or path.
    *
-   * @param patch - The manifest patch
-   * @param data - Data for Handlebars rendering
-   * @param packStorePath - Pack storage directory
+   * @param input - Patch, data, pack store path and rendering settings
    * @param index - Optional patch index for error context
    * @returns Rendered content string
    */
-  private async resolveContent(
-    patch: ManifestPatch,
-    data: Record<string, unknown>,
-    packStorePath: string,
-    index?: number,
-  ): Promise<string> {
+  private async resolveContent(input: ContentPatchInput, index?: number): Promise<string> {
+    const { patch, file, packStorePath } = input;
     let templateContent: string;
 
     if (patch.contentTemplate !== undefined) {
@@ -191,7 +398,7 @@ export class PatchResolver {
       templateContent = patch.contentTemplate;
     } else if (patch.path !== undefined) {
       // Read from pack storage
-      templateContent = await this.readPatchFile(patch.path, packStorePath, patch, index);
+      templateContent = await this.readPatchFile(patch.path, packStorePath, patch, file, index);
     } else {
       // Schema should prevent this, but defensive check
       const patchRef = index !== undefined ? `patches[${index}]` : patch.idempotencyKey;
@@ -201,7 +408,7 @@ export class PatchResolver {
         {
           patchRef,
           idempotencyKey: patch.idempotencyKey,
-          file: patch.file,
+          file,
         },
         undefined,
         `Patch '${patch.idempotencyKey}' has neither contentTemplate nor path. ` +
@@ -212,7 +419,7 @@ export class PatchResolver {
     }
 
     // Render with Handlebars
-    return this.renderTemplate(templateContent, data, patch, index);
+    return this.renderTemplate(templateContent, input, index);
   }
 
   /**
@@ -221,6 +428,7 @@ export class PatchResolver {
    * @param relativePath - Path relative to pack root
    * @param packStorePath - Pack storage directory
    * @param patch - The manifest patch (for error context)
+   * @param file - Target file (for error context)
    * @param index - Optional patch index for error context
    * @returns File content
    */
@@ -228,6 +436,7 @@ export class PatchResolver {
     relativePath: string,
     packStorePath: string,
     patch: ManifestPatch,
+    file: string,
     index?: number,
   ): Promise<string> {
     const absolutePath = path.join(packStorePath, relativePath);
@@ -245,7 +454,7 @@ export class PatchResolver {
           idempotencyKey: patch.idempotencyKey,
           path: relativePath,
           absolutePath,
-          file: patch.file,
+          file,
         },
         undefined,
         `Patch '${patch.idempotencyKey}' references template file '${relativePath}' ` +
@@ -260,40 +469,26 @@ export class PatchResolver {
   /**
    * Renders template content with Handlebars.
    *
+   * Template failures are reported against the patch template file, or
+   * `patches[i].contentTemplate` for inline templates.
+   *
    * @param template - Template string
-   * @param data - Data for rendering
-   * @param patch - The manifest patch (for error context)
+   * @param input - Patch, data and rendering settings
    * @param index - Optional patch index for error context
    * @returns Rendered content
+   * @throws ScaffoldError TEMPLATE_SYNTAX_ERROR or TEMPLATE_RENDER_FAILED
    */
-  private renderTemplate(
-    template: string,
-    data: Record<string, unknown>,
-    patch: ManifestPatch,
-    index?: number,
-  ): string {
+  private renderTemplate(template: string, input: ContentPatchInput, index?: number): string {
+    const { patch, file, data, escapeHtml, strict, engine } = input;
     const patchRef = index !== undefined ? `patches[${index}]` : patch.idempotencyKey;
 
-    try {
-      const compiled = Handlebars.compile(template, { strict: false });
-      return compiled(data);
-    } catch (error) {
-      const cause = error instanceof Error ? error : new Error(String(error));
-      throw new ScaffoldError(
-        `Failed to render patch template`,
-        "PATCH_RENDER_ERROR",
-        {
-          patchRef,
-          idempotencyKey: patch.idempotencyKey,
-          file: patch.file,
-          reason: cause.message,
-        },
-        undefined,
-        `Patch '${patch.idempotencyKey}' failed to render: ${cause.message}. ` +
-          `Check the template syntax and ensure all referenced variables are provided.`,
-        cause,
-        true,
-      );
-    }
+    return renderTemplateString({
+      template,
+      data,
+      file: patch.path ?? `${patchRef}.contentTemplate`,
+      escapeHtml: shouldEscapeHtml(file, escapeHtml),
+      strict,
+      engine,
+    });
   }
 }
@@ -0,0 +1,247 @@
+/**
+ * Comment-syntax-aware idempotency stamps.
+ *
+ * Text patches mark the file with a stamp comment so re-running them is a
+ * no-op:
+ *
+ * ```
+ * // SCAFFOLDIX_PATCH:add-import        (TypeScript, Go, Java, ...)
+ * # SCAFFOLDIX_PATCH:add-service        (YAML, Python, shell, Dockerfile, ...)
+ * <!-- SCAFFOLDIX_PATCH:add-link -->    (HTML, XML, Markdown, Vue)
+ * /* SCAFFOLDIX_PATCH:add-rule *\/       (CSS)
+ * -- SCAFFOLDIX_PATCH:add-table         (SQL, Lua)
+ * ```
+ *
+ * The comment syntax comes from the file extension (or well-known file
+ * names), and a patch can override it with `stamp`. Unknown extensions keep
+ * the historical `//`.
+ *
+ * ## Stamp-less Patches
+ *
+ * Formats without comments (JSON, plain text) use `stamp: none`: nothing is
+ * written into the file, and the patch is skipped when the project state
+ * records the same content hash for its file and idempotency key.
+ *
+ * ## Detection
+ *
+ * A stamp is detected by `SCAFFOLDIX_PATCH:<key>` followed by whitespace or
+ * the end of the file, whatever comment surrounds it. Stamps written before
+ * comment syntaxes existed (`// SCAFFOLDIX_PATCH:<key>`) are still found, and
+ * `add` no longer matches the stamp of `add-import`.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Stamp comment syntax, or `none` for stamp-less idempotency.
+ */
+export type StampStyle = "//" | "#" | "--" | "/* */" | "<!-- -->" | "none";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Stamp prefix for idempotency detection. */
+export const STAMP_PREFIX = "SCAFFOLDIX_PATCH:";
+
+/** All supported stamp styles (for schema validation). */
+export const STAMP_STYLES = ["//", "#", "--", "/* */", "<!-- -->", "none"] as const;
+
+/** Comment syntax by lowercase file extension. */
+const STYLE_BY_EXTENSION: Readonly<Record<string, StampStyle>> = {
+  // Languages with line comments
+  ".ts": "//",
+  ".tsx": "//",
+  ".mts": "//",
+  ".cts": "//",
+  ".js": "//",
+  ".jsx": "//",
+  ".mjs": "//",
+  ".cjs": "//",
+  ".java": "//",
+  ".kt": "//",
+  ".kts": "//",
+  ".scala": "//",
+  ".groovy": "//",
+  ".gradle": "//",
+  ".go": "//",
+  ".rs": "//",
+  ".c": "//",
+  ".h": "//",
+  ".cc": "//",
+  ".cpp": "//",
+  ".hpp": "//",
+  ".cs": "//",
+  ".swift": "//",
+  ".dart": "//",
+  ".php": "//",
+  ".jsonc": "//",
+  ".json5": "//",
+  ".scss": "//",
+  ".less": "//",
+  ".proto": "//",
+
+  // Hash comments
+  ".py": "#",
+  ".rb": "#",
+  ".sh": "#",
+  ".bash": "#",
+  ".zsh": "#",
+  ".ps1": "#",
+  ".pl": "#",
+  ".r": "#",
+  ".yml": "#",
+  ".yaml": "#",
+  ".toml": "#",
+  ".ini": "#",
+  ".cfg": "#",
+  ".conf": "#",
+  ".env": "#",
+  ".properties": "#",
+  ".tf": "#",
+  ".hcl": "#",
+  ".dockerfile": "#",
+  ".gitignore": "#",
+  ".dockerignore": "#",
+  ".npmignore": "#",
+  ".prettierignore": "#",
+  ".eslintignore": "#",
+  ".gitattributes": "#",
+  ".editorconfig": "#",
+  ".npmrc": "#",
+  ".nvmrc": "#",
+
+  // Markup
+  ".html": "<!-- -->",
+  ".htm": "<!-- -->",
+  ".xml": "<!-- -->",
+  ".svg": "<!-- -->",
+  ".vue": "<!-- -->",
+  ".svelte": "<!-- -->",
+  ".md": "<!-- -->",
+  ".csproj": "<!-- -->",
+
+  // Block comments only
+  ".css": "/* */",
+
+  // Double-dash comments
+  ".sql": "--",
+  ".lua": "--",
+  ".hs": "--",
+
+  // No comment syntax
+  ".json": "none",
+  ".txt": "none",
+  ".csv": "none",
+};
+
+/** Comment syntax for well-known files without an extension. */
+const STYLE_BY_FILE_NAME: Readonly<Record<string, StampStyle>> = {
+  dockerfile: "#",
+  makefile: "#",
+  gemfile: "#",
+  procfile: "#",
+  caddyfile: "#",
+};
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Escapes a literal string for use in a regular expression.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Decides the stamp style for a target file.
+ *
+ * @param file - Target file path
+ * @param override - Style set on the patch, if any
+ * @returns Stamp style to use
+ */
+export function resolveStampStyle(file: string, override?: StampStyle): StampStyle {
+  if (override) {
+    return override;
+  }
+  const baseName = path.basename(file).toLowerCase();
+  // `.env.local` and `Dockerfile.dev` are still env and Docker files
+  const byName = STYLE_BY_FILE_NAME[baseName.split(".")[0]];
+  if (byName) {
+    return byName;
+  }
+  if (baseName.startsWith(".env")) {
+    return "#";
+  }
+  // Dotfiles like `.gitignore` have no extension for path.extname
+  const extension = path.extname(baseName) || baseName;
+  return STYLE_BY_EXTENSION[extension] ?? "//";
+}
+
+/**
+ * Formats the stamp comment for a patch.
+ *
+ * @param idempotencyKey - Patch idempotency key
+ * @param style - Comment syntax (not `none`)
+ * @returns Stamp line without a line ending
+ */
+export function formatStamp(idempotencyKey: string, style: Exclude<StampStyle, "none">): string {
+  const text = `${STAMP_PREFIX}${idempotencyKey}`;
+  if (style === "/* */" || style === "<!-- -->") {
+    const [open, close] = style.split(" ");
+    return `${open} ${text} ${close}`;
+  }
+  return `${style} ${text}`;
+}
+
+/**
+ * Checks whether a file contains the stamp of a patch, in any comment syntax.
+ *
+ * @param content - File content
+ * @param idempotencyKey - Patch idempotency key
+ * @returns Whether the patch was already applied
+ */
+export function hasStamp(content: string, idempotencyKey: string): boolean {
+  return new RegExp(`${escapeRegExp(STAMP_PREFIX + idempotencyKey)}(?=\\s|$)`).test(content);
+}
+
+/**
+ * Finds the stamp comment of a patch, including its comment delimiters.
+ *
+ * @param content - File content
+ * @param idempotencyKey - Patch idempotency key
+ * @returns Offsets of the stamp comment, or undefined if there is none
+ */
+export function locateStamp(
+  content: string,
+  idempotencyKey: string,
+): { start: number; end: number } | undefined {
+  const text = escapeRegExp(STAMP_PREFIX + idempotencyKey);
+  const match = new RegExp(
+    `(?:(?://|#|--|/\\*|<!--)[ \\t]?)?${text}(?=\\s|$)(?:[ \\t]?(?:\\*/|-->))?`,
+  ).exec(content);
+  return match ? { start: match.index, end: match.index + match[0].length } : undefined;
+}
+
+/**
+ * Hashes patch content for stamp-less idempotency.
+ *
+ * @param content - Resolved patch content
+ * @returns Hex SHA-256 digest
+ */
+export function hashPatchContent(content: string): string {
+  return crypto.createHash("sha256").update(content.replace(/\r\n/g, "\n")).digest("hex");
+}
@@ -0,0 +1,122 @@
+/**
+ * Patch Targets - Expands a patch's `file` / `files` into concrete files.
+ *
+ * A manifest patch names its target with `file` or a `files` list, and each
+ * entry may be a glob:
+ *
+ * ```yaml
+ * - kind: append_if_missing
+ *   file: "src/**\/*.controller.ts"
+ *   idempotencyKey: controller-license
+ * ```
+ *
+ * Globs are expanded with fast-glob against the given root directories
+ * (staging and the project), so they match both freshly rendered files and
+ * existing project files. Literal paths are kept as written, whether or not
+ * the file exists, so PatchEngine reports a missing file as before.
+ *
+ * The expanded patch is applied once per file: stamps and applied-patch
+ * records are per file, and each file gets its own report entry.
+ *
+ * @module
+ */
+
+import fg from "fast-glob";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Fewest files a patch's targets must match when `minMatches` is not set. */
+export const DEFAULT_MIN_MATCHES = 1;
+
+/** Skip reason for non-strict patches whose targets match too few files. */
+export const NO_MATCHING_FILES = "no matching files";
+
+/** Directories never matched by a target glob. */
+const IGNORED_DIRECTORIES = ["**/node_modules/**", ".git/**", ".scaffoldix/**"];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The target fields of a manifest patch.
+ */
+export interface PatchTarget {
+  /** Target path or glob */
+  readonly file?: string;
+
+  /** Target paths and globs */
+  readonly files?: readonly string[];
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Returns the target entries of a patch, as written in the manifest.
+ *
+ * @param target - Patch target fields
+ * @returns `files`, or `[file]`
+ */
+export function patchTargetPatterns(target: PatchTarget): string[] {
+  return target.files ? [...target.files] : target.file !== undefined ? [target.file] : [];
+}
+
+/**
+ * Describes a patch target for reports and messages: the `file` value, or
+ * the `files` entries joined with commas.
+ *
+ * @param target - Patch target fields
+ * @returns Display string
+ */
+export function describePatchTarget(target: PatchTarget): string {
+  return patchTargetPatterns(target).join(", ");
+}
+
+/**
+ * Expands target entries into relative file paths.
+ *
+ * Literal entries are kept as written. Glob entries are matched against
+ * every root directory; their matches are sorted. The result keeps entry
+ * order and lists each file once.
+ *
+ * @param patterns - Target entries (paths and globs, relative to the roots)
+ * @param roots - Absolute directories to match globs against
+ * @returns Relative, forward-slash file paths
+ */
+export async function expandPatchTargets(
+  patterns: readonly string[],
+  roots: readonly string[],
+): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!fg.isDynamicPattern(pattern)) {
+      files.add(pattern);
+      continue;
+    }
+
+    const matches = new Set<string>();
+    for (const root of roots) {
+      const found = await fg(pattern, {
+        cwd: root,
+        dot: true,
+        onlyFiles: true,
+        followSymbolicLinks: false,
+        ignore: IGNORED_DIRECTORIES,
+      });
+      for (const file of found) {
+        matches.add(file);
+      }
+    }
+
+    for (const file of [...matches].sort()) {
+      files.add(file);
+    }
+  }
+
+  return [...files];
+}
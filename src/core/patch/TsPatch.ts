@@ -0,0 +1,965 @@
+/**
+ * TypeScript-aware code patches.
+ *
+ * Edits TypeScript and JavaScript files through their syntax tree instead of
+ * markers, for the most common changes a pack makes to a project:
+ *
+ * - `ts_add_import`: add import declarations, merging names into an existing
+ *   import of the same module
+ * - `ts_add_export`: add export declarations (barrel `index.ts` files),
+ *   merging names into an existing export of the same module
+ * - `ts_append_array_element`: append elements to an array literal
+ * - `ts_add_object_property`: add properties to an object literal
+ *
+ * The file is parsed with the TypeScript compiler and edited by splicing text
+ * at node positions, so everything outside the edited node keeps its
+ * formatting. New list entries follow the layout of the list: a multi-line
+ * list gets one entry per line at the indentation of its last entry, and
+ * a trailing comma is kept if the list has one.
+ *
+ * ## Targets
+ *
+ * Array and object patches name their literal with `target`, a dotted path
+ * that starts at a top-level declaration and follows object properties:
+ *
+ * - `routes`: `const routes = [...]` (also exported, `as const`, `satisfies`)
+ * - `config.providers`: the `providers` property of `const config = {...}`
+ * - `default.plugins`: `export default defineConfig({ plugins: [...] })`
+ * - `AppModule.imports`: `@Module({ imports: [...] }) class AppModule`
+ *
+ * A call is looked through to its first array or object literal argument,
+ * a class to the first argument of its first decorator.
+ *
+ * ## Idempotency
+ *
+ * Patches write no stamp. Imports and exports are compared by module and
+ * binding names, array elements by their code (ignoring formatting and quote
+ * style) and object properties by name. When everything is already present
+ * the caller leaves the file untouched. A property that exists with a
+ * different value is a conflict and fails the patch.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import ts from "typescript";
+import { ScaffoldError } from "../errors/errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * TypeScript-aware patch kinds.
+ */
+export type TsPatchKind =
+  | "ts_add_import"
+  | "ts_add_export"
+  | "ts_append_array_element"
+  | "ts_add_object_property";
+
+/**
+ * Options for applying a TypeScript patch.
+ */
+export interface TsPatchOptions {
+  /** Patch kind */
+  readonly kind: TsPatchKind;
+
+  /** Target file (for the script kind and error messages) */
+  readonly file: string;
+
+  /** Idempotency key (for error messages) */
+  readonly idempotencyKey: string;
+
+  /** Dotted path of the array or object literal (array and object kinds) */
+  readonly target?: string;
+
+  /** Fail when the target is missing (default: true) */
+  readonly strict?: boolean;
+}
+
+/**
+ * Result of applying a TypeScript patch.
+ */
+export interface TsPatchResult {
+  /** Updated file content (unchanged source if nothing was added) */
+  readonly content: string;
+
+  /** Entries that were added: binding names, elements or property names */
+  readonly added: string[];
+
+  /** Whether the target literal was not found (non-strict mode only) */
+  readonly targetMissing?: boolean;
+}
+
+/**
+ * A text insertion at an offset, optionally replacing some characters.
+ */
+interface Edit {
+  readonly position: number;
+  readonly text: string;
+  readonly replace?: number;
+}
+
+/**
+ * A bracketed, comma-separated list in the source.
+ */
+interface ListSpec {
+  /** Offset just after the opening bracket */
+  readonly open: number;
+
+  /** Offset of the closing bracket */
+  readonly close: number;
+
+  /** Current entries */
+  readonly elements: readonly ts.Node[];
+
+  /** Whether the last entry is followed by a comma */
+  readonly hasTrailingComma: boolean;
+
+  /** Whether a single-line list pads its entries with spaces (`{ a }`) */
+  readonly pad: boolean;
+}
+
+// =============================================================================
+// Helper Functions - Parsing
+// =============================================================================
+
+/**
+ * Picks the script kind from the file extension.
+ */
+function getScriptKind(file: string): ts.ScriptKind {
+  switch (path.extname(file).toLowerCase()) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    case ".js":
+    case ".mjs":
+    case ".cjs":
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Builds the error thrown for content the patch cannot use.
+ */
+function invalidError(
+  options: TsPatchOptions,
+  label: string,
+  reason: string,
+  position?: { line: number; column: number },
+): ScaffoldError {
+  const where = position ? ` (line ${position.line}, column ${position.column})` : "";
+  return new ScaffoldError(
+    `Invalid TypeScript in ${label} for ${options.file}`,
+    "PATCH_TS_INVALID",
+    {
+      file: options.file,
+      idempotencyKey: options.idempotencyKey,
+      kind: options.kind,
+      source: label,
+      reason,
+      ...position,
+    },
+    undefined,
+    `Patch '${options.idempotencyKey}' could not use the ${label}${where}: ${reason}`,
+    undefined,
+    true,
+  );
+}
+
+/**
+ * Collects the syntax errors of a parsed source file through a single-file
+ * program over an in-memory host (no libraries, no module resolution).
+ */
+function getSyntaxDiagnostics(sourceFile: ts.SourceFile): readonly ts.Diagnostic[] {
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) => (fileName === sourceFile.fileName ? sourceFile : undefined),
+    getDefaultLibFileName: () => "lib.d.ts",
+    writeFile: () => {},
+    getCurrentDirectory: () => "",
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => "\n",
+    fileExists: (fileName) => fileName === sourceFile.fileName,
+    readFile: () => undefined,
+  };
+  const program = ts.createProgram({
+    rootNames: [sourceFile.fileName],
+    options: { allowJs: true, noLib: true, noResolve: true },
+    host,
+  });
+  return program.getSyntacticDiagnostics(sourceFile);
+}
+
+/**
+ * Parses source text, failing on syntax errors.
+ */
+function parseSource(source: string, label: string, options: TsPatchOptions): ts.SourceFile {
+  const sourceFile = ts.createSourceFile(
+    options.file,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(options.file),
+  );
+
+  const diagnostics = getSyntaxDiagnostics(sourceFile);
+  if (diagnostics.length > 0) {
+    const diagnostic = diagnostics[0];
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+    throw invalidError(
+      options,
+      label,
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, " "),
+      { line: line + 1, column: character + 1 },
+    );
+  }
+  return sourceFile;
+}
+
+/**
+ * Normalizes code for comparison: tokens joined by single spaces, string
+ * literals in one quote style, no trailing commas.
+ */
+function normalizeCode(text: string): string {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, text);
+  const tokens: string[] = [];
+  for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+    tokens.push(
+      kind === ts.SyntaxKind.StringLiteral
+        ? JSON.stringify(scanner.getTokenValue())
+        : scanner.getTokenText(),
+    );
+  }
+  return tokens
+    .filter((token, i) => token !== "," || !["]", "}", ")"].includes(tokens[i + 1]))
+    .join(" ");
+}
+
+/**
+ * Reads the name of a property, or a normalized form for computed names and spreads.
+ */
+function getMemberName(member: ts.ObjectLiteralElementLike): string {
+  if (ts.isSpreadAssignment(member)) {
+    return normalizeCode(member.getText());
+  }
+  const name = member.name;
+  if (
+    ts.isIdentifier(name) ||
+    ts.isPrivateIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  ) {
+    return name.text;
+  }
+  return normalizeCode(name.getText());
+}
+
+/**
+ * Reads the text of a module specifier.
+ */
+function getModuleName(specifier: ts.Expression | undefined): string | undefined {
+  return specifier && ts.isStringLiteral(specifier) ? specifier.text : undefined;
+}
+
+// =============================================================================
+// Helper Functions - Editing
+// =============================================================================
+
+/**
+ * Applies edits to the source, last first so offsets stay valid. Edits at the
+ * same offset end up in list order.
+ */
+function applyEdits(source: string, edits: readonly Edit[]): string {
+  let result = source;
+  for (const edit of [...edits].reverse().sort((a, b) => b.position - a.position)) {
+    result =
+      result.slice(0, edit.position) +
+      edit.text +
+      result.slice(edit.position + (edit.replace ?? 0));
+  }
+  return result;
+}
+
+/**
+ * Reads the indentation of the line containing an offset.
+ */
+function getLineIndent(source: string, position: number): string {
+  const lineStart = source.lastIndexOf("\n", position - 1) + 1;
+  return /^[ \t]*/.exec(source.slice(lineStart))![0];
+}
+
+/**
+ * Detects the file's indentation unit (two spaces if nothing is indented).
+ */
+function detectIndentUnit(source: string): string {
+  return /^([ \t]+)\S/m.exec(source)?.[1] ?? "  ";
+}
+
+/**
+ * Indents the continuation lines of an entry.
+ */
+function indentEntry(text: string, indent: string): string {
+  return text.replace(/\n(?=[^\n])/g, `\n${indent}`);
+}
+
+/**
+ * Builds the insertions that append entries to a list, following its layout.
+ */
+function appendToList(source: string, list: ListSpec, entries: readonly string[]): Edit[] {
+  const { open, close, elements, hasTrailingComma, pad } = list;
+
+  if (elements.length === 0) {
+    const inner = source.slice(open, close);
+    if (!inner.includes("\n")) {
+      const joined = entries.join(", ");
+      return [{ position: open, text: pad ? ` ${joined} ` : joined, replace: inner.length }];
+    }
+    const closeIndent = getLineIndent(source, close);
+    const indent = closeIndent + detectIndentUnit(source);
+    const closeLineStart = source.lastIndexOf("\n", close - 1) + 1;
+    const ownLine = source.slice(closeLineStart, close).trim() === "";
+    const lines = entries.map((entry) => `${indent}${indentEntry(entry, indent)},\n`).join("");
+    return [
+      ownLine ? { position: closeLineStart, text: lines } : { position: close, text: `\n${lines}` },
+    ];
+  }
+
+  const last = elements[elements.length - 1];
+  const afterLast = hasTrailingComma ? source.indexOf(",", last.end) + 1 : last.end;
+  const multiline = source.slice(open, elements[0].getStart()).includes("\n");
+
+  if (!multiline) {
+    return [{ position: last.end, text: entries.map((entry) => `, ${entry}`).join("") }];
+  }
+
+  // Continue after comments on the line of the last entry
+  const indent = getLineIndent(source, last.getStart());
+  const lineEnd = source.indexOf("\n", afterLast);
+  const position = lineEnd !== -1 && lineEnd < close ? lineEnd : afterLast;
+  const text = entries
+    .map((entry, i) => {
+      const comma = hasTrailingComma || i < entries.length - 1 ? "," : "";
+      return `\n${indent}${indentEntry(entry, indent)}${comma}`;
+    })
+    .join("");
+
+  return hasTrailingComma
+    ? [{ position, text }]
+    : [
+        { position: last.end, text: "," },
+        { position, text },
+      ];
+}
+
+/**
+ * Describes the entries of a bracketed node as a list.
+ */
+function toList(
+  node: ts.ArrayLiteralExpression | ts.ObjectLiteralExpression | ts.NamedImports | ts.NamedExports,
+  pad: boolean,
+): ListSpec {
+  const elements: ts.NodeArray<ts.Node> = ts.isArrayLiteralExpression(node)
+    ? node.elements
+    : ts.isObjectLiteralExpression(node)
+      ? node.properties
+      : node.elements;
+  return {
+    open: node.getStart() + 1,
+    close: node.end - 1,
+    elements,
+    hasTrailingComma: elements.hasTrailingComma,
+    pad,
+  };
+}
+
+/**
+ * Builds the insertion of new top-level statements after an anchor statement,
+ * or at the given fallback position.
+ */
+function insertStatements(
+  source: string,
+  after: ts.Statement | undefined,
+  fallback: "start" | "end",
+  sourceFile: ts.SourceFile,
+  texts: readonly string[],
+): Edit {
+  const block = texts.join("\n");
+  if (after) {
+    return { position: after.end, text: `\n${block}` };
+  }
+  if (fallback === "end") {
+    const separator = source === "" || source.endsWith("\n") ? "" : "\n";
+    return { position: source.length, text: `${separator}${block}\n` };
+  }
+
+  // Before the first statement, after directives like "use client"
+  const statements = sourceFile.statements;
+  let index = 0;
+  while (
+    index < statements.length &&
+    ts.isExpressionStatement(statements[index]) &&
+    ts.isStringLiteral((statements[index] as ts.ExpressionStatement).expression)
+  ) {
+    index++;
+  }
+  if (index > 0) {
+    return { position: statements[index - 1].end, text: `\n\n${block}` };
+  }
+  if (statements.length === 0) {
+    return insertStatements(source, undefined, "end", sourceFile, texts);
+  }
+  return { position: statements[0].getStart(), text: `${block}\n\n` };
+}
+
+// =============================================================================
+// Helper Functions - Targets
+// =============================================================================
+
+/**
+ * Looks through wrappers to the expression that holds a literal.
+ */
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  let current = node;
+  for (;;) {
+    if (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isTypeAssertionExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+      continue;
+    }
+    if (ts.isCallExpression(current)) {
+      const literal = current.arguments
+        .map(unwrapExpression)
+        .find((arg) => ts.isArrayLiteralExpression(arg) || ts.isObjectLiteralExpression(arg));
+      if (literal) {
+        return literal;
+      }
+    }
+    return current;
+  }
+}
+
+/**
+ * Finds the value of a top-level declaration by name.
+ */
+function findDeclaration(sourceFile: ts.SourceFile, name: string): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations.find(
+        (d) => ts.isIdentifier(d.name) && d.name.text === name,
+      );
+      if (declaration?.initializer) {
+        return unwrapExpression(declaration.initializer);
+      }
+    }
+    if (ts.isExportAssignment(statement) && name === "default") {
+      return unwrapExpression(statement.expression);
+    }
+    if (ts.isClassDeclaration(statement) && statement.name?.text === name) {
+      const decorator = ts.getDecorators(statement)?.[0];
+      return decorator ? unwrapExpression(decorator.expression) : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a dotted target path to an expression.
+ *
+ * @returns The expression, or the reason the path could not be followed
+ */
+function resolveTarget(
+  sourceFile: ts.SourceFile,
+  target: string,
+): { node: ts.Expression } | { reason: string } {
+  const [name, ...properties] = target.split(".");
+  let node = findDeclaration(sourceFile, name);
+  if (!node) {
+    return { reason: `no top-level declaration '${name}'` };
+  }
+
+  let resolved = name;
+  for (const property of properties) {
+    if (!ts.isObjectLiteralExpression(node)) {
+      return { reason: `'${resolved}' is not an object literal` };
+    }
+    const member = node.properties.find(
+      (p): p is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(p) && getMemberName(p) === property,
+    );
+    if (!member) {
+      return { reason: `'${resolved}' has no property '${property}'` };
+    }
+    node = unwrapExpression(member.initializer);
+    resolved = `${resolved}.${property}`;
+  }
+  return { node };
+}
+
+/**
+ * Builds the error thrown when the target literal is missing.
+ */
+function targetNotFoundError(options: TsPatchOptions, reason: string): ScaffoldError {
+  return new ScaffoldError(
+    `Patch target '${options.target}' not found in ${options.file}`,
+    "PATCH_TS_TARGET_NOT_FOUND",
+    {
+      file: options.file,
+      idempotencyKey: options.idempotencyKey,
+      kind: options.kind,
+      target: options.target,
+      reason,
+    },
+    undefined,
+    `Patch '${options.idempotencyKey}' could not find '${options.target}' in ${options.file}: ` +
+      `${reason}. The target must be a top-level declaration, optionally followed by ` +
+      `object properties (e.g. routes or config.providers).`,
+    undefined,
+    true,
+  );
+}
+
+// =============================================================================
+// Helper Functions - Patch Kinds
+// =============================================================================
+
+/**
+ * Parses the content of an import or export patch into declarations.
+ */
+function parseDeclarations<T extends ts.Statement>(
+  content: string,
+  options: TsPatchOptions,
+  isKind: (statement: ts.Statement) => statement is T,
+  description: string,
+): T[] {
+  const statements = parseSource(content, "patch content", options).statements;
+  if (statements.length === 0 || !statements.every(isKind)) {
+    throw invalidError(options, "patch content", `the content must only contain ${description}`);
+  }
+  return [...statements] as T[];
+}
+
+/**
+ * Formats a specifier as `name` or `property as name`.
+ */
+function formatSpecifier(specifier: ts.ImportSpecifier | ts.ExportSpecifier): string {
+  return specifier.propertyName
+    ? `${specifier.propertyName.text} as ${specifier.name.text}`
+    : specifier.name.text;
+}
+
+/**
+ * Adds one import declaration to the source.
+ */
+function addImport(
+  source: string,
+  wanted: ts.ImportDeclaration,
+  options: TsPatchOptions,
+  added: string[],
+): string {
+  const sourceFile = parseSource(source, "target file", options);
+  const moduleName = getModuleName(wanted.moduleSpecifier);
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const sameModule = imports.filter((d) => getModuleName(d.moduleSpecifier) === moduleName);
+  const clause = wanted.importClause;
+
+  // Side-effect import: any import of the module covers it
+  if (!clause) {
+    if (sameModule.length > 0) {
+      return source;
+    }
+    added.push(moduleName ?? wanted.moduleSpecifier.getText());
+    return applyEdits(source, [
+      insertStatements(source, imports.at(-1), "start", sourceFile, [wanted.getText()]),
+    ]);
+  }
+
+  const candidates = sameModule.filter(
+    (d) => d.importClause && d.importClause.isTypeOnly === clause.isTypeOnly,
+  );
+  const clauses = candidates.map((d) => d.importClause!);
+  const namedImports = clauses
+    .map((c) => c.namedBindings)
+    .filter((b): b is ts.NamedImports => !!b && ts.isNamedImports(b));
+
+  // What the file does not import yet
+  let missingDefault =
+    clause.name && !clauses.some((c) => c.name?.text === clause.name!.text)
+      ? clause.name.text
+      : undefined;
+  const missingNamespace =
+    clause.namedBindings &&
+    ts.isNamespaceImport(clause.namedBindings) &&
+    !clauses.some(
+      (c) =>
+        c.namedBindings &&
+        ts.isNamespaceImport(c.namedBindings) &&
+        c.namedBindings.name.text === (clause.namedBindings as ts.NamespaceImport).name.text,
+    )
+      ? clause.namedBindings.name.text
+      : undefined;
+  let missingNamed =
+    clause.namedBindings && ts.isNamedImports(clause.namedBindings)
+      ? clause.namedBindings.elements.filter(
+          (wantedSpecifier) =>
+            !namedImports.some((named) =>
+              named.elements.some(
+                (s) =>
+                  s.name.text === wantedSpecifier.name.text &&
+                  (s.propertyName ?? s.name).text ===
+                    (wantedSpecifier.propertyName ?? wantedSpecifier.name).text,
+              ),
+            ),
+        )
+      : [];
+
+  if (!missingDefault && !missingNamespace && missingNamed.length === 0) {
+    return source;
+  }
+
+  added.push(
+    ...[missingDefault, missingNamespace && `* as ${missingNamespace}`].filter(
+      (name): name is string => !!name,
+    ),
+    ...missingNamed.map((s) => s.name.text),
+  );
+
+  // Nothing to merge into: copy the declaration as written
+  if (candidates.length === 0) {
+    return applyEdits(source, [
+      insertStatements(source, imports.at(-1), "start", sourceFile, [wanted.getText()]),
+    ]);
+  }
+
+  const edits: Edit[] = [];
+
+  // Named imports join an existing `{ ... }`, or follow a default import
+  if (missingNamed.length > 0) {
+    const specifiers = missingNamed.map((s) => s.getText());
+    const target = namedImports.at(-1);
+    const defaultOnly = clauses.find((c) => c.name && !c.namedBindings);
+    if (target) {
+      edits.push(...appendToList(source, toList(target, true), specifiers));
+      missingNamed = [];
+    } else if (defaultOnly) {
+      edits.push({ position: defaultOnly.name!.end, text: `, { ${specifiers.join(", ")} }` });
+      missingNamed = [];
+    }
+  }
+
+  // A default import joins an import that only has named bindings
+  if (missingDefault) {
+    const target = clauses.find(
+      (c) => !c.name && c.namedBindings && ts.isNamedImports(c.namedBindings),
+    );
+    if (target) {
+      edits.push({ position: target.namedBindings!.getStart(), text: `${missingDefault}, ` });
+      missingDefault = undefined;
+    }
+  }
+
+  // The rest becomes a new declaration
+  const quote = wanted.moduleSpecifier.getText()[0];
+  const semicolon = wanted.getText().endsWith(";") ? ";" : "";
+  const prefix = `import ${clause.isTypeOnly ? "type " : ""}`;
+  const from = ` from ${quote}${moduleName}${quote}${semicolon}`;
+  const declarations: string[] = [];
+  if (missingNamespace) {
+    declarations.push(`${prefix}* as ${missingNamespace}${from}`);
+  }
+  if (missingDefault || missingNamed.length > 0) {
+    const parts = [
+      missingDefault,
+      missingNamed.length > 0 ? `{ ${missingNamed.map(formatSpecifier).join(", ")} }` : undefined,
+    ].filter((part): part is string => !!part);
+    declarations.push(`${prefix}${parts.join(", ")}${from}`);
+  }
+  if (declarations.length > 0) {
+    edits.push(insertStatements(source, imports.at(-1), "start", sourceFile, declarations));
+  }
+
+  return applyEdits(source, edits);
+}
+
+/**
+ * Adds one export declaration to the source.
+ */
+function addExport(
+  source: string,
+  wanted: ts.ExportDeclaration,
+  options: TsPatchOptions,
+  added: string[],
+): string {
+  const sourceFile = parseSource(source, "target file", options);
+  const moduleName = getModuleName(wanted.moduleSpecifier);
+  const exports = sourceFile.statements.filter(ts.isExportDeclaration);
+  const candidates = exports.filter(
+    (d) => getModuleName(d.moduleSpecifier) === moduleName && d.isTypeOnly === wanted.isTypeOnly,
+  );
+  const insert = () =>
+    applyEdits(source, [
+      insertStatements(source, exports.at(-1), "end", sourceFile, [wanted.getText()]),
+    ]);
+
+  const clause = wanted.exportClause;
+
+  // export * from "..."
+  if (!clause) {
+    if (candidates.some((d) => !d.exportClause)) {
+      return source;
+    }
+    added.push(`* from ${moduleName}`);
+    return insert();
+  }
+
+  // export * as name from "..."
+  if (ts.isNamespaceExport(clause)) {
+    if (
+      candidates.some(
+        (d) =>
+          d.exportClause &&
+          ts.isNamespaceExport(d.exportClause) &&
+          d.exportClause.name.getText() === clause.name.getText(),
+      )
+    ) {
+      return source;
+    }
+    added.push(`* as ${clause.name.getText()}`);
+    return insert();
+  }
+
+  // export { ... } [from "..."]
+  const namedExports = candidates
+    .map((d) => d.exportClause)
+    .filter((c): c is ts.NamedExports => !!c && ts.isNamedExports(c));
+  const missing = clause.elements.filter(
+    (wantedSpecifier) =>
+      !namedExports.some((named) =>
+        named.elements.some((s) => s.name.getText() === wantedSpecifier.name.getText()),
+      ),
+  );
+  if (missing.length === 0) {
+    return source;
+  }
+
+  added.push(...missing.map((s) => s.name.getText()));
+  const target = namedExports.at(-1);
+  if (!target) {
+    return insert();
+  }
+  return applyEdits(
+    source,
+    appendToList(
+      source,
+      toList(target, true),
+      missing.map((s) => s.getText()),
+    ),
+  );
+}
+
+/**
+ * Resolves the target literal of an array or object patch.
+ */
+function findTargetLiteral<T extends ts.Expression>(
+  sourceFile: ts.SourceFile,
+  options: TsPatchOptions,
+  isKind: (node: ts.Node) => node is T,
+  description: string,
+): T | string {
+  const resolved = resolveTarget(sourceFile, options.target ?? "");
+  if ("reason" in resolved) {
+    return resolved.reason;
+  }
+  return isKind(resolved.node) ? resolved.node : `'${options.target}' is not ${description}`;
+}
+
+/**
+ * Appends array elements that the array does not contain yet.
+ */
+function appendArrayElements(
+  source: string,
+  content: string,
+  options: TsPatchOptions,
+): TsPatchResult {
+  const sourceFile = parseSource(source, "target file", options);
+  const array = findTargetLiteral(
+    sourceFile,
+    options,
+    ts.isArrayLiteralExpression,
+    "an array literal",
+  );
+  if (typeof array === "string") {
+    if (options.strict === false) {
+      return { content: source, added: [], targetMissing: true };
+    }
+    throw targetNotFoundError(options, array);
+  }
+
+  const wrapper = parseSource(`[\n${content}\n];`, "patch content", options).statements[0];
+  const elements = (
+    (wrapper as ts.ExpressionStatement).expression as ts.ArrayLiteralExpression
+  ).elements.filter((e) => !ts.isOmittedExpression(e));
+  if (elements.length === 0) {
+    throw invalidError(options, "patch content", "the content has no array elements");
+  }
+
+  const existing = new Set(array.elements.map((e) => normalizeCode(e.getText())));
+  const entries: string[] = [];
+  for (const element of elements) {
+    const normalized = normalizeCode(element.getText());
+    if (!existing.has(normalized)) {
+      existing.add(normalized);
+      entries.push(element.getText());
+    }
+  }
+  if (entries.length === 0) {
+    return { content: source, added: [] };
+  }
+
+  return {
+    content: applyEdits(source, appendToList(source, toList(array, false), entries)),
+    added: entries.map(normalizeCode),
+  };
+}
+
+/**
+ * Adds object properties that the object does not have yet.
+ */
+function addObjectProperties(
+  source: string,
+  content: string,
+  options: TsPatchOptions,
+): TsPatchResult {
+  const sourceFile = parseSource(source, "target file", options);
+  const object = findTargetLiteral(
+    sourceFile,
+    options,
+    ts.isObjectLiteralExpression,
+    "an object literal",
+  );
+  if (typeof object === "string") {
+    if (options.strict === false) {
+      return { content: source, added: [], targetMissing: true };
+    }
+    throw targetNotFoundError(options, object);
+  }
+
+  const wrapper = parseSource(`({\n${content}\n});`, "patch content", options).statements[0];
+  const properties = (
+    ((wrapper as ts.ExpressionStatement).expression as ts.ParenthesizedExpression)
+      .expression as ts.ObjectLiteralExpression
+  ).properties;
+  if (properties.length === 0) {
+    throw invalidError(options, "patch content", "the content has no object properties");
+  }
+
+  const existing = new Map(object.properties.map((p) => [getMemberName(p), p]));
+  const entries: string[] = [];
+  const added: string[] = [];
+  for (const property of properties) {
+    const name = getMemberName(property);
+    const current = existing.get(name);
+    if (current) {
+      if (normalizeCode(current.getText()) === normalizeCode(property.getText())) {
+        continue;
+      }
+      throw new ScaffoldError(
+        `Property '${name}' of '${options.target}' in ${options.file} has a different value`,
+        "PATCH_TS_CONFLICT",
+        {
+          file: options.file,
+          idempotencyKey: options.idempotencyKey,
+          target: options.target,
+          property: name,
+          existing: current.getText(),
+          wanted: property.getText(),
+        },
+        undefined,
+        `Patch '${options.idempotencyKey}' would add '${property.getText()}' to ` +
+          `'${options.target}', but the object already has '${current.getText()}'. ` +
+          `Change or remove the property in ${options.file}, or rename it in the patch.`,
+        undefined,
+        true,
+      );
+    }
+    existing.set(name, property);
+    entries.push(property.getText());
+    added.push(name);
+  }
+  if (entries.length === 0) {
+    return { content: source, added: [] };
+  }
+
+  return {
+    content: applyEdits(source, appendToList(source, toList(object, true), entries)),
+    added,
+  };
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Applies a TypeScript-aware patch to source text.
+ *
+ * @param source - Current file content
+ * @param content - Resolved patch content (declarations, elements or properties)
+ * @param options - Patch kind, file, idempotency key and target
+ * @returns Updated content and the entries that were added
+ * @throws ScaffoldError PATCH_TS_INVALID if the file or the content does not parse
+ * @throws ScaffoldError PATCH_TS_TARGET_NOT_FOUND if the target literal is missing (strict)
+ * @throws ScaffoldError PATCH_TS_CONFLICT if a property exists with a different value
+ */
+export function applyTsPatch(
+  source: string,
+  content: string,
+  options: TsPatchOptions,
+): TsPatchResult {
+  switch (options.kind) {
+    case "ts_add_import": {
+      const declarations = parseDeclarations(
+        content,
+        options,
+        ts.isImportDeclaration,
+        "import declarations",
+      );
+      const added: string[] = [];
+      let result = source;
+      for (const declaration of declarations) {
+        result = addImport(result, declaration, options, added);
+      }
+      return { content: result, added };
+    }
+
+    case "ts_add_export": {
+      const declarations = parseDeclarations(
+        content,
+        options,
+        ts.isExportDeclaration,
+        "export declarations (export { ... }, export * from ...)",
+      );
+      const added: string[] = [];
+      let result = source;
+      for (const declaration of declarations) {
+        result = addExport(result, declaration, options, added);
+      }
+      return { content: result, added };
+    }
+
+    case "ts_append_array_element":
+      return appendArrayElements(source, content, options);
+
+    case "ts_add_object_property":
+      return addObjectProperties(source, content, options);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * `when` expressions for conditional patches.
+ *
+ * A small, side-effect-free expression language evaluated against the
+ * resolved generation inputs:
+ *
+ * ```yaml
+ * when: "enableLogging"
+ * when: "framework == 'express' && !useFastify"
+ * when: "database in ['postgres', 'mysql'] || (orm != null && orm.enabled)"
+ * ```
+ *
+ * ## Syntax
+ *
+ * - Literals: `'text'`, `"text"`, numbers, `true`, `false`, `null`
+ * - Inputs: `name`, or a dotted path into an object input (`db.kind`)
+ * - Comparison: `==`, `!=` (strict equality)
+ * - Membership: `value in ['a', 'b']`, or `value in listInput`
+ *   (a substring check when the right side is a string)
+ * - Boolean logic: `!`, `&&`, `||` and parentheses
+ *
+ * Precedence from lowest to highest: `||`, `&&`, `!`, comparisons. `!` negates
+ * the whole comparison that follows it (`!lang == 'ts'` is `!(lang == 'ts')`).
+ *
+ * A bare value is true unless it is `false`, `null`, missing, `0`, `""` or an
+ * empty list. Unknown inputs evaluate to null, so a condition on an optional
+ * input that was not provided is simply false.
+ *
+ * Nothing is executed: expressions are parsed into a tree and interpreted.
+ *
+ * @module
+ */
+
+import { ScaffoldError } from "../errors/errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Parsed `when` expression.
+ */
+export type WhenNode =
+  | { readonly type: "literal"; readonly value: string | number | boolean | null }
+  | { readonly type: "input"; readonly path: readonly string[] }
+  | { readonly type: "list"; readonly items: readonly WhenNode[] }
+  | { readonly type: "not"; readonly operand: WhenNode }
+  | { readonly type: "and" | "or"; readonly left: WhenNode; readonly right: WhenNode }
+  | {
+      readonly type: "compare";
+      readonly operator: "==" | "!=" | "in";
+      readonly left: WhenNode;
+      readonly right: WhenNode;
+    };
+
+/**
+ * Lexical token.
+ */
+interface Token {
+  readonly kind: "punct" | "string" | "number" | "word" | "end";
+  readonly value: string;
+  readonly position: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Punctuation and operators, longest first. */
+const PUNCTUATION = ["==", "!=", "&&", "||", "!", "(", ")", "[", "]", ","];
+
+/** Identifier or dotted input path. */
+const WORD_PATTERN = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/;
+
+/** Numeric literal. */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?/;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Builds the error thrown for a malformed expression.
+ */
+function syntaxError(expression: string, position: number, reason: string): ScaffoldError {
+  return new ScaffoldError(
+    `Invalid when expression: ${reason}`,
+    "PATCH_CONDITION_INVALID",
+    { expression, position, reason },
+    undefined,
+    `Check the expression '${expression}' near position ${position + 1}. ` +
+      `Supported: ==, !=, in, !, &&, ||, parentheses, quoted strings, numbers, true, false, null.`,
+    undefined,
+    true,
+  );
+}
+
+/**
+ * Splits an expression into tokens.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = "";
+      let end = index + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === "\\" && end + 1 < expression.length) {
+          end++;
+        }
+        value += expression[end];
+        end++;
+      }
+      if (end >= expression.length) {
+        throw syntaxError(expression, index, "unterminated string");
+      }
+      tokens.push({ kind: "string", value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => rest.startsWith(p));
+    if (punct) {
+      tokens.push({ kind: "punct", value: punct, position: index });
+      index += punct.length;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (word) {
+      tokens.push({ kind: "word", value: word[0], position: index });
+      index += word[0].length;
+      continue;
+    }
+
+    throw syntaxError(expression, index, `unexpected character '${char}'`);
+  }
+
+  tokens.push({ kind: "end", value: "", position: expression.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over a token list.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly expression: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): WhenNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw syntaxError(this.expression, next.position, `unexpected '${next.value}'`);
+    }
+    return node;
+  }
+
+  private parseOr(): WhenNode {
+    let left = this.parseAnd();
+    while (this.accept("punct", "||")) {
+      left = { type: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): WhenNode {
+    let left = this.parseNot();
+    while (this.accept("punct", "&&")) {
+      left = { type: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): WhenNode {
+    if (this.accept("punct", "!")) {
+      return { type: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): WhenNode {
+    const left = this.parseOperand();
+
+    if (this.accept("word", "in")) {
+      const right = this.peek().value === "[" ? this.parseList() : this.parseOperand();
+      return { type: "compare", operator: "in", left, right };
+    }
+
+    const next = this.peek();
+    if (next.kind === "punct" && (next.value === "==" || next.value === "!=")) {
+      this.index++;
+      return { type: "compare", operator: next.value, left, right: this.parseOperand() };
+    }
+
+    return left;
+  }
+
+  private parseList(): WhenNode {
+    this.expect("[");
+    const items: WhenNode[] = [];
+    if (!this.accept("punct", "]")) {
+      do {
+        items.push(this.parseOperand());
+      } while (this.accept("punct", ","));
+      this.expect("]");
+    }
+    return { type: "list", items };
+  }
+
+  private parseOperand(): WhenNode {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case "string":
+        return { type: "literal", value: token.value };
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+      case "word":
+        if (token.value === "true" || token.value === "false") {
+          return { type: "literal", value: token.value === "true" };
+        }
+        if (token.value === "null") {
+          return { type: "literal", value: null };
+        }
+        if (token.value === "in") {
+          break;
+        }
+        return { type: "input", path: token.value.split(".") };
+      case "punct":
+        if (token.value === "(") {
+          const inner = this.parseOr();
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          throw syntaxError(this.expression, token.position, "lists are only allowed after 'in'");
+        }
+        break;
+      case "end":
+        throw syntaxError(this.expression, token.position, "unexpected end of expression");
+    }
+
+    throw syntaxError(this.expression, token.position, `unexpected '${token.value}'`);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(kind: Token["kind"], value: string): boolean {
+    const token = this.peek();
+    if (token.kind === kind && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept("punct", value)) {
+      const token = this.peek();
+      const found = token.kind === "end" ? "end of expression" : `'${token.value}'`;
+      throw syntaxError(this.expression, token.position, `expected '${value}' but found ${found}`);
+    }
+  }
+}
+
+/**
+ * Reads a (dotted) input path from the data.
+ */
+function readInput(data: Record<string, unknown>, inputPath: readonly string[]): unknown {
+  let value: unknown = data;
+  for (const segment of inputPath) {
+    if (typeof value !== "object" || value === null || !Object.hasOwn(value, segment)) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value ?? null;
+}
+
+/**
+ * Decides whether a value counts as true.
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Computes the value of a node.
+ */
+function evaluateNode(node: WhenNode, data: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "input":
+      return readInput(data, node.path);
+    case "list":
+      return node.items.map((item) => evaluateNode(item, data));
+    case "not":
+      return !isTruthy(evaluateNode(node.operand, data));
+    case "and":
+      return isTruthy(evaluateNode(node.left, data)) && isTruthy(evaluateNode(node.right, data));
+    case "or":
+      return isTruthy(evaluateNode(node.left, data)) || isTruthy(evaluateNode(node.right, data));
+    case "compare": {
+      const left = evaluateNode(node.left, data);
+      const right = evaluateNode(node.right, data);
+      if (node.operator === "==") {
+        return left === right;
+      }
+      if (node.operator === "!=") {
+        return left !== right;
+      }
+      if (Array.isArray(right)) {
+        return right.includes(left);
+      }
+      return typeof right === "string" && typeof left === "string" && right.includes(left);
+    }
+  }
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Parses a `when` expression.
+ *
+ * @param expression - Expression source
+ * @returns Parsed expression tree
+ * @throws ScaffoldError PATCH_CONDITION_INVALID if the expression is malformed
+ */
+export function parseWhenExpression(expression: string): WhenNode {
+  return new Parser(expression, tokenize(expression)).parse();
+}
+
+/**
+ * Evaluates a `when` expression against resolved inputs.
+ *
+ * @param expression - Expression source or parsed tree
+ * @param data - Resolved generation inputs
+ * @returns Whether the condition holds
+ * @throws ScaffoldError PATCH_CONDITION_INVALID if the expression is malformed
+ */
+export function evaluateWhen(
+  expression: string | WhenNode,
+  data: Record<string, unknown>,
+): boolean {
+  const node = typeof expression === "string" ? parseWhenExpression(expression) : expression;
+  return isTruthy(evaluateNode(node, data));
+}
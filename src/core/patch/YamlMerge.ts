@@ -0,0 +1,401 @@
+/**
+ * Comment-preserving YAML merging for `yaml_merge` patches.
+ *
+ * Merges a YAML fragment into a YAML file through the `yaml` document API,
+ * so comments, anchors, quoting and blank lines of the target survive.
+ * Fragment nodes are inserted as written, keeping their own quoting
+ * (`"3000:3000"` stays a quoted string).
+ *
+ * ## Merge Rules
+ *
+ * The rules match `json_merge` (see JsonMerge): mappings merge recursively,
+ * scalars are replaced, and sequences follow the array strategy
+ * (`append-unique`, `replace` or `by-key`).
+ *
+ * An alias in the target is only expanded when the fragment changes the
+ * value behind it; otherwise the alias is kept.
+ *
+ * ## Scoped Merges
+ *
+ * `keyPath` (e.g. `services.api.environment`) merges the fragment into a
+ * nested mapping instead of the document root. Missing mappings along the
+ * path are created; a non-mapping value on the path fails the patch.
+ *
+ * ## Idempotency
+ *
+ * The merge compares values structurally and reports the keys it changed.
+ * When nothing changed the caller leaves the file untouched.
+ *
+ * @module
+ */
+
+import {
+  parseDocument,
+  visit,
+  isAlias,
+  isMap,
+  isScalar,
+  isSeq,
+  type Document,
+  type Node,
+  type Pair,
+  type ToStringOptions,
+  type YAMLMap,
+  type YAMLSeq,
+} from "yaml";
+import { ScaffoldError } from "../errors/errors.js";
+import { isDeepEqual, type StructuredMergeOptions } from "./JsonMerge.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for merging a YAML fragment.
+ */
+export interface YamlMergeOptions extends StructuredMergeOptions {
+  /** Target file (for error messages) */
+  readonly file: string;
+
+  /** Dotted path of the mapping to merge into (default: document root) */
+  readonly keyPath?: string;
+}
+
+/**
+ * Result of merging a YAML fragment.
+ */
+export interface YamlMergeResult {
+  /** Updated file content (unchanged source if nothing changed) */
+  readonly content: string;
+
+  /** Paths of the keys that changed, in merge order */
+  readonly changedKeys: string[];
+}
+
+/**
+ * Shared state for one merge.
+ */
+interface MergeContext {
+  readonly target: Document;
+  readonly fragment: Document;
+  readonly options: StructuredMergeOptions;
+  readonly changedKeys: string[];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Converts a node to a plain value in the context of its document.
+ */
+function toValue(node: unknown, doc: Document): unknown {
+  if (node === null || node === undefined) {
+    return null;
+  }
+  return (node as Node).toJS(doc);
+}
+
+/**
+ * Joins a parent path and a key into a dotted path.
+ */
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Finds a mapping pair by its scalar key.
+ */
+function findPair(map: YAMLMap, key: unknown): Pair | undefined {
+  return map.items.find((pair) => (isScalar(pair.key) ? pair.key.value : pair.key) === key) as
+    | Pair
+    | undefined;
+}
+
+/**
+ * Copies a fragment node for insertion into the target document.
+ */
+function cloneFragmentNode(node: unknown, ctx: MergeContext): unknown {
+  if (isAlias(node)) {
+    // Fragment anchors do not exist in the target; insert the value itself
+    return ctx.target.createNode(toValue(node, ctx.fragment));
+  }
+  return node && typeof node === "object" && "clone" in node ? (node as Node).clone() : node;
+}
+
+/**
+ * Reads the identifying field of a sequence element, if it has one.
+ */
+function getElementKey(node: unknown, doc: Document, arrayKey: string): unknown {
+  if (!isMap(node)) {
+    return undefined;
+  }
+  const value = toValue(findPair(node, arrayKey)?.value, doc);
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+    ? value
+    : undefined;
+}
+
+/**
+ * Merges a fragment sequence into a target sequence in place.
+ */
+function mergeSeq(target: YAMLSeq, fragment: YAMLSeq, keyPath: string, ctx: MergeContext): unknown {
+  const { arrayStrategy = "append-unique", arrayKey } = ctx.options;
+
+  if (arrayStrategy === "replace") {
+    if (isDeepEqual(toValue(target, ctx.target), toValue(fragment, ctx.fragment))) {
+      return target;
+    }
+    ctx.changedKeys.push(keyPath);
+    return cloneFragmentNode(fragment, ctx);
+  }
+
+  let appended = false;
+  for (const element of fragment.items) {
+    const key =
+      arrayStrategy === "by-key" && arrayKey
+        ? getElementKey(element, ctx.fragment, arrayKey)
+        : undefined;
+
+    if (key !== undefined) {
+      const index = target.items.findIndex(
+        (item) => getElementKey(item, ctx.target, arrayKey!) === key,
+      );
+      const elementPath = `${keyPath}[${arrayKey}=${String(key)}]`;
+      if (index === -1) {
+        target.items.push(cloneFragmentNode(element, ctx));
+        ctx.changedKeys.push(elementPath);
+      } else {
+        target.items[index] = mergeNode(target.items[index], element, elementPath, ctx);
+      }
+      continue;
+    }
+
+    const value = toValue(element, ctx.fragment);
+    if (!target.items.some((item) => isDeepEqual(toValue(item, ctx.target), value))) {
+      target.items.push(cloneFragmentNode(element, ctx));
+      appended = true;
+    }
+  }
+
+  if (appended) {
+    ctx.changedKeys.push(keyPath);
+  }
+  return target;
+}
+
+/**
+ * Merges a fragment node into a target node, returning the resulting node.
+ *
+ * Mappings and sequences are updated in place so their comments survive.
+ */
+function mergeNode(
+  target: unknown,
+  fragment: unknown,
+  keyPath: string,
+  ctx: MergeContext,
+): unknown {
+  if (isAlias(target)) {
+    // Merge into a detached copy; keep the alias if nothing changes
+    const resolved = target.resolve(ctx.target);
+    const copy = resolved ? resolved.clone() : null;
+    if (copy && "anchor" in copy) {
+      copy.anchor = undefined;
+    }
+    const before = ctx.changedKeys.length;
+    const merged = mergeNode(copy, fragment, keyPath, ctx);
+    return ctx.changedKeys.length === before ? target : merged;
+  }
+
+  if (isMap(target) && isMap(fragment)) {
+    for (const pair of fragment.items) {
+      const key = isScalar(pair.key) ? pair.key.value : pair.key;
+      const childPath = joinPath(keyPath, String(key));
+      const existing = findPair(target, key);
+      if (!existing) {
+        target.items.push(ctx.target.createPair(key, null));
+        target.items[target.items.length - 1].value = cloneFragmentNode(pair.value, ctx);
+        ctx.changedKeys.push(childPath);
+      } else {
+        existing.value = mergeNode(existing.value, pair.value, childPath, ctx);
+      }
+    }
+    return target;
+  }
+
+  if (isSeq(target) && isSeq(fragment)) {
+    return mergeSeq(target, fragment, keyPath, ctx);
+  }
+
+  if (isDeepEqual(toValue(target, ctx.target), toValue(fragment, ctx.fragment))) {
+    return target;
+  }
+
+  ctx.changedKeys.push(keyPath);
+  if (isScalar(target) && isScalar(fragment)) {
+    // Keep the target node (and its comments), take the fragment's value and style
+    target.value = fragment.value;
+    target.type = fragment.type;
+    return target;
+  }
+  return cloneFragmentNode(fragment, ctx);
+}
+
+/**
+ * Throws PATCH_APPLY_FAILED for a YAML document with parse errors.
+ */
+function assertValidYaml(doc: Document, file: string, label: string): void {
+  if (doc.errors.length === 0) {
+    return;
+  }
+  const [error] = doc.errors;
+  const reason = error.message.split("\n")[0];
+  const position = error.linePos?.[0];
+  throw new ScaffoldError(
+    `Invalid YAML in ${label} for ${file}`,
+    "PATCH_APPLY_FAILED",
+    { file, source: label, reason, line: position?.line, column: position?.col },
+    undefined,
+    `yaml_merge could not parse the ${label} as YAML: ${reason}`,
+    error,
+    true,
+  );
+}
+
+/**
+ * Moves comments written after a key back onto the key's line.
+ *
+ * The parser attaches `key: # comment` above a block mapping or sequence
+ * value (`commentBefore`), which would print the comment on a line of its
+ * own; as the key's `comment` it stays on the key's line.
+ */
+function keepKeyLineComments(doc: Document, source: string): void {
+  visit(doc, {
+    Pair(_, pair) {
+      const value = pair.value;
+      if (!(isMap(value) || isSeq(value)) || !value.commentBefore || !isScalar(pair.key)) {
+        return;
+      }
+      const keyEnd = pair.key.range?.[1];
+      if (keyEnd === undefined) {
+        return;
+      }
+      const lineEnd = source.indexOf("\n", keyEnd);
+      const rest = source.slice(keyEnd, lineEnd === -1 ? undefined : lineEnd).trimEnd();
+      const [first, ...others] = value.commentBefore.split("\n");
+      if (/^[ \t]*:[ \t]*#/.test(rest) && rest.endsWith(`#${first}`)) {
+        pair.key.comment = first;
+        value.commentBefore = others.length > 0 ? others.join("\n") : undefined;
+      }
+    },
+  });
+}
+
+/**
+ * Detects formatting options so unchanged parts of the file keep their layout.
+ */
+function detectFormat(source: string): ToStringOptions {
+  const indents = [...source.matchAll(/^( +)[^\s#]/gm)].map((match) => match[1].length);
+  const unindentedSeq = /^( *)[^\s#-][^\n]*:[ \t]*(#[^\n]*)?\r?\n\1- /m.test(source);
+  return {
+    indent: indents.length > 0 ? Math.min(...indents) : 2,
+    indentSeq: !unindentedSeq,
+    flowCollectionPadding: /[[{] [^\s\]}]/.test(source),
+    lineWidth: 0,
+  };
+}
+
+/**
+ * Resolves (creating if needed) the mapping at `keyPath`.
+ */
+function resolveScope(doc: Document, keyPath: string | undefined, file: string): YAMLMap {
+  if (!doc.contents) {
+    doc.contents = doc.createNode({});
+  }
+
+  let current: unknown = doc.contents;
+  const segments = keyPath ? keyPath.split(".") : [];
+  const visited: string[] = [];
+
+  for (const segment of [undefined, ...segments]) {
+    if (segment !== undefined) {
+      const parent = current as YAMLMap;
+      let pair = findPair(parent, segment);
+      if (!pair) {
+        pair = doc.createPair(segment, {});
+        parent.items.push(pair);
+      }
+      visited.push(segment);
+      current = isAlias(pair.value) ? pair.value.resolve(doc) : pair.value;
+    }
+
+    if (!isMap(current)) {
+      const where = visited.length > 0 ? `'${visited.join(".")}'` : "the document root";
+      throw new ScaffoldError(
+        `Cannot merge YAML into ${where} of ${file}: not a mapping`,
+        "PATCH_APPLY_FAILED",
+        { file, keyPath, segment: visited.join(".") || undefined },
+        undefined,
+        `yaml_merge can only merge into a mapping, but ${where} in ${file} is not one. ` +
+          `Check the patch keyPath.`,
+        undefined,
+        true,
+      );
+    }
+  }
+
+  return current as YAMLMap;
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Merges a YAML fragment into YAML source, preserving comments and layout.
+ *
+ * @param source - Target file content ("" for a new file)
+ * @param fragmentSource - YAML mapping to merge in
+ * @param options - Target file, key path and array strategy
+ * @returns Updated content and changed keys (empty if already merged)
+ * @throws ScaffoldError PATCH_APPLY_FAILED for invalid YAML or a non-mapping scope
+ */
+export function mergeYaml(
+  source: string,
+  fragmentSource: string,
+  options: YamlMergeOptions,
+): YamlMergeResult {
+  const { file, keyPath, arrayStrategy, arrayKey } = options;
+
+  const target = parseDocument(source);
+  assertValidYaml(target, file, "target file");
+  keepKeyLineComments(target, source);
+  const fragment = parseDocument(fragmentSource);
+  assertValidYaml(fragment, file, "patch content");
+
+  if (!isMap(fragment.contents)) {
+    throw new ScaffoldError(
+      `yaml_merge requires a YAML mapping`,
+      "PATCH_APPLY_FAILED",
+      { file, keyPath },
+      undefined,
+      `The yaml_merge content for ${file} must be a mapping (key: value pairs).`,
+      undefined,
+      true,
+    );
+  }
+
+  const scope = resolveScope(target, keyPath, file);
+  const ctx: MergeContext = {
+    target,
+    fragment,
+    options: { arrayStrategy, arrayKey },
+    changedKeys: [],
+  };
+  mergeNode(scope, fragment.contents, keyPath ?? "", ctx);
+
+  if (ctx.changedKeys.length === 0) {
+    return { content: source, changedKeys: [] };
+  }
+  return { content: target.toString(detectFormat(source)), changedKeys: ctx.changedKeys };
+}
@@ -24,10 +24,15 @@
 
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import Handlebars from "handlebars";
 import fg from "fast-glob";
 import { ScaffoldError } from "../errors/errors.js";
+import { getTemplateEngine, type TemplateEngine } from "../render/TemplateHelpers.js";
 import type { RenameRules } from "../render/Renderer.js";
+import { filterTemplateFiles, type FileRule } from "../render/FileRules.js";
+import { getTemplateInstances, type FanOutGroup } from "../render/FanOut.js";
+import { shouldEscapeHtml, type EscapeHtmlSetting } from "../render/EscapePolicy.js";
+import { renderTemplateString } from "../render/TemplateDiagnostics.js";
+import { resolveTemplateMode, type TemplateModeRules } from "../render/TemplateModes.js";
 
 // =============================================================================
 // Types
@@ -54,6 +59,9 @@ export interface PreviewFile {
   /** Whether the file is binary (copied, not rendered) */
   readonly isBinary: boolean;
 
+  /** How the file is processed: binary and `copy:` files are copied, not rendered */
+  readonly mode: "rendered" | "copied";
+
   /** Source template relative path */
   readonly sourceTemplate: string;
 }
@@ -116,6 +124,24 @@ export interface ComputePreviewParams {
 
   /** Optional rename rules for file/directory names */
   readonly renameRules?: RenameRules;
+
+  /** HTML escaping setting (default: only HTML files are escaped) */
+  readonly escapeHtml?: EscapeHtmlSetting;
+
+  /** Handlebars environment with pack partials/helpers (default: built-in helpers only) */
+  readonly engine?: TemplateEngine;
+
+  /** Archetype `files:` rules deciding which templates are generated */
+  readonly fileRules?: readonly FileRule[];
+
+  /** Fan-out groups rendering matching templates once per list element */
+  readonly fanOut?: readonly FanOutGroup[];
+
+  /** Archetype `copy` and `delimiters` settings */
+  readonly templateModes?: TemplateModeRules;
+
+  /** If true, missing variables and helpers fail the render */
+  readonly strict?: boolean;
 }
 
 // =============================================================================
@@ -171,27 +197,6 @@ function applyRenameRules(relativePath: string, rules?: RenameRules): string {
   return result;
 }
 
-/**
- * Renders a Handlebars template string with the given data.
- */
-function renderTemplate(content: string, data: Record<string, unknown>, filePath: string): string {
-  try {
-    const template = Handlebars.compile(content);
-    return template(data);
-  } catch (err) {
-    const cause = err instanceof Error ? err : new Error(String(err));
-    throw new ScaffoldError(
-      `Failed to render template: ${filePath}`,
-      "RENDER_TEMPLATE_ERROR",
-      { filePath },
-      undefined,
-      `Template "${filePath}" has invalid Handlebars syntax: ${cause.message}`,
-      cause,
-      true,
-    );
-  }
-}
-
 /**
  * Normalizes line endings to LF for consistent comparison.
  */
@@ -234,7 +239,18 @@ export class PreviewPlanner {
    * @returns Preview report with file operations
    */
   async computePreview(params: ComputePreviewParams): Promise<PreviewReport> {
-    const { templateDir, targetDir, data, renameRules } = params;
+    const {
+      templateDir,
+      targetDir,
+      data,
+      renameRules,
+      escapeHtml,
+      engine = getTemplateEngine(),
+      fileRules,
+      fanOut,
+      templateModes,
+      strict = false,
+    } = params;
 
     // Validate template directory exists
     try {
@@ -263,59 +279,75 @@ export class PreviewPlanner {
     const modifies: PreviewFile[] = [];
     const noops: PreviewFile[] = [];
 
-    for (const srcRelativePath of templateFiles) {
+    for (const srcRelativePath of filterTemplateFiles(templateFiles, fileRules, data)) {
       const srcAbsolutePath = path.join(templateDir, srcRelativePath);
-      const destRelativePath = applyRenameRules(srcRelativePath, renameRules);
-      const destAbsolutePath = path.join(targetDir, destRelativePath);
 
-      // Check if source is binary
+      // Binary files and `copy:` matches are copied as-is
       const binary = await isBinaryFile(srcAbsolutePath);
+      const templateMode = resolveTemplateMode(srcRelativePath, templateModes);
+      const copied = binary || templateMode.mode === "copied";
 
-      // Determine operation type
-      let operation: FileOperation;
+      const instances = getTemplateInstances(srcRelativePath, fanOut, { data, renameRules });
 
-      const targetExists = await fileExists(destAbsolutePath);
+      for (const instance of instances) {
+        const destRelativePath = applyRenameRules(srcRelativePath, instance.renameRules);
+        const destAbsolutePath = path.join(targetDir, destRelativePath);
 
-      if (!targetExists) {
-        operation = "create";
-      } else {
-        // Compare content
-        if (binary) {
-          // For binary files, compare raw bytes
-          const srcContent = await fs.readFile(srcAbsolutePath);
-          const destContent = await fs.readFile(destAbsolutePath);
-          operation = srcContent.equals(destContent) ? "noop" : "modify";
-        } else {
-          // For text files, render and compare (normalized)
-          const srcRaw = await fs.readFile(srcAbsolutePath, "utf-8");
-          const renderedContent = renderTemplate(srcRaw, data, srcRelativePath);
-          const destContent = await fs.readFile(destAbsolutePath, "utf-8");
+        // Determine operation type
+        let operation: FileOperation;
 
-          const normalizedRendered = normalizeLineEndings(renderedContent);
-          const normalizedDest = normalizeLineEndings(destContent);
+        const targetExists = await fileExists(destAbsolutePath);
 
-          operation = normalizedRendered === normalizedDest ? "noop" : "modify";
+        if (!targetExists) {
+          operation = "create";
+        } else {
+          // Compare content
+          if (copied) {
+            // For copied files, compare raw bytes
+            const srcContent = await fs.readFile(srcAbsolutePath);
+            const destContent = await fs.readFile(destAbsolutePath);
+            operation = srcContent.equals(destContent) ? "noop" : "modify";
+          } else {
+            // For text files, render and compare (normalized)
+            const srcRaw = await fs.readFile(srcAbsolutePath, "utf-8");
+            const renderedContent = renderTemplateString({
+              template: srcRaw,
+              data: instance.data,
+              file: srcRelativePath,
+              escapeHtml: shouldEscapeHtml(destRelativePath, escapeHtml),
+              strict,
+              delimiters: templateMode.delimiters,
+              engine,
+            });
+            const destContent = await fs.readFile(destAbsolutePath, "utf-8");
+
+            const normalizedRendered = normalizeLineEndings(renderedContent);
+            const normalizedDest = normalizeLineEndings(destContent);
+
+            operation = normalizedRendered === normalizedDest ? "noop" : "modify";
+          }
         }
-      }
 
-      const previewFile: PreviewFile = {
-        relativePath: destRelativePath,
-        absolutePath: destAbsolutePath,
-        operation,
-        isBinary: binary,
-        sourceTemplate: srcRelativePath,
-      };
-
-      switch (operation) {
-        case "create":
-          creates.push(previewFile);
-          break;
-        case "modify":
-          modifies.push(previewFile);
-          break;
-        case "noop":
-          noops.push(previewFile);
-          break;
+        const previewFile: PreviewFile = {
+          relativePath: destRelativePath,
+          absolutePath: destAbsolutePath,
+          operation,
+          isBinary: binary,
+          mode: copied ? "copied" : "rendered",
+          sourceTemplate: srcRelativePath,
+        };
+
+        switch (operation) {
+          case "create":
+            creates.push(previewFile);
+            break;
+          case "modify":
+            modifies.push(previewFile);
+            break;
+          case "noop":
+            noops.push(previewFile);
+            break;
+        }
       }
     }
 
@@ -0,0 +1,86 @@
+/**
+ * HTML escaping policy for rendered templates.
+ *
+ * Handlebars HTML-escapes `{{value}}` by default, which corrupts generated
+ * source code (`A & B` -> `A &amp; B`, `Map<K, V>` -> `Map&lt;K, V&gt;`).
+ * Scaffoldix therefore renders without escaping, except for HTML files.
+ *
+ * The policy is configurable per pack (`scaffoldix.escapeHtml`) and per
+ * archetype (`escapeHtml`, overrides the pack setting):
+ *
+ * ```yaml
+ * escapeHtml: true            # escape every file
+ * escapeHtml: false           # escape nothing
+ * escapeHtml:                 # escape by glob
+ *   default: false            # files matching no glob
+ *   include: ["**\/*.html", "**\/*.vue"]
+ *   exclude: ["**\/email/*.html"]
+ * ```
+ *
+ * The same policy applies to file templates and patch content, keyed by
+ * the output file path. A trailing `.hbs` is ignored when matching.
+ *
+ * @module
+ */
+
+import { matchesAnyGlob } from "../utils/glob.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Glob-based escaping configuration.
+ */
+export interface EscapeHtmlRules {
+  /** Whether files matching no `include` glob are escaped (default: false) */
+  readonly default?: boolean;
+
+  /** Globs of files to escape (default: HTML files) */
+  readonly include?: readonly string[];
+
+  /** Globs of files never to escape (wins over `include`) */
+  readonly exclude?: readonly string[];
+}
+
+/**
+ * Escaping setting: a boolean for all files, or glob-based rules.
+ */
+export type EscapeHtmlSetting = boolean | EscapeHtmlRules;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Files escaped when no `include` globs are configured.
+ */
+export const DEFAULT_ESCAPE_GLOBS: readonly string[] = ["**/*.html", "**/*.htm", "**/*.xhtml"];
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Decides whether a file's template output should be HTML-escaped.
+ *
+ * @param relativePath - Output path relative to the target directory
+ * @param setting - Pack/archetype setting (undefined = HTML files only)
+ * @returns true if `{{value}}` should be HTML-escaped
+ */
+export function shouldEscapeHtml(relativePath: string, setting?: EscapeHtmlSetting): boolean {
+  if (typeof setting === "boolean") {
+    return setting;
+  }
+
+  const filePath = relativePath.replace(/\.hbs$/, "");
+  const { default: escapeByDefault = false, include, exclude = [] } = setting ?? {};
+
+  if (matchesAnyGlob(filePath, exclude)) {
+    return false;
+  }
+  if (matchesAnyGlob(filePath, include ?? DEFAULT_ESCAPE_GLOBS)) {
+    return true;
+  }
+  return escapeByDefault;
+}
@@ -0,0 +1,195 @@
+/**
+ * Fan-out templates for Scaffoldix CLI.
+ *
+ * A fan-out template is rendered once per element of a list input instead
+ * of once per archetype, e.g. one repository per entity:
+ *
+ * ```yaml
+ * inputs:
+ *   - name: entities
+ *     type: list
+ * fanOut:
+ *   - templates: ["src/__entity__.repository.ts"]
+ *     each: entities
+ *     as: entity
+ * ```
+ *
+ * ## Render Context
+ *
+ * Each instance renders with the resolved inputs plus:
+ * - `<as>`: the list element itself
+ * - the element's fields, when the element is an object (`{{name}}`)
+ *
+ * ## Filename Placeholders
+ *
+ * Rename rules are derived per instance from that context, so `__entity__`
+ * (and `__entity_pascal__`, ...) resolve to the element for string lists,
+ * and to the element's `name` field for object lists. Object fields yield
+ * their own placeholders as well (`__name__`, `__table__`, ...).
+ *
+ * @module
+ */
+
+import { ScaffoldError } from "../errors/errors.js";
+import { matchesAnyGlob } from "../utils/glob.js";
+import { resolveRenameRules } from "./RenameResolver.js";
+import type { RenameRules } from "./Renderer.js";
+import type { TemplateEngine } from "./TemplateHelpers.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single archetype `fanOut:` rule.
+ */
+export interface FanOutRule {
+  /** Globs of template paths (relative to templateRoot) to fan out */
+  readonly templates: readonly string[];
+
+  /** Name of the list input to iterate */
+  readonly each: string;
+
+  /** Name the current element is bound to */
+  readonly as: string;
+}
+
+/**
+ * Data and rename rules for one rendered instance of a template.
+ */
+export interface TemplateInstance {
+  /** Render context for this instance */
+  readonly data: Record<string, unknown>;
+
+  /** Filename rename rules for this instance */
+  readonly renameRules?: RenameRules;
+}
+
+/**
+ * A fan-out rule expanded against the resolved inputs.
+ */
+export interface FanOutGroup {
+  /** Globs of template paths this group applies to */
+  readonly templates: readonly string[];
+
+  /** One instance per list element, in list order */
+  readonly instances: readonly TemplateInstance[];
+}
+
+/**
+ * Parameters for resolving fan-out groups.
+ */
+export interface ResolveFanOutParams {
+  /** Archetype `fanOut:` rules */
+  readonly rules?: readonly FanOutRule[];
+
+  /** Resolved input values */
+  readonly data: Record<string, unknown>;
+
+  /** Manifest `rename:` section, rendered per instance */
+  readonly rename?: Record<string, string>;
+
+  /** Caller-provided rename rules */
+  readonly explicit?: RenameRules;
+
+  /** Handlebars environment for `rename:` expressions */
+  readonly engine?: TemplateEngine;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Checks whether a value is a plain object (not an array or null).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds the data used to derive filename placeholders for an element.
+ */
+function toRenameData(
+  context: Record<string, unknown>,
+  rule: FanOutRule,
+  element: unknown,
+): Record<string, unknown> {
+  if (isPlainObject(element)) {
+    return { ...context, [rule.as]: element.name };
+  }
+  return context;
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Expands fan-out rules into per-element render contexts and rename rules.
+ *
+ * @param params - Rules, resolved inputs and rename settings
+ * @returns One group per rule
+ * @throws ScaffoldError if a rule's input is not a list
+ */
+export function resolveFanOut(params: ResolveFanOutParams): FanOutGroup[] {
+  const { rules = [], data, rename, explicit, engine } = params;
+
+  return rules.map((rule) => {
+    const list = data[rule.each] ?? [];
+
+    if (!Array.isArray(list)) {
+      throw new ScaffoldError(
+        `Fan-out input '${rule.each}' is not a list`,
+        "FANOUT_INPUT_NOT_LIST",
+        { each: rule.each, templates: rule.templates, value: list },
+        undefined,
+        `The fanOut rule for ${rule.templates.join(", ")} iterates '${rule.each}', ` +
+          `which must be a list. Declare it with \`type: list\`.`,
+        undefined,
+        true,
+      );
+    }
+
+    const instances = list.map((element): TemplateInstance => {
+      const context = {
+        ...data,
+        ...(isPlainObject(element) ? element : {}),
+        [rule.as]: element,
+      };
+      const renameRules = resolveRenameRules({
+        data: toRenameData(context, rule, element),
+        rename,
+        explicit,
+        engine,
+      });
+      return { data: context, renameRules };
+    });
+
+    return { templates: rule.templates, instances };
+  });
+}
+
+/**
+ * Lists the instances to render for a template file.
+ *
+ * Files matching a fan-out group (with or without their `.hbs` extension)
+ * render once per element, possibly zero times; every other file renders
+ * once with the default instance.
+ *
+ * @param srcRelativePath - Template path relative to the template root
+ * @param fanOut - Resolved fan-out groups
+ * @param defaults - Archetype-wide data and rename rules
+ * @returns Instances to render, in order
+ */
+export function getTemplateInstances(
+  srcRelativePath: string,
+  fanOut: readonly FanOutGroup[] | undefined,
+  defaults: TemplateInstance,
+): readonly TemplateInstance[] {
+  const withoutHbs = srcRelativePath.replace(/\.hbs$/, "");
+  const group = fanOut?.find(
+    (g) => matchesAnyGlob(srcRelativePath, g.templates) || matchesAnyGlob(withoutHbs, g.templates),
+  );
+  return group ? group.instances : [defaults];
+}
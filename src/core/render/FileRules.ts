@@ -0,0 +1,112 @@
+/**
+ * Conditional file inclusion for archetype templates.
+ *
+ * Wrapping a template in `{{#if includeTests}}` still produces an (empty)
+ * file. The archetype `files:` section instead decides which template files
+ * are generated at all, based on resolved inputs:
+ *
+ * ```yaml
+ * files:
+ *   - include: ["src/**\/*.test.ts", "vitest.config.ts"]
+ *     when: { input: includeTests, equals: true }
+ *   - exclude: ["docker/**"]
+ *     when: { input: useDocker, equals: false }
+ * ```
+ *
+ * ## Semantics
+ *
+ * - `include`: matching files are generated only when `when` holds
+ * - `exclude`: matching files are skipped when `when` holds (always, without `when`)
+ * - A file is generated unless some rule skips it
+ *
+ * Globs match the template path relative to `templateRoot`, before rename
+ * rules are applied. A trailing `.hbs` is ignored when matching, and
+ * `dir/**` covers a whole directory.
+ *
+ * @module
+ */
+
+import { isConditionMet } from "../inputs/InputValidator.js";
+import { matchesAnyGlob } from "../utils/glob.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Condition evaluated against resolved inputs.
+ */
+export interface FileRuleCondition {
+  /** Name of the input to check */
+  readonly input: string;
+
+  /** Value the input must equal */
+  readonly equals: string | number | boolean;
+}
+
+/**
+ * A single archetype `files:` rule.
+ */
+export interface FileRule {
+  /** Globs of files generated only when the condition holds */
+  readonly include?: readonly string[];
+
+  /** Globs of files skipped when the condition holds */
+  readonly exclude?: readonly string[];
+
+  /** Condition on resolved inputs (default: always holds) */
+  readonly when?: FileRuleCondition;
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Decides whether a template file is generated.
+ *
+ * @param srcRelativePath - Template path relative to the template root
+ * @param rules - Archetype `files:` rules (undefined = every file)
+ * @param data - Resolved input values
+ * @returns true if the file should be rendered
+ */
+export function isFileIncluded(
+  srcRelativePath: string,
+  rules: readonly FileRule[] | undefined,
+  data: Record<string, unknown>,
+): boolean {
+  if (!rules || rules.length === 0) {
+    return true;
+  }
+
+  const filePath = srcRelativePath.replace(/\.hbs$/, "");
+
+  for (const rule of rules) {
+    const conditionMet = isConditionMet(rule.when, data);
+
+    if (!conditionMet && matchesAnyGlob(filePath, rule.include ?? [])) {
+      return false;
+    }
+    if (conditionMet && matchesAnyGlob(filePath, rule.exclude ?? [])) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Filters template files down to those that should be generated.
+ *
+ * @param files - Template paths relative to the template root
+ * @param rules - Archetype `files:` rules (undefined = every file)
+ * @param data - Resolved input values
+ * @returns Paths of files to render, in input order
+ */
+export function filterTemplateFiles(
+  files: readonly string[],
+  rules: readonly FileRule[] | undefined,
+  data: Record<string, unknown>,
+): string[] {
+  return files.filter((file) => isFileIncluded(file, rules, data));
+}
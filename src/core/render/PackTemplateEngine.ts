@@ -0,0 +1,194 @@
+/**
+ * Pack Template Engine for Scaffoldix CLI.
+ *
+ * Builds an isolated Handlebars environment for a single pack render, with
+ * the built-in helpers plus the pack's own partials and helper modules.
+ *
+ * ## Manifest
+ *
+ * ```yaml
+ * scaffoldix:
+ *   partials: partials          # {{> header}}, {{> java/imports}}
+ *   helpers:
+ *     - helpers/naming.mjs      # exported functions become helpers
+ * ```
+ *
+ * ## Isolation
+ *
+ * Every call creates a fresh environment via `createTemplateEngine()`, so
+ * partials and helpers registered for one pack never leak into the shared
+ * engine or into another pack's render in the same process.
+ *
+ * ## Helper Modules
+ *
+ * A helper module is an ES module inside the pack. Every exported function
+ * is registered under its export name; a default export that is a plain
+ * object is treated as a map of helper name to function.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import fg from "fast-glob";
+import { ScaffoldError } from "../errors/errors.js";
+import { createTemplateEngine, type TemplateEngine } from "./TemplateHelpers.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Parameters for loading a pack template engine.
+ */
+export interface LoadPackTemplateEngineParams {
+  /** Absolute path to the pack root directory */
+  readonly packDir: string;
+
+  /** Partials directory relative to pack root */
+  readonly partials?: string;
+
+  /** Helper module paths relative to pack root */
+  readonly helpers?: readonly string[];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Derives a partial name from its path: `java/imports.hbs` -> `java/imports`.
+ */
+function toPartialName(relativePath: string): string {
+  const normalized = relativePath.replace(/\\/g, "/");
+  const base = path.posix.basename(normalized);
+  const dotIndex = base.indexOf(".");
+  const name = dotIndex > 0 ? base.slice(0, dotIndex) : base;
+  const dir = path.posix.dirname(normalized);
+  return dir === "." ? name : `${dir}/${name}`;
+}
+
+/**
+ * Registers every file in the partials directory as a partial.
+ */
+async function registerPartials(
+  engine: TemplateEngine,
+  packDir: string,
+  partialsDir: string,
+): Promise<void> {
+  const absoluteDir = path.join(packDir, partialsDir);
+
+  try {
+    const stat = await fs.stat(absoluteDir);
+    if (!stat.isDirectory()) {
+      throw new Error("Not a directory");
+    }
+  } catch {
+    throw new ScaffoldError(
+      `Partials directory not found: ${partialsDir}`,
+      "PACK_PARTIALS_NOT_FOUND",
+      { packDir, partialsDir, absoluteDir },
+      undefined,
+      `The manifest declares partials in '${partialsDir}', but ${absoluteDir} is not a directory. ` +
+        `Create the directory or remove scaffoldix.partials from the manifest.`,
+      undefined,
+      true,
+    );
+  }
+
+  const files = await fg("**/*", {
+    cwd: absoluteDir,
+    dot: false,
+    onlyFiles: true,
+    followSymbolicLinks: false,
+  });
+
+  for (const relativePath of files.sort()) {
+    const content = await fs.readFile(path.join(absoluteDir, relativePath), "utf-8");
+    engine.registerPartial(toPartialName(relativePath), content);
+  }
+}
+
+/**
+ * Imports a helper module and registers its exported functions.
+ */
+async function registerHelperModule(
+  engine: TemplateEngine,
+  packDir: string,
+  modulePath: string,
+): Promise<void> {
+  const absolutePath = path.join(packDir, modulePath);
+
+  let moduleExports: Record<string, unknown>;
+  try {
+    moduleExports = await import(pathToFileURL(absolutePath).href);
+  } catch (error) {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    throw new ScaffoldError(
+      `Failed to load helper module: ${modulePath}`,
+      "PACK_HELPER_LOAD_FAILED",
+      { packDir, modulePath, absolutePath, reason: cause.message },
+      undefined,
+      `The helper module '${modulePath}' could not be imported: ${cause.message}. ` +
+        `Helper modules must be ES modules inside the pack (e.g., helpers/naming.mjs).`,
+      cause,
+      true,
+    );
+  }
+
+  const { default: defaultExport, ...namedExports } = moduleExports;
+  const candidates: Record<string, unknown> = {
+    ...(defaultExport && typeof defaultExport === "object" ? defaultExport : {}),
+    ...namedExports,
+  };
+
+  let registered = 0;
+  for (const [name, value] of Object.entries(candidates)) {
+    if (typeof value === "function") {
+      engine.registerHelper(name, value as (...args: unknown[]) => unknown);
+      registered++;
+    }
+  }
+
+  if (registered === 0) {
+    throw new ScaffoldError(
+      `Helper module exports no helpers: ${modulePath}`,
+      "PACK_HELPER_LOAD_FAILED",
+      { packDir, modulePath, absolutePath },
+      undefined,
+      `The helper module '${modulePath}' does not export any functions. ` +
+        `Export each helper by name, e.g. \`export function shout(value) { ... }\`.`,
+      undefined,
+      true,
+    );
+  }
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Creates an isolated template engine with the pack's partials and helpers.
+ *
+ * @param params - Pack directory and manifest settings
+ * @returns A fresh Handlebars environment for this render
+ * @throws ScaffoldError if the partials directory or a helper module is invalid
+ */
+export async function loadPackTemplateEngine(
+  params: LoadPackTemplateEngineParams,
+): Promise<TemplateEngine> {
+  const { packDir, partials, helpers = [] } = params;
+  const engine = createTemplateEngine();
+
+  if (partials) {
+    await registerPartials(engine, packDir, partials);
+  }
+
+  for (const modulePath of helpers) {
+    await registerHelperModule(engine, packDir, modulePath);
+  }
+
+  return engine;
+}
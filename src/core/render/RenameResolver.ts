@@ -0,0 +1,154 @@
+/**
+ * Rename Resolver for Scaffoldix CLI.
+ *
+ * Builds the filename rename rules used by rendering, render planning and
+ * dry-run previews from the resolved inputs, so pack authors can use
+ * placeholders in template paths without callers building replacements by hand.
+ *
+ * ## Placeholder Sources (lowest to highest precedence)
+ *
+ * 1. **Inputs**: every scalar input `name` yields `__name__`. String inputs
+ *    also yield case variants: `__name_pascal__`, `__name_camel__`,
+ *    `__name_kebab__`, `__name_snake__`, `__name_constant__`.
+ * 2. **Manifest `rename:`**: placeholder -> Handlebars expression, rendered
+ *    against the resolved inputs.
+ * 3. **Explicit rules** passed by the caller.
+ *
+ * @example
+ * ```typescript
+ * const rules = resolveRenameRules({ data: { moduleName: "userProfile" } });
+ * // rules.replacements["__moduleName__"]        === "userProfile"
+ * // rules.replacements["__moduleName_pascal__"] === "UserProfile"
+ * ```
+ *
+ * @module
+ */
+
+import { ScaffoldError } from "../errors/errors.js";
+import {
+  toCamelCase,
+  toConstantCase,
+  toKebabCase,
+  toPascalCase,
+  toSnakeCase,
+} from "../utils/caseConversion.js";
+import { getTemplateEngine, type TemplateEngine } from "./TemplateHelpers.js";
+import type { RenameRules } from "./Renderer.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Parameters for resolving rename rules.
+ */
+export interface ResolveRenameRulesParams {
+  /** Resolved input values */
+  readonly data: Record<string, unknown>;
+
+  /** Manifest `rename:` section (placeholder -> Handlebars expression) */
+  readonly rename?: Record<string, string>;
+
+  /** Caller-provided rules; these win over derived ones */
+  readonly explicit?: RenameRules;
+
+  /** Handlebars environment for `rename:` expressions (default: built-in helpers only) */
+  readonly engine?: TemplateEngine;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Case variant suffixes and their converters.
+ */
+const CASE_VARIANTS: ReadonlyArray<readonly [string, (value: string) => string]> = [
+  ["pascal", toPascalCase],
+  ["camel", toCamelCase],
+  ["kebab", toKebabCase],
+  ["snake", toSnakeCase],
+  ["constant", toConstantCase],
+];
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Derives placeholders from scalar input values.
+ */
+function deriveInputReplacements(data: Record<string, unknown>): Record<string, string> {
+  const replacements: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(data)) {
+    if (typeof value === "string") {
+      replacements[`__${name}__`] = value;
+      for (const [suffix, convert] of CASE_VARIANTS) {
+        replacements[`__${name}_${suffix}__`] = convert(value);
+      }
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      replacements[`__${name}__`] = String(value);
+    }
+  }
+
+  return replacements;
+}
+
+/**
+ * Renders the manifest `rename:` expressions against the inputs.
+ */
+function renderManifestReplacements(
+  rename: Record<string, string>,
+  data: Record<string, unknown>,
+  engine: TemplateEngine,
+): Record<string, string> {
+  const replacements: Record<string, string> = {};
+
+  for (const [placeholder, expression] of Object.entries(rename)) {
+    try {
+      const template = engine.compile(expression, { noEscape: true });
+      replacements[placeholder] = template(data).trim();
+    } catch (err) {
+      const cause = err instanceof Error ? err : new Error(String(err));
+      throw new ScaffoldError(
+        `Failed to render rename rule: ${placeholder}`,
+        "RENAME_TEMPLATE_ERROR",
+        { placeholder, expression },
+        undefined,
+        `The rename expression for "${placeholder}" is not valid Handlebars: ${cause.message}`,
+        cause,
+        true,
+      );
+    }
+  }
+
+  return replacements;
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Resolves the rename rules for a generation run.
+ *
+ * The same rules must be passed to `computeRenderPlan`, `renderArchetype` and
+ * `PreviewPlanner.computePreview` so that conflict detection, preview and
+ * actual output agree on every destination path.
+ *
+ * @param params - Resolved inputs, manifest rename section and explicit rules
+ * @returns Merged rename rules
+ * @throws ScaffoldError if a manifest rename expression fails to render
+ */
+export function resolveRenameRules(params: ResolveRenameRulesParams): RenameRules {
+  const { data, rename, explicit, engine = getTemplateEngine() } = params;
+
+  return {
+    replacements: {
+      ...deriveInputReplacements(data),
+      ...(rename ? renderManifestReplacements(rename, data, engine) : {}),
+      ...explicit?.replacements,
+    },
+  };
+}
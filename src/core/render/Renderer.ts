@@ -8,7 +8,10 @@
  *
  * - **Handlebars rendering**: Variables, conditionals, loops in file contents
  * - **Binary detection**: Copies binary files (images, jars) without templating
+ * - **Verbatim copies**: Copies files matching `copy:` globs without templating
+ * - **Custom delimiters**: Renders `delimiters:` files with e.g. `[[ ]]` instead of `{{ }}`
  * - **Filename renaming**: Transforms paths like `__Entity__` -> `Customer`
+ * - **Fan-out**: Renders a template once per element of a list input
  * - **Dry-run mode**: Preview operations without writing to disk
  * - **Path safety**: Prevents path traversal attacks
  *
@@ -17,9 +20,14 @@
 
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import Handlebars from "handlebars";
 import fg from "fast-glob";
 import { ScaffoldError } from "../errors/errors.js";
+import { getTemplateEngine, type TemplateEngine } from "./TemplateHelpers.js";
+import { filterTemplateFiles, type FileRule } from "./FileRules.js";
+import { getTemplateInstances, type FanOutGroup } from "./FanOut.js";
+import { shouldEscapeHtml, type EscapeHtmlSetting } from "./EscapePolicy.js";
+import { renderTemplateString } from "./TemplateDiagnostics.js";
+import { resolveTemplateMode, type TemplateModeRules } from "./TemplateModes.js";
 
 // =============================================================================
 // Types
@@ -91,6 +99,24 @@ export interface RenderParams {
   /** Optional rename rules for file/directory names */
   readonly renameRules?: RenameRules;
 
+  /** HTML escaping setting (default: only HTML files are escaped) */
+  readonly escapeHtml?: EscapeHtmlSetting;
+
+  /** Handlebars environment with pack partials/helpers (default: built-in helpers only) */
+  readonly engine?: TemplateEngine;
+
+  /** Archetype `files:` rules deciding which templates are generated */
+  readonly fileRules?: readonly FileRule[];
+
+  /** Fan-out groups rendering matching templates once per list element */
+  readonly fanOut?: readonly FanOutGroup[];
+
+  /** Archetype `copy` and `delimiters` settings */
+  readonly templateModes?: TemplateModeRules;
+
+  /** If true, missing variables and helpers fail the render */
+  readonly strict?: boolean;
+
   /** If true, don't write files - just return what would be done */
   readonly dryRun?: boolean;
 
@@ -210,27 +236,6 @@ function validateSafePath(
   }
 }
 
-/**
- * Renders a Handlebars template string with the given data.
- */
-function renderTemplate(content: string, data: Record<string, unknown>, filePath: string): string {
-  try {
-    const template = Handlebars.compile(content);
-    return template(data);
-  } catch (err) {
-    const cause = err instanceof Error ? err : new Error(String(err));
-    throw new ScaffoldError(
-      `Failed to render template: ${filePath}`,
-      "RENDER_TEMPLATE_ERROR",
-      { filePath },
-      undefined,
-      `Template "${filePath}" has invalid Handlebars syntax: ${cause.message}`,
-      cause,
-      true,
-    );
-  }
-}
-
 /**
  * Gets file permissions (mode) for preserving during copy.
  */
@@ -252,9 +257,9 @@ async function getFileMode(filePath: string): Promise<number> {
  * 2. For each file:
  *    a. Apply rename rules to determine destination path
  *    b. Validate path safety (no traversal)
- *    c. Detect if file is binary
- *    d. If text: render with Handlebars
- *    e. If binary: copy as-is
+ *    c. Detect if file is binary or matches `copy:` globs
+ *    d. If text: render with Handlebars (with custom delimiters, if configured)
+ *    e. If binary or verbatim: copy as-is
  * 3. If dryRun: return planned operations only
  * 4. If not dryRun: create directories and write files
  *
@@ -269,7 +274,20 @@ async function getFileMode(filePath: string): Promise<number> {
  * @throws ScaffoldError on validation or rendering failures
  */
 export async function renderArchetype(params: RenderParams): Promise<RenderResult> {
-  const { templateDir, targetDir, data, renameRules, dryRun = false, force = false } = params;
+  const {
+    templateDir,
+    targetDir,
+    data,
+    renameRules,
+    escapeHtml,
+    engine = getTemplateEngine(),
+    fileRules,
+    fanOut,
+    templateModes,
+    strict = false,
+    dryRun = false,
+    force = false,
+  } = params;
 
   // Validate template directory exists
   try {
@@ -299,87 +317,101 @@ export async function renderArchetype(params: RenderParams): Promise<RenderResul
   const filesOverwritten: FileEntry[] = [];
   const filesWouldOverwrite: FileEntry[] = [];
 
-  // Process each file
-  for (const srcRelativePath of files) {
+  // Process each file that passes the archetype's file rules, once per
+  // fan-out instance (once for regular templates)
+  for (const srcRelativePath of filterTemplateFiles(files, fileRules, data)) {
     const srcAbsolutePath = path.join(templateDir, srcRelativePath);
 
-    // Apply rename rules to get destination path
-    const destRelativePath = applyRenameRules(srcRelativePath, renameRules);
+    // Binary files and `copy:` matches are copied as-is
+    const templateMode = resolveTemplateMode(srcRelativePath, templateModes);
+    const copied = templateMode.mode === "copied" || (await isBinaryFile(srcAbsolutePath));
 
-    // Validate path safety
-    validateSafePath(destRelativePath, targetDir, srcRelativePath);
+    // Get file mode for preserving permissions
+    const fileMode = await getFileMode(srcAbsolutePath);
 
-    const destAbsolutePath = path.join(targetDir, destRelativePath);
+    const instances = getTemplateInstances(srcRelativePath, fanOut, { data, renameRules });
 
-    // Check if destination file already exists
-    let fileExists = false;
-    try {
-      await fs.access(destAbsolutePath);
-      fileExists = true;
-    } catch {
-      // File does not exist - this is fine
-    }
+    for (const instance of instances) {
+      // Apply rename rules to get destination path
+      const destRelativePath = applyRenameRules(srcRelativePath, instance.renameRules);
 
-    // If file exists and force is false, throw error
-    if (fileExists && !force) {
-      throw new ScaffoldError(
-        `Cannot overwrite existing file: ${destRelativePath}`,
-        "RENDER_FILE_EXISTS",
-        { srcRelativePath, destRelativePath, destAbsolutePath }, // details
-        undefined, // data
-        `Use --force to overwrite existing files.`, // hint
-      );
-    }
+      // Validate path safety
+      validateSafePath(destRelativePath, targetDir, srcRelativePath);
 
-    // Detect if file is binary
-    const binary = await isBinaryFile(srcAbsolutePath);
+      const destAbsolutePath = path.join(targetDir, destRelativePath);
 
-    // Get file mode for preserving permissions
-    const fileMode = await getFileMode(srcAbsolutePath);
+      // Check if destination file already exists
+      let fileExists = false;
+      try {
+        await fs.access(destAbsolutePath);
+        fileExists = true;
+      } catch {
+        // File does not exist - this is fine
+      }
+
+      // If file exists and force is false, throw error
+      if (fileExists && !force) {
+        throw new ScaffoldError(
+          `Cannot overwrite existing file: ${destRelativePath}`,
+          "RENDER_FILE_EXISTS",
+          { srcRelativePath, destRelativePath, destAbsolutePath }, // details
+          undefined, // data
+          `Use --force to overwrite existing files.`, // hint
+        );
+      }
 
-    const entry: FileEntry = {
-      srcRelativePath,
-      destRelativePath,
-      destAbsolutePath,
-      mode: binary ? "copied" : "rendered",
-    };
+      const entry: FileEntry = {
+        srcRelativePath,
+        destRelativePath,
+        destAbsolutePath,
+        mode: copied ? "copied" : "rendered",
+      };
 
-    filesPlanned.push(entry);
+      filesPlanned.push(entry);
 
-    // Track files that would be overwritten (for dry-run reporting)
-    if (fileExists) {
+      // Track files that would be overwritten (for dry-run reporting)
+      if (fileExists) {
+        if (dryRun) {
+          filesWouldOverwrite.push(entry);
+        }
+      }
+
+      // If dry run, don't write anything
       if (dryRun) {
-        filesWouldOverwrite.push(entry);
+        continue;
       }
-    }
 
-    // If dry run, don't write anything
-    if (dryRun) {
-      continue;
-    }
+      // Track overwritten files
+      if (fileExists) {
+        filesOverwritten.push(entry);
+      }
 
-    // Track overwritten files
-    if (fileExists) {
-      filesOverwritten.push(entry);
-    }
+      // Ensure destination directory exists
+      const destDir = path.dirname(destAbsolutePath);
+      await fs.mkdir(destDir, { recursive: true });
+
+      if (copied) {
+        // Copy binary or verbatim file as-is
+        await fs.copyFile(srcAbsolutePath, destAbsolutePath);
+        await fs.chmod(destAbsolutePath, fileMode);
+      } else {
+        // Read, render, and write text file
+        const content = await fs.readFile(srcAbsolutePath, "utf-8");
+        const rendered = renderTemplateString({
+          template: content,
+          data: instance.data,
+          file: srcRelativePath,
+          escapeHtml: shouldEscapeHtml(destRelativePath, escapeHtml),
+          strict,
+          delimiters: templateMode.delimiters,
+          engine,
+        });
+        await fs.writeFile(destAbsolutePath, rendered, "utf-8");
+        await fs.chmod(destAbsolutePath, fileMode);
+      }
 
-    // Ensure destination directory exists
-    const destDir = path.dirname(destAbsolutePath);
-    await fs.mkdir(destDir, { recursive: true });
-
-    if (binary) {
-      // Copy binary file as-is
-      await fs.copyFile(srcAbsolutePath, destAbsolutePath);
-      await fs.chmod(destAbsolutePath, fileMode);
-    } else {
-      // Read, render, and write text file
-      const content = await fs.readFile(srcAbsolutePath, "utf-8");
-      const rendered = renderTemplate(content, data, srcRelativePath);
-      await fs.writeFile(destAbsolutePath, rendered, "utf-8");
-      await fs.chmod(destAbsolutePath, fileMode);
+      filesWritten.push(entry);
     }
-
-    filesWritten.push(entry);
   }
 
   return {
@@ -403,6 +435,32 @@ export interface ComputeRenderPlanParams {
 
   /** Optional rename rules for file/directory names */
   readonly renameRules?: RenameRules;
+
+  /** Archetype `files:` rules deciding which templates are generated */
+  readonly fileRules?: readonly FileRule[];
+
+  /** Resolved inputs used to evaluate `fileRules` conditions */
+  readonly data?: Record<string, unknown>;
+
+  /** Fan-out groups rendering matching templates once per list element */
+  readonly fanOut?: readonly FanOutGroup[];
+
+  /** Archetype `copy` and `delimiters` settings */
+  readonly templateModes?: TemplateModeRules;
+}
+
+/**
+ * A single planned output file.
+ */
+export interface RenderPlanFile {
+  /** Relative path from templateDir */
+  readonly srcRelativePath: string;
+
+  /** Relative path in targetDir (after renaming) */
+  readonly destRelativePath: string;
+
+  /** How the file will be processed */
+  readonly mode: "rendered" | "copied";
 }
 
 /**
@@ -411,6 +469,9 @@ export interface ComputeRenderPlanParams {
 export interface RenderPlan {
   /** List of relative paths that would be written to target */
   readonly outputPaths: string[];
+
+  /** Planned files with their processing mode, in output order */
+  readonly files: RenderPlanFile[];
 }
 
 /**
@@ -425,12 +486,12 @@ export interface RenderPlan {
  * Call this before starting staged generation to check for conflicts
  * against the actual target directory (not the staging directory).
  *
- * @param params - Template directory and rename rules
+ * @param params - Template directory, rename rules and file rules
  * @returns Render plan with list of output paths
  * @throws ScaffoldError if template directory doesn't exist
  */
 export async function computeRenderPlan(params: ComputeRenderPlanParams): Promise<RenderPlan> {
-  const { templateDir, renameRules } = params;
+  const { templateDir, renameRules, fileRules, data = {}, fanOut, templateModes } = params;
 
   // Validate template directory exists
   try {
@@ -457,11 +518,39 @@ export async function computeRenderPlan(params: ComputeRenderPlanParams): Promis
 
   // Apply rename rules to get destination paths
   const outputPaths: string[] = [];
-
-  for (const srcRelativePath of files) {
-    const destRelativePath = applyRenameRules(srcRelativePath, renameRules);
-    outputPaths.push(destRelativePath);
+  const planned: RenderPlanFile[] = [];
+  const sources = new Map<string, string>();
+
+  for (const srcRelativePath of filterTemplateFiles(files, fileRules, data)) {
+    const copied =
+      resolveTemplateMode(srcRelativePath, templateModes).mode === "copied" ||
+      (await isBinaryFile(path.join(templateDir, srcRelativePath)));
+    const instances = getTemplateInstances(srcRelativePath, fanOut, { data, renameRules });
+
+    for (const instance of instances) {
+      const destRelativePath = applyRenameRules(srcRelativePath, instance.renameRules);
+
+      // Two instances (or templates) writing the same file would silently
+      // overwrite each other, e.g. a fan-out template without a placeholder
+      const existingSource = sources.get(destRelativePath);
+      if (existingSource !== undefined) {
+        throw new ScaffoldError(
+          `Multiple templates render to the same file: ${destRelativePath}`,
+          "RENDER_DUPLICATE_OUTPUT",
+          { destRelativePath, srcRelativePaths: [existingSource, srcRelativePath] },
+          undefined,
+          `"${existingSource}" and "${srcRelativePath}" both render to "${destRelativePath}". ` +
+            `Fan-out templates need a placeholder such as __entity__ in their path, ` +
+            `and list elements must produce distinct names.`,
+          undefined,
+          true,
+        );
+      }
+      sources.set(destRelativePath, srcRelativePath);
+      outputPaths.push(destRelativePath);
+      planned.push({ srcRelativePath, destRelativePath, mode: copied ? "copied" : "rendered" });
+    }
   }
 
-  return { outputPaths };
+  return { outputPaths, files: planned };
 }
@@ -0,0 +1,178 @@
+/**
+ * Template rendering with positioned diagnostics for Scaffoldix CLI.
+ *
+ * Renders a single template string and turns Handlebars failures into
+ * ScaffoldErrors that name the template file, line and column:
+ *
+ * - `TEMPLATE_SYNTAX_ERROR`: the template cannot be parsed
+ *   (`{{#if x}}` without `{{/if}}`, unbalanced braces, ...)
+ * - `TEMPLATE_RENDER_FAILED`: rendering failed, e.g. a missing variable or
+ *   helper in strict mode, or a missing partial
+ *
+ * ## Strict Mode
+ *
+ * Handlebars renders unknown variables as empty strings. In strict mode
+ * (`scaffoldix.strict`, archetype `strict`, or `generate --strict`) they
+ * fail instead, and the error lists the available input names.
+ *
+ * @module
+ */
+
+import { ScaffoldError } from "../errors/errors.js";
+import { ErrorCode } from "../errors/ErrorCode.js";
+import { getTemplateEngine, type TemplateEngine } from "./TemplateHelpers.js";
+import { toHandlebarsSyntax, type TemplateDelimiters } from "./TemplateModes.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A 1-based position in a template.
+ *
+ * Parse errors only state the line, so `column` is absent for them.
+ */
+export interface TemplatePosition {
+  readonly line: number;
+  readonly column?: number;
+}
+
+/**
+ * Parameters for rendering a template string.
+ */
+export interface RenderTemplateStringParams {
+  /** Template source */
+  readonly template: string;
+
+  /** Render context */
+  readonly data: Record<string, unknown>;
+
+  /** Template file (or label) used in error messages */
+  readonly file: string;
+
+  /** Whether `{{value}}` output is HTML-escaped (default: false) */
+  readonly escapeHtml?: boolean;
+
+  /** Whether missing variables and helpers fail the render (default: false) */
+  readonly strict?: boolean;
+
+  /** Custom expression delimiters (default: `{{ }}`) */
+  readonly delimiters?: TemplateDelimiters;
+
+  /** Handlebars environment (default: built-in helpers only) */
+  readonly engine?: TemplateEngine;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Extracts a template position from a Handlebars error.
+ *
+ * Compile and runtime errors carry `lineNumber`/`column` (0-based column);
+ * parser errors only state the line in their message.
+ */
+function getErrorPosition(error: unknown): TemplatePosition | undefined {
+  const located = (error ?? {}) as { lineNumber?: unknown; column?: unknown };
+  if (typeof located.lineNumber === "number") {
+    const column = typeof located.column === "number" ? located.column + 1 : 1;
+    return { line: located.lineNumber, column };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = /(?:Parse|Lexical) error on line (\d+)/.exec(message);
+  return match ? { line: Number(match[1]) } : undefined;
+}
+
+/**
+ * Formats a file position as `file:line:column`, or `file:line` without a column.
+ */
+function formatLocation(file: string, position: TemplatePosition | undefined): string {
+  if (!position) {
+    return file;
+  }
+  return position.column === undefined
+    ? `${file}:${position.line}`
+    : `${file}:${position.line}:${position.column}`;
+}
+
+/**
+ * Turns a Handlebars runtime message into a short reason.
+ *
+ * `"name" not defined in [object Object] - 3:4` -> `Missing variable or helper 'name'`
+ */
+function describeRenderFailure(message: string): string {
+  const missing = /^"([^"]+)" not defined in /.exec(message);
+  if (missing) {
+    return `Missing variable or helper '${missing[1]}'`;
+  }
+  const helper = /^Missing helper: "([^"]+)"/.exec(message);
+  if (helper) {
+    return `Missing helper '${helper[1]}'`;
+  }
+  return message.replace(/ - \d+:\d+$/, "");
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Renders a template string, reporting failures with file/line/column.
+ *
+ * @param params - Template, data and rendering options
+ * @returns Rendered output
+ * @throws ScaffoldError TEMPLATE_SYNTAX_ERROR or TEMPLATE_RENDER_FAILED
+ */
+export function renderTemplateString(params: RenderTemplateStringParams): string {
+  const {
+    template,
+    data,
+    file,
+    escapeHtml = false,
+    strict = false,
+    delimiters,
+    engine = getTemplateEngine(),
+  } = params;
+
+  let ast: ReturnType<TemplateEngine["parse"]>;
+  try {
+    ast = engine.parse(delimiters ? toHandlebarsSyntax(template, delimiters) : template);
+  } catch (err) {
+    const cause = err instanceof Error ? err : new Error(String(err));
+    const position = getErrorPosition(err);
+    const reason = cause.message.split("\n")[0].replace(/ - \d+:\d+$/, "");
+    throw new ScaffoldError(
+      `Template syntax error in ${formatLocation(file, position)}`,
+      ErrorCode.TEMPLATE_SYNTAX_ERROR,
+      { file, line: position?.line, column: position?.column, reason },
+      undefined,
+      `Fix the Handlebars syntax in "${file}": ${reason}. ` +
+        `Check that every {{#block}} has a matching {{/block}} and braces are balanced.`,
+      cause,
+      true,
+    );
+  }
+
+  try {
+    return engine.compile(ast, { noEscape: !escapeHtml, strict })(data);
+  } catch (err) {
+    const cause = err instanceof Error ? err : new Error(String(err));
+    const position = getErrorPosition(err);
+    const reason = describeRenderFailure(cause.message);
+    const availableInputs = Object.keys(data).sort();
+    throw new ScaffoldError(
+      `Failed to render template ${formatLocation(file, position)}: ${reason}`,
+      ErrorCode.TEMPLATE_RENDER_FAILED,
+      { file, line: position?.line, column: position?.column, reason, availableInputs },
+      undefined,
+      strict
+        ? `Strict mode requires every referenced variable and helper to exist. ` +
+            `Available inputs: ${availableInputs.join(", ") || "(none)"}.`
+        : `Template "${file}" failed to render: ${reason}.`,
+      cause,
+      true,
+    );
+  }
+}
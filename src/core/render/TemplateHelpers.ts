@@ -0,0 +1,208 @@
+/**
+ * Built-in Handlebars helpers for Scaffoldix templates.
+ *
+ * Provides one shared helper registry used by every rendering path
+ * (Renderer, PreviewPlanner, PatchResolver, RenameResolver), so dry-run
+ * previews and patch content render exactly like real output.
+ *
+ * ## Helpers
+ *
+ * | Helper         | Example                                | Output            |
+ * | -------------- | -------------------------------------- | ----------------- |
+ * | `pascalCase`   | `{{pascalCase "user-profile"}}`        | `UserProfile`     |
+ * | `camelCase`    | `{{camelCase "user-profile"}}`         | `userProfile`     |
+ * | `kebabCase`    | `{{kebabCase "UserProfile"}}`          | `user-profile`    |
+ * | `snakeCase`    | `{{snakeCase "UserProfile"}}`          | `user_profile`    |
+ * | `constantCase` | `{{constantCase "UserProfile"}}`       | `USER_PROFILE`    |
+ * | `pluralize`    | `{{pluralize "category"}}`             | `categories`      |
+ * | `json`         | `{{json config 2}}`                    | pretty JSON       |
+ * | `eq`           | `{{#if (eq db "postgres")}}`           | boolean           |
+ * | `and` / `or`   | `{{#if (and useDb useCache)}}`         | boolean           |
+ * | `not`          | `{{#if (not skipTests)}}`              | boolean           |
+ * | `join`         | `{{join items ", "}}`                  | `a, b, c`         |
+ * | `indent`       | `{{indent body 4}}` / `{{#indent 4}}`  | indented lines    |
+ *
+ * @module
+ */
+
+import Handlebars from "handlebars";
+import {
+  toCamelCase,
+  toConstantCase,
+  toKebabCase,
+  toPascalCase,
+  toSnakeCase,
+} from "../utils/caseConversion.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An isolated Handlebars environment.
+ */
+export type TemplateEngine = typeof Handlebars;
+
+// =============================================================================
+// Helper Utilities
+// =============================================================================
+
+/**
+ * Handlebars passes an options object as the last argument to every helper.
+ * Returns the positional arguments without it.
+ */
+function positionalArgs(args: unknown[]): unknown[] {
+  return args.slice(0, -1);
+}
+
+function toText(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/**
+ * Irregular plurals that suffix rules get wrong.
+ */
+const IRREGULAR_PLURALS: Readonly<Record<string, string>> = {
+  person: "people",
+  child: "children",
+  man: "men",
+  woman: "women",
+  mouse: "mice",
+  foot: "feet",
+  tooth: "teeth",
+};
+
+/**
+ * Pluralizes an English word using common suffix rules.
+ * Preserves the casing of the first letter ("Category" -> "Categories").
+ */
+function pluralizeWord(word: string): string {
+  if (!word) {
+    return word;
+  }
+
+  const lower = word.toLowerCase();
+  const irregular = IRREGULAR_PLURALS[lower];
+  if (irregular) {
+    return word[0] === word[0].toUpperCase()
+      ? irregular[0].toUpperCase() + irregular.slice(1)
+      : irregular;
+  }
+
+  if (/[^aeiou]y$/i.test(word)) {
+    return word.slice(0, -1) + "ies";
+  }
+  if (/(s|x|z|ch|sh)$/i.test(word)) {
+    return word + "es";
+  }
+  return word + "s";
+}
+
+/**
+ * Prefixes every non-empty line with `width` spaces.
+ */
+function indentText(text: string, width: number): string {
+  const padding = " ".repeat(Math.max(0, width));
+  return text
+    .split("\n")
+    .map((line) => (line.trim() ? padding + line : line))
+    .join("\n");
+}
+
+// =============================================================================
+// Built-in Helpers
+// =============================================================================
+
+/**
+ * Built-in helpers available in every template.
+ */
+export const BUILTIN_HELPERS: Readonly<Record<string, Handlebars.HelperDelegate>> = {
+  pascalCase: (value: unknown) => toPascalCase(toText(value)),
+  camelCase: (value: unknown) => toCamelCase(toText(value)),
+  kebabCase: (value: unknown) => toKebabCase(toText(value)),
+  snakeCase: (value: unknown) => toSnakeCase(toText(value)),
+  constantCase: (value: unknown) => toConstantCase(toText(value)),
+
+  /**
+   * `{{pluralize word}}` or `{{pluralize word count}}` (singular when count is 1).
+   */
+  pluralize: (...args: unknown[]) => {
+    const [word, count] = positionalArgs(args);
+    const text = toText(word);
+    return typeof count === "number" && count === 1 ? text : pluralizeWord(text);
+  },
+
+  /**
+   * `{{json value}}` (compact) or `{{json value 2}}` (indented).
+   * Returned as a SafeString so quotes are never HTML-escaped.
+   */
+  json: (...args: unknown[]) => {
+    const [value, spaces] = positionalArgs(args);
+    const indent = typeof spaces === "number" ? spaces : undefined;
+    return new Handlebars.SafeString(JSON.stringify(value ?? null, null, indent));
+  },
+
+  eq: (...args: unknown[]) => {
+    const [a, b] = positionalArgs(args);
+    return a === b;
+  },
+
+  and: (...args: unknown[]) => positionalArgs(args).every(Boolean),
+
+  or: (...args: unknown[]) => positionalArgs(args).some(Boolean),
+
+  not: (...args: unknown[]) => !positionalArgs(args)[0],
+
+  /**
+   * `{{join items}}` (", " separator) or `{{join items " | "}}`.
+   */
+  join: (...args: unknown[]) => {
+    const [items, separator] = positionalArgs(args);
+    if (!Array.isArray(items)) {
+      return toText(items);
+    }
+    return items.map(toText).join(typeof separator === "string" ? separator : ", ");
+  },
+
+  /**
+   * Inline: `{{indent text 4}}`. Block: `{{#indent 4}}...{{/indent}}`.
+   */
+  indent: function (this: unknown, ...args: unknown[]) {
+    const options = args[args.length - 1] as Handlebars.HelperOptions;
+    const positional = positionalArgs(args);
+
+    if (typeof options.fn === "function") {
+      const width = Number(positional[0] ?? 2);
+      return indentText(options.fn(this), width);
+    }
+
+    const [text, width] = positional;
+    return indentText(toText(text), Number(width ?? 2));
+  },
+};
+
+// =============================================================================
+// Template Engine
+// =============================================================================
+
+/**
+ * Creates an isolated Handlebars environment with the built-in helpers.
+ *
+ * Each environment has its own helper and partial registry, so packs can
+ * extend one without affecting other generations.
+ */
+export function createTemplateEngine(): TemplateEngine {
+  const engine = Handlebars.create();
+  engine.registerHelper({ ...BUILTIN_HELPERS });
+  return engine;
+}
+
+let defaultEngine: TemplateEngine | undefined;
+
+/**
+ * Returns the shared Handlebars environment with the built-in helpers.
+ */
+export function getTemplateEngine(): TemplateEngine {
+  defaultEngine ??= createTemplateEngine();
+  return defaultEngine;
+}
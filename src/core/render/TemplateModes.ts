@@ -0,0 +1,159 @@
+/**
+ * Verbatim copies and custom delimiters for Scaffoldix CLI.
+ *
+ * Some files contain `{{` that is not meant for Handlebars: GitHub Actions
+ * workflows (`${{ secrets.TOKEN }}`), Vue SFCs, Go templates. An archetype
+ * can mark them by glob:
+ *
+ * ```yaml
+ * copy: [".github/workflows/**"]        # copied byte-for-byte
+ * delimiters:
+ *   - files: ["src/**\/*.vue"]           # rendered with [[ ]] instead of {{ }}
+ *     open: "[["
+ *     close: "]]"
+ * ```
+ *
+ * Globs match the template path relative to `templateRoot`, with or without
+ * a trailing `.hbs`. `copy` wins over `delimiters`; the first matching
+ * delimiter rule applies.
+ *
+ * ## Custom Delimiters
+ *
+ * A file with custom delimiters is translated to Handlebars before rendering:
+ * `[[name]]` becomes `{{name}}` and literal `{{` becomes `\{{`, so any
+ * Handlebars expression (helpers, blocks, partials) works between the custom
+ * delimiters while existing braces are written as-is. The translation keeps
+ * line numbers intact for diagnostics.
+ *
+ * @module
+ */
+
+import { matchesAnyGlob } from "../utils/glob.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Opening and closing expression delimiters.
+ */
+export interface TemplateDelimiters {
+  /** Opening delimiter, e.g. `<%=` or `[[` */
+  readonly open: string;
+
+  /** Closing delimiter, e.g. `%>` or `]]` */
+  readonly close: string;
+}
+
+/**
+ * A single archetype `delimiters:` rule.
+ */
+export interface DelimiterRule extends TemplateDelimiters {
+  /** Globs of template paths (relative to templateRoot) using these delimiters */
+  readonly files: readonly string[];
+}
+
+/**
+ * Archetype settings deciding how each template file is processed.
+ */
+export interface TemplateModeRules {
+  /** Globs of template paths copied verbatim */
+  readonly copy?: readonly string[];
+
+  /** Alternative delimiters by glob */
+  readonly delimiters?: readonly DelimiterRule[];
+}
+
+/**
+ * How a single template file is processed.
+ */
+export interface TemplateMode {
+  /** `copied` files are written byte-for-byte; `rendered` files go through Handlebars */
+  readonly mode: "rendered" | "copied";
+
+  /** Custom delimiters for rendered files (default: `{{ }}`) */
+  readonly delimiters?: TemplateDelimiters;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Checks whether a template path matches any glob, with or without `.hbs`.
+ */
+function matchesTemplate(srcRelativePath: string, globs: readonly string[]): boolean {
+  const withoutHbs = srcRelativePath.replace(/\.hbs$/, "");
+  return matchesAnyGlob(srcRelativePath, globs) || matchesAnyGlob(withoutHbs, globs);
+}
+
+/**
+ * Escapes Handlebars mustaches in literal text (`{{` -> `\{{`).
+ */
+function escapeMustaches(text: string): string {
+  return text.replace(/\{\{/g, "\\{{");
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Decides how a template file is processed.
+ *
+ * @param srcRelativePath - Template path relative to the template root
+ * @param rules - Archetype `copy` and `delimiters` settings
+ * @returns Processing mode and delimiters
+ */
+export function resolveTemplateMode(
+  srcRelativePath: string,
+  rules: TemplateModeRules | undefined,
+): TemplateMode {
+  if (matchesTemplate(srcRelativePath, rules?.copy ?? [])) {
+    return { mode: "copied" };
+  }
+
+  const rule = rules?.delimiters?.find((r) => matchesTemplate(srcRelativePath, r.files));
+  if (!rule) {
+    return { mode: "rendered" };
+  }
+  return { mode: "rendered", delimiters: { open: rule.open, close: rule.close } };
+}
+
+/**
+ * Translates a template written with custom delimiters to Handlebars syntax.
+ *
+ * Expressions keep their length (padded before `}}`) so columns after a tag
+ * stay aligned. An unterminated opening delimiter is kept as `{{` and
+ * reported by Handlebars as a syntax error.
+ *
+ * @param template - Template source using custom delimiters
+ * @param delimiters - Opening and closing delimiters
+ * @returns Equivalent Handlebars template
+ */
+export function toHandlebarsSyntax(template: string, delimiters: TemplateDelimiters): string {
+  const { open, close } = delimiters;
+  const padding = " ".repeat(Math.max(0, open.length - 2) + Math.max(0, close.length - 2));
+  let result = "";
+  let index = 0;
+
+  while (index < template.length) {
+    const start = template.indexOf(open, index);
+    if (start === -1) {
+      result += escapeMustaches(template.slice(index));
+      break;
+    }
+
+    result += escapeMustaches(template.slice(index, start));
+    const end = template.indexOf(close, start + open.length);
+    if (end === -1) {
+      result += "{{" + template.slice(start + open.length);
+      break;
+    }
+
+    result += "{{" + template.slice(start + open.length, end) + padding + "}}";
+    index = end + close.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,153 @@
+/**
+ * Generation backups.
+ *
+ * A merge commit given a backup directory keeps a copy of every target file
+ * it replaces or removes under `files/`, and writes a manifest of every file
+ * it changed with the hash of the content it left:
+ *
+ * ```
+ * .scaffoldix/backups/<generationId>/
+ * ├── manifest.json
+ * └── files/
+ *     └── src/index.ts        # the project's file before the generation
+ * ```
+ *
+ * `scaffoldix undo` reads the manifest to put the project back: created
+ * files are deleted, replaced and removed files are restored from `files/`.
+ * The hashes let it refuse when the project changed since.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import { ScaffoldError } from "../errors/errors.js";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Name of the manifest file in a backup directory. */
+const MANIFEST_FILE = "manifest.json";
+
+/** Name of the directory holding the original files in a backup directory. */
+const FILES_DIRNAME = "files";
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+/**
+ * Schema for one file a commit changed.
+ */
+export const BackupEntrySchema = z.object({
+  /** Path relative to the target (forward slashes) */
+  path: z.string().min(1),
+  /** What the commit did to the target file */
+  action: z.enum(["created", "replaced", "removed"]),
+  /** SHA-256 hash of the content committed (absent for removed files) */
+  hash: z.string().optional(),
+});
+
+/**
+ * Schema for a backup manifest.
+ */
+export const BackupManifestSchema = z.object({
+  /** ISO 8601 timestamp of the commit */
+  createdAt: z.string(),
+  /** Files the commit changed, in commit order */
+  files: z.array(BackupEntrySchema),
+});
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One file a commit changed.
+ */
+export type BackupEntry = z.infer<typeof BackupEntrySchema>;
+
+/**
+ * Manifest of a backup directory.
+ */
+export type BackupManifest = z.infer<typeof BackupManifestSchema>;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Gets the path of a backed-up original file.
+ *
+ * @param backupDir - Backup directory
+ * @param relativePath - Path relative to the target
+ * @returns Absolute path of the copy
+ */
+export function getBackupFilePath(backupDir: string, relativePath: string): string {
+  return path.join(backupDir, FILES_DIRNAME, relativePath);
+}
+
+/**
+ * Writes the manifest of a backup directory.
+ *
+ * @param backupDir - Backup directory
+ * @param files - Files the commit changed
+ */
+export async function writeBackupManifest(
+  backupDir: string,
+  files: readonly BackupEntry[],
+): Promise<void> {
+  const manifest: BackupManifest = { createdAt: new Date().toISOString(), files: [...files] };
+  await fs.mkdir(backupDir, { recursive: true });
+  await fs.writeFile(
+    path.join(backupDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + "\n",
+    "utf-8",
+  );
+}
+
+/**
+ * Reads the manifest of a backup directory.
+ *
+ * @param backupDir - Backup directory
+ * @returns The manifest, or null if the directory has none
+ * @throws ScaffoldError BACKUP_INVALID if the manifest cannot be parsed
+ */
+export async function readBackupManifest(backupDir: string): Promise<BackupManifest | null> {
+  const manifestPath = path.join(backupDir, MANIFEST_FILE);
+
+  let content: string;
+  try {
+    content = await fs.readFile(manifestPath, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    parsed = undefined;
+  }
+
+  const result = BackupManifestSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ScaffoldError(
+      "Invalid backup manifest",
+      "BACKUP_INVALID",
+      { path: manifestPath },
+      undefined,
+      `The backup manifest at ${manifestPath} is corrupt, so the files it lists ` +
+        `cannot be restored automatically.`,
+      undefined,
+      true,
+    );
+  }
+
+  return result.data;
+}
@@ -10,6 +10,17 @@
  * - Rollback is automatic (just delete staging)
  * - Cross-platform compatible (uses rename/move semantics)
  *
+ * ## Existing Projects
+ *
+ * When generating into an existing project, `overlay` copies the project
+ * files that patches target into staging, and a `merge` commit moves only the
+ * staged files into the target. Other project files are left alone, and the
+ * files a merge replaces are backed up and restored if it fails.
+ *
+ * Given a `backupDir`, a merge keeps those copies after it succeeds, with a
+ * manifest of the files it created, replaced and removed, so the generation
+ * can be undone later (see `Backups`).
+ *
  * @module
  */
 
@@ -17,6 +28,8 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { randomBytes } from "node:crypto";
 import { ScaffoldError } from "../errors/errors.js";
+import { hashFileContent } from "../state/FileOwnership.js";
+import { getBackupFilePath, writeBackupManifest, type BackupEntry } from "./Backups.js";
 
 // =============================================================================
 // Types
@@ -31,6 +44,26 @@ export interface CommitOptions {
    * If false (default), throw if target exists.
    */
   force?: boolean;
+
+  /**
+   * If true, move the staged files into an existing target instead of
+   * replacing the whole directory. Target files that are not staged are kept.
+   * Implies force.
+   */
+  merge?: boolean;
+
+  /**
+   * Directory to keep the target files a merge replaces or removes in, with a
+   * manifest of every file it changed. Without it, the copies are deleted
+   * once the merge succeeds. Only used with merge.
+   */
+  backupDir?: string;
+
+  /**
+   * Target files to delete as part of a merge, relative to the target.
+   * Missing files are ignored. Only used with merge.
+   */
+  remove?: readonly string[];
 }
 
 /**
@@ -144,11 +177,19 @@ export class StagingManager {
    * @throws ScaffoldError if target exists and force is not set
    */
   async commit(stagingDir: string, targetDir: string, options?: CommitOptions): Promise<void> {
-    const force = options?.force ?? false;
+    const merge = options?.merge ?? false;
+    const force = (options?.force ?? false) || merge;
 
     // Check if target exists
     const targetExists = await this.directoryExists(targetDir);
 
+    // A backup needs a per-file merge, even into a new target
+    if (merge && (targetExists || options?.backupDir)) {
+      await fs.mkdir(targetDir, { recursive: true });
+      await this.mergeIntoTarget(stagingDir, targetDir, options);
+      return;
+    }
+
     if (targetExists && !force) {
       throw new ScaffoldError(
         "Target directory already exists",
@@ -228,6 +269,57 @@ export class StagingManager {
     }
   }
 
+  /**
+   * Copies existing target files into staging so they can be patched there.
+   *
+   * Files already in staging (freshly rendered) and files missing from the
+   * target are left out.
+   *
+   * @param stagingDir - Staging directory
+   * @param targetDir - Existing target directory
+   * @param relativePaths - Files to overlay, relative to the target
+   * @returns The relative paths that were copied
+   * @throws ScaffoldError if a path points outside the target directory
+   */
+  async overlay(
+    stagingDir: string,
+    targetDir: string,
+    relativePaths: readonly string[],
+  ): Promise<string[]> {
+    const overlaid: string[] = [];
+
+    for (const relativePath of new Set(relativePaths)) {
+      const targetPath = path.resolve(targetDir, relativePath);
+      const relative = path.relative(path.resolve(targetDir), targetPath);
+      if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+        throw new ScaffoldError(
+          "Path is outside the target directory",
+          "STAGING_PATH_OUTSIDE_TARGET",
+          { path: relativePath, targetDir },
+          undefined,
+          `"${relativePath}" resolves outside "${targetDir}". ` +
+            `Patch targets must be files inside the project.`,
+          undefined,
+          true,
+        );
+      }
+
+      const stagingPath = path.join(stagingDir, relative);
+      if ((await this.fileExists(stagingPath)) || !(await this.fileExists(targetPath))) {
+        continue;
+      }
+
+      await fs.mkdir(path.dirname(stagingPath), { recursive: true });
+      await fs.copyFile(targetPath, stagingPath);
+      overlaid.push(relative);
+    }
+
+    if (overlaid.length > 0) {
+      this.log("debug", `Overlaid ${overlaid.length} existing file(s) into staging`);
+    }
+    return overlaid;
+  }
+
   /**
    * Cleans up all staging directories (for maintenance).
    */
@@ -258,6 +350,124 @@ export class StagingManager {
     }
   }
 
+  /**
+   * Checks if a regular file exists.
+   */
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(filePath);
+      return stat.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Moves each staged file into an existing target, then deletes the files to
+   * remove.
+   *
+   * Replaced and removed target files are copied to a backup directory first.
+   * If any step fails, created files are removed and the others restored.
+   */
+  private async mergeIntoTarget(
+    stagingDir: string,
+    targetDir: string,
+    options?: CommitOptions,
+  ): Promise<void> {
+    const files = await this.listFiles(stagingDir);
+    const backupDir = options?.backupDir ?? (await this.createBackupDir());
+    const changed: BackupEntry[] = [];
+
+    const backUp = async (file: string) => {
+      const backupPath = getBackupFilePath(backupDir, file);
+      await fs.mkdir(path.dirname(backupPath), { recursive: true });
+      await fs.copyFile(path.join(targetDir, file), backupPath);
+    };
+
+    try {
+      for (const file of files) {
+        const stagedPath = path.join(stagingDir, file);
+        const targetPath = path.join(targetDir, file);
+
+        const replacing = await this.fileExists(targetPath);
+        if (replacing) {
+          await backUp(file);
+        }
+        changed.push({
+          path: toPosixPath(file),
+          action: replacing ? "replaced" : "created",
+          ...(options?.backupDir && { hash: hashFileContent(await fs.readFile(stagedPath)) }),
+        });
+
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+        try {
+          await fs.rename(stagedPath, targetPath);
+        } catch {
+          // rename failed - copy instead (cross-filesystem)
+          await fs.copyFile(stagedPath, targetPath);
+        }
+      }
+
+      for (const file of new Set(options?.remove ?? [])) {
+        if (!(await this.fileExists(path.join(targetDir, file)))) {
+          continue;
+        }
+        await backUp(file);
+        changed.push({ path: toPosixPath(file), action: "removed" });
+        await fs.rm(path.join(targetDir, file));
+      }
+
+      if (options?.backupDir) {
+        await writeBackupManifest(backupDir, changed);
+      }
+    } catch (error) {
+      // Restore the target to its previous state
+      for (const entry of changed.reverse()) {
+        const targetPath = path.join(targetDir, entry.path);
+        if (entry.action === "created") {
+          await fs.rm(targetPath, { force: true }).catch(() => {});
+        } else {
+          await fs.copyFile(getBackupFilePath(backupDir, entry.path), targetPath).catch(() => {});
+        }
+      }
+      await this.cleanupBackup(backupDir);
+
+      throw new ScaffoldError(
+        "Failed to commit staging to target",
+        "COMMIT_FAILED",
+        { stagingDir, targetDir },
+        undefined,
+        `Failed to move staged files into the target. ` + `The target directory was not modified.`,
+        error instanceof Error ? error : undefined,
+        true,
+      );
+    }
+
+    if (!options?.backupDir) {
+      await this.cleanupBackup(backupDir);
+    }
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    this.log("info", `Merged ${files.length} staged file(s) into target: ${targetDir}`);
+  }
+
+  /**
+   * Lists the files under a directory, as relative paths.
+   */
+  private async listFiles(dir: string, prefix = ""): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = path.join(prefix, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(dir, relativePath)));
+      } else {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+
   /**
    * Creates a backup directory for rollback.
    */
@@ -317,3 +527,10 @@ export class StagingManager {
     }
   }
 }
+
+/**
+ * Converts a relative path to forward slashes.
+ */
+function toPosixPath(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
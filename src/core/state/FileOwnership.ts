@@ -0,0 +1,170 @@
+/**
+ * Generated file ownership and drift detection.
+ *
+ * Each generation records the files it wrote in its report (`files`): the
+ * path relative to the project, the template it was rendered from (absent
+ * for project files that were only patched) and a SHA-256 hash of the
+ * content that was committed.
+ *
+ * Replaying the reports gives the files Scaffoldix owns and the content it
+ * last left in each. Comparing that with the project shows drift: files the
+ * user modified or deleted since generation, which upgrades and cleanups
+ * must not overwrite blindly.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import type { GeneratedFile, ProjectState } from "./ProjectStateManager.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A file to record in a generation report.
+ */
+export interface GeneratedFileSource {
+  /** Path relative to the project root (forward slashes) */
+  readonly path: string;
+
+  /** Template path relative to the archetype's template root, if rendered */
+  readonly template?: string;
+}
+
+/**
+ * A file owned by the project's generations, with the content last written.
+ */
+export interface OwnedFile extends GeneratedFile {
+  /** ID of the last generation that wrote the file */
+  readonly generationId: string;
+}
+
+/**
+ * Drift state of an owned file.
+ */
+export type DriftStatus = "unchanged" | "modified" | "deleted";
+
+/**
+ * An owned file compared with the project.
+ */
+export interface DriftEntry extends OwnedFile {
+  /** How the file differs from what was generated */
+  readonly status: DriftStatus;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Hashes file content for ownership records.
+ *
+ * @param content - File content
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashFileContent(content: Buffer | string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Reads and hashes the files a generation wrote.
+ *
+ * @param rootDir - Directory holding the files (staging during generation)
+ * @param sources - Files to record, listed once each (later duplicates are ignored)
+ * @returns File records for the generation report, sorted by path
+ */
+export async function hashGeneratedFiles(
+  rootDir: string,
+  sources: readonly GeneratedFileSource[],
+): Promise<GeneratedFile[]> {
+  const files = new Map<string, GeneratedFile>();
+
+  for (const source of sources) {
+    const relativePath = source.path.split(path.sep).join("/");
+    if (files.has(relativePath)) {
+      continue;
+    }
+    const content = await fs.readFile(path.join(rootDir, relativePath));
+    files.set(relativePath, {
+      path: relativePath,
+      ...(source.template !== undefined && { template: source.template }),
+      hash: hashFileContent(content),
+    });
+  }
+
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Replays the file records of all successful generations into the files
+ * the project's generations own.
+ *
+ * A later record of a path replaces an earlier one (regenerated or patched
+ * again), but keeps the template of the generation that rendered it. Files
+ * an upgrade removed are no longer owned. Reverted generations and
+ * generations recorded before file tracking contribute nothing.
+ *
+ * @param state - Project state, or null when the project has none
+ * @returns Owned files by path
+ */
+export function collectOwnedFiles(state: ProjectState | null): Map<string, OwnedFile> {
+  const owned = new Map<string, OwnedFile>();
+  if (!state || !("generations" in state)) {
+    return owned;
+  }
+
+  for (const generation of state.generations) {
+    if (generation.status !== "success" || generation.revertedAt !== undefined) {
+      continue;
+    }
+    for (const file of generation.files ?? []) {
+      const template = file.template ?? owned.get(file.path)?.template;
+      owned.set(file.path, {
+        path: file.path,
+        ...(template !== undefined && { template }),
+        hash: file.hash,
+        generationId: generation.id,
+      });
+    }
+    for (const file of generation.upgrade?.files ?? []) {
+      if (file.outcome === "removed") {
+        owned.delete(file.path);
+      }
+    }
+  }
+
+  return owned;
+}
+
+/**
+ * Compares owned files with their current content in the project.
+ *
+ * @param targetDir - Project directory
+ * @param owned - Owned files (see collectOwnedFiles)
+ * @returns One entry per owned file, sorted by path
+ */
+export async function detectDrift(
+  targetDir: string,
+  owned: ReadonlyMap<string, OwnedFile>,
+): Promise<DriftEntry[]> {
+  const entries: DriftEntry[] = [];
+
+  for (const file of owned.values()) {
+    let status: DriftStatus;
+    try {
+      const content = await fs.readFile(path.join(targetDir, file.path));
+      status = hashFileContent(content) === file.hash ? "unchanged" : "modified";
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+      status = "deleted";
+    }
+    entries.push({ ...file, status });
+  }
+
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
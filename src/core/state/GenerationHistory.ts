@@ -0,0 +1,105 @@
+/**
+ * Generation history lookups.
+ *
+ * Reads the generation reports recorded in `.scaffoldix/state.json` and
+ * finds a generation by reference, for the commands that inspect or act on
+ * earlier generations.
+ *
+ * A generation reference is one of:
+ * - `last`: the most recent generation
+ * - a full generation ID
+ * - a unique prefix of a generation ID
+ *
+ * @module
+ */
+
+import { ScaffoldError } from "../errors/errors.js";
+import type { GenerationReport, ProjectState } from "./ProjectStateManager.js";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Reference to the most recent generation. */
+export const LAST_GENERATION = "last";
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Returns the generation reports of a project state, oldest first.
+ *
+ * @param state - Project state, or null when the project has none
+ * @returns Generation reports (empty for no state)
+ */
+export function listGenerations(state: ProjectState | null): GenerationReport[] {
+  return state && "generations" in state ? state.generations : [];
+}
+
+/**
+ * Whether a report records a `scaffoldix patch revert` run rather than a
+ * generation. Such reports only remove patches: they are not replayed or
+ * upgraded, and do not count as runs of their archetype.
+ *
+ * @param generation - Generation report
+ * @returns True for patch revert records
+ */
+export function isPatchRevert(generation: GenerationReport): boolean {
+  return generation.kind === "patch-revert";
+}
+
+/**
+ * Finds a generation by reference.
+ *
+ * @param generations - Generation reports, oldest first
+ * @param ref - `last`, a generation ID, or a unique ID prefix
+ * @param targetDir - Project directory (for error messages)
+ * @returns The matching generation report
+ * @throws ScaffoldError GENERATION_NOT_FOUND if no generation matches
+ * @throws ScaffoldError GENERATION_REF_AMBIGUOUS if a prefix matches several generations
+ */
+export function findGeneration(
+  generations: readonly GenerationReport[],
+  ref: string,
+  targetDir: string,
+): GenerationReport {
+  if (ref === LAST_GENERATION && generations.length > 0) {
+    return generations[generations.length - 1];
+  }
+
+  const exact = generations.find((g) => g.id === ref);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = generations.filter((g) => g.id.startsWith(ref));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  if (matches.length > 1) {
+    throw new ScaffoldError(
+      `Generation reference '${ref}' is ambiguous`,
+      "GENERATION_REF_AMBIGUOUS",
+      { ref, targetDir, matches: matches.map((g) => g.id) },
+      undefined,
+      `'${ref}' matches ${matches.length} generations: ${matches.map((g) => g.id).join(", ")}. ` +
+        `Use more characters of the ID.`,
+      undefined,
+      true,
+    );
+  }
+
+  throw new ScaffoldError(
+    `Generation '${ref}' not found`,
+    "GENERATION_NOT_FOUND",
+    { ref, targetDir },
+    undefined,
+    generations.length > 0
+      ? `Run \`scaffoldix history --target ${targetDir}\` to list the recorded generations.`
+      : `No generations are recorded in ${targetDir}/.scaffoldix/state.json.`,
+    undefined,
+    true,
+  );
+}
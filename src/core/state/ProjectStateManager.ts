@@ -14,8 +14,10 @@
  *
  * - v1: Original schema with `lastGeneration` only
  * - v2: Extended schema with `generations` array for history
+ * - v3: Generation reports record the files they wrote (`files`)
  *
- * The manager reads both v1 and v2, and always writes v2.
+ * Older state files are migrated on read (see migrations.ts); the manager
+ * always writes v3.
  *
  * ## Atomic Writes
  *
@@ -38,7 +40,7 @@ import { runMigrations, CURRENT_STATE_VERSION } from "./migrations.js";
 // =============================================================================
 
 /** Current schema version for state files. */
-export const CURRENT_SCHEMA_VERSION = 2;
+export const CURRENT_SCHEMA_VERSION = 3;
 
 /** Directory name for Scaffoldix metadata. */
 const SCAFFOLDIX_DIR = ".scaffoldix";
@@ -46,6 +48,9 @@ const SCAFFOLDIX_DIR = ".scaffoldix";
 /** State file name. */
 const STATE_FILE = "state.json";
 
+/** Directory name for generation backups, under SCAFFOLDIX_DIR. */
+const BACKUPS_DIR = "backups";
+
 /** Maximum number of generations to keep in history. */
 const MAX_GENERATIONS = 50;
 
@@ -75,7 +80,7 @@ export const ProjectStateV1Schema = z.object({
 });
 
 // =============================================================================
-// Zod Schemas - v2 (current)
+// Zod Schemas - v2 / v3 (current)
 // =============================================================================
 
 /**
@@ -88,6 +93,14 @@ export const PatchItemSchema = z.object({
   status: z.enum(["applied", "skipped", "failed"]),
   reason: z.string().optional(),
   durationMs: z.number().optional(),
+  /** Keys changed by json_merge / yaml_merge, or entries added by ts_* patches */
+  changedKeys: z.array(z.string()).optional(),
+  /** Content hash of a stamp-less patch, used instead of a stamp for idempotency */
+  contentHash: z.string().optional(),
+  /** Lines inserted under the stamp, so `remove` can revert the patch */
+  lines: z.number().int().nonnegative().optional(),
+  /** Exact text inserted (stamp included), so `remove` restores the file byte for byte */
+  inserted: z.string().optional(),
 });
 
 /**
@@ -143,7 +156,43 @@ export const StagingInfoSchema = z.object({
 });
 
 /**
- * Schema for a full generation report (v2).
+ * Schema for a file written by a generation (v3).
+ */
+export const GeneratedFileSchema = z.object({
+  /** Path relative to the project root (forward slashes) */
+  path: z.string().min(1),
+  /** Template the file was rendered from (absent for patched project files) */
+  template: z.string().optional(),
+  /** SHA-256 hash of the content that was committed */
+  hash: z.string(),
+});
+
+/**
+ * Schema for the outcome of one file in an upgrade.
+ */
+export const UpgradeFileSchema = z.object({
+  /** Path relative to the project root (forward slashes) */
+  path: z.string().min(1),
+  /** What the upgrade did with the file */
+  outcome: z.enum(["added", "updated", "merged", "conflict", "removed", "unchanged"]),
+  /** Why, for conflicts and files left as they are */
+  reason: z.string().optional(),
+});
+
+/**
+ * Schema for upgrade info in a generation report.
+ */
+export const UpgradeInfoSchema = z.object({
+  /** Pack version the archetype was generated with before the upgrade */
+  fromVersion: z.string().min(1),
+  /** ID of the generation that was upgraded */
+  fromGeneration: z.string(),
+  /** Outcome for every file either pack version generates */
+  files: z.array(UpgradeFileSchema),
+});
+
+/**
+ * Schema for a full generation report (v2, with `files` since v3).
  */
 export const GenerationReportSchema = z.object({
   /** Unique ID for this generation run. */
@@ -181,6 +230,18 @@ export const GenerationReportSchema = z.object({
 
   /** Error details (present on failure). */
   error: GenerationErrorSchema.optional(),
+
+  /** Files written (rendered or patched), absent for generations before v3. */
+  files: z.array(GeneratedFileSchema).optional(),
+
+  /** Record kind: absent for generations, `patch-revert` for `scaffoldix patch revert` runs. */
+  kind: z.enum(["patch-revert"]).optional(),
+
+  /** Upgrade info (present for `scaffoldix upgrade` runs). */
+  upgrade: UpgradeInfoSchema.optional(),
+
+  /** ISO 8601 timestamp of `scaffoldix undo` (present once the generation is reverted). */
+  revertedAt: z.string().optional(),
 });
 
 /**
@@ -195,9 +256,20 @@ export const ProjectStateV2Schema = z.object({
 });
 
 /**
- * Combined schema that accepts either v1 or v2.
+ * Schema for v3 project state: v2 with file records in generation reports.
  */
-export const ProjectStateAnySchema = z.union([ProjectStateV1Schema, ProjectStateV2Schema]);
+export const ProjectStateV3Schema = ProjectStateV2Schema.extend({
+  schemaVersion: z.literal(3),
+});
+
+/**
+ * Combined schema that accepts any supported version.
+ */
+export const ProjectStateAnySchema = z.union([
+  ProjectStateV1Schema,
+  ProjectStateV2Schema,
+  ProjectStateV3Schema,
+]);
 
 // =============================================================================
 // Types
@@ -243,6 +315,21 @@ export type GenerationError = z.infer<typeof GenerationErrorSchema>;
  */
 export type StagingInfo = z.infer<typeof StagingInfoSchema>;
 
+/**
+ * A file written by a generation.
+ */
+export type GeneratedFile = z.infer<typeof GeneratedFileSchema>;
+
+/**
+ * The outcome of one file in an upgrade.
+ */
+export type UpgradeFile = z.infer<typeof UpgradeFileSchema>;
+
+/**
+ * Upgrade info in a generation report.
+ */
+export type UpgradeInfo = z.infer<typeof UpgradeInfoSchema>;
+
 /**
  * A full generation report.
  */
@@ -259,9 +346,14 @@ export type ProjectStateV1 = z.infer<typeof ProjectStateV1Schema>;
 export type ProjectStateV2 = z.infer<typeof ProjectStateV2Schema>;
 
 /**
- * Project state (either v1 or v2).
+ * v3 project state with file records.
+ */
+export type ProjectStateV3 = z.infer<typeof ProjectStateV3Schema>;
+
+/**
+ * Project state (any supported version).
  */
-export type ProjectState = ProjectStateV1 | ProjectStateV2;
+export type ProjectState = ProjectStateV1 | ProjectStateV2 | ProjectStateV3;
 
 // =============================================================================
 // ProjectStateManager
@@ -306,6 +398,18 @@ export class ProjectStateManager {
     return path.join(normalized, SCAFFOLDIX_DIR, STATE_FILE);
   }
 
+  /**
+   * Gets the directory holding the backup taken when a generation was committed.
+   *
+   * @param targetDir - The project's target directory
+   * @param generationId - ID of the generation
+   * @returns Absolute path to the backup directory
+   */
+  getBackupDir(targetDir: string, generationId: string): string {
+    const normalized = path.resolve(targetDir);
+    return path.join(normalized, SCAFFOLDIX_DIR, BACKUPS_DIR, generationId);
+  }
+
   /**
    * Reads the project state from disk.
    *
@@ -456,8 +560,9 @@ export class ProjectStateManager {
    * This method:
    * - Creates the `.scaffoldix/` directory if needed
    * - Appends the report to the generations history
-   * - Migrates v1 state to v2 if needed
-   * - Bounds history to MAX_GENERATIONS entries
+   * - Migrates older state to v3 if needed
+   * - Bounds history to MAX_GENERATIONS entries, deleting the backups of
+   *   the generations it drops
    * - Updates `updatedAt` to current time
    * - Uses atomic writes to prevent corruption
    *
@@ -465,7 +570,7 @@ export class ProjectStateManager {
    * @param report - The generation report to store
    * @returns The complete updated state
    */
-  async recordGeneration(targetDir: string, report: GenerationReport): Promise<ProjectStateV2> {
+  async recordGeneration(targetDir: string, report: GenerationReport): Promise<ProjectStateV3> {
     const statePath = this.getStatePath(targetDir);
     const stateDir = path.dirname(statePath);
 
@@ -486,7 +591,7 @@ export class ProjectStateManager {
       const migratedReport = this.migrateV1Record(existingState.lastGeneration);
       generations = [migratedReport, report];
     } else {
-      // v2 state - append to existing generations
+      // v2/v3 state - append to existing generations
       generations = [...existingState.generations, report];
     }
 
@@ -495,8 +600,103 @@ export class ProjectStateManager {
       generations = generations.slice(generations.length - MAX_GENERATIONS);
     }
 
+    const state = await this.writeGenerations(targetDir, generations);
+    await this.pruneBackups(targetDir);
+    return state;
+  }
+
+  /**
+   * Deletes the backups of generations no longer in the history.
+   *
+   * History is bounded to MAX_GENERATIONS entries; the backups of dropped
+   * generations can no longer be undone. Commands that record a generation
+   * in staging call this on the project once the commit is done.
+   *
+   * @param targetDir - The project's target directory
+   * @returns IDs of the deleted backups
+   */
+  async pruneBackups(targetDir: string): Promise<string[]> {
+    const backupsDir = path.join(path.resolve(targetDir), SCAFFOLDIX_DIR, BACKUPS_DIR);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(backupsDir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+
+    const state = await this.read(targetDir);
+    if (!state || !("generations" in state)) {
+      return [];
+    }
+
+    const kept = new Set(state.generations.map((g) => g.id));
+    const dropped = entries.filter((id) => !kept.has(id));
+    for (const id of dropped) {
+      await fs.rm(path.join(backupsDir, id), { recursive: true, force: true });
+    }
+    return dropped;
+  }
+
+  /**
+   * Marks a recorded generation as reverted by `scaffoldix undo`.
+   *
+   * The report stays in the history with `revertedAt` set; ownership, applied
+   * patches and upgrades ignore it from then on.
+   *
+   * @param targetDir - The project's target directory
+   * @param generationId - ID of the generation to mark
+   * @returns The complete updated state
+   * @throws ScaffoldError GENERATION_NOT_FOUND if the state has no such generation
+   */
+  async markReverted(targetDir: string, generationId: string): Promise<ProjectStateV3> {
+    const state = await this.read(targetDir);
+    const generations = state && "generations" in state ? state.generations : [];
+
+    if (!generations.some((g) => g.id === generationId)) {
+      throw new ScaffoldError(
+        `Generation '${generationId}' not found`,
+        "GENERATION_NOT_FOUND",
+        { ref: generationId, targetDir },
+        undefined,
+        `No generation with this ID is recorded in ${this.getStatePath(targetDir)}.`,
+        undefined,
+        true,
+      );
+    }
+
+    const revertedAt = new Date().toISOString();
+    return this.writeGenerations(
+      targetDir,
+      generations.map((g) => (g.id === generationId ? { ...g, revertedAt } : g)),
+    );
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Writes a v3 state with the given generation history.
+   *
+   * `lastGeneration` is computed from the latest generation that was not
+   * reverted (patch reverts excluded), for backward compatibility.
+   */
+  private async writeGenerations(
+    targetDir: string,
+    generations: GenerationReport[],
+  ): Promise<ProjectStateV3> {
+    const statePath = this.getStatePath(targetDir);
+    const stateDir = path.dirname(statePath);
+
     // Compute lastGeneration for backward compatibility
-    const lastReport = generations[generations.length - 1];
+    const lastReport =
+      [...generations]
+        .reverse()
+        .find((g) => g.revertedAt === undefined && g.kind !== "patch-revert") ??
+      generations[generations.length - 1];
     const lastGeneration: GenerationRecord = {
       packId: lastReport.packId,
       packVersion: lastReport.packVersion,
@@ -505,8 +705,8 @@ export class ProjectStateManager {
       timestamp: lastReport.timestamp,
     };
 
-    // Build v2 state object
-    const state: ProjectStateV2 = {
+    // Build v3 state object
+    const state: ProjectStateV3 = {
       schemaVersion: CURRENT_SCHEMA_VERSION,
       updatedAt: new Date().toISOString(),
       generations,
@@ -522,10 +722,6 @@ export class ProjectStateManager {
     return state;
   }
 
-  // ===========================================================================
-  // Private Methods
-  // ===========================================================================
-
   /**
    * Migrates a v1 GenerationRecord to a v2 GenerationReport.
    */
@@ -25,7 +25,7 @@ import { ScaffoldError } from "../errors/errors.js";
  * Current state schema version.
  * Bump this when the state structure changes.
  */
-export const CURRENT_STATE_VERSION = 2;
+export const CURRENT_STATE_VERSION = 3;
 
 // =============================================================================
 // Types
@@ -103,6 +103,19 @@ const migrations: StateMigration[] = [
       };
     },
   },
+  {
+    fromVersion: 2,
+    toVersion: 3,
+    description: "Add file records to generation reports",
+    migrate: (oldState) => {
+      // Files written before v3 are unknown: their reports keep no `files`
+      // field, so drift detection starts with the next generation
+      return {
+        ...oldState,
+        schemaVersion: 3,
+      };
+    },
+  },
 ];
 
 // =============================================================================
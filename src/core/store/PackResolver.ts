@@ -3,7 +3,8 @@
  *
  * Handles version selection when looking up installed packs:
  * - No version specified: returns the latest installed version (highest semver)
- * - Version specified: returns the matching version or throws with available list
+ * - Version specified: returns the exact match, or the highest version satisfying a
+ *   range (`^1.2`, `~0.3.1`, `1.x`, `1.2`), or throws with the available list
  *
  * Works with both single-version (legacy) and multi-version pack entries.
  *
@@ -77,7 +78,7 @@ function parseSemver(version: string): {
  *   2.0.0-beta.1 < 2.0.0
  *   1.0.0 < 2.0.0-beta.1 (different major)
  */
-function compareSemver(a: string, b: string): number {
+export function compareSemver(a: string, b: string): number {
   const pa = parseSemver(a);
   const pb = parseSemver(b);
 
@@ -99,6 +100,69 @@ function compareSemver(a: string, b: string): number {
   return 0;
 }
 
+/**
+ * Inclusive lower / exclusive upper bound for a version range.
+ */
+interface VersionBounds {
+  readonly min: string;
+  readonly max: string;
+}
+
+/**
+ * Parses a version range into bounds, or returns undefined if `range`
+ * is not a range (i.e. it should be matched exactly).
+ *
+ * Supported forms:
+ * - `^1.2.3` / `^1.2` / `^1`: compatible with the left-most non-zero part
+ * - `~1.2.3` / `~1.2` / `~1`: patch-level changes (minor-level for `~1`)
+ * - `1.2` / `1.2.x` / `1` / `1.x`: any version with the given prefix
+ */
+function parseVersionRange(range: string): VersionBounds | undefined {
+  const match = range.trim().match(/^([\^~]?)(\d+)(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, operator, majorStr, minorStr, patchStr] = match;
+  const isWildcard = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+
+  // A plain full version is an exact match, not a range
+  if (!operator && !isWildcard(minorStr) && !isWildcard(patchStr)) {
+    return undefined;
+  }
+
+  const major = parseInt(majorStr, 10);
+  const minor = isWildcard(minorStr) ? undefined : parseInt(minorStr, 10);
+  const patch = isWildcard(patchStr) ? undefined : parseInt(patchStr, 10);
+  const min = `${major}.${minor ?? 0}.${patch ?? 0}`;
+
+  if (operator === "^") {
+    if (major > 0 || minor === undefined) {
+      return { min, max: `${major + 1}.0.0` };
+    }
+    if (minor > 0 || patch === undefined) {
+      return { min, max: `0.${minor + 1}.0` };
+    }
+    return { min, max: `0.0.${patch + 1}` };
+  }
+
+  // "~" and bare prefixes both allow changes below the last specified part
+  if (minor === undefined) {
+    return { min, max: `${major + 1}.0.0` };
+  }
+  return { min, max: `${major}.${minor + 1}.0` };
+}
+
+/**
+ * Checks whether a version satisfies a range. Prereleases never satisfy a range.
+ */
+function satisfiesRange(version: string, bounds: VersionBounds): boolean {
+  if (parseSemver(version).prerelease) {
+    return false;
+  }
+  return compareSemver(version, bounds.min) >= 0 && compareSemver(version, bounds.max) < 0;
+}
+
 // =============================================================================
 // PackResolver Class
 // =============================================================================
@@ -116,6 +180,9 @@ function compareSemver(a: string, b: string): number {
  * // Resolve specific version
  * const v1 = await resolver.resolve("my-pack", "1.0.0");
  *
+ * // Resolve highest installed 1.x version
+ * const v1x = await resolver.resolve("my-pack", "^1.0");
+ *
  * // List available versions
  * const versions = await resolver.listVersions("my-pack");
  * ```
@@ -131,10 +198,10 @@ export class PackResolver {
    * Resolves a pack to a specific version.
    *
    * @param packId - Pack identifier
-   * @param version - Optional version to select (default: latest)
+   * @param version - Optional exact version or range to select (default: latest)
    * @returns Resolved pack with version details
    * @throws ScaffoldError PACK_NOT_FOUND if pack doesn't exist
-   * @throws ScaffoldError VERSION_NOT_FOUND if version doesn't match
+   * @throws ScaffoldError VERSION_NOT_FOUND if no installed version matches
    */
   async resolve(packId: string, version?: string): Promise<ResolvedPack> {
     // Load pack entry
@@ -170,10 +237,18 @@ export class PackResolver {
       return this.resolveLatest(packId, installs);
     }
 
-    // Find matching version
-    const match = installs.find((i) => i.version === version);
+    // Find matching version: exact first, then the highest version in range
+    let match = installs.find((i) => i.version === version);
+    if (!match) {
+      const bounds = parseVersionRange(version);
+      if (bounds) {
+        const best = (await this.listVersions(packId)).find((v) => satisfiesRange(v, bounds));
+        match = installs.find((i) => i.version === best);
+      }
+    }
+
     if (!match) {
-      const available = installs.map((i) => i.version).sort((a, b) => compareSemver(b, a)); // Descending
+      const available = await this.listVersions(packId);
 
       throw new ScaffoldError(
         `Version '${version}' of pack '${packId}' not found`,
@@ -0,0 +1,64 @@
+/**
+ * Case conversion utilities for identifiers.
+ *
+ * Splits a value into words on separators (`-`, `_`, spaces, dots) and on
+ * camelCase boundaries, then joins the words in the requested style.
+ *
+ * @example
+ * ```typescript
+ * toPascalCase("user-profile");  // "UserProfile"
+ * toKebabCase("userProfile");    // "user-profile"
+ * toConstantCase("HTTPServer");  // "HTTP_SERVER"
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * Splits a string into its words.
+ *
+ * Acronyms are kept together ("HTTPServer" -> ["HTTP", "Server"]).
+ */
+export function splitWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/** "user profile" -> "UserProfile" */
+export function toPascalCase(value: string): string {
+  return splitWords(value).map(capitalize).join("");
+}
+
+/** "user profile" -> "userProfile" */
+export function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/** "userProfile" -> "user-profile" */
+export function toKebabCase(value: string): string {
+  return splitWords(value)
+    .map((word) => word.toLowerCase())
+    .join("-");
+}
+
+/** "userProfile" -> "user_profile" */
+export function toSnakeCase(value: string): string {
+  return splitWords(value)
+    .map((word) => word.toLowerCase())
+    .join("_");
+}
+
+/** "userProfile" -> "USER_PROFILE" */
+export function toConstantCase(value: string): string {
+  return splitWords(value)
+    .map((word) => word.toUpperCase())
+    .join("_");
+}
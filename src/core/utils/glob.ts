@@ -0,0 +1,124 @@
+/**
+ * Glob matching for relative, forward-slash paths.
+ *
+ * fast-glob only enumerates files on disk; this module answers "does this
+ * path match this pattern?" for paths that may not exist yet (render output,
+ * patch targets).
+ *
+ * ## Supported Syntax
+ *
+ * - `*` matches any characters except `/`
+ * - `**` matches any number of path segments (including none)
+ * - `?` matches a single character except `/`
+ * - `{a,b}` matches either alternative
+ * - `[abc]` / `[!abc]` match a character class
+ *
+ * Patterns match the whole path: `*.html` only matches top-level files,
+ * use `**\/*.html` for any depth.
+ *
+ * @module
+ */
+
+/**
+ * Escapes a character for use in a regular expression.
+ */
+function escapeRegExp(char: string): string {
+  return /[.+^$()|\\{}[\]]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Converts a glob pattern to a regular expression source (without anchors).
+ */
+function globToRegExpSource(pattern: string): string {
+  let source = "";
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          // "**/" matches zero or more directories; trailing "**" matches everything
+          if (pattern[i + 2] === "/") {
+            source += "(?:.*/)?";
+            i += 3;
+          } else {
+            source += ".*";
+            i += 2;
+          }
+          continue;
+        }
+      }
+      source += "[^/]*";
+      i += 1;
+    } else if (char === "?") {
+      source += "[^/]";
+      i += 1;
+    } else if (char === "{") {
+      const close = pattern.indexOf("}", i);
+      if (close === -1) {
+        source += "\\{";
+        i += 1;
+        continue;
+      }
+      const alternatives = pattern
+        .slice(i + 1, close)
+        .split(",")
+        .map(globToRegExpSource);
+      source += `(?:${alternatives.join("|")})`;
+      i = close + 1;
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+        i += 1;
+        continue;
+      }
+      let body = pattern.slice(i + 1, close).replace(/\\/g, "\\\\");
+      if (body.startsWith("!")) {
+        body = "^" + body.slice(1);
+      }
+      source += `[${body}]`;
+      i = close + 1;
+    } else {
+      source += escapeRegExp(char);
+      i += 1;
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compiles a glob pattern into an anchored regular expression.
+ *
+ * @param pattern - Glob pattern using forward slashes
+ * @returns RegExp matching whole relative paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(pattern)}$`);
+}
+
+/**
+ * Normalizes a relative path for matching (forward slashes, no leading "./").
+ */
+function normalizeForMatch(relativePath: string): string {
+  return relativePath.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+/**
+ * Checks whether a relative path matches a glob pattern.
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(normalizeForMatch(relativePath));
+}
+
+/**
+ * Checks whether a relative path matches any of the given glob patterns.
+ */
+export function matchesAnyGlob(relativePath: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(relativePath, pattern));
+}
@@ -396,6 +396,44 @@ describe("InputResolver", () => {
         code: "INPUT_TYPE_ERROR",
       });
     });
+
+    it("preserves list values as-is", async () => {
+      const inputsSchema: InputDefinition[] = [{ name: "entities", type: "list" }];
+      const entities = [{ name: "user" }, { name: "order" }];
+
+      const result = await resolveInputs({
+        inputsSchema,
+        nonInteractive: true,
+        provided: { entities },
+      });
+
+      expect(result.entities).toEqual(entities);
+    });
+
+    it("splits comma-separated strings into list items", async () => {
+      const inputsSchema: InputDefinition[] = [{ name: "entities", type: "list" }];
+
+      const result = await resolveInputs({
+        inputsSchema,
+        nonInteractive: true,
+        provided: { entities: " user, order,,invoice " },
+      });
+
+      expect(result.entities).toEqual(["user", "order", "invoice"]);
+    });
+
+    it("throws error for values that cannot become a list", async () => {
+      const inputsSchema: InputDefinition[] = [{ name: "entities", type: "list", default: 3 }];
+
+      await expect(
+        resolveInputs({
+          inputsSchema,
+          nonInteractive: true,
+        }),
+      ).rejects.toMatchObject({
+        code: "INPUT_TYPE_ERROR",
+      });
+    });
   });
 
   // ===========================================================================
@@ -1647,4 +1647,670 @@ archetypes:
       expect(colorInput.options![0]).toEqual({ value: "red", label: "Red Color" });
     });
   });
+
+  // ===========================================================================
+  // Conditional File Rules
+  // ===========================================================================
+
+  describe("files schema validation", () => {
+    it("accepts include/exclude rules with when conditions", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    files:
+      - include: ["src/**/*.test.ts"]
+        when: { input: includeTests, equals: true }
+      - exclude: ["docs/**"]
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].files).toEqual([
+        { include: ["src/**/*.test.ts"], when: { input: "includeTests", equals: true } },
+        { exclude: ["docs/**"] },
+      ]);
+    });
+
+    it("rejects a rule without include or exclude globs", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    files:
+      - when: { input: includeTests, equals: true }
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("json_merge schema validation", () => {
+    it("accepts json_merge patches with array strategies", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: json_merge
+        file: tsconfig.json
+        idempotencyKey: add-reference
+        contentTemplate: '{ "references": [{ "path": "./packages/web" }] }'
+        arrayStrategy: by-key
+        arrayKey: path
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches?.[0]).toMatchObject({
+        kind: "json_merge",
+        arrayStrategy: "by-key",
+        arrayKey: "path",
+      });
+    });
+
+    it("requires arrayKey for the by-key strategy", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: json_merge
+        file: tsconfig.json
+        idempotencyKey: add-reference
+        contentTemplate: "{}"
+        arrayStrategy: by-key
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+
+    it("rejects markers on json_merge patches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: json_merge
+        file: package.json
+        idempotencyKey: add-dep
+        contentTemplate: "{}"
+        markerStart: "// start"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("patch when validation", () => {
+    it("accepts valid when expressions", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: .gitignore
+        idempotencyKey: ignore-logs
+        contentTemplate: "logs/"
+        when: "enableLogging && framework in ['express', 'koa']"
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches?.[0].when).toBe(
+        "enableLogging && framework in ['express', 'koa']",
+      );
+    });
+
+    it("rejects malformed when expressions at load time", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: .gitignore
+        idempotencyKey: ignore-logs
+        contentTemplate: "logs/"
+        when: "enableLogging &&"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+        hint: expect.stringContaining("unexpected end of expression"),
+      });
+    });
+  });
+
+  describe("patch stamp validation", () => {
+    it("accepts stamp styles on text patches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: hosts.tpl
+        idempotencyKey: add-host
+        contentTemplate: "127.0.0.1 app"
+        stamp: "#"
+      - kind: insert_after
+        file: notes.txt
+        idempotencyKey: add-note
+        anchor: "Notes"
+        contentTemplate: "remember the milk"
+        stamp: none
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches?.map((p) => "stamp" in p && p.stamp)).toEqual([
+        "#",
+        "none",
+      ]);
+    });
+
+    it("rejects unknown stamp styles", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: notes.txt
+        idempotencyKey: add-note
+        contentTemplate: "remember the milk"
+        stamp: ";"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("TypeScript patch schema validation", () => {
+    it("accepts TypeScript patches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: ts_add_import
+        file: src/app.ts
+        idempotencyKey: import-users
+        contentTemplate: 'import { UsersModule } from "./users.js";'
+      - kind: ts_add_export
+        file: src/index.ts
+        idempotencyKey: export-users
+        contentTemplate: 'export * from "./users.js";'
+      - kind: ts_append_array_element
+        file: src/app.module.ts
+        idempotencyKey: register-users
+        target: AppModule.imports
+        contentTemplate: UsersModule
+      - kind: ts_add_object_property
+        file: src/config.ts
+        idempotencyKey: users-config
+        target: config
+        contentTemplate: "users: { enabled: true }"
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches?.map((p) => p.kind)).toEqual([
+        "ts_add_import",
+        "ts_add_export",
+        "ts_append_array_element",
+        "ts_add_object_property",
+      ]);
+    });
+
+    it.each([
+      ["a missing target", "kind: ts_append_array_element"],
+      ["an invalid target", "kind: ts_add_object_property\n        target: .config"],
+    ])("rejects %s", async (_, fields) => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - ${fields}
+        file: src/config.ts
+        idempotencyKey: users-config
+        contentTemplate: users
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("remove patch schema validation", () => {
+    it("accepts remove patches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: remove
+        file: src/app.ts
+        idempotencyKey: register-billing
+        when: "!billing"
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches?.[0]).toMatchObject({
+        kind: "remove",
+        file: "src/app.ts",
+        idempotencyKey: "register-billing",
+      });
+    });
+
+    it("rejects remove patches without an idempotencyKey", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: remove
+        file: src/app.ts
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("patch target schema validation", () => {
+    it("accepts glob files, files lists and minMatches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: "src/**/*.controller.ts"
+        idempotencyKey: controller-header
+        contentTemplate: "// generated"
+        minMatches: 2
+      - kind: ts_add_import
+        files:
+          - apps/api/src/main.ts
+          - "services/*/src/main.ts"
+        idempotencyKey: tracing-import
+        contentTemplate: 'import "./tracing.js";'
+        minMatches: 0
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches).toMatchObject([
+        { file: "src/**/*.controller.ts", minMatches: 2 },
+        { files: ["apps/api/src/main.ts", "services/*/src/main.ts"], minMatches: 0 },
+      ]);
+    });
+
+    it("rejects patches with both file and files, or neither", async () => {
+      for (const target of [
+        "file: src/a.ts\n        files: [src/b.ts]",
+        "description: no target",
+      ]) {
+        await writeManifest(
+          testDir,
+          `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: remove
+        ${target}
+        idempotencyKey: register-billing
+`,
+        );
+
+        await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+          code: "MANIFEST_SCHEMA_ERROR",
+          details: expect.objectContaining({
+            issues: expect.arrayContaining([
+              expect.objectContaining({ message: "Provide exactly one of file or files" }),
+            ]),
+          }),
+        });
+      }
+    });
+
+    it("rejects empty files lists and negative minMatches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: remove
+        files: []
+        idempotencyKey: a
+      - kind: remove
+        file: src/a.ts
+        idempotencyKey: b
+        minMatches: -1
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("anchor patch schema validation", () => {
+    it("accepts insert and regex_replace patches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: insert_after
+        file: src/server.ts
+        idempotencyKey: add-import
+        anchor: "^import .+;$"
+        regex: true
+        occurrence: last
+        contentTemplate: 'import helmet from "helmet";'
+      - kind: insert_before
+        file: src/server.ts
+        idempotencyKey: add-middleware
+        anchor: "app.listen("
+        occurrence: 1
+        contentTemplate: "app.use(helmet());"
+      - kind: regex_replace
+        file: src/server.ts
+        idempotencyKey: drop-debug
+        pattern: '^console\\.debug\\(.*\\);\\n'
+        contentTemplate: ""
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches).toMatchObject([
+        { kind: "insert_after", regex: true, occurrence: "last" },
+        { kind: "insert_before", anchor: "app.listen(", occurrence: 1 },
+        { kind: "regex_replace", contentTemplate: "" },
+      ]);
+    });
+
+    it("rejects invalid regex anchors", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: insert_before
+        file: src/server.ts
+        idempotencyKey: add-middleware
+        anchor: "app.listen("
+        regex: true
+        contentTemplate: "app.use(helmet());"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+
+    it("rejects invalid occurrences", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: regex_replace
+        file: src/server.ts
+        idempotencyKey: port
+        pattern: "3000"
+        occurrence: 0
+        contentTemplate: "8080"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("yaml_merge schema validation", () => {
+    it("accepts yaml_merge patches with a keyPath", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: yaml_merge
+        file: docker-compose.yml
+        idempotencyKey: add-env
+        contentTemplate: "DEBUG: 'true'"
+        keyPath: services.api.environment
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].patches?.[0]).toMatchObject({
+        kind: "yaml_merge",
+        keyPath: "services.api.environment",
+      });
+    });
+
+    it("rejects malformed keyPaths", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: yaml_merge
+        file: docker-compose.yml
+        idempotencyKey: add-env
+        contentTemplate: "DEBUG: 'true'"
+        keyPath: services..api
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+
+    it("rejects markers on yaml_merge patches", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: yaml_merge
+        file: docker-compose.yml
+        idempotencyKey: add-env
+        contentTemplate: "{}"
+        markerEnd: "# end"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
+
+  describe("copy and delimiters schema validation", () => {
+    it("accepts copy globs and delimiter rules", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    copy: [".github/workflows/**"]
+    delimiters:
+      - files: ["src/**/*.vue"]
+        open: "[["
+        close: "]]"
+`,
+      );
+
+      const manifest = await loader.loadFromDir(testDir);
+      expect(manifest.archetypes[0].copy).toEqual([".github/workflows/**"]);
+      expect(manifest.archetypes[0].delimiters).toEqual([
+        { files: ["src/**/*.vue"], open: "[[", close: "]]" },
+      ]);
+    });
+
+    it("rejects identical opening and closing delimiters", async () => {
+      await writeManifest(
+        testDir,
+        `
+pack:
+  name: test-pack
+  version: 1.0.0
+archetypes:
+  - id: default
+    templateRoot: templates
+    delimiters:
+      - files: ["**/*.go"]
+        open: "%%"
+        close: "%%"
+`,
+      );
+
+      await expect(loader.loadFromDir(testDir)).rejects.toMatchObject({
+        code: "MANIFEST_SCHEMA_ERROR",
+      });
+    });
+  });
 });
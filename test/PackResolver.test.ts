@@ -4,6 +4,7 @@
  * PackResolver handles version selection for pack lookups:
  * - No version specified: returns latest installed version
  * - Version specified: returns matching version or error with available list
+ * - Version range specified: returns highest installed version in range
  * - Works with both single-version and multi-version pack entries
  */
 
@@ -175,6 +176,63 @@ describe("PackResolver", () => {
     });
   });
 
+  // ===========================================================================
+  // Version Ranges
+  // ===========================================================================
+
+  describe("version ranges", () => {
+    beforeEach(async () => {
+      const versions = ["0.3.1", "0.3.4", "0.4.0", "1.2.0", "1.4.2", "1.5.0-beta.1", "2.0.0"];
+      await registry.registerPackWithInstalls(
+        "range-pack",
+        versions.map((version, index) => ({
+          version,
+          origin: { type: "local" as const, localPath: `/v${version}` },
+          hash: String(index).repeat(64),
+          installedAt: "2024-01-01T00:00:00.000Z",
+        })),
+      );
+    });
+
+    it.each([
+      ["^1.2", "1.4.2"],
+      ["^1", "1.4.2"],
+      ["^0.3", "0.3.4"],
+      ["^0.3.1", "0.3.4"],
+      ["~0.3", "0.3.4"],
+      ["~1.2", "1.2.0"],
+      ["~1", "1.4.2"],
+      ["1.x", "1.4.2"],
+      ["1.2", "1.2.0"],
+      ["0", "0.4.0"],
+    ])("resolves %s to %s", async (range, expected) => {
+      const result = await resolver.resolve("range-pack", range);
+
+      expect(result.version).toBe(expected);
+    });
+
+    it("prefers an exact version over range interpretation", async () => {
+      const result = await resolver.resolve("range-pack", "0.3.1");
+
+      expect(result.version).toBe("0.3.1");
+      expect(result.hash).toBe("0".repeat(64));
+    });
+
+    it("never matches prereleases with a range", async () => {
+      await expect(resolver.resolve("range-pack", "~1.5")).rejects.toMatchObject({
+        code: "VERSION_NOT_FOUND",
+      });
+    });
+
+    it("throws VERSION_NOT_FOUND when no installed version is in range", async () => {
+      await expect(resolver.resolve("range-pack", "^3.0")).rejects.toMatchObject({
+        code: "VERSION_NOT_FOUND",
+        message: expect.stringContaining("^3.0"),
+        hint: expect.stringContaining("2.0.0, 1.5.0-beta.1, 1.4.2"),
+      });
+    });
+  });
+
   // ===========================================================================
   // Listing Available Versions
   // ===========================================================================
@@ -18,7 +18,18 @@ import {
   type MarkerInsertOperation,
   type MarkerReplaceOperation,
   type AppendIfMissingOperation,
+  type InsertBeforeOperation,
+  type InsertAfterOperation,
+  type RegexReplaceOperation,
+  type JsonMergeOperation,
+  type YamlMergeOperation,
+  type RemoveOperation,
+  type TsAddImportOperation,
+  type TsAppendArrayElementOperation,
+  type PatchApplyResult,
 } from "../src/core/patch/PatchEngine.js";
+import type { AppliedPatch } from "../src/core/patch/AppliedPatches.js";
+import { hashPatchContent } from "../src/core/patch/PatchStamp.js";
 import { ScaffoldError } from "../src/core/errors/errors.js";
 
 // =============================================================================
@@ -405,6 +416,879 @@ const after = true;`,
     });
   });
 
+  // ===========================================================================
+  // Tests: insert_before / insert_after / regex_replace
+  // ===========================================================================
+
+  describe("anchor-based patches", () => {
+    const source = [
+      'import express from "express";',
+      'import cors from "cors";',
+      "",
+      "const app = express();",
+      "app.use(cors());",
+      "app.listen(3000);",
+      "",
+    ].join("\n");
+
+    async function writeSource(content = source): Promise<string> {
+      const targetFile = path.join(tempDir, "server.ts");
+      await writeFile(targetFile, content);
+      return targetFile;
+    }
+
+    it("inserts before the line containing a literal anchor", async () => {
+      const targetFile = await writeSource();
+      const op: InsertBeforeOperation = {
+        file: "server.ts",
+        kind: "insert_before",
+        idempotencyKey: "add-helmet-use",
+        anchor: "app.listen(",
+        content: "app.use(helmet());",
+      };
+
+      const result = await engine.applyPatch(op, { rootDir: tempDir });
+
+      expect(result.status).toBe("applied");
+      expect(await readFile(targetFile)).toContain(
+        "app.use(cors());\n// SCAFFOLDIX_PATCH:add-helmet-use\napp.use(helmet());\napp.listen(3000);",
+      );
+    });
+
+    it("inserts after the last regex match", async () => {
+      const targetFile = await writeSource();
+      const op: InsertAfterOperation = {
+        file: "server.ts",
+        kind: "insert_after",
+        idempotencyKey: "add-helmet-import",
+        anchor: "^import .+;$",
+        regex: true,
+        occurrence: "last",
+        content: 'import helmet from "helmet";\n',
+      };
+
+      await engine.applyPatch(op, { rootDir: tempDir });
+
+      expect(await readFile(targetFile)).toMatch(
+        /^import express.*\nimport cors.*\n\/\/ SCAFFOLDIX_PATCH:add-helmet-import\nimport helmet from "helmet";\n\n/,
+      );
+    });
+
+    it("selects the nth occurrence", async () => {
+      const targetFile = await writeSource();
+
+      await engine.applyPatch(
+        {
+          file: "server.ts",
+          kind: "insert_after",
+          idempotencyKey: "after-second-use",
+          anchor: "app.",
+          occurrence: 2,
+          content: "// after use",
+        },
+        { rootDir: tempDir },
+      );
+
+      expect(await readFile(targetFile)).toContain(
+        "app.listen(3000);\n// SCAFFOLDIX_PATCH:after-second-use\n// after use\n",
+      );
+    });
+
+    it("inserts after an anchor on a last line without trailing newline", async () => {
+      const targetFile = await writeSource("export {};");
+
+      await engine.applyPatch(
+        {
+          file: "server.ts",
+          kind: "insert_after",
+          idempotencyKey: "tail",
+          anchor: "export {};",
+          content: "// tail",
+        },
+        { rootDir: tempDir },
+      );
+
+      expect(await readFile(targetFile)).toBe("export {};\n// SCAFFOLDIX_PATCH:tail\n// tail");
+    });
+
+    it("replaces a regex match, expanding capture groups", async () => {
+      const targetFile = await writeSource();
+      const op: RegexReplaceOperation = {
+        file: "server.ts",
+        kind: "regex_replace",
+        idempotencyKey: "configurable-port",
+        pattern: "app\\.listen\\((\\d+)\\)",
+        content: "app.listen(process.env.PORT ?? $1)",
+      };
+
+      await engine.applyPatch(op, { rootDir: tempDir });
+
+      expect(await readFile(targetFile)).toContain(
+        "// SCAFFOLDIX_PATCH:configurable-port\napp.listen(process.env.PORT ?? 3000);",
+      );
+    });
+
+    it("follows idempotency-key semantics", async () => {
+      const targetFile = await writeSource();
+      const op: InsertBeforeOperation = {
+        file: "server.ts",
+        kind: "insert_before",
+        idempotencyKey: "add-helmet-use",
+        anchor: "app.listen(",
+        content: "app.use(helmet());",
+      };
+
+      await engine.applyPatch(op, { rootDir: tempDir });
+      const afterFirst = await readFile(targetFile);
+      const result = await engine.applyPatch(op, { rootDir: tempDir });
+
+      expect(result).toMatchObject({ status: "skipped", reason: "already_applied" });
+      expect(await readFile(targetFile)).toBe(afterFirst);
+    });
+
+    it("throws PATCH_MARKER_NOT_FOUND for a missing anchor in strict mode", async () => {
+      await writeSource();
+
+      await expect(
+        engine.applyPatch(
+          {
+            file: "server.ts",
+            kind: "insert_after",
+            idempotencyKey: "missing",
+            anchor: "app.use(",
+            occurrence: 3,
+            content: "x",
+          },
+          { rootDir: tempDir },
+        ),
+      ).rejects.toMatchObject({
+        code: "PATCH_MARKER_NOT_FOUND",
+        details: { marker: "app.use(", markerType: "anchor", occurrence: "3rd" },
+      });
+    });
+
+    it("leaves the file unchanged for a missing anchor in non-strict mode", async () => {
+      const targetFile = await writeSource();
+
+      await engine.applyPatch(
+        {
+          file: "server.ts",
+          kind: "regex_replace",
+          idempotencyKey: "missing",
+          pattern: "app\\.close\\(\\)",
+          content: "x",
+        },
+        { rootDir: tempDir, strict: false },
+      );
+
+      expect(await readFile(targetFile)).toBe(source);
+    });
+
+    it("throws PATCH_INVALID for an invalid regex", async () => {
+      await writeSource();
+
+      await expect(
+        engine.applyPatch(
+          {
+            file: "server.ts",
+            kind: "regex_replace",
+            idempotencyKey: "bad",
+            pattern: "app.listen(",
+            content: "x",
+          },
+          { rootDir: tempDir },
+        ),
+      ).rejects.toMatchObject({ code: "PATCH_INVALID" });
+    });
+  });
+
+  // ===========================================================================
+  // Tests: json_merge
+  // ===========================================================================
+
+  describe("json_merge", () => {
+    const packageJson =
+      '{\n    "name": "app",\n    "dependencies": {\n        "commander": "^12.0.0"\n    }\n}\n';
+
+    function jsonMerge(overrides: Partial<JsonMergeOperation> = {}): JsonMergeOperation {
+      return {
+        file: "package.json",
+        kind: "json_merge",
+        idempotencyKey: "add-zod",
+        content: '{ "dependencies": { "zod": "^4.0.0" } }',
+        ...overrides,
+      };
+    }
+
+    it("merges the fragment keeping indentation and key order", async () => {
+      const targetFile = path.join(tempDir, "package.json");
+      await writeFile(targetFile, packageJson);
+
+      const result = await engine.applyPatch(jsonMerge(), { rootDir: tempDir });
+
+      expect(result.status).toBe("applied");
+      expect(result.changedKeys).toEqual(["dependencies.zod"]);
+      expect(await readFile(targetFile)).toBe(
+        '{\n    "name": "app",\n    "dependencies": {\n        "commander": "^12.0.0",\n' +
+          '        "zod": "^4.0.0"\n    }\n}\n',
+      );
+    });
+
+    it("is idempotent without inserting a stamp", async () => {
+      const targetFile = path.join(tempDir, "package.json");
+      await writeFile(targetFile, packageJson);
+
+      await engine.applyPatch(jsonMerge(), { rootDir: tempDir });
+      const afterFirst = await readFile(targetFile);
+      const result = await engine.applyPatch(jsonMerge(), { rootDir: tempDir });
+
+      expect(result.status).toBe("skipped");
+      expect(result.reason).toBe("already_applied");
+      expect(await readFile(targetFile)).toBe(afterFirst);
+      expect(afterFirst).not.toContain("SCAFFOLDIX_PATCH");
+    });
+
+    it("applies the configured array strategy", async () => {
+      const targetFile = path.join(tempDir, "tsconfig.json");
+      await writeFile(
+        targetFile,
+        '{\n  "compilerOptions": {\n    "lib": ["ES2020", "DOM"]\n  }\n}\n',
+      );
+
+      await engine.applyPatch(
+        jsonMerge({
+          file: "tsconfig.json",
+          content: '{ "compilerOptions": { "lib": ["ES2022"] } }',
+          arrayStrategy: "replace",
+        }),
+        { rootDir: tempDir },
+      );
+
+      expect(JSON.parse(await readFile(targetFile))).toEqual({
+        compilerOptions: { lib: ["ES2022"] },
+      });
+    });
+
+    it("merges into a tsconfig with comments and trailing commas", async () => {
+      const targetFile = path.join(tempDir, "tsconfig.json");
+      await writeFile(
+        targetFile,
+        '{\n  // Shared settings\n  "compilerOptions": {\n' +
+          '    "strict": true, /* keep */\n    "lib": ["ES2022",],\n  },\n}\n',
+      );
+
+      const result = await engine.applyPatch(
+        jsonMerge({
+          file: "tsconfig.json",
+          content: '{ "references": [{ "path": "./web" }] }',
+        }),
+        { rootDir: tempDir },
+      );
+
+      expect(result).toMatchObject({ status: "applied", changedKeys: ["references"] });
+      expect(JSON.parse(await readFile(targetFile))).toEqual({
+        compilerOptions: { strict: true, lib: ["ES2022"] },
+        references: [{ path: "./web" }],
+      });
+    });
+
+    it("preserves CRLF line endings", async () => {
+      const targetFile = path.join(tempDir, "package.json");
+      await writeFile(targetFile, '{\r\n  "name": "app"\r\n}\r\n');
+
+      await engine.applyPatch(jsonMerge(), { rootDir: tempDir });
+
+      expect(await readFile(targetFile)).toBe(
+        '{\r\n  "name": "app",\r\n  "dependencies": {\r\n    "zod": "^4.0.0"\r\n  }\r\n}\r\n',
+      );
+    });
+
+    it("throws PATCH_JSON_INVALID for unparseable targets", async () => {
+      await writeFile(path.join(tempDir, "package.json"), "{ not json");
+
+      await expect(engine.applyPatch(jsonMerge(), { rootDir: tempDir })).rejects.toMatchObject({
+        code: "PATCH_JSON_INVALID",
+      });
+    });
+
+    it("throws PATCH_JSON_INVALID for non-object fragments", async () => {
+      await writeFile(path.join(tempDir, "package.json"), packageJson);
+
+      await expect(
+        engine.applyPatch(jsonMerge({ content: '["zod"]' }), { rootDir: tempDir }),
+      ).rejects.toMatchObject({ code: "PATCH_JSON_INVALID" });
+    });
+
+    it("creates the file in non-strict mode when it does not exist", async () => {
+      const result = await engine.applyPatch(jsonMerge(), { rootDir: tempDir, strict: false });
+
+      expect(result.status).toBe("applied");
+      expect(await readFile(path.join(tempDir, "package.json"))).toBe(
+        '{\n  "dependencies": {\n    "zod": "^4.0.0"\n  }\n}\n',
+      );
+    });
+  });
+
+  // ===========================================================================
+  // Tests: yaml_merge
+  // ===========================================================================
+
+  describe("yaml_merge", () => {
+    const compose =
+      "# Local services\nservices:\n  api:\n    image: node:20 # pinned\n" +
+      '    environment:\n      PORT: "3000"\n';
+
+    function yamlMerge(overrides: Partial<YamlMergeOperation> = {}): YamlMergeOperation {
+      return {
+        file: "docker-compose.yml",
+        kind: "yaml_merge",
+        idempotencyKey: "add-debug",
+        content: 'DEBUG: "true"',
+        keyPath: "services.api.environment",
+        ...overrides,
+      };
+    }
+
+    it("merges the fragment at the key path keeping comments", async () => {
+      const targetFile = path.join(tempDir, "docker-compose.yml");
+      await writeFile(targetFile, compose);
+
+      const result = await engine.applyPatch(yamlMerge(), { rootDir: tempDir });
+
+      expect(result.status).toBe("applied");
+      expect(result.changedKeys).toEqual(["services.api.environment.DEBUG"]);
+      expect(await readFile(targetFile)).toBe(compose + '      DEBUG: "true"\n');
+    });
+
+    it("is idempotent without inserting a stamp", async () => {
+      const targetFile = path.join(tempDir, "docker-compose.yml");
+      await writeFile(targetFile, compose);
+
+      await engine.applyPatch(yamlMerge(), { rootDir: tempDir });
+      const afterFirst = await readFile(targetFile);
+      const result = await engine.applyPatch(yamlMerge(), { rootDir: tempDir });
+
+      expect(result.status).toBe("skipped");
+      expect(result.reason).toBe("already_applied");
+      expect(await readFile(targetFile)).toBe(afterFirst);
+      expect(afterFirst).not.toContain("SCAFFOLDIX_PATCH");
+    });
+
+    it("preserves CRLF line endings", async () => {
+      const targetFile = path.join(tempDir, "docker-compose.yml");
+      await writeFile(targetFile, compose.replace(/\n/g, "\r\n"));
+
+      await engine.applyPatch(yamlMerge(), { rootDir: tempDir });
+
+      expect(await readFile(targetFile)).toBe(
+        (compose + '      DEBUG: "true"\n').replace(/\n/g, "\r\n"),
+      );
+    });
+
+    it("throws PATCH_APPLY_FAILED for invalid YAML targets", async () => {
+      await writeFile(path.join(tempDir, "docker-compose.yml"), "services: [api\n");
+
+      await expect(engine.applyPatch(yamlMerge(), { rootDir: tempDir })).rejects.toMatchObject({
+        code: "PATCH_APPLY_FAILED",
+        details: { file: "docker-compose.yml", source: "target file" },
+      });
+    });
+
+    it("creates the file in non-strict mode when it does not exist", async () => {
+      const result = await engine.applyPatch(yamlMerge(), { rootDir: tempDir, strict: false });
+
+      expect(result.status).toBe("applied");
+      expect(await readFile(path.join(tempDir, "docker-compose.yml"))).toBe(
+        'services:\n  api:\n    environment:\n      DEBUG: "true"\n',
+      );
+    });
+  });
+
+  // ===========================================================================
+  // Tests: stamp comment syntax
+  // ===========================================================================
+
+  describe("stamp comment syntax", () => {
+    function append(
+      file: string,
+      overrides: Partial<AppendIfMissingOperation> = {},
+    ): AppendIfMissingOperation {
+      return {
+        file,
+        kind: "append_if_missing",
+        idempotencyKey: "add-entry",
+        content: "entry",
+        ...overrides,
+      };
+    }
+
+    it.each([
+      ["config.yml", "# SCAFFOLDIX_PATCH:add-entry\n"],
+      ["index.html", "<!-- SCAFFOLDIX_PATCH:add-entry -->\n"],
+      ["styles.css", "/* SCAFFOLDIX_PATCH:add-entry */\n"],
+      ["schema.sql", "-- SCAFFOLDIX_PATCH:add-entry\n"],
+      ["Dockerfile", "# SCAFFOLDIX_PATCH:add-entry\n"],
+      ["main.ts", "// SCAFFOLDIX_PATCH:add-entry\n"],
+    ])("stamps %s in its comment syntax", async (file, stamp) => {
+      await writeFile(path.join(tempDir, file), "start\n");
+
+      await engine.applyPatch(append(file), { rootDir: tempDir });
+
+      expect(await readFile(path.join(tempDir, file))).toBe(`start\n${stamp}entry\n`);
+    });
+
+    it("uses the style set on the patch", async () => {
+      const targetFile = path.join(tempDir, "hosts.conf.tpl");
+      await writeFile(targetFile, "start\n");
+
+      await engine.applyPatch(append("hosts.conf.tpl", { stamp: "#" }), { rootDir: tempDir });
+
+      expect(await readFile(targetFile)).toBe("start\n# SCAFFOLDIX_PATCH:add-entry\nentry\n");
+    });
+
+    it("stamps inserts and regex replacements in the file's syntax", async () => {
+      const targetFile = path.join(tempDir, "settings.py");
+      await writeFile(targetFile, "DEBUG = False\nINSTALLED_APPS = []\n");
+
+      const before: InsertBeforeOperation = {
+        file: "settings.py",
+        kind: "insert_before",
+        idempotencyKey: "add-import",
+        anchor: "DEBUG",
+        content: "import os",
+      };
+      const replace: RegexReplaceOperation = {
+        file: "settings.py",
+        kind: "regex_replace",
+        idempotencyKey: "enable-debug",
+        pattern: "DEBUG = False",
+        content: "DEBUG = True",
+      };
+      await engine.applyAll([before, replace], { rootDir: tempDir });
+
+      expect(await readFile(targetFile)).toBe(
+        "# SCAFFOLDIX_PATCH:add-import\nimport os\n" +
+          "# SCAFFOLDIX_PATCH:enable-debug\nDEBUG = True\nINSTALLED_APPS = []\n",
+      );
+    });
+
+    it("still detects stamps written with // in other file types", async () => {
+      const targetFile = path.join(tempDir, "config.yml");
+      const existing = "start\n// SCAFFOLDIX_PATCH:add-entry\nentry\n";
+      await writeFile(targetFile, existing);
+
+      const result = await engine.applyPatch(append("config.yml"), { rootDir: tempDir });
+
+      expect(result.status).toBe("skipped");
+      expect(await readFile(targetFile)).toBe(existing);
+    });
+
+    it("does not mistake a longer key's stamp for its own", async () => {
+      const targetFile = path.join(tempDir, "main.ts");
+      await writeFile(targetFile, "// SCAFFOLDIX_PATCH:add-entry-2\nother\n");
+
+      const result = await engine.applyPatch(append("main.ts"), { rootDir: tempDir });
+
+      expect(result.status).toBe("applied");
+    });
+
+    it("writes no stamp for stamp-less files and reports a content hash", async () => {
+      const targetFile = path.join(tempDir, "notes.txt");
+      await writeFile(targetFile, "start\n");
+
+      const result = await engine.applyPatch(append("notes.txt"), { rootDir: tempDir });
+
+      expect(result.status).toBe("applied");
+      expect(result.contentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(await readFile(targetFile)).toBe("start\nentry\n");
+    });
+
+    it("skips stamp-less patches whose content hash was recorded", async () => {
+      const targetFile = path.join(tempDir, "notes.txt");
+      await writeFile(targetFile, "start\nentry\n");
+      const op = append("notes.txt");
+
+      const options: PatchOptions = {
+        rootDir: tempDir,
+        appliedPatches: new Map([
+          [
+            "notes.txt#add-entry",
+            {
+              kind: "append_if_missing",
+              file: "notes.txt",
+              idempotencyKey: "add-entry",
+              contentHash: hashPatchContent("entry"),
+              generationId: "g",
+            },
+          ],
+        ]),
+      };
+      const unchanged = await engine.applyPatch(op, options);
+      const changed = await engine.applyPatch({ ...op, content: "other entry" }, options);
+
+      expect(unchanged).toMatchObject({ status: "skipped", reason: "already_applied" });
+      expect(changed.status).toBe("applied");
+      expect(await readFile(targetFile)).toBe("start\nentry\nother entry\n");
+    });
+
+    it("skips stamp-less files that already carry a legacy stamp", async () => {
+      const targetFile = path.join(tempDir, "notes.txt");
+      const existing = "start\n// SCAFFOLDIX_PATCH:add-entry\nentry\n";
+      await writeFile(targetFile, existing);
+
+      const result = await engine.applyPatch(append("notes.txt"), { rootDir: tempDir });
+
+      expect(result).toMatchObject({ status: "skipped", reason: "already_applied" });
+      expect(await readFile(targetFile)).toBe(existing);
+    });
+
+    it("reapplies stamp-less patches when the file no longer holds the content", async () => {
+      const targetFile = path.join(tempDir, "notes.txt");
+      await writeFile(targetFile, "start\n");
+
+      const result = await engine.applyPatch(append("notes.txt"), {
+        rootDir: tempDir,
+        appliedPatches: new Map([
+          [
+            "notes.txt#add-entry",
+            {
+              kind: "append_if_missing",
+              file: "notes.txt",
+              idempotencyKey: "add-entry",
+              contentHash: hashPatchContent("entry"),
+              generationId: "g",
+            },
+          ],
+        ]),
+      });
+
+      expect(result.status).toBe("applied");
+      expect(await readFile(targetFile)).toBe("start\nentry\n");
+    });
+  });
+
+  // ===========================================================================
+  // Tests: TypeScript operations
+  // ===========================================================================
+
+  describe("TypeScript operations", () => {
+    it("applies the edit once and reports the added entries", async () => {
+      const targetFile = path.join(tempDir, "src/routes.ts");
+      await writeFile(targetFile, "export const routes = [\r\n  home,\r\n];\r\n");
+
+      const op: TsAppendArrayElementOperation = {
+        file: "src/routes.ts",
+        kind: "ts_append_array_element",
+        idempotencyKey: "add-users-route",
+        target: "routes",
+        content: "users",
+      };
+      const first = await engine.applyPatch(op, { rootDir: tempDir });
+      const second = await engine.applyPatch(op, { rootDir: tempDir });
+
+      expect(first).toMatchObject({ status: "applied", changedKeys: ["users"] });
+      expect(second).toMatchObject({ status: "skipped", reason: "already_applied" });
+      expect(await readFile(targetFile)).toBe(
+        "export const routes = [\r\n  home,\r\n  users,\r\n];\r\n",
+      );
+    });
+
+    it("skips a missing target in non-strict mode", async () => {
+      await writeFile(path.join(tempDir, "routes.ts"), "export const paths = [];\n");
+
+      const result = await engine.applyPatch(
+        {
+          file: "routes.ts",
+          kind: "ts_append_array_element",
+          idempotencyKey: "add-users-route",
+          target: "routes",
+          content: "users",
+        },
+        { rootDir: tempDir, strict: false },
+      );
+
+      expect(result).toMatchObject({ status: "skipped", reason: "target_not_found" });
+    });
+
+    it("creates a missing file for imports in non-strict mode", async () => {
+      const op: TsAddImportOperation = {
+        file: "src/index.ts",
+        kind: "ts_add_import",
+        idempotencyKey: "import-users",
+        content: 'import { users } from "./users.js";',
+      };
+
+      const result = await engine.applyPatch(op, { rootDir: tempDir, strict: false });
+
+      expect(result.status).toBe("applied");
+      expect(await readFile(path.join(tempDir, "src/index.ts"))).toBe(
+        'import { users } from "./users.js";\n',
+      );
+    });
+  });
+
+  // ===========================================================================
+  // Tests: remove
+  // ===========================================================================
+
+  describe("remove", () => {
+    function remove(file: string, idempotencyKey: string): RemoveOperation {
+      return { file, kind: "remove", idempotencyKey };
+    }
+
+    /** Records applied results the way the project state does. */
+    function record(results: PatchApplyResult[]): Map<string, AppliedPatch> {
+      return new Map(
+        results.map((r) => [
+          `${r.file}#${r.idempotencyKey}`,
+          {
+            kind: r.kind,
+            file: r.file,
+            idempotencyKey: r.idempotencyKey,
+            lines: r.lines,
+            inserted: r.inserted,
+            generationId: "g",
+          },
+        ]),
+      );
+    }
+
+    it("reverts a marker_insert on the marker line", async () => {
+      const targetFile = path.join(tempDir, "routes.ts");
+      const original = "// <routes>\nconst a = 1;\n// </routes>\nexport {};\n";
+      await writeFile(targetFile, original);
+
+      const insert: MarkerInsertOperation = {
+        file: "routes.ts",
+        kind: "marker_insert",
+        idempotencyKey: "add-users",
+        markerStart: "// <routes>",
+        markerEnd: "// </routes>",
+        content: "router.use(users);\nrouter.use(admin);",
+      };
+      const applied = await engine.applyPatch(insert, { rootDir: tempDir });
+      expect(applied.lines).toBe(2);
+
+      const result = await engine.applyPatch(remove("routes.ts", "add-users"), {
+        rootDir: tempDir,
+        appliedPatches: record([applied]),
+      });
+
+      expect(result).toMatchObject({ status: "applied", kind: "remove" });
+      expect(await readFile(targetFile)).toBe(original);
+    });
+
+    it("reverts insert_before and insert_after", async () => {
+      const targetFile = path.join(tempDir, "settings.py");
+      const original = "DEBUG = False\nINSTALLED_APPS = []\n";
+      await writeFile(targetFile, original);
+
+      const before: InsertBeforeOperation = {
+        file: "settings.py",
+        kind: "insert_before",
+        idempotencyKey: "add-import",
+        anchor: "DEBUG",
+        content: "import os\nimport sys\n",
+      };
+      const after: InsertAfterOperation = {
+        file: "settings.py",
+        kind: "insert_after",
+        idempotencyKey: "add-app",
+        anchor: "INSTALLED_APPS = []",
+        content: "INSTALLED_APPS.append('users')",
+      };
+      const applied = await engine.applyAll([before, after], { rootDir: tempDir });
+      const appliedPatches = record(applied.results);
+
+      await engine.applyPatch(remove("settings.py", "add-import"), {
+        rootDir: tempDir,
+        appliedPatches,
+      });
+      await engine.applyPatch(remove("settings.py", "add-app"), {
+        rootDir: tempDir,
+        appliedPatches,
+      });
+
+      expect(await readFile(targetFile)).toBe(original);
+    });
+
+    it("reverts append_if_missing at the end of the file", async () => {
+      const targetFile = path.join(tempDir, "config.yml");
+      const original = "name: app\n";
+      await writeFile(targetFile, original);
+
+      const append: AppendIfMissingOperation = {
+        file: "config.yml",
+        kind: "append_if_missing",
+        idempotencyKey: "add-port",
+        content: "port: 3000",
+      };
+      const applied = await engine.applyPatch(append, { rootDir: tempDir });
+      await engine.applyPatch(remove("config.yml", "add-port"), {
+        rootDir: tempDir,
+        appliedPatches: record([applied]),
+      });
+
+      expect(await readFile(targetFile)).toBe(original);
+    });
+
+    it("reverts a marker_insert between markers on the same line byte for byte", async () => {
+      const targetFile = path.join(tempDir, "styles.css");
+      const original = "/* s */ /* e */\n";
+      await writeFile(targetFile, original);
+
+      const insert: MarkerInsertOperation = {
+        file: "styles.css",
+        kind: "marker_insert",
+        idempotencyKey: "add-rule",
+        markerStart: "/* s */",
+        markerEnd: "/* e */",
+        content: ".a {}",
+      };
+      const applied = await engine.applyPatch(insert, { rootDir: tempDir });
+      await engine.applyPatch(remove("styles.css", "add-rule"), {
+        rootDir: tempDir,
+        appliedPatches: record([applied]),
+      });
+
+      expect(await readFile(targetFile)).toBe(original);
+    });
+
+    it("reverts append_if_missing in a file without trailing newline byte for byte", async () => {
+      const targetFile = path.join(tempDir, "config.yml");
+      const original = "name: app";
+      await writeFile(targetFile, original);
+
+      const append: AppendIfMissingOperation = {
+        file: "config.yml",
+        kind: "append_if_missing",
+        idempotencyKey: "add-port",
+        content: "port: 3000",
+      };
+      const applied = await engine.applyPatch(append, { rootDir: tempDir });
+      await engine.applyPatch(remove("config.yml", "add-port"), {
+        rootDir: tempDir,
+        appliedPatches: record([applied]),
+      });
+
+      expect(await readFile(targetFile)).toBe(original);
+    });
+
+    it("reverts records that only have a line count", async () => {
+      const targetFile = path.join(tempDir, "config.yml");
+      await writeFile(targetFile, "name: app\n# SCAFFOLDIX_PATCH:add-port\nport: 3000\n");
+
+      await engine.applyPatch(remove("config.yml", "add-port"), {
+        rootDir: tempDir,
+        appliedPatches: new Map([
+          [
+            "config.yml#add-port",
+            {
+              kind: "append_if_missing",
+              file: "config.yml",
+              idempotencyKey: "add-port",
+              lines: 1,
+              generationId: "g",
+            },
+          ],
+        ]),
+      });
+
+      expect(await readFile(targetFile)).toBe("name: app\n");
+    });
+
+    it("refuses to revert a block edited since it was inserted", async () => {
+      const targetFile = path.join(tempDir, "config.yml");
+      await writeFile(targetFile, "name: app\n");
+
+      const append: AppendIfMissingOperation = {
+        file: "config.yml",
+        kind: "append_if_missing",
+        idempotencyKey: "add-port",
+        content: "port: 3000",
+      };
+      const applied = await engine.applyPatch(append, { rootDir: tempDir });
+      const edited = (await readFile(targetFile)).replace("3000", "8080");
+      await writeFile(targetFile, edited);
+
+      await expect(
+        engine.applyPatch(remove("config.yml", "add-port"), {
+          rootDir: tempDir,
+          appliedPatches: record([applied]),
+        }),
+      ).rejects.toMatchObject({ code: "PATCH_REVERT_MODIFIED" });
+      expect(await readFile(targetFile)).toBe(edited);
+    });
+
+    it("keeps other patches in the file", async () => {
+      const targetFile = path.join(tempDir, "main.ts");
+      await writeFile(targetFile, "start\n");
+
+      const first: AppendIfMissingOperation = {
+        file: "main.ts",
+        kind: "append_if_missing",
+        idempotencyKey: "first",
+        content: "one",
+      };
+      const second: AppendIfMissingOperation = {
+        ...first,
+        idempotencyKey: "second",
+        content: "two",
+      };
+      const applied = await engine.applyAll([first, second], { rootDir: tempDir });
+
+      await engine.applyPatch(remove("main.ts", "first"), {
+        rootDir: tempDir,
+        appliedPatches: record(applied.results),
+      });
+
+      expect(await readFile(targetFile)).toBe("start\n// SCAFFOLDIX_PATCH:second\ntwo\n");
+    });
+
+    it("skips patches whose stamp is not in the file", async () => {
+      const targetFile = path.join(tempDir, "main.ts");
+      await writeFile(targetFile, "start\n");
+
+      const result = await engine.applyPatch(remove("main.ts", "missing"), { rootDir: tempDir });
+
+      expect(result).toMatchObject({ status: "skipped", reason: "not_applied" });
+      expect(await readFile(targetFile)).toBe("start\n");
+    });
+
+    it("refuses to revert patches without a record", async () => {
+      const targetFile = path.join(tempDir, "main.ts");
+      await writeFile(targetFile, "// SCAFFOLDIX_PATCH:manual\nline\n");
+
+      await expect(
+        engine.applyPatch(remove("main.ts", "manual"), { rootDir: tempDir }),
+      ).rejects.toMatchObject({ code: "PATCH_REVERT_UNSUPPORTED" });
+    });
+
+    it("refuses to revert patches that replaced content", async () => {
+      const targetFile = path.join(tempDir, "main.ts");
+      await writeFile(targetFile, "const debug = false;\n");
+
+      const replace: RegexReplaceOperation = {
+        file: "main.ts",
+        kind: "regex_replace",
+        idempotencyKey: "enable-debug",
+        pattern: "false",
+        content: "true",
+      };
+      const applied = await engine.applyPatch(replace, { rootDir: tempDir });
+
+      await expect(
+        engine.applyPatch(remove("main.ts", "enable-debug"), {
+          rootDir: tempDir,
+          appliedPatches: record([applied]),
+        }),
+      ).rejects.toMatchObject({
+        code: "PATCH_REVERT_UNSUPPORTED",
+        details: expect.objectContaining({ kind: "regex_replace" }),
+      });
+    });
+  });
+
   // ===========================================================================
   // Tests: applyAll
   // ===========================================================================
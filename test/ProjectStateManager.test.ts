@@ -81,14 +81,14 @@ describe("ProjectStateManager", () => {
       const content = await fs.readFile(stateFile, "utf-8");
       const parsed = JSON.parse(content);
 
-      expect(parsed.schemaVersion).toBe(2);
+      expect(parsed.schemaVersion).toBe(3);
       expect(parsed.lastGeneration.packId).toBe("test-pack");
       expect(parsed.lastGeneration.packVersion).toBe("1.0.0");
       expect(parsed.lastGeneration.archetypeId).toBe("default");
       expect(parsed.lastGeneration.inputs).toEqual({ name: "MyEntity" });
 
       // Verify returned state
-      expect(result.schemaVersion).toBe(2);
+      expect(result.schemaVersion).toBe(3);
       expect(result.lastGeneration).toEqual(record);
     });
 
@@ -213,7 +213,7 @@ describe("ProjectStateManager", () => {
       const result = await manager.read(tempDir);
 
       expect(result).not.toBeNull();
-      expect(result!.schemaVersion).toBe(2);
+      expect(result!.schemaVersion).toBe(3);
       expect(result!.lastGeneration.packId).toBe("test-pack");
       expect(result!.lastGeneration.archetypeId).toBe("default");
     });
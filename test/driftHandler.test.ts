@@ -0,0 +1,205 @@
+/**
+ * Tests for the `drift` handler.
+ *
+ * Generates a project from a pack, then edits and deletes generated files
+ * and checks how each is reported.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import {
+  handleDrift,
+  formatDriftOutput,
+  formatDriftJson,
+} from "../src/cli/handlers/driftHandler.js";
+import { ProjectStateManager, type ProjectStateV3 } from "../src/core/state/ProjectStateManager.js";
+import { hashFileContent } from "../src/core/state/FileOwnership.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: drift-pack
+  version: "1.0.0"
+archetypes:
+  - id: service
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: users
+    patches:
+      - kind: append_if_missing
+        file: src/index.ts
+        idempotencyKey: export-service
+        contentTemplate: 'export * from "./{{name}}.service.js";'
+`;
+
+const FILES: Record<string, string> = {
+  "templates/src/__name__.service.ts": "export class {{name}}Service {}\n",
+  "templates/README.md": "# {{name}}\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-drift-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "drift-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  await fs.mkdir(path.join(targetDir, "src"), { recursive: true });
+  await fs.writeFile(path.join(targetDir, "src/index.ts"), "// exports\n");
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("handleDrift()", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate() {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleGenerate(
+      {
+        ref: "drift-pack:service",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        force: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("records rendered and patched files in the generation report", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+
+    await generate();
+
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    const index = await fs.readFile(path.join(targetDir, "src/index.ts"));
+    expect(state.generations[0].files).toEqual([
+      { path: "README.md", template: "README.md", hash: hashFileContent("# users\n") },
+      { path: "src/index.ts", hash: hashFileContent(index) },
+      {
+        path: "src/users.service.ts",
+        template: "src/__name__.service.ts",
+        hash: hashFileContent("export class usersService {}\n"),
+      },
+    ]);
+  });
+
+  it("reports unchanged, modified and deleted files", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate();
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    const generationId = state.generations[0].id;
+
+    await fs.appendFile(path.join(targetDir, "src/users.service.ts"), "// edited\n");
+    await fs.rm(path.join(targetDir, "README.md"));
+
+    const drift = await handleDrift({ targetDir });
+
+    expect(drift.summary).toEqual({ unchanged: 1, modified: 1, deleted: 1 });
+    expect(drift.files.map((f) => [f.path, f.status, f.generationId])).toEqual([
+      ["README.md", "deleted", generationId],
+      ["src/index.ts", "unchanged", generationId],
+      ["src/users.service.ts", "modified", generationId],
+    ]);
+    expect(formatDriftOutput(drift)).toEqual([
+      "STATUS     FILE                  TEMPLATE",
+      "-----------------------------------------",
+      "deleted    README.md             README.md",
+      "unchanged  src/index.ts          (patched)",
+      "modified   src/users.service.ts  src/__name__.service.ts",
+      "",
+      "3 generated file(s): 1 unchanged, 1 modified, 1 deleted",
+    ]);
+    expect(JSON.parse(formatDriftJson(drift))).toMatchObject({
+      targetDir,
+      summary: { unchanged: 1, modified: 1, deleted: 1 },
+    });
+  });
+
+  it("compares with the content of the latest generation", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate();
+    await fs.appendFile(path.join(targetDir, "src/users.service.ts"), "// edited\n");
+
+    await generate();
+
+    const drift = await handleDrift({ targetDir });
+    expect(drift.summary).toEqual({ unchanged: 3, modified: 0, deleted: 0 });
+  });
+
+  it("reports no files for a project without state", async () => {
+    const targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-drift-empty-"));
+    try {
+      const drift = await handleDrift({ targetDir });
+
+      expect(drift).toEqual({
+        targetDir,
+        files: [],
+        summary: { unchanged: 0, modified: 0, deleted: 0 },
+      });
+      expect(formatDriftOutput(drift)[0]).toBe(`No generated files are recorded in ${targetDir}.`);
+    } finally {
+      await fs.rm(targetDir, { recursive: true, force: true });
+    }
+  });
+});
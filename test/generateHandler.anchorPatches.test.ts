@@ -0,0 +1,190 @@
+/**
+ * Integration tests for anchor-based patches during generation.
+ *
+ * Tests that `insert_before`, `insert_after` and `regex_replace` patch a
+ * generated file that contains no Scaffoldix markers.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: anchor-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    inputs:
+      - name: portVar
+        type: string
+        default: PORT
+    patches:
+      - kind: insert_after
+        file: server.ts
+        idempotencyKey: import-helmet
+        anchor: "^import .+;$"
+        regex: true
+        occurrence: last
+        contentTemplate: 'import helmet from "helmet";'
+      - kind: insert_before
+        file: server.ts
+        idempotencyKey: use-helmet
+        anchor: "app.listen("
+        contentTemplate: "app.use(helmet());"
+      - kind: regex_replace
+        file: server.ts
+        idempotencyKey: env-port
+        pattern: "listen\\\\((\\\\d+)\\\\)"
+        contentTemplate: "listen(Number(process.env.{{portVar}} ?? $1))"
+  - id: missing-anchor
+    templateRoot: templates
+    patches:
+      - kind: insert_after
+        file: server.ts
+        idempotencyKey: close-hook
+        anchor: "app.close("
+        contentTemplate: "// unreachable"
+  - id: optional-anchor
+    templateRoot: templates
+    patches:
+      - kind: insert_after
+        file: server.ts
+        idempotencyKey: close-hook
+        anchor: "app.close("
+        strict: false
+        contentTemplate: "// unreachable"
+`;
+
+const SERVER = `import express from "express";
+import cors from "cors";
+
+const app = express();
+app.use(cors());
+app.listen(3000);
+`;
+
+const FILES: Record<string, string> = {
+  "templates/server.ts": SERVER,
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-anchor-patch-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "anchor-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with anchor-based patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(archetypeId = "default") {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: `anchor-pack:${archetypeId}`,
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("patches a generated file without markers", async () => {
+    await generate();
+
+    const server = await fs.readFile(path.join(workspace!.targetDir, "server.ts"), "utf-8");
+    expect(server).toBe(
+      [
+        'import express from "express";',
+        'import cors from "cors";',
+        "// SCAFFOLDIX_PATCH:import-helmet",
+        'import helmet from "helmet";',
+        "",
+        "const app = express();",
+        "app.use(cors());",
+        "// SCAFFOLDIX_PATCH:use-helmet",
+        "app.use(helmet());",
+        "// SCAFFOLDIX_PATCH:env-port",
+        "app.listen(Number(process.env.PORT ?? 3000));",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("aborts generation when an anchor is missing", async () => {
+    await expect(generate("missing-anchor")).rejects.toMatchObject({
+      code: "PATCH_APPLICATION_FAILED",
+      details: {
+        failedPatches: [expect.objectContaining({ reason: "Patch anchor not found in file" })],
+      },
+    });
+  });
+
+  it("leaves the file unchanged when a non-strict patch's anchor is missing", async () => {
+    const result = await generate("optional-anchor");
+
+    expect(result.patchReport).toMatchObject({ applied: 0, skipped: 1, failed: 0 });
+    expect(await fs.readFile(path.join(workspace!.targetDir, "server.ts"), "utf-8")).toBe(SERVER);
+  });
+});
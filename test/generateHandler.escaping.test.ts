@@ -0,0 +1,171 @@
+/**
+ * Integration tests for HTML escaping during generation.
+ *
+ * Tests that source files render unescaped by default, HTML files stay
+ * escaped, and pack/archetype `escapeHtml` settings apply consistently to
+ * templates, patches and dry-run previews.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const TEMPLATES: Record<string, string> = {
+  "src/types.ts": "export type Lookup = {{typeName}};\n",
+  "config.yaml": "title: {{title}}\n",
+  "public/index.html": "<h1>{{title}}</h1>\n",
+  "README.md": "# Project\n",
+};
+
+const PATCHES = `    patches:
+      - kind: append_if_missing
+        file: README.md
+        idempotencyKey: readme-title
+        contentTemplate: "Title: {{title}}"
+      - kind: append_if_missing
+        file: public/index.html
+        idempotencyKey: html-title
+        contentTemplate: "<p>{{title}}</p>"
+`;
+
+function createManifest(packSetting?: string, archetypeSetting?: string): string {
+  return `pack:
+  name: escape-pack
+  version: "1.0.0"
+${packSetting ? `scaffoldix:\n  escapeHtml: ${packSetting}\n` : ""}archetypes:
+  - id: default
+    templateRoot: templates/default
+${archetypeSetting ? `    escapeHtml: ${archetypeSetting}\n` : ""}${PATCHES}`;
+}
+
+async function createTestWorkspace(manifest: string): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-escape-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "escape-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), manifest);
+  for (const [relativePath, content] of Object.entries(TEMPLATES)) {
+    const filePath = path.join(packDir, "templates", "default", relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+const DATA = { typeName: "Map<string, A & B>", title: "Tom & Jerry <3" };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with HTML escaping policy", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(manifest: string, dryRun = false) {
+    workspace = await createTestWorkspace(manifest);
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      { ref: "escape-pack:default", targetDir, dryRun, data: DATA, nonInteractive: true },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  function read(relativePath: string): Promise<string> {
+    return fs.readFile(path.join(workspace!.targetDir, relativePath), "utf-8");
+  }
+
+  describe("default policy", () => {
+    beforeEach(async () => {
+      await generate(createManifest());
+    });
+
+    it("renders source and config files without escaping", async () => {
+      expect(await read("src/types.ts")).toBe("export type Lookup = Map<string, A & B>;\n");
+      expect(await read("config.yaml")).toBe("title: Tom & Jerry <3\n");
+    });
+
+    it("escapes HTML files", async () => {
+      expect(await read("public/index.html")).toContain("<h1>Tom &amp; Jerry &lt;3</h1>");
+    });
+
+    it("applies the same policy to patch content", async () => {
+      expect(await read("README.md")).toContain("Title: Tom & Jerry <3");
+      expect(await read("public/index.html")).toContain("<p>Tom &amp; Jerry &lt;3</p>");
+    });
+  });
+
+  it("pack-wide escapeHtml: true escapes every file", async () => {
+    await generate(createManifest("true"));
+
+    expect(await read("src/types.ts")).toBe("export type Lookup = Map&lt;string, A &amp; B&gt;;\n");
+    expect(await read("README.md")).toContain("Title: Tom &amp; Jerry &lt;3");
+  });
+
+  it("archetype glob rules override the pack setting", async () => {
+    await generate(createManifest("true", '{ include: ["**/*.yaml"] }'));
+
+    expect(await read("config.yaml")).toBe("title: Tom &amp; Jerry &lt;3\n");
+    expect(await read("src/types.ts")).toBe("export type Lookup = Map<string, A & B>;\n");
+    expect(await read("public/index.html")).toContain("<h1>Tom & Jerry <3</h1>");
+  });
+
+  it("dry-run preview renders with the same policy", async () => {
+    await generate(createManifest());
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+
+    // README.md is modified by the patch, so only compare template-only files
+    const result = await handleGenerate(
+      { ref: "escape-pack:default", targetDir, dryRun: true, data: DATA, nonInteractive: true },
+      { registryFile, packsDir, storeDir },
+    );
+
+    const noops = result.previewReport!.noops.map((f) => f.relativePath).sort();
+    expect(noops).toEqual(["config.yaml", "src/types.ts"]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Integration tests for generating into an existing project.
+ *
+ * Tests that patches apply to project files that the archetype does not
+ * render, that other project files are kept, and that a failed patch leaves
+ * the project untouched.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: feature-pack
+  version: "1.0.0"
+archetypes:
+  - id: module
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: billing
+    patches:
+      - kind: insert_after
+        file: src/app.ts
+        idempotencyKey: import-billing
+        anchor: "^import .+;$"
+        regex: true
+        occurrence: last
+        contentTemplate: 'import { {{name}}Module } from "./features/{{name}}.js";'
+      - kind: insert_before
+        file: src/app.ts
+        idempotencyKey: register-billing
+        anchor: "app.listen("
+        contentTemplate: "app.register({{name}}Module);"
+  - id: broken
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: billing
+    patches:
+      - kind: insert_after
+        file: src/app.ts
+        idempotencyKey: import-billing
+        anchor: "^import .+;$"
+        regex: true
+        contentTemplate: 'import { {{name}}Module } from "./features/{{name}}.js";'
+      - kind: insert_before
+        file: src/app.ts
+        idempotencyKey: register-billing
+        anchor: "server.start("
+        contentTemplate: "app.register({{name}}Module);"
+`;
+
+const FILES: Record<string, string> = {
+  "templates/src/features/__name__.ts": "export const {{name}}Module = {};\n",
+};
+
+const APP = `import express from "express";
+
+const app = express();
+app.listen(3000);
+`;
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), "scaffoldix-existing-project-test-"),
+  );
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "feature-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate into an existing project", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function createProject() {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await fs.mkdir(path.join(targetDir, "src"), { recursive: true });
+    await fs.writeFile(path.join(targetDir, "src/app.ts"), APP);
+    await fs.writeFile(path.join(targetDir, "package.json"), '{ "name": "service" }\n');
+    return targetDir;
+  }
+
+  async function generate(archetype: string) {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleGenerate(
+      {
+        ref: `feature-pack:${archetype}`,
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("patches existing files and keeps the rest of the project", async () => {
+    const targetDir = await createProject();
+
+    const result = await generate("module");
+
+    expect(result.patchReport).toMatchObject({ applied: 2, failed: 0 });
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(
+      'import express from "express";\n' +
+        "// SCAFFOLDIX_PATCH:import-billing\n" +
+        'import { billingModule } from "./features/billing.js";\n' +
+        "\nconst app = express();\n" +
+        "// SCAFFOLDIX_PATCH:register-billing\n" +
+        "app.register(billingModule);\n" +
+        "app.listen(3000);\n",
+    );
+    expect(await fs.readFile(path.join(targetDir, "src/features/billing.ts"), "utf-8")).toBe(
+      "export const billingModule = {};\n",
+    );
+    expect(await fs.readFile(path.join(targetDir, "package.json"), "utf-8")).toBe(
+      '{ "name": "service" }\n',
+    );
+  });
+
+  it("skips already applied patches when generating again", async () => {
+    const targetDir = await createProject();
+    await generate("module");
+    const afterFirst = await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8");
+
+    const { registryFile, packsDir, storeDir } = workspace!;
+    const result = await handleGenerate(
+      {
+        ref: "feature-pack:module",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        force: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+
+    expect(result.patchReport).toMatchObject({ applied: 0, skipped: 2 });
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(afterFirst);
+  });
+
+  it("leaves the project untouched when a patch fails", async () => {
+    const targetDir = await createProject();
+
+    await expect(generate("broken")).rejects.toMatchObject({ code: "PATCH_APPLICATION_FAILED" });
+
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(APP);
+    await expect(fs.access(path.join(targetDir, "src/features"))).rejects.toThrow();
+    await expect(fs.access(path.join(targetDir, ".scaffoldix"))).rejects.toThrow();
+  });
+});
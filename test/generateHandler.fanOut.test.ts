@@ -0,0 +1,190 @@
+/**
+ * Integration tests for fan-out templates during generation.
+ *
+ * Tests that a template declared in `fanOut:` renders once per list element,
+ * and that the expanded outputs drive the render plan, conflict detection
+ * and dry-run previews.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { GenerateConflictError } from "../src/core/conflicts/ConflictDetector.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+function createManifest(templates = '["src/__entity__.repository.ts.hbs"]'): string {
+  return `pack:
+  name: fanout-pack
+  version: "1.0.0"
+archetypes:
+  - id: crud
+    templateRoot: templates
+    inputs:
+      - name: projectName
+        type: string
+        default: shop
+      - name: entities
+        type: list
+    fanOut:
+      - templates: ${templates}
+        each: entities
+        as: entity
+`;
+}
+
+const TEMPLATES: Record<string, string> = {
+  "src/__entity__.repository.ts.hbs":
+    "// {{projectName}}\nexport class {{pascalCase name}}Repository {\n  table = '{{table}}';\n}\n",
+  "src/index.ts.hbs": "export {};\n",
+};
+
+async function createTestWorkspace(manifest = createManifest()): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-fanout-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "fanout-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), manifest);
+  for (const [relativePath, content] of Object.entries(TEMPLATES)) {
+    const filePath = path.join(packDir, "templates", relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+const ENTITIES = [
+  { name: "user", table: "users" },
+  { name: "order-item", table: "order_items" },
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with fan-out templates", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(data: Record<string, unknown>, options: { dryRun?: boolean } = {}) {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "fanout-pack:crud",
+        targetDir,
+        dryRun: options.dryRun ?? false,
+        data,
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  function read(relativePath: string): Promise<string> {
+    return fs.readFile(path.join(workspace!.targetDir, relativePath), "utf-8");
+  }
+
+  it("renders one file per list element with the element as context", async () => {
+    const result = await generate({ entities: ENTITIES });
+
+    expect(await read("src/user.repository.ts.hbs")).toBe(
+      "// shop\nexport class UserRepository {\n  table = 'users';\n}\n",
+    );
+    expect(await read("src/order-item.repository.ts.hbs")).toContain(
+      "export class OrderItemRepository",
+    );
+    expect(result.filesWritten.map((f) => f.destRelativePath).sort()).toEqual([
+      "src/index.ts.hbs",
+      "src/order-item.repository.ts.hbs",
+      "src/user.repository.ts.hbs",
+    ]);
+  });
+
+  it("accepts comma-separated string lists", async () => {
+    await generate({ entities: "invoice,customer" });
+
+    expect(await read("src/invoice.repository.ts.hbs")).toContain("export class Repository");
+    expect(await read("src/customer.repository.ts.hbs")).toBeDefined();
+  });
+
+  it("renders nothing for an empty list", async () => {
+    const result = await generate({ entities: [] });
+
+    expect(result.filesWritten.map((f) => f.destRelativePath)).toEqual(["src/index.ts.hbs"]);
+  });
+
+  it("lists every fan-out output in the dry-run preview", async () => {
+    const result = await generate({ entities: ENTITIES }, { dryRun: true });
+
+    const planned = result.previewReport!.creates.map((f) => f.relativePath).sort();
+    expect(planned).toEqual([
+      "src/index.ts.hbs",
+      "src/order-item.repository.ts.hbs",
+      "src/user.repository.ts.hbs",
+    ]);
+  });
+
+  it("detects conflicts on individual fan-out outputs", async () => {
+    workspace = await createTestWorkspace();
+    await fs.mkdir(path.join(workspace.targetDir, "src"), { recursive: true });
+    await fs.writeFile(path.join(workspace.targetDir, "src", "user.repository.ts.hbs"), "// mine");
+
+    const error = await generate({ entities: ENTITIES }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GenerateConflictError);
+    const conflicts = (error as GenerateConflictError).conflictReport.conflicts;
+    expect(conflicts.map((c) => c.relativePath)).toEqual(["src/user.repository.ts.hbs"]);
+  });
+
+  it("rejects fan-out templates whose outputs collide", async () => {
+    workspace = await createTestWorkspace(createManifest('["src/index.ts.hbs"]'));
+
+    await expect(generate({ entities: ENTITIES })).rejects.toMatchObject({
+      code: "RENDER_DUPLICATE_OUTPUT",
+    });
+  });
+});
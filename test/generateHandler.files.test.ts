@@ -0,0 +1,175 @@
+/**
+ * Integration tests for conditional file inclusion during generation.
+ *
+ * Tests that archetype `files:` rules keep skipped templates out of the
+ * render output, the dry-run preview and conflict detection.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { GenerateConflictError } from "../src/core/conflicts/ConflictDetector.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: files-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    inputs:
+      - name: includeTests
+        type: boolean
+        default: true
+    files:
+      - include: ["src/**/*.test.ts", "vitest.config.ts"]
+        when: { input: includeTests, equals: true }
+      - exclude: ["notes/**"]
+`;
+
+const TEMPLATES: Record<string, string> = {
+  "src/index.ts": "export const main = () => 1;\n",
+  "src/index.test.ts": "import { main } from './index';\n",
+  "vitest.config.ts": "export default {};\n",
+  "notes/todo.md": "- write docs\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-files-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "files-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(TEMPLATES)) {
+    const filePath = path.join(packDir, "templates", relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+/**
+ * Lists generated files, ignoring the project state directory.
+ */
+async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name === ".scaffoldix") {
+      continue;
+    }
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path.join(dir, entry.name), relativePath)));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with conditional file rules", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(data: Record<string, unknown>, options: { dryRun?: boolean } = {}) {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "files-pack:default",
+        targetDir,
+        dryRun: options.dryRun ?? false,
+        data,
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("generates conditional files when the condition holds", async () => {
+    await generate({ includeTests: true });
+
+    expect(await listFiles(workspace!.targetDir)).toEqual([
+      "src/index.test.ts",
+      "src/index.ts",
+      "vitest.config.ts",
+    ]);
+  });
+
+  it("skips conditional files when the condition does not hold", async () => {
+    await generate({ includeTests: false });
+
+    expect(await listFiles(workspace!.targetDir)).toEqual(["src/index.ts"]);
+  });
+
+  it("leaves skipped files out of the dry-run preview", async () => {
+    const result = await generate({ includeTests: false }, { dryRun: true });
+
+    const planned = result.previewReport!.allFiles.map((f) => f.relativePath);
+    expect(planned).toEqual(["src/index.ts"]);
+    expect(result.filesPlanned.map((f) => f.destRelativePath)).toEqual(["src/index.ts"]);
+  });
+
+  it("does not report conflicts for skipped files", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await fs.mkdir(path.join(targetDir, "src"), { recursive: true });
+    await fs.writeFile(path.join(targetDir, "src", "index.test.ts"), "// mine\n");
+    await fs.writeFile(path.join(targetDir, "src", "index.ts"), "// mine\n");
+
+    const error = await generate({ includeTests: false }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GenerateConflictError);
+    const conflicts = (error as GenerateConflictError).conflictReport.conflicts;
+    expect(conflicts.map((c) => c.relativePath)).toEqual(["src/index.ts"]);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Integration tests for generate handler input validation.
+ *
+ * Tests that the full manifest input schema (length, regex, range, integer,
+ * custom messages, `when` conditions) is enforced during generation in both
+ * --yes and interactive modes.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { createPromptRunner } from "../src/cli/prompts/PromptRunner.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: inputs-pack
+  version: "1.0.0"
+archetypes:
+  - id: service
+    templateRoot: templates/service
+    inputs:
+      - name: serviceName
+        type: string
+        required: true
+        minLength: 3
+        regex: "^[a-z][a-z0-9-]*$"
+        messages:
+          minLength: "Service name is too short"
+          regex: "Service name must be kebab-case"
+      - name: replicas
+        type: number
+        default: 1
+        min: 1
+        max: 5
+        integer: true
+        messages:
+          max: "At most 5 replicas are supported"
+          integer: "Replicas must be a whole number"
+      - name: useDatabase
+        type: boolean
+        default: false
+      - name: databaseName
+        type: string
+        required: true
+        when:
+          input: useDatabase
+          equals: true
+`;
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+  storeConfig: StoreServiceConfig;
+  logger: StoreLogger;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-inputs-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  // Author the pack
+  const packDir = path.join(workspaceDir, "inputs-pack");
+  await fs.mkdir(path.join(packDir, "templates", "service"), { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  await fs.writeFile(
+    path.join(packDir, "templates", "service", "README.md"),
+    "# {{serviceName}} x{{replicas}}{{#if databaseName}} db={{databaseName}}{{/if}}\n",
+  );
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  const logger = createTestLogger();
+
+  await handlePackAdd({ packPath: packDir, cwd: process.cwd() }, { storeConfig, logger });
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir, storeConfig, logger };
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with input validation", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>>;
+
+  beforeEach(async () => {
+    workspace = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+  });
+
+  function generate(data: Record<string, unknown>, extra: { prompt?: any } = {}) {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "inputs-pack:service",
+        targetDir,
+        dryRun: false,
+        data,
+        nonInteractive: extra.prompt === undefined,
+        prompt: extra.prompt,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  // ===========================================================================
+  // Non-interactive (--yes)
+  // ===========================================================================
+
+  describe("non-interactive mode", () => {
+    it("generates when all inputs satisfy their rules", async () => {
+      await generate({ serviceName: "billing", replicas: "3" });
+
+      const readme = await fs.readFile(path.join(workspace.targetDir, "README.md"), "utf-8");
+      expect(readme).toBe("# billing x3\n");
+    });
+
+    it("rejects regex violations with the pack's custom message", async () => {
+      await expect(generate({ serviceName: "Billing_Service" })).rejects.toMatchObject({
+        code: "INPUT_VALIDATION_FAILED",
+        message: "Service name must be kebab-case",
+      });
+    });
+
+    it("rejects minLength violations with the pack's custom message", async () => {
+      await expect(generate({ serviceName: "ab" })).rejects.toMatchObject({
+        code: "INPUT_VALIDATION_FAILED",
+        message: "Service name is too short",
+      });
+    });
+
+    it("rejects number range and integer violations", async () => {
+      await expect(generate({ serviceName: "billing", replicas: 9 })).rejects.toMatchObject({
+        code: "INPUT_VALIDATION_FAILED",
+        message: "At most 5 replicas are supported",
+      });
+
+      await expect(generate({ serviceName: "billing", replicas: 2.5 })).rejects.toMatchObject({
+        code: "INPUT_VALIDATION_FAILED",
+        message: "Replicas must be a whole number",
+      });
+    });
+
+    it("does not modify the target when validation fails", async () => {
+      await expect(generate({ serviceName: "X" })).rejects.toThrow();
+
+      expect(await pathExists(path.join(workspace.targetDir, "README.md"))).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // Conditional inputs
+  // ===========================================================================
+
+  describe("when conditions", () => {
+    it("skips a conditional required input when the condition is not met", async () => {
+      await generate({ serviceName: "billing", databaseName: "ignored" });
+
+      const state = JSON.parse(
+        await fs.readFile(path.join(workspace.targetDir, ".scaffoldix", "state.json"), "utf-8"),
+      );
+      expect(state.generations[0].inputs).not.toHaveProperty("databaseName");
+    });
+
+    it("enforces a conditional required input when the condition is met", async () => {
+      await expect(generate({ serviceName: "billing", useDatabase: "true" })).rejects.toMatchObject(
+        {
+          code: "MISSING_REQUIRED_INPUTS",
+          message: expect.stringContaining("databaseName"),
+        },
+      );
+    });
+
+    it("includes a conditional input when the condition is met", async () => {
+      await generate({ serviceName: "billing", useDatabase: true, databaseName: "orders" });
+
+      const readme = await fs.readFile(path.join(workspace.targetDir, "README.md"), "utf-8");
+      expect(readme).toBe("# billing x1 db=orders\n");
+    });
+  });
+
+  // ===========================================================================
+  // Interactive mode
+  // ===========================================================================
+
+  describe("interactive mode", () => {
+    it("re-prompts with custom messages until the value is valid", async () => {
+      const answers = ["Bad Name", "ok-service"];
+      const errors: string[] = [];
+      const prompt = createPromptRunner({
+        mockPromptFn: async () => answers.shift(),
+        onValidationError: (message) => errors.push(message),
+      });
+
+      await generate({}, { prompt });
+
+      expect(errors).toEqual(["Service name must be kebab-case"]);
+      const readme = await fs.readFile(path.join(workspace.targetDir, "README.md"), "utf-8");
+      expect(readme).toBe("# ok-service x1\n");
+    });
+
+    it("validates prompted values against the manifest rules", async () => {
+      const prompt = createPromptRunner({ mockResponses: { serviceName: "no" } });
+
+      await expect(generate({}, { prompt })).rejects.toMatchObject({
+        code: "INPUT_VALIDATION_FAILED",
+        message: "Service name is too short",
+      });
+    });
+  });
+});
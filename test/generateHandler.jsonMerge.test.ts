@@ -0,0 +1,157 @@
+/**
+ * Integration tests for `json_merge` patches during generation.
+ *
+ * Tests that a rendered JSON fragment is merged into a generated JSON file,
+ * and that the patch report and project state list the changed keys.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate, formatPatchReport } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: json-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    inputs:
+      - name: alias
+        type: string
+        default: "@app"
+    patches:
+      - kind: json_merge
+        file: package.json
+        idempotencyKey: add-zod
+        contentTemplate: '{ "dependencies": { "zod": "^4.0.0" }, "files": ["dist", "bin"] }'
+      - kind: json_merge
+        file: tsconfig.json
+        idempotencyKey: add-alias
+        path: patches/tsconfig-paths.json.hbs
+`;
+
+const FILES: Record<string, string> = {
+  "templates/package.json":
+    '{\n    "name": "app",\n    "files": ["dist"],\n    "dependencies": {\n        "commander": "^12.0.0"\n    }\n}\n',
+  "templates/tsconfig.json": '{\n  "compilerOptions": {\n    "strict": true\n  }\n}\n',
+  "patches/tsconfig-paths.json.hbs":
+    '{ "compilerOptions": { "paths": { "{{alias}}/*": ["src/*"] } } }\n',
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-json-merge-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "json-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with json_merge patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate() {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "json-pack:default",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("merges rendered fragments into generated JSON files", async () => {
+    await generate();
+
+    const packageJson = await fs.readFile(path.join(workspace!.targetDir, "package.json"), "utf-8");
+    expect(packageJson).toBe(
+      '{\n    "name": "app",\n    "files": [\n        "dist",\n        "bin"\n    ],\n' +
+        '    "dependencies": {\n        "commander": "^12.0.0",\n        "zod": "^4.0.0"\n    }\n}\n',
+    );
+
+    const tsconfig = JSON.parse(
+      await fs.readFile(path.join(workspace!.targetDir, "tsconfig.json"), "utf-8"),
+    );
+    expect(tsconfig.compilerOptions).toEqual({ strict: true, paths: { "@app/*": ["src/*"] } });
+  });
+
+  it("reports changed keys in the patch report and project state", async () => {
+    const result = await generate();
+
+    expect(result.patchReport!.entries.map((e) => e.changedKeys)).toEqual([
+      ["dependencies.zod", "files"],
+      ["compilerOptions.paths"],
+    ]);
+    expect(formatPatchReport(result.patchReport!)).toContain(
+      "    changed: dependencies.zod, files",
+    );
+
+    const state = JSON.parse(
+      await fs.readFile(path.join(workspace!.targetDir, ".scaffoldix", "state.json"), "utf-8"),
+    );
+    expect(state.generations.at(-1).patches.items[0].changedKeys).toEqual([
+      "dependencies.zod",
+      "files",
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Integration tests for patches that target several files.
+ *
+ * Tests that `file` globs and `files` lists expand against both rendered and
+ * existing project files, that each file is patched and reported on its own,
+ * and that targets matching no files fail strict patches.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: multi-pack
+  version: "1.0.0"
+archetypes:
+  - id: feature
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: users
+    patches:
+      - kind: append_if_missing
+        file: "src/**/*.controller.ts"
+        idempotencyKey: controller-license
+        contentTemplate: "// SPDX-License-Identifier: MIT"
+      - kind: ts_add_import
+        files:
+          - "services/*/src/main.ts"
+        idempotencyKey: tracing-import
+        contentTemplate: 'import "./tracing.js";'
+      - kind: append_if_missing
+        file: "docs/**/*.md"
+        idempotencyKey: docs-footer
+        contentTemplate: "Generated by Scaffoldix"
+        strict: false
+  - id: strict
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: "lib/**/*.ts"
+        idempotencyKey: lib-license
+        contentTemplate: "// SPDX-License-Identifier: MIT"
+`;
+
+const FILES: Record<string, string> = {
+  "templates/src/__name__/__name__.controller.ts": "export class {{name}}Controller {}\n",
+};
+
+const PROJECT: Record<string, string> = {
+  "src/orders/orders.controller.ts": "export class OrdersController {}\n",
+  "services/api/src/main.ts": 'import { start } from "./server.js";\n\nstart();\n',
+  "services/worker/src/main.ts": 'import { run } from "./worker.js";\n\nrun();\n',
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-multi-file-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "multi-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  for (const [relativePath, content] of Object.entries(PROJECT)) {
+    const filePath = path.join(targetDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with multi-file patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(archetype = "feature") {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleGenerate(
+      {
+        ref: `multi-pack:${archetype}`,
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        force: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("patches every rendered and existing file a target matches", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+
+    const result = await generate();
+
+    expect(result.patchReport).toMatchObject({ total: 5, applied: 4, skipped: 1, failed: 0 });
+    expect(result.patchReport!.entries.map((e) => [e.file, e.status, e.reason])).toEqual([
+      ["src/orders/orders.controller.ts", "applied", undefined],
+      ["src/users/users.controller.ts", "applied", undefined],
+      ["services/api/src/main.ts", "applied", undefined],
+      ["services/worker/src/main.ts", "applied", undefined],
+      ["docs/**/*.md", "skipped", "no matching files"],
+    ]);
+    for (const controller of ["src/orders/orders.controller.ts", "src/users/users.controller.ts"]) {
+      expect(await fs.readFile(path.join(targetDir, controller), "utf-8")).toContain(
+        "// SCAFFOLDIX_PATCH:controller-license\n// SPDX-License-Identifier: MIT\n",
+      );
+    }
+    expect(await fs.readFile(path.join(targetDir, "services/worker/src/main.ts"), "utf-8")).toBe(
+      'import { run } from "./worker.js";\nimport "./tracing.js";\n\nrun();\n',
+    );
+  });
+
+  it("skips each file on its own when generating again", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate();
+    const api = path.join(targetDir, "services/api/src/main.ts");
+    await fs.writeFile(api, PROJECT["services/api/src/main.ts"]);
+
+    const result = await generate();
+
+    // The rendered controller is written fresh, so only it and the restored file are patched
+    expect(
+      result.patchReport!.entries.filter((e) => e.status === "applied").map((e) => e.file),
+    ).toEqual(["src/users/users.controller.ts", "services/api/src/main.ts"]);
+    expect(result.patchReport).toMatchObject({ total: 5, applied: 2, skipped: 3, failed: 0 });
+    expect(await fs.readFile(api, "utf-8")).toContain('import "./tracing.js";');
+  });
+
+  it("fails a strict patch whose targets match no files", async () => {
+    workspace = await createTestWorkspace();
+
+    await expect(generate("strict")).rejects.toMatchObject({
+      code: "PATCH_TARGETS_NOT_FOUND",
+      details: expect.objectContaining({ patterns: ["lib/**/*.ts"], matches: [], minMatches: 1 }),
+    });
+  });
+});
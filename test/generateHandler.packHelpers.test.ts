@@ -0,0 +1,146 @@
+/**
+ * Integration tests for pack partials and helper modules during generation.
+ *
+ * Tests that templates, filename rename rules and patches can use a pack's
+ * own partials and helpers, and that helpers never leak between packs.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+function createPackFiles(packName: string, suffix: string): Record<string, string> {
+  return {
+    "archetype.yaml": `pack:
+  name: ${packName}
+  version: "1.0.0"
+scaffoldix:
+  partials: partials
+  helpers:
+    - helpers/naming.mjs
+archetypes:
+  - id: default
+    templateRoot: templates
+    rename:
+      __file__: "{{decorate name}}"
+    patches:
+      - kind: append_if_missing
+        file: README.md
+        idempotencyKey: readme-name
+        contentTemplate: "Name: {{decorate name}}"
+`,
+    "partials/header.hbs": "// generated by {{packLabel}}\n",
+    "helpers/naming.mjs": `export function decorate(value) { return String(value) + "${suffix}"; }\n`,
+    "templates/__file__.txt": "{{> header}}{{decorate name}}\n",
+    "templates/README.md": "# Readme\n",
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with pack partials and helpers", () => {
+  let workspaceDir: string | undefined;
+
+  afterEach(async () => {
+    if (workspaceDir) {
+      await fs.rm(workspaceDir, { recursive: true, force: true });
+      workspaceDir = undefined;
+    }
+  });
+
+  async function setup() {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-pack-helpers-test-"));
+    const storeDir = path.join(workspaceDir, "store");
+    const packsDir = path.join(storeDir, "packs");
+    const registryFile = path.join(storeDir, "registry.json");
+    await fs.mkdir(packsDir, { recursive: true });
+
+    const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+    for (const [packName, suffix] of [
+      ["alpha-pack", "-alpha"],
+      ["beta-pack", "-beta"],
+    ]) {
+      const packDir = path.join(workspaceDir, packName);
+      await writeFiles(packDir, createPackFiles(packName, suffix));
+      await handlePackAdd(
+        { packPath: packDir, cwd: process.cwd() },
+        { storeConfig, logger: createTestLogger() },
+      );
+    }
+
+    return { storeDir, packsDir, registryFile, root: workspaceDir };
+  }
+
+  it("uses pack partials and helpers in templates, filenames and patches", async () => {
+    const { storeDir, packsDir, registryFile, root } = await setup();
+    const targetDir = path.join(root, "alpha-out");
+
+    await handleGenerate(
+      {
+        ref: "alpha-pack:default",
+        targetDir,
+        dryRun: false,
+        data: { name: "demo", packLabel: "alpha" },
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+
+    const content = await fs.readFile(path.join(targetDir, "demo-alpha.txt"), "utf-8");
+    expect(content).toBe("// generated by alpha\ndemo-alpha\n");
+
+    const readme = await fs.readFile(path.join(targetDir, "README.md"), "utf-8");
+    expect(readme).toContain("Name: demo-alpha");
+  });
+
+  it("keeps same-named helpers isolated between packs", async () => {
+    const { storeDir, packsDir, registryFile, root } = await setup();
+
+    for (const packName of ["alpha-pack", "beta-pack"]) {
+      await handleGenerate(
+        {
+          ref: `${packName}:default`,
+          targetDir: path.join(root, `${packName}-out`),
+          dryRun: false,
+          data: { name: "demo", packLabel: packName },
+          nonInteractive: true,
+        },
+        { registryFile, packsDir, storeDir },
+      );
+    }
+
+    const alpha = await fs.readFile(path.join(root, "alpha-pack-out", "demo-alpha.txt"), "utf-8");
+    const beta = await fs.readFile(path.join(root, "beta-pack-out", "demo-beta.txt"), "utf-8");
+    expect(alpha).toContain("demo-alpha");
+    expect(beta).toContain("demo-beta");
+  });
+});
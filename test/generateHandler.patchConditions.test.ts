@@ -0,0 +1,163 @@
+/**
+ * Integration tests for `when` conditions on patches during generation.
+ *
+ * Tests that patches whose condition is false are skipped with reason
+ * `condition not met` in the patch report and the project state.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate, formatPatchReport } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: when-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    inputs:
+      - name: enableLogging
+        type: boolean
+        default: true
+      - name: database
+        type: enum
+        options: [postgres, mysql, sqlite]
+        default: sqlite
+    patches:
+      - kind: append_if_missing
+        file: config.txt
+        idempotencyKey: logging
+        when: "enableLogging"
+        contentTemplate: "logging=on"
+      - kind: append_if_missing
+        file: config.txt
+        idempotencyKey: db-pool
+        when: "database in ['postgres', 'mysql']"
+        contentTemplate: "pool={{database}}"
+      - kind: append_if_missing
+        file: config.txt
+        idempotencyKey: no-logging
+        when: "!enableLogging"
+        contentTemplate: "logging=off"
+`;
+
+const FILES: Record<string, string> = {
+  "templates/config.txt": "# config\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-patch-when-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "when-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with conditional patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(data: Record<string, unknown>) {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "when-pack:default",
+        targetDir,
+        dryRun: false,
+        data,
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("applies only patches whose condition holds", async () => {
+    await generate({ database: "postgres" });
+
+    const config = await fs.readFile(path.join(workspace!.targetDir, "config.txt"), "utf-8");
+    expect(config).toContain("logging=on");
+    expect(config).toContain("pool=postgres");
+    expect(config).not.toContain("logging=off");
+  });
+
+  it("reports skipped patches in manifest order", async () => {
+    const result = await generate({ enableLogging: false });
+
+    expect(result.patchReport).toMatchObject({ total: 3, applied: 1, skipped: 2, failed: 0 });
+    expect(result.patchReport!.entries.map((e) => [e.idempotencyKey, e.status, e.reason])).toEqual([
+      ["logging", "skipped", "condition not met"],
+      ["db-pool", "skipped", "condition not met"],
+      ["no-logging", "applied", undefined],
+    ]);
+    expect(formatPatchReport(result.patchReport!)).toContain("(logging) (condition not met)");
+  });
+
+  it("records condition skips in the project state", async () => {
+    await generate({});
+
+    const state = JSON.parse(
+      await fs.readFile(path.join(workspace!.targetDir, ".scaffoldix", "state.json"), "utf-8"),
+    );
+    expect(state.generations.at(-1).patches.items[1]).toMatchObject({
+      idempotencyKey: "db-pool",
+      status: "skipped",
+      reason: "condition not met",
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Integration tests for patch stamps during generation.
+ *
+ * Tests that stamps use the comment syntax of the target file, and that
+ * stamp-less patches record a content hash in the project state.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: stamp-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    patches:
+      - kind: append_if_missing
+        file: config.yml
+        idempotencyKey: add-debug
+        contentTemplate: "debug: true"
+      - kind: marker_insert
+        file: index.html
+        idempotencyKey: add-script
+        markerStart: "<!-- scripts:start -->"
+        markerEnd: "<!-- scripts:end -->"
+        contentTemplate: '<script src="app.js"></script>'
+      - kind: append_if_missing
+        file: hosts.tpl
+        idempotencyKey: add-host
+        stamp: "#"
+        contentTemplate: "127.0.0.1 app"
+      - kind: append_if_missing
+        file: notes.txt
+        idempotencyKey: add-note
+        contentTemplate: "remember the milk"
+`;
+
+const FILES: Record<string, string> = {
+  "templates/config.yml": "name: app\n",
+  "templates/index.html": "<body>\n<!-- scripts:start -->\n<!-- scripts:end -->\n</body>\n",
+  "templates/hosts.tpl": "# hosts\n",
+  "templates/notes.txt": "Notes\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-patch-stamp-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "stamp-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with comment-syntax-aware stamps", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(force?: boolean) {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "stamp-pack:default",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        force,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  async function readTarget(file: string): Promise<string> {
+    return fs.readFile(path.join(workspace!.targetDir, file), "utf-8");
+  }
+
+  it("writes stamps in each file's comment syntax", async () => {
+    await generate();
+
+    expect(await readTarget("config.yml")).toBe(
+      "name: app\n# SCAFFOLDIX_PATCH:add-debug\ndebug: true\n",
+    );
+    expect(await readTarget("index.html")).toContain(
+      '<!-- SCAFFOLDIX_PATCH:add-script -->\n<script src="app.js"></script>',
+    );
+    expect(await readTarget("hosts.tpl")).toBe(
+      "# hosts\n# SCAFFOLDIX_PATCH:add-host\n127.0.0.1 app\n",
+    );
+    expect(await readTarget("notes.txt")).toBe("Notes\nremember the milk\n");
+  });
+
+  it("records content hashes of stamp-less patches in the project state", async () => {
+    await generate();
+
+    const state = JSON.parse(await readTarget(".scaffoldix/state.json"));
+    const items = state.generations.at(-1).patches.items;
+    expect(items[3]).toMatchObject({ idempotencyKey: "add-note", status: "applied" });
+    expect(items[3].contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(items[0].contentHash).toBeUndefined();
+  });
+
+  it("patches re-rendered stamp-less files once on regeneration", async () => {
+    await generate();
+    const result = await generate(true);
+
+    expect(result.patchReport!.entries[3].status).toBe("applied");
+    expect(await readTarget("notes.txt")).toBe("Notes\nremember the milk\n");
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Integration tests for filename rename rules derived from inputs.
+ *
+ * Tests that `__inputName__` placeholders, case variants and the manifest
+ * `rename:` section resolve consistently in rendering, dry-run preview and
+ * conflict detection.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { GenerateConflictError } from "../src/core/conflicts/ConflictDetector.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: rename-pack
+  version: "1.0.0"
+archetypes:
+  - id: module
+    templateRoot: templates/module
+    inputs:
+      - name: moduleName
+        type: string
+        required: true
+    rename:
+      __Test__: "{{moduleName}}.spec"
+`;
+
+const TEMPLATES: Record<string, string> = {
+  "src/__moduleName__.ts": "export const {{moduleName}} = 1;\n",
+  "src/__moduleName_pascal__Service.ts": "export class Service {}\n",
+  "docs/__moduleName_kebab__/README.md": "# {{moduleName}}\n",
+  "test/__Test__.ts": "// test\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-rename-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "rename-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(TEMPLATES)) {
+    const filePath = path.join(packDir, "templates", "module", relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const EXPECTED_PATHS = [
+  "docs/user-profile/README.md",
+  "src/UserProfileService.ts",
+  "src/userProfile.ts",
+  "test/userProfile.spec.ts",
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with derived rename rules", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>>;
+
+  beforeEach(async () => {
+    workspace = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+  });
+
+  function generate(options: { dryRun?: boolean; force?: boolean } = {}) {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "rename-pack:module",
+        targetDir,
+        dryRun: options.dryRun ?? false,
+        force: options.force,
+        data: { moduleName: "userProfile" },
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("resolves input placeholders, case variants and manifest rules when rendering", async () => {
+    const result = await generate();
+
+    const written = result.filesWritten.map((f) => f.destRelativePath).sort();
+    expect(written).toEqual(EXPECTED_PATHS);
+
+    for (const relativePath of EXPECTED_PATHS) {
+      expect(await pathExists(path.join(workspace.targetDir, relativePath))).toBe(true);
+    }
+    const content = await fs.readFile(
+      path.join(workspace.targetDir, "src", "userProfile.ts"),
+      "utf-8",
+    );
+    expect(content).toBe("export const userProfile = 1;\n");
+  });
+
+  it("uses the same paths in the dry-run preview", async () => {
+    const result = await generate({ dryRun: true });
+
+    const planned = result.previewReport!.allFiles.map((f) => f.relativePath).sort();
+    expect(planned).toEqual(EXPECTED_PATHS);
+    expect(await pathExists(workspace.targetDir)).toBe(false);
+  });
+
+  it("detects conflicts against the renamed paths", async () => {
+    await fs.mkdir(path.join(workspace.targetDir, "src"), { recursive: true });
+    await fs.writeFile(path.join(workspace.targetDir, "src", "UserProfileService.ts"), "existing");
+
+    const error = await generate().catch((err) => err);
+
+    expect(error).toBeInstanceOf(GenerateConflictError);
+    expect(
+      (error as GenerateConflictError).conflictReport.conflicts.map((c) => c.relativePath),
+    ).toEqual(["src/UserProfileService.ts"]);
+  });
+});
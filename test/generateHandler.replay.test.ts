@@ -0,0 +1,181 @@
+/**
+ * Tests for replaying recorded generations (`generate --replay`).
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate, resolveReplay } from "../src/cli/handlers/generateHandler.js";
+import { ProjectStateManager, type ProjectStateV3 } from "../src/core/state/ProjectStateManager.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+function packFiles(version: string, template: string): Record<string, string> {
+  return {
+    "archetype.yaml": `pack:
+  name: replay-pack
+  version: "${version}"
+archetypes:
+  - id: entity
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        required: true
+      - name: table
+        type: string
+        required: true
+`,
+    "templates/__name__.ts": template,
+  };
+}
+
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(dir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-replay-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  for (const [version, template] of [
+    ["1.0.0", "// {{name}} in {{table}} (buggy)\n"],
+    ["1.0.1", "// {{name}} in {{table}}\n"],
+  ]) {
+    const packDir = path.join(workspaceDir, `pack-${version}`);
+    await writeFiles(packDir, packFiles(version, template));
+    await handlePackAdd(
+      { packPath: packDir, cwd: process.cwd() },
+      { storeConfig, logger: createTestLogger() },
+    );
+  }
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("generate --replay", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generateFirst(): Promise<string> {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    await handleGenerate(
+      {
+        ref: "replay-pack@1.0.0:entity",
+        targetDir,
+        dryRun: false,
+        data: { name: "User", table: "users" },
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    return state.generations[0].id;
+  }
+
+  it("resolves the recorded pack, archetype, version and inputs", async () => {
+    workspace = await createTestWorkspace();
+    const generationId = await generateFirst();
+
+    const plan = await resolveReplay({ generation: "last", targetDir: workspace.targetDir });
+
+    expect(plan).toMatchObject({
+      ref: "replay-pack:entity",
+      version: "1.0.0",
+      data: { name: "User", table: "users" },
+    });
+    expect(plan.generation.id).toBe(generationId);
+  });
+
+  it("applies a different version and input overrides", async () => {
+    workspace = await createTestWorkspace();
+    const generationId = await generateFirst();
+
+    const plan = await resolveReplay({
+      generation: generationId.slice(0, 8),
+      targetDir: workspace.targetDir,
+      version: "1.0.1",
+      overrides: { table: "accounts" },
+    });
+
+    expect(plan).toMatchObject({
+      version: "1.0.1",
+      data: { name: "User", table: "accounts" },
+    });
+  });
+
+  it("regenerates with the recorded inputs against the fixed version", async () => {
+    workspace = await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    await generateFirst();
+
+    const plan = await resolveReplay({ generation: "last", targetDir, version: "^1.0.1" });
+    const result = await handleGenerate(
+      { ...plan, targetDir, dryRun: false, force: true, nonInteractive: true },
+      { registryFile, packsDir, storeDir },
+    );
+
+    expect(result.filesWritten.map((f) => f.destRelativePath)).toEqual(["User.ts"]);
+    expect(await fs.readFile(path.join(targetDir, "User.ts"), "utf-8")).toBe("// User in users\n");
+
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    expect(state.generations[1]).toMatchObject({
+      packId: "replay-pack",
+      packVersion: "1.0.1",
+      archetypeId: "entity",
+      inputs: { name: "User", table: "users" },
+    });
+  });
+
+  it("rejects an unknown generation", async () => {
+    workspace = await createTestWorkspace();
+    await generateFirst();
+
+    await expect(
+      resolveReplay({ generation: "no-such-id", targetDir: workspace.targetDir }),
+    ).rejects.toMatchObject({ code: "GENERATION_NOT_FOUND" });
+  });
+});
@@ -246,7 +246,7 @@ describe("generateHandler - generation report persistence", () => {
       const state = (await stateManager.read(workspace.targetDir)) as ProjectStateV2;
 
       expect(state).not.toBeNull();
-      expect(state.schemaVersion).toBe(2);
+      expect(state.schemaVersion).toBe(3);
       expect(state.generations).toHaveLength(1);
 
       const gen = state.generations[0];
@@ -0,0 +1,189 @@
+/**
+ * Integration tests for strict template mode during generation.
+ *
+ * Tests that `--strict`, `scaffoldix.strict` and archetype `strict` turn
+ * missing template variables into positioned TEMPLATE_RENDER_FAILED errors,
+ * for both templates and patch content.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+interface ManifestOptions {
+  packStrict?: boolean;
+  archetypeStrict?: boolean;
+  patchContent?: string;
+}
+
+function createManifest(options: ManifestOptions = {}): string {
+  const lines = ["pack:", "  name: strict-pack", '  version: "1.0.0"'];
+  if (options.packStrict !== undefined) {
+    lines.push("scaffoldix:", `  strict: ${options.packStrict}`);
+  }
+  lines.push(
+    "archetypes:",
+    "  - id: default",
+    "    templateRoot: templates",
+    "    inputs:",
+    "      - name: name",
+    "        type: string",
+    "        default: api",
+  );
+  if (options.archetypeStrict !== undefined) {
+    lines.push(`    strict: ${options.archetypeStrict}`);
+  }
+  if (options.patchContent !== undefined) {
+    lines.push(
+      "    patches:",
+      "      - kind: append_if_missing",
+      "        file: src/index.ts",
+      "        idempotencyKey: strict-append",
+      `        contentTemplate: ${JSON.stringify(options.patchContent)}`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+async function createTestWorkspace(
+  manifest: string,
+  indexTemplate = "export const name = '{{name}}';\nexport const port = {{port}};\n",
+): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-strict-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "strict-pack");
+  await fs.mkdir(path.join(packDir, "templates", "src"), { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), manifest);
+  await fs.writeFile(path.join(packDir, "templates", "src", "index.ts"), indexTemplate);
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate in strict template mode", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(options: { strict?: boolean } = {}) {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleGenerate(
+      {
+        ref: "strict-pack:default",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        strict: options.strict,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("renders missing variables as empty strings by default", async () => {
+    workspace = await createTestWorkspace(createManifest());
+
+    await generate();
+
+    const content = await fs.readFile(path.join(workspace.targetDir, "src/index.ts"), "utf-8");
+    expect(content).toBe("export const name = 'api';\nexport const port = ;\n");
+  });
+
+  it("fails with the template position when --strict is set", async () => {
+    workspace = await createTestWorkspace(createManifest());
+
+    const error = await generate({ strict: true }).catch((e) => e);
+
+    expect(error).toMatchObject({
+      code: "TEMPLATE_RENDER_FAILED",
+      details: {
+        file: "src/index.ts",
+        line: 2,
+        column: 23,
+        availableInputs: ["name"],
+      },
+    });
+    await expect(fs.access(path.join(workspace.targetDir, "src/index.ts"))).rejects.toThrow();
+  });
+
+  it("enables strict mode from the pack-wide setting", async () => {
+    workspace = await createTestWorkspace(createManifest({ packStrict: true }));
+
+    await expect(generate()).rejects.toMatchObject({ code: "TEMPLATE_RENDER_FAILED" });
+  });
+
+  it("lets the archetype setting override the pack-wide one", async () => {
+    workspace = await createTestWorkspace(
+      createManifest({ packStrict: true, archetypeStrict: false }),
+    );
+
+    await expect(generate()).resolves.toBeDefined();
+  });
+
+  it("applies strict mode to patch content", async () => {
+    workspace = await createTestWorkspace(
+      createManifest({ archetypeStrict: true, patchContent: "// {{nmae}}\n" }),
+      "export const name = '{{name}}';\n",
+    );
+
+    await expect(generate()).rejects.toMatchObject({
+      code: "TEMPLATE_RENDER_FAILED",
+      details: { file: "patches[0].contentTemplate", line: 1 },
+    });
+  });
+
+  it("reports template syntax errors with their position", async () => {
+    workspace = await createTestWorkspace(createManifest(), "ok\n{{#if name}}\n{{/each}}\n");
+
+    await expect(generate()).rejects.toMatchObject({
+      code: "TEMPLATE_SYNTAX_ERROR",
+      details: { file: "src/index.ts", line: 2 },
+    });
+  });
+});
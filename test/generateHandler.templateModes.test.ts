@@ -0,0 +1,183 @@
+/**
+ * Integration tests for verbatim copies and custom delimiters during generation.
+ *
+ * Tests that `copy:` files are written byte-for-byte, `delimiters:` files
+ * render with their own delimiters, and that the render plan, dry-run
+ * preview and generation result agree on each file's mode.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { computeRenderPlan } from "../src/core/render/Renderer.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: modes-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: user-card
+    copy: [".github/workflows/**"]
+    delimiters:
+      - files: ["src/**/*.vue"]
+        open: "[["
+        close: "]]"
+`;
+
+const WORKFLOW = "on: push\njobs:\n  build:\n    env:\n      TOKEN: ${{ secrets.TOKEN }}\n";
+
+const TEMPLATES: Record<string, string> = {
+  ".github/workflows/ci.yml": WORKFLOW,
+  "src/__name__.vue": "<template><p>{{ message }}</p></template>\n<!-- [[pascalCase name]] -->\n",
+  "src/index.ts": "export const name = '{{name}}';\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-modes-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "modes-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(TEMPLATES)) {
+    const filePath = path.join(packDir, "templates", relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with verbatim copies and custom delimiters", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(options: { dryRun?: boolean } = {}) {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "modes-pack:default",
+        targetDir,
+        dryRun: options.dryRun ?? false,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  function read(relativePath: string): Promise<string> {
+    return fs.readFile(path.join(workspace!.targetDir, relativePath), "utf-8");
+  }
+
+  it("copies verbatim files and renders custom-delimiter files", async () => {
+    const result = await generate();
+
+    expect(await read(".github/workflows/ci.yml")).toBe(WORKFLOW);
+    expect(await read("src/user-card.vue")).toBe(
+      "<template><p>{{ message }}</p></template>\n<!-- UserCard -->\n",
+    );
+    expect(await read("src/index.ts")).toBe("export const name = 'user-card';\n");
+
+    const modes = Object.fromEntries(result.filesWritten.map((f) => [f.destRelativePath, f.mode]));
+    expect(modes).toEqual({
+      ".github/workflows/ci.yml": "copied",
+      "src/user-card.vue": "rendered",
+      "src/index.ts": "rendered",
+    });
+  });
+
+  it("reports the same modes in the dry-run preview", async () => {
+    const result = await generate({ dryRun: true });
+
+    const modes = Object.fromEntries(
+      result.previewReport!.allFiles.map((f) => [f.relativePath, f.mode]),
+    );
+    expect(modes).toEqual({
+      ".github/workflows/ci.yml": "copied",
+      "src/user-card.vue": "rendered",
+      "src/index.ts": "rendered",
+    });
+    expect(result.filesPlanned.find((f) => f.srcRelativePath.endsWith("ci.yml"))?.mode).toBe(
+      "copied",
+    );
+  });
+
+  it("previews unchanged verbatim and custom-delimiter files as NOOP", async () => {
+    await generate();
+
+    const result = await generate({ dryRun: true });
+
+    expect(result.previewReport!.noops.map((f) => f.relativePath).sort()).toEqual([
+      ".github/workflows/ci.yml",
+      "src/index.ts",
+      "src/user-card.vue",
+    ]);
+  });
+
+  it("reports file modes in the render plan", async () => {
+    workspace = await createTestWorkspace();
+    const templateDir = path.join(workspace.workspaceDir, "modes-pack", "templates");
+
+    const plan = await computeRenderPlan({
+      templateDir,
+      templateModes: { copy: [".github/workflows/**"] },
+    });
+
+    const modes = Object.fromEntries(plan.files.map((f) => [f.destRelativePath, f.mode]));
+    expect(modes[".github/workflows/ci.yml"]).toBe("copied");
+    expect(modes["src/index.ts"]).toBe("rendered");
+  });
+});
@@ -184,6 +184,26 @@ describe("generateHandler", () => {
       expect(result).toEqual({ packId: "@org/my-pack", archetypeId: "component" });
     });
 
+    it("parses pack@version:archetype refs", () => {
+      expect(parseArchetypeRef("my-pack@1.2.0:default")).toEqual({
+        packId: "my-pack",
+        archetypeId: "default",
+        version: "1.2.0",
+      });
+    });
+
+    it("parses versions on scoped package names", () => {
+      expect(parseArchetypeRef("@org/my-pack@^1.2:component")).toEqual({
+        packId: "@org/my-pack",
+        archetypeId: "component",
+        version: "^1.2",
+      });
+    });
+
+    it("throws on empty version", () => {
+      expect(() => parseArchetypeRef("my-pack@:default")).toThrow(/missing pack version/);
+    });
+
     it("throws on missing colon", () => {
       expect(() => parseArchetypeRef("my-pack-default")).toThrow();
     });
@@ -922,7 +942,7 @@ archetypes:
       const stateContent = await readFile(stateFile);
       const state = JSON.parse(stateContent);
 
-      expect(state.schemaVersion).toBe(2);
+      expect(state.schemaVersion).toBe(3);
       expect(state.lastGeneration.packId).toBe("state-pack");
       expect(state.lastGeneration.packVersion).toBe("1.2.3");
       expect(state.lastGeneration.archetypeId).toBe("entity");
@@ -0,0 +1,199 @@
+/**
+ * Integration tests for TypeScript-aware patches.
+ *
+ * Tests that a feature archetype wires a module into an existing TypeScript
+ * project through imports, exports, array elements and object properties,
+ * and that generating again changes nothing.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: ts-pack
+  version: "1.0.0"
+archetypes:
+  - id: feature
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: users
+    patches:
+      - kind: ts_add_import
+        file: src/app.module.ts
+        idempotencyKey: import-feature
+        contentTemplate: 'import { {{name}}Module } from "./{{name}}/{{name}}.module.js";'
+      - kind: ts_append_array_element
+        file: src/app.module.ts
+        idempotencyKey: register-feature
+        target: AppModule.imports
+        contentTemplate: "{{name}}Module"
+      - kind: ts_add_object_property
+        file: src/config.ts
+        idempotencyKey: feature-config
+        target: config.features
+        contentTemplate: "{{name}}: { enabled: true }"
+      - kind: ts_add_export
+        file: src/index.ts
+        idempotencyKey: export-feature
+        contentTemplate: 'export * from "./{{name}}/{{name}}.module.js";'
+`;
+
+const FILES: Record<string, string> = {
+  "templates/src/__name__/__name__.module.ts": "export const {{name}}Module = {};\n",
+};
+
+const APP_MODULE = `import { Module } from "@nestjs/common";
+import { DbModule } from "./db/db.module.js";
+
+@Module({
+  imports: [
+    DbModule, // database
+  ],
+})
+export class AppModule {}
+`;
+
+const CONFIG = `export const config = {
+  port: 3000,
+  features: {},
+};
+`;
+
+const INDEX = `export * from "./db/db.module.js";
+`;
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-ts-patch-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "ts-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  await fs.mkdir(path.join(targetDir, "src"), { recursive: true });
+  await fs.writeFile(path.join(targetDir, "src/app.module.ts"), APP_MODULE);
+  await fs.writeFile(path.join(targetDir, "src/config.ts"), CONFIG);
+  await fs.writeFile(path.join(targetDir, "src/index.ts"), INDEX);
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with TypeScript patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate() {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleGenerate(
+      {
+        ref: "ts-pack:feature",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        force: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("edits the project through its syntax tree", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+
+    const result = await generate();
+
+    expect(result.patchReport).toMatchObject({ applied: 4, skipped: 0, failed: 0 });
+    expect(await fs.readFile(path.join(targetDir, "src/app.module.ts"), "utf-8")).toBe(
+      `import { Module } from "@nestjs/common";
+import { DbModule } from "./db/db.module.js";
+import { usersModule } from "./users/users.module.js";
+
+@Module({
+  imports: [
+    DbModule, // database
+    usersModule,
+  ],
+})
+export class AppModule {}
+`,
+    );
+    expect(await fs.readFile(path.join(targetDir, "src/config.ts"), "utf-8")).toBe(
+      `export const config = {
+  port: 3000,
+  features: { users: { enabled: true } },
+};
+`,
+    );
+    expect(await fs.readFile(path.join(targetDir, "src/index.ts"), "utf-8")).toBe(
+      'export * from "./db/db.module.js";\nexport * from "./users/users.module.js";\n',
+    );
+  });
+
+  it("changes nothing when generating again", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate();
+    const appModule = await fs.readFile(path.join(targetDir, "src/app.module.ts"), "utf-8");
+
+    const result = await generate();
+
+    expect(result.patchReport).toMatchObject({ applied: 0, skipped: 4, failed: 0 });
+    expect(await fs.readFile(path.join(targetDir, "src/app.module.ts"), "utf-8")).toBe(appModule);
+  });
+});
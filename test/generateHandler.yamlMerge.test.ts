@@ -0,0 +1,168 @@
+/**
+ * Integration tests for `yaml_merge` patches during generation.
+ *
+ * Tests that a rendered YAML fragment is merged into a generated YAML file
+ * without losing its comments, and that re-running reports the patch as
+ * already applied.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { PatchEngine } from "../src/core/patch/PatchEngine.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: yaml-pack
+  version: "1.0.0"
+archetypes:
+  - id: default
+    templateRoot: templates
+    inputs:
+      - name: logLevel
+        type: string
+        default: debug
+    patches:
+      - kind: yaml_merge
+        file: docker-compose.yml
+        idempotencyKey: add-log-level
+        keyPath: services.api.environment
+        contentTemplate: "LOG_LEVEL: {{logLevel}}"
+      - kind: yaml_merge
+        file: docker-compose.yml
+        idempotencyKey: add-redis
+        path: patches/redis.yml.hbs
+`;
+
+const COMPOSE = `# Local development stack
+services:
+  api:
+    image: node:20 # keep in sync with .nvmrc
+    environment:
+      PORT: "3000"
+`;
+
+const FILES: Record<string, string> = {
+  "templates/docker-compose.yml": COMPOSE,
+  "patches/redis.yml.hbs": "services:\n  redis:\n    image: redis:7\n",
+};
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-yaml-merge-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "yaml-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Generate with yaml_merge patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate() {
+    workspace ??= await createTestWorkspace();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+    return handleGenerate(
+      {
+        ref: "yaml-pack:default",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("merges rendered fragments into generated YAML files keeping comments", async () => {
+    const result = await generate();
+
+    const compose = await fs.readFile(
+      path.join(workspace!.targetDir, "docker-compose.yml"),
+      "utf-8",
+    );
+    expect(compose).toBe(COMPOSE + "      LOG_LEVEL: debug\n  redis:\n    image: redis:7\n");
+    expect(result.patchReport!.entries.map((e) => e.changedKeys)).toEqual([
+      ["services.api.environment.LOG_LEVEL"],
+      ["services.redis"],
+    ]);
+  });
+
+  it("skips fragments that are already merged", async () => {
+    await generate();
+    const compose = await fs.readFile(
+      path.join(workspace!.targetDir, "docker-compose.yml"),
+      "utf-8",
+    );
+
+    const result = await new PatchEngine().applyPatch(
+      {
+        kind: "yaml_merge",
+        file: "docker-compose.yml",
+        idempotencyKey: "add-log-level",
+        keyPath: "services.api.environment",
+        content: "LOG_LEVEL: debug",
+      },
+      { rootDir: workspace!.targetDir },
+    );
+
+    expect(result).toMatchObject({ status: "skipped", reason: "already_applied" });
+    expect(await fs.readFile(path.join(workspace!.targetDir, "docker-compose.yml"), "utf-8")).toBe(
+      compose,
+    );
+  });
+});
@@ -213,4 +213,84 @@ describe("generate with --version", () => {
       hint: expect.stringContaining("1.0.0"),
     });
   });
+
+  it("selects the version from pack@version:archetype refs", async () => {
+    const storeDir = trackDir(await createTestDir("store"));
+    const packsDir = path.join(storeDir, "packs");
+    const registryFile = path.join(storeDir, "registry.json");
+    const targetDir = trackDir(await createTestDir("target"));
+    await fs.mkdir(packsDir, { recursive: true });
+
+    const hashV1 = "a".repeat(64);
+    const hashV2 = "b".repeat(64);
+    await createVersionedTestPack(packsDir, "ref-pack", "1.2.0", hashV1, "// v1 specific\n");
+    await createVersionedTestPack(packsDir, "ref-pack", "2.0.0", hashV2, "// v2 specific\n");
+
+    const registry = createMultiVersionRegistry("ref-pack", [
+      { version: "1.2.0", hash: hashV1 },
+      { version: "2.0.0", hash: hashV2 },
+    ]);
+    await writeRegistry(registryFile, registry);
+
+    const deps: GenerateDependencies = { registryFile, packsDir, storeDir };
+    await handleGenerate(
+      { ref: "ref-pack@1.2.0:default", targetDir, dryRun: false, data: {} },
+      deps,
+    );
+
+    const content = await fs.readFile(path.join(targetDir, "index.ts"), "utf-8");
+    expect(content).toContain("v1 specific");
+  });
+
+  it("resolves semver ranges against installed versions", async () => {
+    const storeDir = trackDir(await createTestDir("store"));
+    const packsDir = path.join(storeDir, "packs");
+    const registryFile = path.join(storeDir, "registry.json");
+    const targetDir = trackDir(await createTestDir("target"));
+    await fs.mkdir(packsDir, { recursive: true });
+
+    const hashes = ["a", "b", "c"].map((c) => c.repeat(64));
+    await createVersionedTestPack(packsDir, "range-pack", "0.3.0", hashes[0], "// 0.3.0\n");
+    await createVersionedTestPack(packsDir, "range-pack", "0.3.7", hashes[1], "// 0.3.7\n");
+    await createVersionedTestPack(packsDir, "range-pack", "1.0.0", hashes[2], "// 1.0.0\n");
+
+    const registry = createMultiVersionRegistry("range-pack", [
+      { version: "0.3.0", hash: hashes[0] },
+      { version: "0.3.7", hash: hashes[1] },
+      { version: "1.0.0", hash: hashes[2] },
+    ]);
+    await writeRegistry(registryFile, registry);
+
+    const deps: GenerateDependencies = { registryFile, packsDir, storeDir };
+    await handleGenerate(
+      { ref: "range-pack:default", targetDir, dryRun: false, data: {}, version: "~0.3" },
+      deps,
+    );
+
+    const content = await fs.readFile(path.join(targetDir, "index.ts"), "utf-8");
+    expect(content).toContain("0.3.7");
+  });
+
+  it("throws PACK_VERSION_CONFLICT when ref and --pack-version disagree", async () => {
+    const storeDir = trackDir(await createTestDir("store"));
+    const registryFile = path.join(storeDir, "registry.json");
+    const deps: GenerateDependencies = {
+      registryFile,
+      packsDir: path.join(storeDir, "packs"),
+      storeDir,
+    };
+
+    await expect(
+      handleGenerate(
+        {
+          ref: "my-pack@1.0.0:default",
+          targetDir: storeDir,
+          dryRun: true,
+          data: {},
+          version: "2.0.0",
+        },
+        deps,
+      ),
+    ).rejects.toMatchObject({ code: "PACK_VERSION_CONFLICT" });
+  });
 });
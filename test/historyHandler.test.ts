@@ -0,0 +1,199 @@
+/**
+ * Tests for the `history` and `history show` handlers.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import {
+  handleHistory,
+  handleHistoryShow,
+  formatHistoryOutput,
+  formatHistoryJson,
+  formatHistoryShowOutput,
+  formatHistoryShowJson,
+} from "../src/cli/handlers/historyHandler.js";
+import {
+  ProjectStateManager,
+  type GenerationReport,
+} from "../src/core/state/ProjectStateManager.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const FIRST: GenerationReport = {
+  id: "3f2a1b9c-0000-4000-8000-000000000001",
+  timestamp: "2026-03-01T10:00:00.000Z",
+  packId: "@acme/service",
+  packVersion: "1.0.0",
+  archetypeId: "service",
+  inputs: { name: "billing", port: 3000 },
+  status: "success",
+  patches: {
+    total: 2,
+    applied: 1,
+    skipped: 1,
+    failed: 0,
+    items: [
+      {
+        kind: "insert_before",
+        file: "src/app.ts",
+        idempotencyKey: "register-billing",
+        status: "applied",
+        lines: 1,
+      },
+      {
+        kind: "append_if_missing",
+        file: ".env",
+        idempotencyKey: "env-billing",
+        status: "skipped",
+        reason: "condition not met",
+      },
+    ],
+  },
+  hooks: { items: [{ command: "npm install", status: "success", exitCode: 0, durationMs: 1200 }] },
+};
+
+const SECOND: GenerationReport = {
+  id: "3f2a77d0-0000-4000-8000-000000000002",
+  timestamp: "2026-03-02T10:00:00.000Z",
+  packId: "@acme/service",
+  packVersion: "1.1.0",
+  archetypeId: "feature",
+  inputs: {},
+  status: "failure",
+  checks: { items: [{ command: "npm test", status: "failure", exitCode: 1 }] },
+  error: { stage: "checks", message: "Check failed: npm test" },
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("history handlers", () => {
+  let targetDir: string;
+
+  beforeEach(async () => {
+    targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-history-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(targetDir, { recursive: true, force: true });
+  });
+
+  async function recordBoth(): Promise<void> {
+    const manager = new ProjectStateManager();
+    await manager.recordGeneration(targetDir, FIRST);
+    await manager.recordGeneration(targetDir, SECOND);
+  }
+
+  describe("handleHistory()", () => {
+    it("lists generations newest first with the failure stage", async () => {
+      await recordBoth();
+
+      const result = await handleHistory({ targetDir });
+
+      expect(result.generations).toEqual([
+        {
+          id: SECOND.id,
+          timestamp: SECOND.timestamp,
+          packId: "@acme/service",
+          packVersion: "1.1.0",
+          archetypeId: "feature",
+          status: "failure",
+          failureStage: "checks",
+        },
+        {
+          id: FIRST.id,
+          timestamp: FIRST.timestamp,
+          packId: "@acme/service",
+          packVersion: "1.0.0",
+          archetypeId: "service",
+          status: "success",
+          failureStage: undefined,
+        },
+      ]);
+    });
+
+    it("formats a table and JSON", async () => {
+      await recordBoth();
+      const result = await handleHistory({ targetDir });
+
+      const lines = formatHistoryOutput(result);
+      expect(lines[0]).toMatch(/^ID\s+TIMESTAMP\s+PACK\s+ARCHETYPE\s+STATUS$/);
+      expect(lines[2]).toContain("@acme/service@1.1.0");
+      expect(lines[2]).toMatch(/failure \(checks\)$/);
+      expect(JSON.parse(formatHistoryJson(result)).generations).toHaveLength(2);
+    });
+
+    it("has an empty history without state", async () => {
+      const result = await handleHistory({ targetDir });
+
+      expect(result.generations).toEqual([]);
+      expect(formatHistoryOutput(result)).toEqual([`No generations recorded in ${targetDir}.`]);
+    });
+  });
+
+  describe("handleHistoryShow()", () => {
+    it("finds a generation by ID, unique prefix or last", async () => {
+      await recordBoth();
+
+      expect((await handleHistoryShow({ targetDir, id: FIRST.id })).generation).toEqual(FIRST);
+      expect((await handleHistoryShow({ targetDir, id: "3f2a1" })).generation).toEqual(FIRST);
+      expect((await handleHistoryShow({ targetDir, id: "last" })).generation).toEqual(SECOND);
+    });
+
+    it("rejects unknown and ambiguous references", async () => {
+      await recordBoth();
+
+      await expect(handleHistoryShow({ targetDir, id: "nope" })).rejects.toMatchObject({
+        code: "GENERATION_NOT_FOUND",
+      });
+      await expect(handleHistoryShow({ targetDir, id: "3f2a" })).rejects.toMatchObject({
+        code: "GENERATION_REF_AMBIGUOUS",
+        details: expect.objectContaining({ matches: [FIRST.id, SECOND.id] }),
+      });
+    });
+
+    it("rejects last without state", async () => {
+      await expect(handleHistoryShow({ targetDir, id: "last" })).rejects.toMatchObject({
+        code: "GENERATION_NOT_FOUND",
+      });
+    });
+
+    it("formats inputs, patches, hooks and checks", async () => {
+      await recordBoth();
+
+      const first = formatHistoryShowOutput(await handleHistoryShow({ targetDir, id: FIRST.id }));
+      const second = await handleHistoryShow({ targetDir, id: SECOND.id });
+
+      expect(first).toEqual([
+        `Generation: ${FIRST.id}`,
+        "Timestamp: 2026-03-01T10:00:00.000Z",
+        "Pack: @acme/service@1.0.0",
+        "Archetype: service",
+        "Status: success",
+        "",
+        "Inputs:",
+        '  name: "billing"',
+        "  port: 3000",
+        "",
+        "Patches: total=2 applied=1 skipped=1 failed=0",
+        "  [APPLIED] insert_before src/app.ts (register-billing)",
+        "  [SKIPPED] append_if_missing .env (env-billing) (condition not met)",
+        "",
+        "Hooks:",
+        "  [SUCCESS] npm install (exit 0, 1200ms)",
+      ]);
+      expect(formatHistoryShowOutput(second)).toContain(
+        "Failed at: checks: Check failed: npm test",
+      );
+      expect(JSON.parse(formatHistoryShowJson(second))).toEqual(SECOND);
+    });
+  });
+});
@@ -312,7 +312,7 @@ describe("MVP v0.1 Smoke Test", () => {
     const state = await readJson<ProjectState>(stateFilePath);
 
     // Assert: schema version
-    expect(state.schemaVersion, "State should have schemaVersion").toBe(2);
+    expect(state.schemaVersion, "State should have schemaVersion").toBe(3);
 
     // Assert: lastGeneration fields
     expect(state.lastGeneration, "State should have lastGeneration").toBeDefined();
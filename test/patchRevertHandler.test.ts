@@ -0,0 +1,290 @@
+/**
+ * Integration tests for reverting patches.
+ *
+ * Tests that `patch revert` and `remove` archetype operations take out the
+ * block a generation inserted, and that the project state records it.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate, resolveReplay } from "../src/cli/handlers/generateHandler.js";
+import { handlePatchRevert } from "../src/cli/handlers/patchRevertHandler.js";
+import { handleUndo } from "../src/cli/handlers/undoHandler.js";
+import { collectAppliedPatches } from "../src/core/patch/AppliedPatches.js";
+import { ProjectStateManager } from "../src/core/state/ProjectStateManager.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const MANIFEST = `pack:
+  name: feature-pack
+  version: "1.0.0"
+archetypes:
+  - id: module
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: billing
+    patches:
+      - kind: insert_after
+        file: src/app.ts
+        idempotencyKey: import-billing
+        anchor: 'import express from "express";'
+        contentTemplate: 'import { {{name}}Module } from "./features/{{name}}.js";'
+      - kind: insert_before
+        file: src/app.ts
+        idempotencyKey: register-billing
+        anchor: "app.listen("
+        contentTemplate: "app.register({{name}}Module);"
+  - id: uninstall
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: billing
+    patches:
+      - kind: remove
+        file: src/app.ts
+        idempotencyKey: import-billing
+      - kind: remove
+        file: src/app.ts
+        idempotencyKey: register-billing
+`;
+
+const FILES: Record<string, string> = {
+  "templates/src/features/__name__.ts": "export const {{name}}Module = {};\n",
+};
+
+const APP = `import express from "express";
+
+const app = express();
+app.listen(3000);
+`;
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-patch-revert-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const packDir = path.join(workspaceDir, "feature-pack");
+  await fs.mkdir(packDir, { recursive: true });
+  await fs.writeFile(path.join(packDir, "archetype.yaml"), MANIFEST);
+  for (const [relativePath, content] of Object.entries(FILES)) {
+    const filePath = path.join(packDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  await fs.mkdir(path.join(targetDir, "src"), { recursive: true });
+  await fs.writeFile(path.join(targetDir, "src/app.ts"), APP);
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Revert patches", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(archetype: string) {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleGenerate(
+      {
+        ref: `feature-pack:${archetype}`,
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+        force: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  async function revert(idempotencyKey: string) {
+    const { storeDir, targetDir } = workspace!;
+    return handlePatchRevert({ idempotencyKey, targetDir }, { storeDir });
+  }
+
+  it("reverts a patch by idempotency key", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+
+    const result = await revert("register-billing");
+
+    expect(result.results).toEqual([
+      expect.objectContaining({ file: "src/app.ts", status: "applied" }),
+    ]);
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(
+      'import express from "express";\n' +
+        "// SCAFFOLDIX_PATCH:import-billing\n" +
+        'import { billingModule } from "./features/billing.js";\n' +
+        "\nconst app = express();\n" +
+        "app.listen(3000);\n",
+    );
+
+    const state = await new ProjectStateManager().read(targetDir);
+    expect([...collectAppliedPatches(state).keys()]).toEqual(["src/app.ts#import-billing"]);
+  });
+
+  it("applies the patch again after a revert", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+    const patched = await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8");
+
+    await revert("register-billing");
+    const result = await generate("module");
+
+    expect(result.patchReport).toMatchObject({ applied: 1, skipped: 1 });
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(patched);
+  });
+
+  it("reverts patches with remove operations in an archetype", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+
+    const result = await generate("uninstall");
+
+    expect(result.patchReport).toMatchObject({ applied: 2, failed: 0 });
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(APP);
+  });
+
+  it("fails for a key that is not applied", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+
+    await expect(revert("register-users")).rejects.toMatchObject({
+      code: "PATCH_NOT_APPLIED",
+      hint: expect.stringContaining("import-billing, register-billing"),
+    });
+  });
+
+  it("leaves the project untouched when one of the files cannot be reverted", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+    const stateManager = new ProjectStateManager();
+    const app = await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8");
+
+    // A second file with the key applied, recorded without its block size
+    const extra = "// SCAFFOLDIX_PATCH:register-billing\napp.register(billingModule);\n";
+    await fs.writeFile(path.join(targetDir, "src/extra.ts"), extra);
+    const statePath = stateManager.getStatePath(targetDir);
+    const raw = JSON.parse(await fs.readFile(statePath, "utf-8"));
+    raw.generations[0].patches.items.push({
+      kind: "insert_before",
+      file: "src/extra.ts",
+      idempotencyKey: "register-billing",
+      status: "applied",
+    });
+    await fs.writeFile(statePath, JSON.stringify(raw, null, 2));
+    const stateBefore = await fs.readFile(statePath, "utf-8");
+
+    await expect(revert("register-billing")).rejects.toMatchObject({
+      code: "PATCH_REVERT_UNSUPPORTED",
+    });
+
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(app);
+    expect(await fs.readFile(path.join(targetDir, "src/extra.ts"), "utf-8")).toBe(extra);
+    expect(await fs.readFile(statePath, "utf-8")).toBe(stateBefore);
+  });
+
+  it("records the revert as a patch revert with a backup", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+
+    await revert("register-billing");
+
+    const stateManager = new ProjectStateManager();
+    const state = await stateManager.read(targetDir);
+    const generations = state && "generations" in state ? state.generations : [];
+    expect(generations.map((g) => g.kind)).toEqual([undefined, "patch-revert"]);
+    await expect(
+      fs.access(
+        path.join(stateManager.getBackupDir(targetDir, generations[1].id), "manifest.json"),
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it("puts the patch back on undo", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+    const patched = await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8");
+    await revert("register-billing");
+
+    const result = await handleUndo({ targetDir });
+
+    expect(result.generation.kind).toBe("patch-revert");
+    expect(result.restored).toEqual(["src/app.ts"]);
+    expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe(patched);
+    const state = await new ProjectStateManager().read(targetDir);
+    expect([...collectAppliedPatches(state).keys()]).toEqual([
+      "src/app.ts#import-billing",
+      "src/app.ts#register-billing",
+    ]);
+  });
+
+  it("is skipped when replaying the last generation", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generate("module");
+    await revert("register-billing");
+
+    const plan = await resolveReplay({ generation: "last", targetDir });
+
+    const state = await new ProjectStateManager().read(targetDir);
+    const generations = state && "generations" in state ? state.generations : [];
+    expect(generations).toHaveLength(2);
+    expect(plan.generation.id).toBe(generations[0].id);
+    expect(plan.generation.kind).toBeUndefined();
+  });
+});
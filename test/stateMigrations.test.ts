@@ -62,6 +62,23 @@ function createV2State() {
   };
 }
 
+/**
+ * Creates a v3 state fixture.
+ */
+function createV3State() {
+  const v2State = createV2State();
+  return {
+    ...v2State,
+    schemaVersion: 3,
+    generations: [
+      {
+        ...v2State.generations[0],
+        files: [{ path: "src/MyEntity.ts", template: "src/{{name}}.ts", hash: "abc123" }],
+      },
+    ],
+  };
+}
+
 // =============================================================================
 // Tests
 // =============================================================================
@@ -77,11 +94,11 @@ describe("state migrations", () => {
 
   describe("runMigrations", () => {
     it("returns state unchanged when already at current version", () => {
-      const v2State = createV2State();
+      const v3State = createV3State();
 
-      const result = runMigrations(v2State);
+      const result = runMigrations(v3State);
 
-      expect(result.state).toEqual(v2State);
+      expect(result.state).toEqual(v3State);
       expect(result.migrated).toBe(false);
       expect(result.migrationsApplied).toEqual([]);
     });
@@ -123,6 +140,17 @@ describe("state migrations", () => {
       expect(firstGen.archetypeId).toBe("default");
     });
 
+    it("keeps generations without file records during v2→v3 migration", () => {
+      const v2State = createV2State();
+
+      const result = runMigrations(v2State);
+
+      expect(result.migrationsApplied).toEqual(["2→3"]);
+      expect(result.state.schemaVersion).toBe(3);
+      expect(result.state.generations).toEqual(v2State.generations);
+      expect(result.state.generations[0].files).toBeUndefined();
+    });
+
     it("handles state without schemaVersion (treats as v1)", () => {
       // Old state files might not have schemaVersion
       const legacyState = {
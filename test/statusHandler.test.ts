@@ -0,0 +1,156 @@
+/**
+ * Tests for the `status` handler.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import {
+  handleStatus,
+  formatStatusOutput,
+  formatStatusJson,
+} from "../src/cli/handlers/statusHandler.js";
+import {
+  ProjectStateManager,
+  type GenerationReport,
+} from "../src/core/state/ProjectStateManager.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function generation(
+  id: string,
+  packId: string,
+  packVersion: string,
+  archetypeId: string,
+  status: GenerationReport["status"] = "success",
+): GenerationReport {
+  return {
+    id,
+    timestamp: `2026-03-0${id}T10:00:00.000Z`,
+    packId,
+    packVersion,
+    archetypeId,
+    inputs: {},
+    status,
+    patches: {
+      total: 1,
+      applied: status === "success" ? 1 : 0,
+      skipped: 0,
+      failed: status === "success" ? 0 : 1,
+      items: [
+        {
+          kind: "insert_before",
+          file: "src/app.ts",
+          idempotencyKey: `register-${archetypeId}`,
+          status: status === "success" ? "applied" : "failed",
+        },
+      ],
+    },
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("handleStatus()", () => {
+  let targetDir: string;
+
+  beforeEach(async () => {
+    targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-status-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(targetDir, { recursive: true, force: true });
+  });
+
+  it("summarizes packs and archetypes", async () => {
+    const manager = new ProjectStateManager();
+    await manager.recordGeneration(targetDir, generation("1", "service", "1.0.0", "api"));
+    await manager.recordGeneration(targetDir, generation("2", "addons", "0.3.0", "auth"));
+    await manager.recordGeneration(targetDir, generation("3", "service", "1.1.0", "worker"));
+    await manager.recordGeneration(
+      targetDir,
+      generation("4", "service", "1.1.0", "api", "failure"),
+    );
+
+    const result = await handleStatus({ targetDir });
+
+    expect(result).toMatchObject({
+      initialized: true,
+      generations: { total: 4, succeeded: 3, failed: 1 },
+      lastGeneration: { id: "4", packId: "service", archetypeId: "api", status: "failure" },
+      appliedPatches: 3,
+    });
+    expect(result.packs).toEqual([
+      {
+        packId: "addons",
+        version: "0.3.0",
+        archetypes: [
+          {
+            archetypeId: "auth",
+            runs: 1,
+            failures: 0,
+            lastTimestamp: "2026-03-02T10:00:00.000Z",
+            lastStatus: "success",
+          },
+        ],
+      },
+      {
+        packId: "service",
+        version: "1.1.0",
+        archetypes: [
+          {
+            archetypeId: "api",
+            runs: 2,
+            failures: 1,
+            lastTimestamp: "2026-03-04T10:00:00.000Z",
+            lastStatus: "failure",
+          },
+          {
+            archetypeId: "worker",
+            runs: 1,
+            failures: 0,
+            lastTimestamp: "2026-03-03T10:00:00.000Z",
+            lastStatus: "success",
+          },
+        ],
+      },
+    ]);
+
+    expect(formatStatusOutput(result)).toEqual([
+      `Project: ${targetDir}`,
+      "Generations: 4 (3 succeeded, 1 failed)",
+      "Last generation: service@1.1.0:api failure at 2026-03-04T10:00:00.000Z",
+      "Applied patches: 3",
+      "",
+      "Packs:",
+      "  addons@0.3.0",
+      "    - auth (1 run, last success at 2026-03-02T10:00:00.000Z)",
+      "  service@1.1.0",
+      "    - api (2 runs, 1 failed, last failure at 2026-03-04T10:00:00.000Z)",
+      "    - worker (1 run, last success at 2026-03-03T10:00:00.000Z)",
+    ]);
+    expect(JSON.parse(formatStatusJson(result))).toEqual(JSON.parse(JSON.stringify(result)));
+  });
+
+  it("reports a project without state", async () => {
+    const result = await handleStatus({ targetDir });
+
+    expect(result).toEqual({
+      targetDir,
+      initialized: false,
+      generations: { total: 0, succeeded: 0, failed: 0 },
+      lastGeneration: undefined,
+      packs: [],
+      appliedPatches: 0,
+    });
+    expect(formatStatusOutput(result)[0]).toBe(`No Scaffoldix state in ${targetDir}.`);
+  });
+});
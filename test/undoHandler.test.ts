@@ -0,0 +1,223 @@
+/**
+ * Integration tests for the `undo` handler.
+ *
+ * Generates into an existing project, overwriting and patching files, and
+ * undoes the generation from its backup.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { handleUndo, formatUndoOutput } from "../src/cli/handlers/undoHandler.js";
+import { handleDrift } from "../src/cli/handlers/driftHandler.js";
+import { ProjectStateManager, type ProjectStateV3 } from "../src/core/state/ProjectStateManager.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+const PACK: Record<string, string> = {
+  "archetype.yaml": `pack:
+  name: undo-pack
+  version: "0.1.0"
+archetypes:
+  - id: service
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: users
+    patches:
+      - kind: append_if_missing
+        file: src/index.ts
+        idempotencyKey: export-service
+        contentTemplate: 'export * from "./{{name}}.service.js";'
+`,
+  "templates/src/services/__name__.service.ts": "export class {{name}}Service {}\n",
+  "templates/README.md": "# {{name}}\n",
+};
+
+const PROJECT: Record<string, string> = {
+  "src/index.ts": "// exports\n",
+  "README.md": "# My project\n",
+};
+
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(dir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-undo-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  const packDir = path.join(workspaceDir, "pack");
+  await writeFiles(packDir, PACK);
+  await handlePackAdd(
+    { packPath: packDir, cwd: process.cwd() },
+    { storeConfig, logger: createTestLogger() },
+  );
+
+  await writeFiles(targetDir, PROJECT);
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("handleUndo()", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  async function generate(): Promise<string> {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    await handleGenerate(
+      {
+        ref: "undo-pack:service",
+        targetDir,
+        dryRun: false,
+        force: true,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    return state.generations[state.generations.length - 1].id;
+  }
+
+  it("deletes created files, restores overwritten and patched files, and marks the generation", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    const generationId = await generate();
+    const backupDir = new ProjectStateManager().getBackupDir(targetDir, generationId);
+    expect(await pathExists(path.join(backupDir, "manifest.json"))).toBe(true);
+
+    const result = await handleUndo({ targetDir });
+
+    expect(result.generation.id).toBe(generationId);
+    expect(result.deleted).toEqual(["src/services/users.service.ts"]);
+    expect([...result.restored].sort()).toEqual(["README.md", "src/index.ts"]);
+
+    for (const [file, content] of Object.entries(PROJECT)) {
+      expect(await fs.readFile(path.join(targetDir, file), "utf-8")).toBe(content);
+    }
+    expect(await pathExists(path.join(targetDir, "src/services"))).toBe(false);
+    expect(await pathExists(backupDir)).toBe(false);
+
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    expect(state.generations).toHaveLength(1);
+    expect(state.generations[0].revertedAt).toEqual(expect.any(String));
+
+    // Reverted generations own no files
+    expect((await handleDrift({ targetDir })).files).toEqual([]);
+
+    expect(formatUndoOutput(result)[0]).toBe(
+      `Reverted generation ${generationId} (undo-pack@0.1.0:service)`,
+    );
+  });
+
+  it("refuses when files changed since the generation", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    const generationId = await generate();
+    await fs.writeFile(path.join(targetDir, "README.md"), "# users, edited\n");
+    await fs.rm(path.join(targetDir, "src/services/users.service.ts"));
+
+    await expect(handleUndo({ targetDir, id: generationId })).rejects.toMatchObject({
+      code: "UNDO_FILES_CHANGED",
+      details: {
+        files: [
+          { path: "README.md", change: "modified" },
+          { path: "src/services/users.service.ts", change: "deleted" },
+        ],
+      },
+    });
+
+    // Nothing was touched
+    expect(await fs.readFile(path.join(targetDir, "src/index.ts"), "utf-8")).toContain(
+      "users.service.js",
+    );
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    expect(state.generations[0].revertedAt).toBeUndefined();
+  });
+
+  it("undoes generations newest first and rejects a second undo", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    const first = await generate();
+    const second = await generate();
+
+    const undone = await handleUndo({ targetDir });
+    expect(undone.generation.id).toBe(second);
+
+    await expect(handleUndo({ targetDir, id: second })).rejects.toMatchObject({
+      code: "GENERATION_ALREADY_REVERTED",
+    });
+
+    expect((await handleUndo({ targetDir })).generation.id).toBe(first);
+    expect(await fs.readFile(path.join(targetDir, "README.md"), "utf-8")).toBe("# My project\n");
+  });
+
+  it("rejects generations without a backup", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    const generationId = await generate();
+    await fs.rm(new ProjectStateManager().getBackupDir(targetDir, generationId), {
+      recursive: true,
+    });
+
+    await expect(handleUndo({ targetDir })).rejects.toMatchObject({
+      code: "UNDO_BACKUP_MISSING",
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for anchor matching used by marker-free patches.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  locateAnchor,
+  expandReplacement,
+  describeOccurrence,
+  getRegexError,
+} from "../../src/core/patch/AnchorLocator.js";
+
+const SOURCE = "import a from 'a';\nimport b from 'b';\n\nexport default [a, b];\n";
+
+describe("locateAnchor()", () => {
+  it("finds the first occurrence of a literal by default", () => {
+    expect(locateAnchor(SOURCE, { pattern: "import" })).toMatchObject({ index: 0, text: "import" });
+  });
+
+  it("treats regex characters in literals as plain text", () => {
+    expect(locateAnchor(SOURCE, { pattern: "[a, b]" })?.index).toBe(SOURCE.indexOf("[a, b]"));
+  });
+
+  it("selects the last or nth occurrence", () => {
+    const second = SOURCE.indexOf("import b");
+
+    expect(locateAnchor(SOURCE, { pattern: "import", occurrence: "last" })?.index).toBe(second);
+    expect(locateAnchor(SOURCE, { pattern: "import", occurrence: 2 })?.index).toBe(second);
+    expect(locateAnchor(SOURCE, { pattern: "import", occurrence: 3 })).toBeUndefined();
+  });
+
+  it("matches regexes per line and captures groups", () => {
+    const match = locateAnchor(SOURCE, {
+      pattern: "^import (?<name>\\w+) from '(\\w+)';$",
+      regex: true,
+      occurrence: "last",
+    });
+
+    expect(match).toMatchObject({
+      text: "import b from 'b';",
+      groups: ["import b from 'b';", "b", "b"],
+      namedGroups: { name: "b" },
+    });
+  });
+
+  it("ignores empty regex matches", () => {
+    expect(locateAnchor("abc", { pattern: "x*", regex: true })).toBeUndefined();
+  });
+});
+
+describe("expandReplacement()", () => {
+  it("expands numbered, named and whole-match references", () => {
+    const match = locateAnchor("listen(3000)", {
+      pattern: "listen\\((?<port>\\d+)\\)",
+      regex: true,
+    })!;
+
+    expect(expandReplacement("$& -> $1 / $<port> / $$1 / $9", match)).toBe(
+      "listen(3000) -> 3000 / 3000 / $1 / $9",
+    );
+  });
+});
+
+describe("describeOccurrence()", () => {
+  it("formats occurrences for messages", () => {
+    expect(
+      [undefined, "last", 1, 2, 3, 4, 11, 22].map((o) => describeOccurrence(o as never)),
+    ).toEqual(["first", "last", "1st", "2nd", "3rd", "4th", "11th", "22nd"]);
+  });
+});
+
+describe("getRegexError()", () => {
+  it("returns a message for invalid patterns only", () => {
+    expect(getRegexError("a(b")).toEqual(expect.any(String));
+    expect(getRegexError("a(b)")).toBeUndefined();
+  });
+});
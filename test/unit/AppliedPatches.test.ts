@@ -0,0 +1,87 @@
+/**
+ * Unit tests for applied patch records.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { collectAppliedPatches } from "../../src/core/patch/AppliedPatches.js";
+import type {
+  GenerationReport,
+  PatchItem,
+  ProjectState,
+} from "../../src/core/state/ProjectStateManager.js";
+
+function generation(id: string, items: PatchItem[]): GenerationReport {
+  return {
+    id,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    packId: "pack",
+    packVersion: "1.0.0",
+    archetypeId: "default",
+    inputs: {},
+    status: "success",
+    patches: { total: items.length, applied: 0, skipped: 0, failed: 0, items },
+  };
+}
+
+function state(...generations: GenerationReport[]): ProjectState {
+  return {
+    schemaVersion: 2,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    generations,
+    lastGeneration: {
+      packId: "pack",
+      packVersion: "1.0.0",
+      archetypeId: "default",
+      inputs: {},
+      timestamp: "2026-01-01T00:00:00.000Z",
+    },
+  };
+}
+
+describe("collectAppliedPatches()", () => {
+  it("returns nothing without v2 state", () => {
+    expect(collectAppliedPatches(null).size).toBe(0);
+  });
+
+  it("records applied and already applied patches", () => {
+    const applied = collectAppliedPatches(
+      state(
+        generation("g1", [
+          { kind: "marker_insert", file: "a.ts", idempotencyKey: "k", status: "applied", lines: 2 },
+        ]),
+        generation("g2", [
+          {
+            kind: "marker_insert",
+            file: "a.ts",
+            idempotencyKey: "k",
+            status: "skipped",
+            reason: "already_applied",
+          },
+          { kind: "append_if_missing", file: "b.ts", idempotencyKey: "x", status: "failed" },
+        ]),
+      ),
+    );
+
+    expect([...applied.keys()]).toEqual(["a.ts#k"]);
+    expect(applied.get("a.ts#k")).toMatchObject({ lines: 2, generationId: "g2" });
+  });
+
+  it("forgets reverted patches", () => {
+    const applied = collectAppliedPatches(
+      state(
+        generation("g1", [
+          { kind: "append_if_missing", file: "a.ts", idempotencyKey: "k", status: "applied" },
+          { kind: "append_if_missing", file: "b.ts", idempotencyKey: "k", status: "applied" },
+        ]),
+        generation("g2", [
+          { kind: "remove", file: "a.ts", idempotencyKey: "k", status: "applied" },
+        ]),
+      ),
+    );
+
+    expect([...applied.keys()]).toEqual(["b.ts#k"]);
+  });
+});
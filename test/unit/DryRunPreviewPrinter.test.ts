@@ -50,6 +50,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/src/index.ts",
             operation: "create",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "src/index.ts",
           },
           {
@@ -57,6 +58,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/package.json",
             operation: "create",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "package.json",
           },
         ],
@@ -85,6 +87,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/README.md",
             operation: "modify",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "README.md",
           },
           {
@@ -92,6 +95,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/config.json",
             operation: "modify",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "config.json",
           },
         ],
@@ -115,6 +119,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/file.txt",
             operation: "modify",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "file.txt",
           },
         ],
@@ -142,6 +147,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/new.txt",
             operation: "create",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "new.txt",
           },
         ],
@@ -151,6 +157,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/unchanged.txt",
             operation: "noop",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "unchanged.txt",
           },
         ],
@@ -172,6 +179,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/same1.txt",
             operation: "noop",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "same1.txt",
           },
           {
@@ -179,6 +187,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/same2.txt",
             operation: "noop",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "same2.txt",
           },
         ],
@@ -239,6 +248,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/my/project/file.txt",
             operation: "create",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "file.txt",
           },
         ],
@@ -305,6 +315,7 @@ describe("DryRunPreviewPrinter", () => {
             absolutePath: "/abs/file.txt",
             operation: "create",
             isBinary: false,
+            mode: "rendered",
             sourceTemplate: "file.txt",
           },
         ],
@@ -260,6 +260,20 @@ describe("ErrorPresenter", () => {
       expect(output).toContain("package.json");
     });
 
+    it("shows template positions as a single location line", () => {
+      const error = new ScaffoldError(
+        "Template syntax error in src/index.ts.hbs:3:5",
+        ErrorCode.TEMPLATE_SYNTAX_ERROR,
+        { file: "src/index.ts.hbs", line: 3, column: 5, reason: "Expecting 'ID'" },
+      );
+
+      const output = formatError(error);
+
+      expect(output).toContain("Location: src/index.ts.hbs:3:5");
+      expect(output).toContain("Reason: Expecting 'ID'");
+      expect(output).not.toContain("Line: 3");
+    });
+
     it("does not include stack trace by default", () => {
       const error = new ScaffoldError("Test error", ErrorCode.INTERNAL_ERROR);
       error.stack = "Error: Test error\n    at test.ts:1:1";
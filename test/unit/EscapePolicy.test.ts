@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the HTML escaping policy and glob matching.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { shouldEscapeHtml } from "../../src/core/render/EscapePolicy.js";
+import { matchesGlob, matchesAnyGlob } from "../../src/core/utils/glob.js";
+
+describe("glob matching", () => {
+  it.each([
+    ["index.html", "*.html", true],
+    ["pages/index.html", "*.html", false],
+    ["pages/index.html", "**/*.html", true],
+    ["index.html", "**/*.html", true],
+    ["src/a/b/c.ts", "src/**", true],
+    ["src/a/b/c.ts", "src/**/*.ts", true],
+    ["src/c.ts", "src/**/*.ts", true],
+    ["lib/c.ts", "src/**/*.ts", false],
+    ["src/a.ts", "src/?.ts", true],
+    ["src/ab.ts", "src/?.ts", false],
+    ["src/x.tsx", "src/*.{ts,tsx}", true],
+    ["src/x.js", "src/*.{ts,tsx}", false],
+    ["v1.txt", "v[0-9].txt", true],
+    ["va.txt", "v[!0-9].txt", true],
+    ["file.txt", "file.txt", true],
+    ["fileatxt", "file.txt", false],
+    ["./docs/a.md", "docs/*.md", true],
+  ])("%s vs %s -> %s", (filePath, pattern, expected) => {
+    expect(matchesGlob(filePath, pattern)).toBe(expected);
+  });
+
+  it("matchesAnyGlob returns true if any pattern matches", () => {
+    expect(matchesAnyGlob("a.vue", ["**/*.html", "**/*.vue"])).toBe(true);
+    expect(matchesAnyGlob("a.ts", [])).toBe(false);
+  });
+});
+
+describe("shouldEscapeHtml()", () => {
+  it("escapes only HTML files by default", () => {
+    expect(shouldEscapeHtml("src/index.ts")).toBe(false);
+    expect(shouldEscapeHtml("config.yaml")).toBe(false);
+    expect(shouldEscapeHtml("public/index.html")).toBe(true);
+    expect(shouldEscapeHtml("index.htm")).toBe(true);
+  });
+
+  it("ignores a trailing .hbs extension", () => {
+    expect(shouldEscapeHtml("public/index.html.hbs")).toBe(true);
+    expect(shouldEscapeHtml("src/Main.java.hbs")).toBe(false);
+  });
+
+  it("applies boolean settings to every file", () => {
+    expect(shouldEscapeHtml("src/index.ts", true)).toBe(true);
+    expect(shouldEscapeHtml("index.html", false)).toBe(false);
+  });
+
+  it("uses include globs instead of the HTML defaults", () => {
+    const setting = { include: ["**/*.vue"] };
+
+    expect(shouldEscapeHtml("src/App.vue", setting)).toBe(true);
+    expect(shouldEscapeHtml("index.html", setting)).toBe(false);
+  });
+
+  it("exclude globs win over include globs", () => {
+    const setting = { exclude: ["emails/**"] };
+
+    expect(shouldEscapeHtml("emails/welcome.html", setting)).toBe(false);
+    expect(shouldEscapeHtml("pages/welcome.html", setting)).toBe(true);
+  });
+
+  it("uses default for files matching no glob", () => {
+    const setting = { default: true, exclude: ["**/*.ts"] };
+
+    expect(shouldEscapeHtml("notes.txt", setting)).toBe(true);
+    expect(shouldEscapeHtml("src/a.ts", setting)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for fan-out template expansion.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  resolveFanOut,
+  getTemplateInstances,
+  type FanOutRule,
+} from "../../src/core/render/FanOut.js";
+
+const RULE: FanOutRule = {
+  templates: ["src/__entity__.repository.ts.hbs"],
+  each: "entities",
+  as: "entity",
+};
+
+describe("resolveFanOut()", () => {
+  it("creates one instance per string element with derived placeholders", () => {
+    const [group] = resolveFanOut({
+      rules: [RULE],
+      data: { projectName: "shop", entities: ["order-item", "user"] },
+    });
+
+    expect(group.instances).toHaveLength(2);
+    expect(group.instances[0].data).toMatchObject({ projectName: "shop", entity: "order-item" });
+    expect(group.instances[0].renameRules?.replacements).toMatchObject({
+      __entity__: "order-item",
+      __entity_pascal__: "OrderItem",
+      __projectName__: "shop",
+    });
+    expect(group.instances[1].renameRules?.replacements["__entity__"]).toBe("user");
+  });
+
+  it("binds object elements and spreads their fields into the context", () => {
+    const element = { name: "invoice", table: "invoices" };
+    const [group] = resolveFanOut({ rules: [RULE], data: { entities: [element] } });
+
+    const [instance] = group.instances;
+    expect(instance.data).toMatchObject({ entity: element, name: "invoice", table: "invoices" });
+    expect(instance.renameRules?.replacements).toMatchObject({
+      __entity__: "invoice",
+      __name__: "invoice",
+      __table__: "invoices",
+    });
+  });
+
+  it("renders manifest rename expressions per element", () => {
+    const [group] = resolveFanOut({
+      rules: [RULE],
+      data: { entities: ["user"] },
+      rename: { __Repo__: "{{pascalCase entity}}Repository" },
+    });
+
+    expect(group.instances[0].renameRules?.replacements["__Repo__"]).toBe("UserRepository");
+  });
+
+  it("yields no instances for a missing or empty list", () => {
+    expect(resolveFanOut({ rules: [RULE], data: {} })[0].instances).toEqual([]);
+    expect(resolveFanOut({ rules: [RULE], data: { entities: [] } })[0].instances).toEqual([]);
+  });
+
+  it("throws FANOUT_INPUT_NOT_LIST for non-list inputs", () => {
+    expect(() => resolveFanOut({ rules: [RULE], data: { entities: "user" } })).toThrow(
+      expect.objectContaining({ code: "FANOUT_INPUT_NOT_LIST" }),
+    );
+  });
+});
+
+describe("getTemplateInstances()", () => {
+  const defaults = { data: { projectName: "shop" } };
+  const fanOut = resolveFanOut({ rules: [RULE], data: { entities: ["a", "b"] } });
+
+  it("returns fan-out instances for matching templates", () => {
+    expect(getTemplateInstances("src/__entity__.repository.ts.hbs", fanOut, defaults)).toHaveLength(
+      2,
+    );
+  });
+
+  it("matches globs written without the .hbs extension", () => {
+    const groups = resolveFanOut({
+      rules: [{ ...RULE, templates: ["src/*.repository.ts"] }],
+      data: { entities: ["a"] },
+    });
+
+    expect(getTemplateInstances("src/__entity__.repository.ts.hbs", groups, defaults)).toHaveLength(
+      1,
+    );
+  });
+
+  it("returns the default instance for other templates", () => {
+    expect(getTemplateInstances("src/index.ts.hbs", fanOut, defaults)).toEqual([defaults]);
+    expect(getTemplateInstances("src/index.ts.hbs", undefined, defaults)).toEqual([defaults]);
+  });
+});
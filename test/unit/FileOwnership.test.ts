@@ -0,0 +1,142 @@
+/**
+ * Unit tests for generated file ownership and drift detection.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import {
+  hashFileContent,
+  hashGeneratedFiles,
+  collectOwnedFiles,
+  detectDrift,
+} from "../../src/core/state/FileOwnership.js";
+import type {
+  GeneratedFile,
+  GenerationReport,
+  ProjectState,
+} from "../../src/core/state/ProjectStateManager.js";
+
+function generation(
+  id: string,
+  files: GeneratedFile[] | undefined,
+  status: GenerationReport["status"] = "success",
+): GenerationReport {
+  return {
+    id,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    packId: "pack",
+    packVersion: "1.0.0",
+    archetypeId: "default",
+    inputs: {},
+    status,
+    ...(files && { files }),
+  };
+}
+
+function state(...generations: GenerationReport[]): ProjectState {
+  return {
+    schemaVersion: 3,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    generations,
+    lastGeneration: {
+      packId: "pack",
+      packVersion: "1.0.0",
+      archetypeId: "default",
+      inputs: {},
+      timestamp: "2026-01-01T00:00:00.000Z",
+    },
+  };
+}
+
+describe("hashGeneratedFiles()", () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-ownership-test-"));
+    await fs.mkdir(path.join(rootDir, "src"), { recursive: true });
+    await fs.writeFile(path.join(rootDir, "src/b.ts"), "b\n");
+    await fs.writeFile(path.join(rootDir, "a.md"), "a\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("hashes each file once, sorted by path", async () => {
+    const files = await hashGeneratedFiles(rootDir, [
+      { path: "src/b.ts", template: "src/__name__.ts" },
+      { path: "a.md" },
+      { path: "src/b.ts" },
+    ]);
+
+    expect(files).toEqual([
+      { path: "a.md", hash: hashFileContent("a\n") },
+      { path: "src/b.ts", template: "src/__name__.ts", hash: hashFileContent("b\n") },
+    ]);
+  });
+});
+
+describe("collectOwnedFiles()", () => {
+  it("returns nothing without state", () => {
+    expect(collectOwnedFiles(null).size).toBe(0);
+  });
+
+  it("lets the latest successful generation own each file", () => {
+    const owned = collectOwnedFiles(
+      state(
+        generation("g1", [
+          { path: "a.ts", template: "a.ts", hash: "h1" },
+          { path: "b.ts", template: "b.ts", hash: "h2" },
+        ]),
+        generation("g2", [{ path: "a.ts", hash: "h3" }]),
+        generation("g3", [{ path: "b.ts", hash: "h4" }], "failure"),
+        generation("g4", undefined),
+      ),
+    );
+
+    expect([...owned.values()]).toEqual([
+      { path: "a.ts", template: "a.ts", hash: "h3", generationId: "g2" },
+      { path: "b.ts", template: "b.ts", hash: "h2", generationId: "g1" },
+    ]);
+  });
+});
+
+describe("detectDrift()", () => {
+  let targetDir: string;
+
+  beforeEach(async () => {
+    targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-drift-unit-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(targetDir, { recursive: true, force: true });
+  });
+
+  it("classifies files as unchanged, modified or deleted", async () => {
+    await fs.writeFile(path.join(targetDir, "same.ts"), "same\n");
+    await fs.writeFile(path.join(targetDir, "edited.ts"), "edited by user\n");
+
+    const owned = collectOwnedFiles(
+      state(
+        generation("g1", [
+          { path: "same.ts", hash: hashFileContent("same\n") },
+          { path: "edited.ts", hash: hashFileContent("edited\n") },
+          { path: "gone.ts", hash: hashFileContent("gone\n") },
+        ]),
+      ),
+    );
+
+    const entries = await detectDrift(targetDir, owned);
+
+    expect(entries.map((e) => [e.path, e.status])).toEqual([
+      ["edited.ts", "modified"],
+      ["gone.ts", "deleted"],
+      ["same.ts", "unchanged"],
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for conditional file inclusion rules.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  isFileIncluded,
+  filterTemplateFiles,
+  type FileRule,
+} from "../../src/core/render/FileRules.js";
+
+const TEST_RULES: FileRule[] = [
+  {
+    include: ["src/**/*.test.ts", "vitest.config.ts"],
+    when: { input: "includeTests", equals: true },
+  },
+  { exclude: ["docker/**"], when: { input: "useDocker", equals: false } },
+];
+
+describe("isFileIncluded()", () => {
+  it("includes every file without rules", () => {
+    expect(isFileIncluded("src/index.ts", undefined, {})).toBe(true);
+    expect(isFileIncluded("src/index.ts", [], {})).toBe(true);
+  });
+
+  it("generates include globs only when the condition holds", () => {
+    expect(isFileIncluded("src/a/b.test.ts", TEST_RULES, { includeTests: true })).toBe(true);
+    expect(isFileIncluded("src/a/b.test.ts", TEST_RULES, { includeTests: false })).toBe(false);
+    expect(isFileIncluded("vitest.config.ts", TEST_RULES, {})).toBe(false);
+  });
+
+  it("skips exclude globs when the condition holds", () => {
+    expect(isFileIncluded("docker/Dockerfile", TEST_RULES, { useDocker: false })).toBe(false);
+    expect(isFileIncluded("docker/Dockerfile", TEST_RULES, { useDocker: true })).toBe(true);
+  });
+
+  it("always skips exclude globs without a condition", () => {
+    expect(isFileIncluded("notes/todo.md", [{ exclude: ["notes/**"] }], {})).toBe(false);
+  });
+
+  it("leaves files matching no rule untouched", () => {
+    expect(isFileIncluded("src/index.ts", TEST_RULES, { includeTests: false })).toBe(true);
+  });
+
+  it("ignores a trailing .hbs extension", () => {
+    expect(isFileIncluded("src/index.test.ts.hbs", TEST_RULES, { includeTests: false })).toBe(
+      false,
+    );
+  });
+
+  it("matches template paths before rename placeholders are replaced", () => {
+    const rules: FileRule[] = [
+      { include: ["src/__name__.spec.ts"], when: { input: "withSpec", equals: true } },
+    ];
+
+    expect(isFileIncluded("src/__name__.spec.ts", rules, { withSpec: false })).toBe(false);
+  });
+});
+
+describe("filterTemplateFiles()", () => {
+  it("keeps input order and drops skipped files", () => {
+    const files = ["package.json", "src/index.ts", "src/index.test.ts", "vitest.config.ts"];
+
+    expect(filterTemplateFiles(files, TEST_RULES, { includeTests: false })).toEqual([
+      "package.json",
+      "src/index.ts",
+    ]);
+  });
+});
@@ -164,8 +164,8 @@ describe("GenerationReport and ProjectStateManager v2", () => {
   // ===========================================================================
 
   describe("schema version", () => {
-    it("CURRENT_SCHEMA_VERSION is 2", () => {
-      expect(CURRENT_SCHEMA_VERSION).toBe(2);
+    it("CURRENT_SCHEMA_VERSION is 3", () => {
+      expect(CURRENT_SCHEMA_VERSION).toBe(3);
     });
   });
 
@@ -179,7 +179,7 @@ describe("GenerationReport and ProjectStateManager v2", () => {
 
       const state = await manager.recordGeneration(tempDir, report);
 
-      expect(state.schemaVersion).toBe(2);
+      expect(state.schemaVersion).toBe(3);
       expect(state.generations).toHaveLength(1);
       expect(state.generations[0].id).toBe("gen-123");
       expect(state.generations[0].status).toBe("success");
@@ -374,12 +374,12 @@ describe("GenerationReport and ProjectStateManager v2", () => {
       const readState = await manager.read(tempDir);
       expect(readState).not.toBeNull();
 
-      // Now record a new generation - should upgrade to v2
+      // Now record a new generation - should upgrade to v3
       const newReport = createSampleReport({ id: "gen-new" });
       const upgradedState = await manager.recordGeneration(tempDir, newReport);
 
-      // Should be v2 now
-      expect(upgradedState.schemaVersion).toBe(2);
+      // Should be v3 now
+      expect(upgradedState.schemaVersion).toBe(3);
 
       // Should have migrated v1 lastGeneration to generations array
       expect(upgradedState.generations).toHaveLength(2);
@@ -445,6 +445,27 @@ describe("GenerationReport and ProjectStateManager v2", () => {
       expect(state.generations[0].id).toBe("gen-5"); // First 5 dropped
       expect(state.generations[49].id).toBe("gen-54"); // Last one kept
     });
+
+    it("deletes the backups of dropped generations", async () => {
+      const backupsDir = path.join(tempDir, ".scaffoldix", "backups");
+      for (let i = 0; i < 55; i++) {
+        await fs.mkdir(path.join(backupsDir, `gen-${i}`), { recursive: true });
+        await fs.writeFile(path.join(backupsDir, `gen-${i}`, "manifest.json"), "{}\n");
+        await manager.recordGeneration(tempDir, createSampleReport({ id: `gen-${i}` }));
+      }
+
+      const remaining = await fs.readdir(backupsDir);
+      expect(remaining).toHaveLength(50);
+      expect(remaining).not.toContain("gen-4");
+      expect(remaining).toContain("gen-5");
+      expect(remaining).toContain("gen-54");
+    });
+
+    it("prunes nothing when the project has no state", async () => {
+      await fs.mkdir(path.join(tempDir, ".scaffoldix", "backups", "gen-0"), { recursive: true });
+
+      expect(await manager.pruneBackups(tempDir)).toEqual([]);
+    });
   });
 
   // ===========================================================================
@@ -485,7 +506,7 @@ describe("GenerationReport and ProjectStateManager v2", () => {
 
       const state = (await manager.read(tempDir)) as ProjectStateV2;
 
-      expect(state.schemaVersion).toBe(2);
+      expect(state.schemaVersion).toBe(3);
       expect(state.generations).toBeDefined();
       expect(Array.isArray(state.generations)).toBe(true);
     });
@@ -0,0 +1,209 @@
+/**
+ * Input Sources - Tests
+ *
+ * Tests for collecting input values from --set flags and --inputs answer
+ * files (YAML, JSON, stdin), and their handoff to resolveInputs().
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import {
+  parseSetFlags,
+  parseInputsDocument,
+  collectProvidedInputs,
+} from "../../src/core/generate/InputSources.js";
+import { resolveInputs, type InputDefinition } from "../../src/core/generate/InputResolver.js";
+
+describe("InputSources", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-input-sources-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // ===========================================================================
+  // parseSetFlags()
+  // ===========================================================================
+
+  describe("parseSetFlags()", () => {
+    it("parses name=value pairs", () => {
+      expect(parseSetFlags(["projectName=demo", "port=8080"])).toEqual({
+        projectName: "demo",
+        port: "8080",
+      });
+    });
+
+    it("splits on the first '=' only", () => {
+      expect(parseSetFlags(["query=a=b"])).toEqual({ query: "a=b" });
+    });
+
+    it("allows empty values", () => {
+      expect(parseSetFlags(["description="])).toEqual({ description: "" });
+    });
+
+    it("later flags override earlier ones", () => {
+      expect(parseSetFlags(["name=first", "name=second"])).toEqual({ name: "second" });
+    });
+
+    it("throws INPUT_SET_INVALID when '=' is missing", () => {
+      try {
+        parseSetFlags(["projectName"]);
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.code).toBe("INPUT_SET_INVALID");
+        expect(err.hint).toContain("--set name=value");
+      }
+    });
+
+    it("throws INPUT_SET_INVALID when name is empty", () => {
+      expect(() => parseSetFlags(["=value"])).toThrow(/Invalid --set/);
+    });
+  });
+
+  // ===========================================================================
+  // parseInputsDocument()
+  // ===========================================================================
+
+  describe("parseInputsDocument()", () => {
+    it("parses YAML documents", () => {
+      const result = parseInputsDocument("projectName: demo\nport: 8080\n", "answers.yaml");
+      expect(result).toEqual({ projectName: "demo", port: 8080 });
+    });
+
+    it("parses JSON documents", () => {
+      const result = parseInputsDocument('{"projectName":"demo","strict":true}', "answers.json");
+      expect(result).toEqual({ projectName: "demo", strict: true });
+    });
+
+    it("accepts JSON from stdin", () => {
+      const result = parseInputsDocument('{"projectName":"demo"}', "-");
+      expect(result).toEqual({ projectName: "demo" });
+    });
+
+    it("treats an empty document as no values", () => {
+      expect(parseInputsDocument("", "answers.yaml")).toEqual({});
+    });
+
+    it("throws INPUTS_FILE_PARSE_ERROR for invalid JSON", () => {
+      try {
+        parseInputsDocument("{not json", "answers.json");
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.code).toBe("INPUTS_FILE_PARSE_ERROR");
+      }
+    });
+
+    it("throws INPUTS_FILE_PARSE_ERROR when document is not a mapping", () => {
+      expect(() => parseInputsDocument("- a\n- b\n", "answers.yaml")).toThrow(/mapping/);
+    });
+
+    it("labels stdin in error messages", () => {
+      expect(() => parseInputsDocument("42", "-")).toThrow(/stdin/);
+    });
+  });
+
+  // ===========================================================================
+  // collectProvidedInputs()
+  // ===========================================================================
+
+  describe("collectProvidedInputs()", () => {
+    it("returns empty object when nothing is provided", async () => {
+      expect(await collectProvidedInputs({ cwd: tempDir })).toEqual({});
+    });
+
+    it("reads an answer file relative to cwd", async () => {
+      await fs.writeFile(path.join(tempDir, "answers.yml"), "projectName: from-file\n");
+
+      const result = await collectProvidedInputs({ inputsFile: "answers.yml", cwd: tempDir });
+
+      expect(result).toEqual({ projectName: "from-file" });
+    });
+
+    it("reads from stdin when inputsFile is '-'", async () => {
+      const result = await collectProvidedInputs({
+        inputsFile: "-",
+        cwd: tempDir,
+        readStdin: async () => "projectName: from-stdin\n",
+      });
+
+      expect(result).toEqual({ projectName: "from-stdin" });
+    });
+
+    it("--set values override answer file values", async () => {
+      await fs.writeFile(
+        path.join(tempDir, "answers.json"),
+        JSON.stringify({ projectName: "from-file", port: 3000 }),
+      );
+
+      const result = await collectProvidedInputs({
+        inputsFile: "answers.json",
+        set: ["projectName=from-set"],
+        cwd: tempDir,
+      });
+
+      expect(result).toEqual({ projectName: "from-set", port: 3000 });
+    });
+
+    it("throws INPUTS_STDIN_INTERACTIVE without reading stdin when prompts will run", async () => {
+      let read = false;
+      await expect(
+        collectProvidedInputs({
+          inputsFile: "-",
+          cwd: tempDir,
+          interactive: true,
+          readStdin: async () => {
+            read = true;
+            return "";
+          },
+        }),
+      ).rejects.toMatchObject({ code: "INPUTS_STDIN_INTERACTIVE" });
+      expect(read).toBe(false);
+    });
+
+    it("throws INPUTS_FILE_READ_ERROR when file does not exist", async () => {
+      await expect(
+        collectProvidedInputs({ inputsFile: "missing.yaml", cwd: tempDir }),
+      ).rejects.toMatchObject({ code: "INPUTS_FILE_READ_ERROR" });
+    });
+  });
+
+  // ===========================================================================
+  // Integration with resolveInputs()
+  // ===========================================================================
+
+  describe("with resolveInputs()", () => {
+    const inputsSchema: InputDefinition[] = [
+      { name: "projectName", type: "string", required: true },
+      { name: "port", type: "number", default: 3000 },
+      { name: "strict", type: "boolean", default: false },
+    ];
+
+    it("satisfies required inputs in non-interactive mode", async () => {
+      const provided = await collectProvidedInputs({
+        set: ["projectName=demo", "port=8080", "strict=true"],
+        cwd: tempDir,
+      });
+
+      const result = await resolveInputs({ inputsSchema, nonInteractive: true, provided });
+
+      expect(result).toEqual({ projectName: "demo", port: 8080, strict: true });
+    });
+
+    it("applies the same coercion errors to --set values", async () => {
+      const provided = await collectProvidedInputs({
+        set: ["projectName=x", "port=abc"],
+        cwd: tempDir,
+      });
+
+      await expect(
+        resolveInputs({ inputsSchema, nonInteractive: true, provided }),
+      ).rejects.toMatchObject({ code: "INPUT_TYPE_ERROR" });
+    });
+  });
+});
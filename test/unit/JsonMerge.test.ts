@@ -0,0 +1,107 @@
+/**
+ * Unit tests for structural merging used by data-file patches.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { mergeStructured, detectJsonIndent, isDeepEqual } from "../../src/core/patch/JsonMerge.js";
+
+describe("mergeStructured()", () => {
+  it("merges objects recursively, keeping key order and appending new keys", () => {
+    const target = { name: "app", scripts: { build: "tsc" }, dependencies: { commander: "^12" } };
+    const fragment = { dependencies: { zod: "^4" }, scripts: { build: "tsc -b" } };
+
+    const { value, changedKeys } = mergeStructured(target, fragment);
+
+    expect(JSON.stringify(value)).toBe(
+      '{"name":"app","scripts":{"build":"tsc -b"},"dependencies":{"commander":"^12","zod":"^4"}}',
+    );
+    expect(changedKeys).toEqual(["dependencies.zod", "scripts.build"]);
+    expect(target.dependencies).toEqual({ commander: "^12" });
+  });
+
+  it("reports no changes when the fragment is already merged", () => {
+    const target = { compilerOptions: { paths: { "@/*": ["src/*"] } } };
+
+    const { changedKeys } = mergeStructured(target, {
+      compilerOptions: { paths: { "@/*": ["src/*"] } },
+    });
+
+    expect(changedKeys).toEqual([]);
+  });
+
+  it("appends unique array elements by default", () => {
+    const { value, changedKeys } = mergeStructured(
+      { files: ["dist", "README.md"] },
+      { files: ["dist", "bin"] },
+    );
+
+    expect(value).toEqual({ files: ["dist", "README.md", "bin"] });
+    expect(changedKeys).toEqual(["files"]);
+  });
+
+  it("replaces arrays with the replace strategy", () => {
+    const { value, changedKeys } = mergeStructured(
+      { lib: ["ES2020", "DOM"] },
+      { lib: ["ES2022"] },
+      { arrayStrategy: "replace" },
+    );
+
+    expect(value).toEqual({ lib: ["ES2022"] });
+    expect(changedKeys).toEqual(["lib"]);
+  });
+
+  it("merges array elements by key with the by-key strategy", () => {
+    const target = {
+      references: [{ path: "./packages/core" }, { path: "./packages/cli", prepend: false }],
+    };
+    const fragment = {
+      references: [{ path: "./packages/cli", prepend: true }, { path: "./packages/web" }],
+    };
+
+    const { value, changedKeys } = mergeStructured(target, fragment, {
+      arrayStrategy: "by-key",
+      arrayKey: "path",
+    });
+
+    expect(value).toEqual({
+      references: [
+        { path: "./packages/core" },
+        { path: "./packages/cli", prepend: true },
+        { path: "./packages/web" },
+      ],
+    });
+    expect(changedKeys).toEqual([
+      "references[path=./packages/cli].prepend",
+      "references[path=./packages/web]",
+    ]);
+  });
+
+  it("replaces values of a different type", () => {
+    const { value, changedKeys } = mergeStructured({ main: { a: 1 } }, { main: "index.js" });
+
+    expect(value).toEqual({ main: "index.js" });
+    expect(changedKeys).toEqual(["main"]);
+  });
+});
+
+describe("isDeepEqual()", () => {
+  it("ignores object key order but not array order", () => {
+    expect(isDeepEqual({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true);
+    expect(isDeepEqual([1, 2], [2, 1])).toBe(false);
+  });
+});
+
+describe("detectJsonIndent()", () => {
+  it.each([
+    ['{\n    "a": 1\n}\n', "    "],
+    ['{\n\t"a": 1\n}\n', "\t"],
+    ['{\n  "a": 1\n}', "  "],
+    ["{}\n", 2],
+    ['{"a":1}', 0],
+  ])("%j -> %j", (content, expected) => {
+    expect(detectJsonIndent(content)).toBe(expected);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for pack partials and helper modules.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { loadPackTemplateEngine } from "../../src/core/render/PackTemplateEngine.js";
+import { getTemplateEngine } from "../../src/core/render/TemplateHelpers.js";
+import { ScaffoldError } from "../../src/core/errors/errors.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+async function writeFile(root: string, relativePath: string, content: string): Promise<void> {
+  const filePath = path.join(root, relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("loadPackTemplateEngine()", () => {
+  let packDir: string;
+
+  beforeEach(async () => {
+    packDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-pack-engine-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(packDir, { recursive: true, force: true });
+  });
+
+  describe("partials", () => {
+    it("registers partials by path without extension", async () => {
+      await writeFile(packDir, "partials/header.hbs", "// {{name}}");
+      await writeFile(packDir, "partials/java/imports.hbs", "import {{pkg}}.*;");
+
+      const engine = await loadPackTemplateEngine({ packDir, partials: "partials" });
+      const output = engine.compile("{{> header}} | {{> java/imports}}")({
+        name: "Demo",
+        pkg: "com.acme",
+      });
+
+      expect(output).toBe("// Demo | import com.acme.*;");
+    });
+
+    it("keeps built-in helpers available", async () => {
+      await writeFile(packDir, "partials/title.hbs", "{{pascalCase name}}");
+
+      const engine = await loadPackTemplateEngine({ packDir, partials: "partials" });
+
+      expect(engine.compile("{{> title}}")({ name: "order-item" })).toBe("OrderItem");
+    });
+
+    it("throws PACK_PARTIALS_NOT_FOUND for a missing directory", async () => {
+      await expect(loadPackTemplateEngine({ packDir, partials: "missing" })).rejects.toMatchObject({
+        code: "PACK_PARTIALS_NOT_FOUND",
+      });
+    });
+  });
+
+  describe("helper modules", () => {
+    it("registers named exports and default-export objects", async () => {
+      await writeFile(
+        packDir,
+        "helpers/text.mjs",
+        `export function shout(value) { return String(value).toUpperCase() + "!"; }
+export const VERSION = "1";
+export default { whisper: (value) => String(value).toLowerCase() };
+`,
+      );
+
+      const engine = await loadPackTemplateEngine({ packDir, helpers: ["helpers/text.mjs"] });
+
+      expect(engine.compile("{{shout name}} {{whisper name}}")({ name: "Hi" })).toBe("HI! hi");
+    });
+
+    it("lets pack helpers override built-ins for that pack only", async () => {
+      await writeFile(packDir, "helpers/case.mjs", `export const pascalCase = () => "custom";\n`);
+
+      const engine = await loadPackTemplateEngine({ packDir, helpers: ["helpers/case.mjs"] });
+
+      expect(engine.compile("{{pascalCase name}}")({ name: "a-b" })).toBe("custom");
+      expect(getTemplateEngine().compile("{{pascalCase name}}")({ name: "a-b" })).toBe("AB");
+    });
+
+    it("does not leak helpers into the shared engine or other packs", async () => {
+      await writeFile(packDir, "helpers/a.mjs", `export const greet = () => "from a";\n`);
+      await writeFile(packDir, "helpers/b.mjs", `export const greet = () => "from b";\n`);
+
+      const engineA = await loadPackTemplateEngine({ packDir, helpers: ["helpers/a.mjs"] });
+      const engineB = await loadPackTemplateEngine({ packDir, helpers: ["helpers/b.mjs"] });
+
+      expect(engineA.compile("{{greet}}")({})).toBe("from a");
+      expect(engineB.compile("{{greet}}")({})).toBe("from b");
+      expect(getTemplateEngine().helpers["greet"]).toBeUndefined();
+    });
+
+    it("throws PACK_HELPER_LOAD_FAILED when the module cannot be imported", async () => {
+      const error = await loadPackTemplateEngine({ packDir, helpers: ["helpers/nope.mjs"] }).catch(
+        (e) => e,
+      );
+
+      expect(error).toBeInstanceOf(ScaffoldError);
+      expect(error.code).toBe("PACK_HELPER_LOAD_FAILED");
+      expect(error.details.modulePath).toBe("helpers/nope.mjs");
+    });
+
+    it("throws PACK_HELPER_LOAD_FAILED when the module exports no functions", async () => {
+      await writeFile(packDir, "helpers/empty.mjs", `export const value = 42;\n`);
+
+      await expect(
+        loadPackTemplateEngine({ packDir, helpers: ["helpers/empty.mjs"] }),
+      ).rejects.toMatchObject({ code: "PACK_HELPER_LOAD_FAILED" });
+    });
+  });
+});
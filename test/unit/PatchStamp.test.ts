@@ -0,0 +1,84 @@
+/**
+ * Unit tests for comment-syntax-aware patch stamps.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  resolveStampStyle,
+  formatStamp,
+  hasStamp,
+  locateStamp,
+  hashPatchContent,
+} from "../../src/core/patch/PatchStamp.js";
+
+describe("resolveStampStyle()", () => {
+  it.each([
+    ["src/index.ts", "//"],
+    ["app/models.py", "#"],
+    ["docker-compose.YAML", "#"],
+    ["public/index.html", "<!-- -->"],
+    ["README.md", "<!-- -->"],
+    ["styles/main.css", "/* */"],
+    ["db/001_init.sql", "--"],
+    ["package.json", "none"],
+    ["notes.txt", "none"],
+    ["Dockerfile", "#"],
+    ["docker/Dockerfile.dev", "#"],
+    [".env.local", "#"],
+    [".gitignore", "#"],
+    ["main.unknown", "//"],
+    ["LICENSE", "//"],
+  ])("picks the syntax for %s", (file, style) => {
+    expect(resolveStampStyle(file)).toBe(style);
+  });
+
+  it("prefers the override", () => {
+    expect(resolveStampStyle("package.json", "//")).toBe("//");
+  });
+});
+
+describe("formatStamp()", () => {
+  it("wraps block comments around the stamp", () => {
+    expect(formatStamp("k", "//")).toBe("// SCAFFOLDIX_PATCH:k");
+    expect(formatStamp("k", "<!-- -->")).toBe("<!-- SCAFFOLDIX_PATCH:k -->");
+    expect(formatStamp("k", "/* */")).toBe("/* SCAFFOLDIX_PATCH:k */");
+  });
+});
+
+describe("hasStamp()", () => {
+  it("finds stamps in any comment syntax", () => {
+    for (const style of ["//", "#", "--", "/* */", "<!-- -->"] as const) {
+      expect(hasStamp(`a\n${formatStamp("add.item", style)}\nb`, "add.item")).toBe(true);
+    }
+    expect(hasStamp("// SCAFFOLDIX_PATCH:add.item", "add.item")).toBe(true);
+  });
+
+  it("matches the whole key only", () => {
+    expect(hasStamp("// SCAFFOLDIX_PATCH:add-item\n", "add")).toBe(false);
+    expect(hasStamp("// SCAFFOLDIX_PATCH:addXitem\n", "add.item")).toBe(false);
+  });
+});
+
+describe("locateStamp()", () => {
+  it("includes the comment delimiters", () => {
+    for (const style of ["//", "#", "--", "/* */", "<!-- -->"] as const) {
+      const stamp = formatStamp("add.item", style);
+      const content = `a\n${stamp}\nb`;
+      expect(locateStamp(content, "add.item")).toEqual({ start: 2, end: 2 + stamp.length });
+    }
+  });
+
+  it("returns undefined without a stamp for the whole key", () => {
+    expect(locateStamp("// SCAFFOLDIX_PATCH:add-item\n", "add")).toBeUndefined();
+  });
+});
+
+describe("hashPatchContent()", () => {
+  it("ignores line ending differences", () => {
+    expect(hashPatchContent("a\r\nb")).toBe(hashPatchContent("a\nb"));
+    expect(hashPatchContent("a\nb")).not.toBe(hashPatchContent("a\nc"));
+  });
+});
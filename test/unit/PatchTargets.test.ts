@@ -0,0 +1,88 @@
+/**
+ * Unit tests for patch target expansion.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import {
+  describePatchTarget,
+  expandPatchTargets,
+  patchTargetPatterns,
+} from "../../src/core/patch/PatchTargets.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+async function writeFiles(root: string, files: string[]): Promise<void> {
+  for (const file of files) {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), "", "utf-8");
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("patchTargetPatterns()", () => {
+  it("returns files, or file as a single entry", () => {
+    expect(patchTargetPatterns({ file: "src/*.ts" })).toEqual(["src/*.ts"]);
+    expect(patchTargetPatterns({ files: ["a.ts", "b/*.ts"] })).toEqual(["a.ts", "b/*.ts"]);
+    expect(describePatchTarget({ files: ["a.ts", "b/*.ts"] })).toBe("a.ts, b/*.ts");
+  });
+});
+
+describe("expandPatchTargets()", () => {
+  let staging: string;
+  let project: string;
+
+  beforeEach(async () => {
+    const base = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-targets-test-"));
+    staging = path.join(base, "staging");
+    project = path.join(base, "project");
+    await writeFiles(staging, ["src/users/users.controller.ts", "src/users/users.service.ts"]);
+    await writeFiles(project, [
+      "src/orders/orders.controller.ts",
+      "src/users/users.controller.ts",
+      "node_modules/lib/lib.controller.ts",
+      ".scaffoldix/state.json",
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(staging), { recursive: true, force: true });
+  });
+
+  it("matches globs in every root, once per file, sorted", async () => {
+    const files = await expandPatchTargets(["src/**/*.controller.ts"], [staging, project]);
+
+    expect(files).toEqual(["src/orders/orders.controller.ts", "src/users/users.controller.ts"]);
+  });
+
+  it("keeps literal paths as written, in entry order", async () => {
+    const files = await expandPatchTargets(
+      ["src/missing.ts", "src/users/*.service.ts", "src/missing.ts"],
+      [staging, project],
+    );
+
+    expect(files).toEqual(["src/missing.ts", "src/users/users.service.ts"]);
+  });
+
+  it("ignores node_modules, .git and .scaffoldix", async () => {
+    expect(await expandPatchTargets(["**/*.controller.ts"], [project])).toEqual([
+      "src/orders/orders.controller.ts",
+      "src/users/users.controller.ts",
+    ]);
+    expect(await expandPatchTargets(["**/*.json"], [project])).toEqual([]);
+  });
+
+  it("matches nothing in missing roots", async () => {
+    expect(await expandPatchTargets(["**/*.ts"], [path.join(project, "missing")])).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for RenameResolver and case conversion utilities.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { resolveRenameRules } from "../../src/core/render/RenameResolver.js";
+import {
+  splitWords,
+  toCamelCase,
+  toConstantCase,
+  toKebabCase,
+  toPascalCase,
+  toSnakeCase,
+} from "../../src/core/utils/caseConversion.js";
+
+describe("caseConversion", () => {
+  it("splits on separators and camelCase boundaries", () => {
+    expect(splitWords("user-profile_service name")).toEqual(["user", "profile", "service", "name"]);
+    expect(splitWords("userProfile")).toEqual(["user", "Profile"]);
+    expect(splitWords("HTTPServer")).toEqual(["HTTP", "Server"]);
+  });
+
+  it("converts between case styles", () => {
+    expect(toPascalCase("user-profile")).toBe("UserProfile");
+    expect(toCamelCase("user-profile")).toBe("userProfile");
+    expect(toKebabCase("UserProfile")).toBe("user-profile");
+    expect(toSnakeCase("userProfile")).toBe("user_profile");
+    expect(toConstantCase("userProfile")).toBe("USER_PROFILE");
+  });
+
+  it("returns empty string for input without words", () => {
+    expect(toPascalCase("--")).toBe("");
+  });
+});
+
+describe("resolveRenameRules()", () => {
+  it("derives __name__ placeholders from string inputs", () => {
+    const rules = resolveRenameRules({ data: { moduleName: "userProfile" } });
+
+    expect(rules.replacements).toMatchObject({
+      __moduleName__: "userProfile",
+      __moduleName_pascal__: "UserProfile",
+      __moduleName_camel__: "userProfile",
+      __moduleName_kebab__: "user-profile",
+      __moduleName_snake__: "user_profile",
+      __moduleName_constant__: "USER_PROFILE",
+    });
+  });
+
+  it("derives plain placeholders for numbers and booleans only", () => {
+    const rules = resolveRenameRules({ data: { port: 8080, strict: true } });
+
+    expect(rules.replacements).toEqual({ __port__: "8080", __strict__: "true" });
+  });
+
+  it("ignores non-scalar inputs", () => {
+    const rules = resolveRenameRules({ data: { items: ["a"], config: { a: 1 } } });
+
+    expect(rules.replacements).toEqual({});
+  });
+
+  it("renders manifest rename expressions against inputs", () => {
+    const rules = resolveRenameRules({
+      data: { entityName: "Order" },
+      rename: { __Entity__: "{{entityName}}Entity", __Amp__: "a&b" },
+    });
+
+    expect(rules.replacements.__Entity__).toBe("OrderEntity");
+    expect(rules.replacements.__Amp__).toBe("a&b");
+  });
+
+  it("applies precedence: inputs < manifest < explicit", () => {
+    const rules = resolveRenameRules({
+      data: { name: "from-input" },
+      rename: { __name__: "from-manifest", __other__: "manifest" },
+      explicit: { replacements: { __other__: "explicit" } },
+    });
+
+    expect(rules.replacements.__name__).toBe("from-manifest");
+    expect(rules.replacements.__other__).toBe("explicit");
+  });
+
+  it("throws RENAME_TEMPLATE_ERROR for invalid expressions", () => {
+    expect(() => resolveRenameRules({ data: {}, rename: { __x__: "{{#if}}" } })).toThrowError(
+      expect.objectContaining({ code: "RENAME_TEMPLATE_ERROR" }),
+    );
+  });
+});
@@ -12,6 +12,8 @@ import * as path from "node:path";
 import * as os from "node:os";
 
 import { StagingManager } from "../../src/core/staging/StagingManager.js";
+import { readBackupManifest } from "../../src/core/staging/Backups.js";
+import { hashFileContent } from "../../src/core/state/FileOwnership.js";
 
 // =============================================================================
 // Test Helpers
@@ -254,6 +256,158 @@ describe("StagingManager", () => {
     });
   });
 
+  // ===========================================================================
+  // Existing Projects
+  // ===========================================================================
+
+  describe("overlay", () => {
+    it("copies existing target files that are not staged", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "project");
+      await writeFile(path.join(targetDir, "src/app.ts"), "app");
+      await writeFile(path.join(targetDir, "README.md"), "existing readme");
+      await writeFile(path.join(stagingDir, "README.md"), "rendered readme");
+
+      const overlaid = await manager.overlay(stagingDir, targetDir, [
+        "src/app.ts",
+        "src/app.ts",
+        "README.md",
+        "missing.ts",
+      ]);
+
+      expect(overlaid).toEqual([path.join("src", "app.ts")]);
+      expect(await fs.readFile(path.join(stagingDir, "src/app.ts"), "utf-8")).toBe("app");
+      expect(await fs.readFile(path.join(stagingDir, "README.md"), "utf-8")).toBe(
+        "rendered readme",
+      );
+    });
+
+    it("rejects paths outside the target", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+
+      await expect(
+        manager.overlay(stagingDir, path.join(storeDir, "project"), ["../secret.txt"]),
+      ).rejects.toMatchObject({ code: "STAGING_PATH_OUTSIDE_TARGET" });
+    });
+  });
+
+  describe("commit with merge", () => {
+    it("moves staged files into the target and keeps the others", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "project");
+      await writeFile(path.join(targetDir, "src/app.ts"), "old app");
+      await writeFile(path.join(targetDir, "package.json"), "{}");
+      await writeFile(path.join(stagingDir, "src/app.ts"), "patched app");
+      await writeFile(path.join(stagingDir, "src/features/billing.ts"), "billing");
+
+      await manager.commit(stagingDir, targetDir, { merge: true });
+
+      expect(await fs.readFile(path.join(targetDir, "src/app.ts"), "utf-8")).toBe("patched app");
+      expect(await fs.readFile(path.join(targetDir, "src/features/billing.ts"), "utf-8")).toBe(
+        "billing",
+      );
+      expect(await fs.readFile(path.join(targetDir, "package.json"), "utf-8")).toBe("{}");
+      expect(await pathExists(stagingDir)).toBe(false);
+      expect(await fs.readdir(path.join(storeDir, ".rollback"))).toEqual([]);
+    });
+
+    it("moves the whole staging directory when the target does not exist", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "new-project");
+      await writeFile(path.join(stagingDir, "index.ts"), "index");
+
+      await manager.commit(stagingDir, targetDir, { merge: true });
+
+      expect(await fs.readFile(path.join(targetDir, "index.ts"), "utf-8")).toBe("index");
+    });
+
+    it("restores the target if a file cannot be moved", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "project");
+      await writeFile(path.join(targetDir, "a.ts"), "old a");
+      // A directory where the staged file `b.ts/c.ts` needs a file: the move fails
+      await writeFile(path.join(targetDir, "b.ts"), "old b");
+      await writeFile(path.join(stagingDir, "a.ts"), "new a");
+      await writeFile(path.join(stagingDir, "b.ts/c.ts"), "new c");
+      await writeFile(path.join(stagingDir, "new.ts"), "new");
+
+      await expect(manager.commit(stagingDir, targetDir, { merge: true })).rejects.toMatchObject({
+        code: "COMMIT_FAILED",
+      });
+
+      expect(await fs.readFile(path.join(targetDir, "a.ts"), "utf-8")).toBe("old a");
+      expect(await fs.readFile(path.join(targetDir, "b.ts"), "utf-8")).toBe("old b");
+      expect(await pathExists(path.join(targetDir, "new.ts"))).toBe(false);
+    });
+
+    it("keeps replaced and removed files in the backup directory", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "project");
+      const backupDir = path.join(targetDir, ".scaffoldix/backups/gen-1");
+      await writeFile(path.join(targetDir, "src/app.ts"), "old app");
+      await writeFile(path.join(targetDir, "legacy.ts"), "legacy");
+      await writeFile(path.join(stagingDir, "src/app.ts"), "patched app");
+      await writeFile(path.join(stagingDir, "src/new.ts"), "new");
+
+      await manager.commit(stagingDir, targetDir, {
+        merge: true,
+        backupDir,
+        remove: ["legacy.ts", "missing.ts"],
+      });
+
+      expect(await pathExists(path.join(targetDir, "legacy.ts"))).toBe(false);
+      expect(await fs.readFile(path.join(backupDir, "files/src/app.ts"), "utf-8")).toBe("old app");
+      expect(await fs.readFile(path.join(backupDir, "files/legacy.ts"), "utf-8")).toBe("legacy");
+      expect(await pathExists(path.join(backupDir, "files/src/new.ts"))).toBe(false);
+
+      const manifest = await readBackupManifest(backupDir);
+      expect(manifest?.files).toEqual([
+        { path: "src/app.ts", action: "replaced", hash: hashFileContent("patched app") },
+        { path: "src/new.ts", action: "created", hash: hashFileContent("new") },
+        { path: "legacy.ts", action: "removed" },
+      ]);
+    });
+
+    it("backs up a commit into a new target file by file", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "new-project");
+      const backupDir = path.join(targetDir, ".scaffoldix/backups/gen-1");
+      await writeFile(path.join(stagingDir, "index.ts"), "index");
+
+      await manager.commit(stagingDir, targetDir, { merge: true, backupDir });
+
+      expect(await fs.readFile(path.join(targetDir, "index.ts"), "utf-8")).toBe("index");
+      expect((await readBackupManifest(backupDir))?.files).toEqual([
+        { path: "index.ts", action: "created", hash: hashFileContent("index") },
+      ]);
+    });
+
+    it("removes the backup directory if the commit fails", async () => {
+      const manager = new StagingManager(storeDir);
+      const stagingDir = await manager.createStagingDir();
+      const targetDir = path.join(storeDir, "project");
+      const backupDir = path.join(storeDir, "backups/gen-1");
+      await writeFile(path.join(targetDir, "a.ts"), "old a");
+      await writeFile(path.join(targetDir, "b.ts"), "old b");
+      await writeFile(path.join(stagingDir, "a.ts"), "new a");
+      await writeFile(path.join(stagingDir, "b.ts/c.ts"), "new c");
+
+      await expect(
+        manager.commit(stagingDir, targetDir, { merge: true, backupDir }),
+      ).rejects.toMatchObject({ code: "COMMIT_FAILED" });
+
+      expect(await fs.readFile(path.join(targetDir, "a.ts"), "utf-8")).toBe("old a");
+      expect(await pathExists(backupDir)).toBe(false);
+    });
+  });
+
   // ===========================================================================
   // Cleanup All Stale Staging
   // ===========================================================================
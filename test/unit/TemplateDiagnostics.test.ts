@@ -0,0 +1,115 @@
+/**
+ * Unit tests for template rendering diagnostics and strict mode.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { renderTemplateString } from "../../src/core/render/TemplateDiagnostics.js";
+import { ScaffoldError } from "../../src/core/errors/errors.js";
+
+function captureError(fn: () => unknown): ScaffoldError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ScaffoldError);
+    return error as ScaffoldError;
+  }
+  throw new Error("Expected the render to fail");
+}
+
+describe("renderTemplateString()", () => {
+  it("renders missing variables as empty strings by default", () => {
+    const output = renderTemplateString({
+      template: "Hello {{name}}{{missing}}!",
+      data: { name: "World" },
+      file: "greeting.txt",
+    });
+
+    expect(output).toBe("Hello World!");
+  });
+
+  it("does not escape HTML unless requested", () => {
+    const template = "{{type}}";
+    const data = { type: "Map<A & B>" };
+
+    expect(renderTemplateString({ template, data, file: "a.ts" })).toBe("Map<A & B>");
+    expect(renderTemplateString({ template, data, file: "a.html", escapeHtml: true })).toBe(
+      "Map&lt;A &amp; B&gt;",
+    );
+  });
+
+  it("reports syntax errors with file and line", () => {
+    const error = captureError(() =>
+      renderTemplateString({
+        template: "line one\n  {{#if ok}}\n  body\n  {{/each}}\n",
+        data: {},
+        file: "src/index.ts.hbs",
+      }),
+    );
+
+    expect(error.code).toBe("TEMPLATE_SYNTAX_ERROR");
+    expect(error.message).toContain("src/index.ts.hbs:");
+    expect(error.details).toMatchObject({ file: "src/index.ts.hbs", line: 2 });
+  });
+
+  it("reports only the line of unparseable tokens", () => {
+    const error = captureError(() =>
+      renderTemplateString({ template: "ok\nvalue: {{ }}\n", data: {}, file: "a.txt" }),
+    );
+
+    expect(error.code).toBe("TEMPLATE_SYNTAX_ERROR");
+    expect(error.message).toBe("Template syntax error in a.txt:2");
+    expect(error.details).toMatchObject({ file: "a.txt", line: 2 });
+    expect(error.details?.column).toBeUndefined();
+  });
+
+  it("fails on missing variables in strict mode with position and inputs", () => {
+    const error = captureError(() =>
+      renderTemplateString({
+        template: "name: {{name}}\nport: {{prot}}\n",
+        data: { name: "api", port: 8080 },
+        file: "config.yaml.hbs",
+        strict: true,
+      }),
+    );
+
+    expect(error.code).toBe("TEMPLATE_RENDER_FAILED");
+    expect(error.message).toBe(
+      "Failed to render template config.yaml.hbs:2:9: Missing variable or helper 'prot'",
+    );
+    expect(error.details).toMatchObject({
+      file: "config.yaml.hbs",
+      line: 2,
+      column: 9,
+      availableInputs: ["name", "port"],
+    });
+    expect(error.hint).toContain("Available inputs: name, port");
+  });
+
+  it("fails on missing helpers in strict mode", () => {
+    const error = captureError(() =>
+      renderTemplateString({
+        template: "{{shout name}}",
+        data: { name: "api" },
+        file: "a.txt",
+        strict: true,
+      }),
+    );
+
+    expect(error.code).toBe("TEMPLATE_RENDER_FAILED");
+    expect(error.details?.reason).toMatch(/'shout'/);
+  });
+
+  it("allows missing values in block conditions in strict mode", () => {
+    const output = renderTemplateString({
+      template: "{{#if useDocker}}docker{{/if}}{{name}}",
+      data: { name: "api" },
+      file: "a.txt",
+      strict: true,
+    });
+
+    expect(output).toBe("api");
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Unit tests for the built-in Handlebars helpers.
+ *
+ * Covers every helper and verifies that Renderer, PreviewPlanner and
+ * PatchResolver all render with the same shared registry.
+ *
+ * @module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import {
+  BUILTIN_HELPERS,
+  createTemplateEngine,
+  getTemplateEngine,
+} from "../../src/core/render/TemplateHelpers.js";
+import { renderArchetype } from "../../src/core/render/Renderer.js";
+import { PreviewPlanner } from "../../src/core/preview/PreviewPlanner.js";
+import { PatchResolver } from "../../src/core/patch/PatchResolver.js";
+
+function render(template: string, data: Record<string, unknown> = {}): string {
+  return getTemplateEngine().compile(template)(data);
+}
+
+describe("TemplateHelpers", () => {
+  // ===========================================================================
+  // Case helpers
+  // ===========================================================================
+
+  describe("case helpers", () => {
+    const data = { name: "user-profile" };
+
+    it("pascalCase", () => {
+      expect(render("{{pascalCase name}}", data)).toBe("UserProfile");
+    });
+
+    it("camelCase", () => {
+      expect(render("{{camelCase name}}", data)).toBe("userProfile");
+    });
+
+    it("kebabCase", () => {
+      expect(render("{{kebabCase 'UserProfile'}}")).toBe("user-profile");
+    });
+
+    it("snakeCase", () => {
+      expect(render("{{snakeCase 'UserProfile'}}")).toBe("user_profile");
+    });
+
+    it("constantCase", () => {
+      expect(render("{{constantCase 'userProfile'}}")).toBe("USER_PROFILE");
+    });
+
+    it("renders missing values as empty strings", () => {
+      expect(render("[{{pascalCase missing}}]")).toBe("[]");
+    });
+  });
+
+  // ===========================================================================
+  // pluralize
+  // ===========================================================================
+
+  describe("pluralize", () => {
+    it.each([
+      ["user", "users"],
+      ["category", "categories"],
+      ["day", "days"],
+      ["box", "boxes"],
+      ["branch", "branches"],
+      ["person", "people"],
+      ["Person", "People"],
+      ["Category", "Categories"],
+    ])("%s -> %s", (word, expected) => {
+      expect(render("{{pluralize word}}", { word })).toBe(expected);
+    });
+
+    it("keeps the singular when count is 1", () => {
+      expect(render("{{pluralize 'item' count}}", { count: 1 })).toBe("item");
+      expect(render("{{pluralize 'item' count}}", { count: 2 })).toBe("items");
+    });
+  });
+
+  // ===========================================================================
+  // json
+  // ===========================================================================
+
+  describe("json", () => {
+    it("serializes compactly by default without escaping quotes", () => {
+      expect(render("{{json config}}", { config: { name: "a<b", list: [1, 2] } })).toBe(
+        '{"name":"a<b","list":[1,2]}',
+      );
+    });
+
+    it("indents with the given number of spaces", () => {
+      expect(render("{{json config 2}}", { config: { a: 1 } })).toBe('{\n  "a": 1\n}');
+    });
+
+    it("serializes undefined as null", () => {
+      expect(render("{{json missing}}")).toBe("null");
+    });
+  });
+
+  // ===========================================================================
+  // Logic helpers
+  // ===========================================================================
+
+  describe("logic helpers", () => {
+    it("eq compares strictly", () => {
+      const template = "{{#if (eq db 'postgres')}}yes{{else}}no{{/if}}";
+      expect(render(template, { db: "postgres" })).toBe("yes");
+      expect(render(template, { db: "mysql" })).toBe("no");
+      expect(render("{{#if (eq port '80')}}yes{{else}}no{{/if}}", { port: 80 })).toBe("no");
+    });
+
+    it("and requires every argument to be truthy", () => {
+      const template = "{{#if (and a b c)}}yes{{else}}no{{/if}}";
+      expect(render(template, { a: true, b: 1, c: "x" })).toBe("yes");
+      expect(render(template, { a: true, b: 0, c: "x" })).toBe("no");
+    });
+
+    it("or requires any argument to be truthy", () => {
+      const template = "{{#if (or a b)}}yes{{else}}no{{/if}}";
+      expect(render(template, { a: false, b: "x" })).toBe("yes");
+      expect(render(template, { a: false, b: "" })).toBe("no");
+    });
+
+    it("not negates its argument", () => {
+      const template = "{{#if (not skip)}}run{{else}}skip{{/if}}";
+      expect(render(template, { skip: false })).toBe("run");
+      expect(render(template, { skip: true })).toBe("skip");
+    });
+
+    it("composes with other helpers", () => {
+      const template = "{{#if (and (eq db 'postgres') (not legacy))}}pg{{/if}}";
+      expect(render(template, { db: "postgres", legacy: false })).toBe("pg");
+    });
+  });
+
+  // ===========================================================================
+  // join
+  // ===========================================================================
+
+  describe("join", () => {
+    it("joins with ', ' by default", () => {
+      expect(render("{{join items}}", { items: ["a", "b", "c"] })).toBe("a, b, c");
+    });
+
+    it("joins with a custom separator", () => {
+      expect(render("{{join items ' | '}}", { items: ["a", "b"] })).toBe("a | b");
+    });
+
+    it("renders non-arrays as text", () => {
+      expect(render("{{join items}}", { items: "solo" })).toBe("solo");
+    });
+  });
+
+  // ===========================================================================
+  // indent
+  // ===========================================================================
+
+  describe("indent", () => {
+    it("indents every non-empty line of a value", () => {
+      expect(render("{{indent body 4}}", { body: "a\n\nb" })).toBe("    a\n\n    b");
+    });
+
+    it("defaults to two spaces", () => {
+      expect(render("{{indent body}}", { body: "a" })).toBe("  a");
+    });
+
+    it("indents block content", () => {
+      expect(render("{{#indent 2}}x: {{value}}\ny: 2{{/indent}}", { value: 1 })).toBe(
+        "  x: 1\n  y: 2",
+      );
+    });
+  });
+
+  // ===========================================================================
+  // Registry
+  // ===========================================================================
+
+  describe("registry", () => {
+    it("registers every built-in helper on new engines", () => {
+      const engine = createTemplateEngine();
+
+      for (const name of Object.keys(BUILTIN_HELPERS)) {
+        expect(engine.helpers[name]).toBeDefined();
+      }
+    });
+
+    it("isolates engines from each other", () => {
+      const engine = createTemplateEngine();
+      engine.registerHelper("custom", () => "x");
+
+      expect(getTemplateEngine().helpers.custom).toBeUndefined();
+    });
+  });
+});
+
+// =============================================================================
+// Rendering paths
+// =============================================================================
+
+describe("helpers in rendering paths", () => {
+  let tempDir: string;
+  let templateDir: string;
+  const template = "export class {{pascalCase name}}{{pluralize 'Repo'}} {}\n";
+  const data = { name: "order-item" };
+  const expected = "export class OrderItemRepos {}\n";
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-helpers-"));
+    templateDir = path.join(tempDir, "templates");
+    await fs.mkdir(templateDir, { recursive: true });
+    await fs.writeFile(path.join(templateDir, "index.ts"), template);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("Renderer uses the built-in helpers", async () => {
+    const targetDir = path.join(tempDir, "out");
+    await renderArchetype({ templateDir, targetDir, data });
+
+    expect(await fs.readFile(path.join(targetDir, "index.ts"), "utf-8")).toBe(expected);
+  });
+
+  it("PreviewPlanner renders identically (NOOP against real output)", async () => {
+    const targetDir = path.join(tempDir, "out");
+    await fs.mkdir(targetDir, { recursive: true });
+    await fs.writeFile(path.join(targetDir, "index.ts"), expected);
+
+    const report = await new PreviewPlanner().computePreview({ templateDir, targetDir, data });
+
+    expect(report.noops.map((f) => f.relativePath)).toEqual(["index.ts"]);
+  });
+
+  it("PatchResolver uses the built-in helpers", async () => {
+    const result = await new PatchResolver().resolveAll({
+      patches: [
+        {
+          kind: "append_if_missing",
+          file: "index.ts",
+          idempotencyKey: "helpers",
+          contentTemplate: template,
+        },
+      ],
+      data,
+      packStorePath: tempDir,
+    });
+
+    expect(result.operations[0]).toMatchObject({ content: expected });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for verbatim copies and custom template delimiters.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  resolveTemplateMode,
+  toHandlebarsSyntax,
+  type TemplateModeRules,
+} from "../../src/core/render/TemplateModes.js";
+import { renderTemplateString } from "../../src/core/render/TemplateDiagnostics.js";
+
+const RULES: TemplateModeRules = {
+  copy: [".github/workflows/**"],
+  delimiters: [
+    { files: ["src/**/*.vue"], open: "[[", close: "]]" },
+    { files: ["**/*.go"], open: "<%=", close: "%>" },
+  ],
+};
+
+describe("resolveTemplateMode()", () => {
+  it("copies files matching copy globs, with or without .hbs", () => {
+    expect(resolveTemplateMode(".github/workflows/ci.yml", RULES)).toEqual({ mode: "copied" });
+    expect(resolveTemplateMode(".github/workflows/ci.yml.hbs", RULES)).toEqual({
+      mode: "copied",
+    });
+  });
+
+  it("returns the first matching delimiter rule", () => {
+    expect(resolveTemplateMode("src/components/App.vue", RULES)).toEqual({
+      mode: "rendered",
+      delimiters: { open: "[[", close: "]]" },
+    });
+    expect(resolveTemplateMode("cmd/main.go.hbs", RULES).delimiters?.open).toBe("<%=");
+  });
+
+  it("renders other files with default delimiters", () => {
+    expect(resolveTemplateMode("src/index.ts", RULES)).toEqual({ mode: "rendered" });
+    expect(resolveTemplateMode("src/index.ts", undefined)).toEqual({ mode: "rendered" });
+  });
+
+  it("lets copy win over delimiters", () => {
+    const rules = { copy: ["**/*.vue"], delimiters: RULES.delimiters };
+    expect(resolveTemplateMode("src/App.vue", rules)).toEqual({ mode: "copied" });
+  });
+});
+
+describe("toHandlebarsSyntax()", () => {
+  it("translates custom delimiters and escapes literal mustaches", () => {
+    expect(toHandlebarsSyntax("<p>{{ msg }}</p> [[name]]", { open: "[[", close: "]]" })).toBe(
+      "<p>\\{{ msg }}</p> {{name}}",
+    );
+  });
+
+  it("pads longer delimiters so line lengths are kept", () => {
+    const template = "x := <%= name %>\ny := 1";
+    const translated = toHandlebarsSyntax(template, { open: "<%=", close: "%>" });
+
+    expect(translated).toBe("x := {{ name  }}\ny := 1");
+    expect(translated.split("\n")[0]).toHaveLength(template.split("\n")[0].length);
+  });
+});
+
+describe("renderTemplateString() with custom delimiters", () => {
+  it("renders expressions, helpers and blocks while keeping literal braces", () => {
+    const template =
+      "<template><p>{{ message }}</p></template>\n" +
+      "<script>export default { name: '[[pascalCase name]]' }</script>\n" +
+      "[[#if scoped]]<style scoped></style>[[/if]]\n";
+
+    const output = renderTemplateString({
+      template,
+      data: { name: "user-card", scoped: true },
+      file: "src/UserCard.vue",
+      delimiters: { open: "[[", close: "]]" },
+    });
+
+    expect(output).toBe(
+      "<template><p>{{ message }}</p></template>\n" +
+        "<script>export default { name: 'UserCard' }</script>\n" +
+        "<style scoped></style>\n",
+    );
+  });
+
+  it("keeps GitHub Actions expressions intact", () => {
+    const output = renderTemplateString({
+      template: "token: ${{ secrets.TOKEN }}\nname: <%= name %>\n",
+      data: { name: "ci" },
+      file: "ci.yml",
+      delimiters: { open: "<%=", close: "%>" },
+    });
+
+    expect(output).toBe("token: ${{ secrets.TOKEN }}\nname: ci\n");
+  });
+
+  it("reports unterminated custom delimiters as syntax errors", () => {
+    expect(() =>
+      renderTemplateString({
+        template: "ok\nname: [[name\n",
+        data: { name: "x" },
+        file: "a.vue",
+        delimiters: { open: "[[", close: "]]" },
+      }),
+    ).toThrow(expect.objectContaining({ code: "TEMPLATE_SYNTAX_ERROR" }));
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the line-based three-way merge.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { mergeText, formatRejects } from "../../src/core/merge/ThreeWayMerge.js";
+
+const BASE = "import { a } from './a';\n\nexport function start() {\n  a();\n}\n";
+
+describe("mergeText()", () => {
+  it("takes changes made on one side only", () => {
+    const ours = BASE.replace("  a();\n", "  a();\n  log();\n");
+    const theirs = "// generated\n" + BASE;
+
+    const result = mergeText(BASE, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toBe(
+      "// generated\nimport { a } from './a';\n\nexport function start() {\n  a();\n  log();\n}\n",
+    );
+    expect(result.mergedOurs).toBe(result.merged);
+  });
+
+  it("keeps either side when both made the same change", () => {
+    const changed = BASE.replace("start", "run");
+
+    expect(mergeText(BASE, changed, changed)).toEqual({
+      merged: changed,
+      mergedOurs: changed,
+      conflicts: [],
+    });
+  });
+
+  it("marks overlapping changes as conflicts", () => {
+    const ours = BASE.replace("  a();\n", "  a(1);\n");
+    const theirs = BASE.replace("  a();\n", "  a(2);\n");
+
+    const result = mergeText(BASE, ours, theirs, { ours: "project", theirs: "pack@2.0.0" });
+
+    expect(result.merged).toBe(
+      "import { a } from './a';\n\nexport function start() {\n" +
+        "<<<<<<< project\n  a(1);\n=======\n  a(2);\n>>>>>>> pack@2.0.0\n}\n",
+    );
+    expect(result.mergedOurs).toBe(ours);
+    expect(result.conflicts).toEqual([
+      { line: 4, ours: "  a(1);\n", base: "  a();\n", theirs: "  a(2);\n" },
+    ]);
+  });
+
+  it("ends conflict regions with a newline at the end of the file", () => {
+    const result = mergeText("a\nb", "a\nx", "a\ny");
+
+    expect(result.merged).toBe("a\n<<<<<<< project\nx\n=======\ny\n>>>>>>> pack\n");
+  });
+
+  it("merges two additions of the same file as a conflict", () => {
+    const result = mergeText("", "mine\n", "theirs\n");
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.mergedOurs).toBe("mine\n");
+  });
+});
+
+describe("formatRejects()", () => {
+  it("formats one hunk per conflict with its line", () => {
+    const { conflicts } = mergeText("a\nb\nc\nd\n", "a\nB\nc\nD\n", "a\nβ\nc\nδ\n");
+
+    expect(formatRejects(conflicts)).toBe(
+      "@@ line 2 @@\n<<<<<<< project\nB\n=======\nβ\n>>>>>>> pack\n" +
+        "\n" +
+        "@@ line 4 @@\n<<<<<<< project\nD\n=======\nδ\n>>>>>>> pack\n",
+    );
+  });
+});
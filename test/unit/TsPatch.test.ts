@@ -0,0 +1,308 @@
+/**
+ * Unit tests for TypeScript-aware code patches.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { applyTsPatch, type TsPatchOptions } from "../../src/core/patch/TsPatch.js";
+
+function options(kind: TsPatchOptions["kind"], target?: string): TsPatchOptions {
+  return { kind, file: "src/app.ts", idempotencyKey: "test", target };
+}
+
+const APP = `// Application entry
+import express from "express";
+import { json, urlencoded } from "body-parser";
+
+const app = express();
+`;
+
+describe("applyTsPatch()", () => {
+  describe("ts_add_import", () => {
+    it("adds a new import after the last import", () => {
+      const { content, added } = applyTsPatch(
+        APP,
+        'import { UsersModule } from "./users.js";',
+        options("ts_add_import"),
+      );
+
+      expect(added).toEqual(["UsersModule"]);
+      expect(content).toBe(`// Application entry
+import express from "express";
+import { json, urlencoded } from "body-parser";
+import { UsersModule } from "./users.js";
+
+const app = express();
+`);
+    });
+
+    it("merges names into an existing import of the module", () => {
+      const { content, added } = applyTsPatch(
+        APP,
+        'import { json, raw as rawBody } from "body-parser";',
+        options("ts_add_import"),
+      );
+
+      expect(added).toEqual(["rawBody"]);
+      expect(content).toContain('import { json, urlencoded, raw as rawBody } from "body-parser";');
+    });
+
+    it("adds a default import next to named imports and the reverse", () => {
+      const withDefault = applyTsPatch(
+        APP,
+        'import bodyParser from "body-parser";\nimport express, { Router } from "express";',
+        options("ts_add_import"),
+      );
+
+      expect(withDefault.added).toEqual(["bodyParser", "Router"]);
+      expect(withDefault.content).toContain('import express, { Router } from "express";');
+      expect(withDefault.content).toContain(
+        'import bodyParser, { json, urlencoded } from "body-parser";',
+      );
+    });
+
+    it("keeps multi-line imports multi-line", () => {
+      const source = 'import {\n  a,\n  b,\n} from "./letters";\n';
+
+      const { content } = applyTsPatch(
+        source,
+        'import { c } from "./letters";',
+        options("ts_add_import"),
+      );
+
+      expect(content).toBe('import {\n  a,\n  b,\n  c,\n} from "./letters";\n');
+    });
+
+    it("is a no-op when everything is imported", () => {
+      const { content, added } = applyTsPatch(
+        APP,
+        "import express from 'express';\nimport { urlencoded } from 'body-parser';",
+        options("ts_add_import"),
+      );
+
+      expect(added).toEqual([]);
+      expect(content).toBe(APP);
+    });
+
+    it("keeps type-only imports apart", () => {
+      const { content } = applyTsPatch(
+        APP,
+        'import type { Express } from "express";',
+        options("ts_add_import"),
+      );
+
+      expect(content).toContain('import type { Express } from "express";\n\nconst app');
+    });
+
+    it("adds the first import after directives", () => {
+      const { content } = applyTsPatch(
+        '"use client";\n\nexport const x = 1;\n',
+        'import { useState } from "react";',
+        options("ts_add_import"),
+      );
+
+      expect(content).toBe(
+        '"use client";\n\nimport { useState } from "react";\n\nexport const x = 1;\n',
+      );
+    });
+
+    it("rejects content that is not an import", () => {
+      expect(() => applyTsPatch(APP, "const x = 1;", options("ts_add_import"))).toThrow(
+        expect.objectContaining({ code: "PATCH_TS_INVALID" }),
+      );
+    });
+  });
+
+  describe("ts_add_export", () => {
+    const BARREL = 'export * from "./users.js";\nexport { Order } from "./orders.js";\n';
+
+    it("appends new exports and merges names", () => {
+      const { content, added } = applyTsPatch(
+        BARREL,
+        'export * from "./billing.js";\nexport { Order, OrderLine } from "./orders.js";',
+        options("ts_add_export"),
+      );
+
+      expect(added).toEqual(["* from ./billing.js", "OrderLine"]);
+      expect(content).toBe(
+        'export * from "./users.js";\nexport { Order, OrderLine } from "./orders.js";\n' +
+          'export * from "./billing.js";\n',
+      );
+    });
+
+    it("is a no-op when the exports exist", () => {
+      const { content, added } = applyTsPatch(
+        BARREL,
+        "export * from './users.js';",
+        options("ts_add_export"),
+      );
+
+      expect(added).toEqual([]);
+      expect(content).toBe(BARREL);
+    });
+
+    it("appends to a file without exports", () => {
+      const { content } = applyTsPatch("const x = 1;", "export { x };", options("ts_add_export"));
+
+      expect(content).toBe("const x = 1;\nexport { x };\n");
+    });
+  });
+
+  describe("ts_append_array_element", () => {
+    const ROUTES = `export const routes: Route[] = [
+  { path: "/", component: Home },
+  { path: "/about", component: About }, // static
+];
+`;
+
+    it("appends elements at the indentation of the list", () => {
+      const { content, added } = applyTsPatch(
+        ROUTES,
+        '{\n  path: "/users",\n  component: Users,\n}',
+        options("ts_append_array_element", "routes"),
+      );
+
+      expect(added).toHaveLength(1);
+      expect(content).toBe(`export const routes: Route[] = [
+  { path: "/", component: Home },
+  { path: "/about", component: About }, // static
+  {
+    path: "/users",
+    component: Users,
+  },
+];
+`);
+    });
+
+    it("skips elements that are already present, whatever their formatting", () => {
+      const { content, added } = applyTsPatch(
+        ROUTES,
+        "{ path: '/about', component: About, }",
+        options("ts_append_array_element", "routes"),
+      );
+
+      expect(added).toEqual([]);
+      expect(content).toBe(ROUTES);
+    });
+
+    it("adds a comma when the list has no trailing comma", () => {
+      const { content } = applyTsPatch(
+        "const plugins = [\n  react(),\n  svgr()\n];\n",
+        "checker()",
+        options("ts_append_array_element", "plugins"),
+      );
+
+      expect(content).toBe("const plugins = [\n  react(),\n  svgr(),\n  checker()\n];\n");
+    });
+
+    it("appends to single-line and empty arrays", () => {
+      expect(
+        applyTsPatch("const a = [1, 2];", "3, 4", options("ts_append_array_element", "a")).content,
+      ).toBe("const a = [1, 2, 3, 4];");
+      expect(
+        applyTsPatch("const a = [] as const;", "'x'", options("ts_append_array_element", "a"))
+          .content,
+      ).toBe("const a = ['x'] as const;");
+    });
+
+    it("follows object properties, calls and decorators", () => {
+      const config = applyTsPatch(
+        "export default defineConfig({\n  plugins: [react()],\n});\n",
+        "svgr()",
+        options("ts_append_array_element", "default.plugins"),
+      );
+      const module = applyTsPatch(
+        "@Module({\n  imports: [\n    DbModule,\n  ],\n})\nexport class AppModule {}\n",
+        "UsersModule",
+        options("ts_append_array_element", "AppModule.imports"),
+      );
+
+      expect(config.content).toContain("plugins: [react(), svgr()],");
+      expect(module.content).toContain("imports: [\n    DbModule,\n    UsersModule,\n  ],");
+    });
+
+    it("fails with the reason when the target is missing", () => {
+      expect(() =>
+        applyTsPatch(ROUTES, "x", options("ts_append_array_element", "routes.children")),
+      ).toThrow(
+        expect.objectContaining({
+          code: "PATCH_TS_TARGET_NOT_FOUND",
+          details: expect.objectContaining({ reason: "'routes' is not an object literal" }),
+        }),
+      );
+      expect(() => applyTsPatch(ROUTES, "x", options("ts_append_array_element", "paths"))).toThrow(
+        expect.objectContaining({
+          details: expect.objectContaining({ reason: "no top-level declaration 'paths'" }),
+        }),
+      );
+    });
+
+    it("reports a missing target in non-strict mode", () => {
+      const result = applyTsPatch(ROUTES, "x", {
+        ...options("ts_append_array_element", "paths"),
+        strict: false,
+      });
+
+      expect(result).toEqual({ content: ROUTES, added: [], targetMissing: true });
+    });
+  });
+
+  describe("ts_add_object_property", () => {
+    const CONFIG = `export const config = {
+  port: 3000,
+  providers: {
+    db: DbProvider,
+  },
+} satisfies Config;
+`;
+
+    it("adds properties to a nested object", () => {
+      const { content, added } = applyTsPatch(
+        CONFIG,
+        "users: UsersProvider,\nmail",
+        options("ts_add_object_property", "config.providers"),
+      );
+
+      expect(added).toEqual(["users", "mail"]);
+      expect(content).toContain(
+        "  providers: {\n    db: DbProvider,\n    users: UsersProvider,\n    mail,\n  },",
+      );
+    });
+
+    it("skips identical properties and fails on conflicting ones", () => {
+      expect(
+        applyTsPatch(CONFIG, "port:   3000", options("ts_add_object_property", "config")).added,
+      ).toEqual([]);
+      expect(() =>
+        applyTsPatch(CONFIG, "port: 8080", options("ts_add_object_property", "config")),
+      ).toThrow(
+        expect.objectContaining({
+          code: "PATCH_TS_CONFLICT",
+          details: expect.objectContaining({ property: "port", existing: "port: 3000" }),
+        }),
+      );
+    });
+
+    it("pads single-line objects", () => {
+      expect(
+        applyTsPatch("const a = {};", "b: 1", options("ts_add_object_property", "a")).content,
+      ).toBe("const a = { b: 1 };");
+      expect(
+        applyTsPatch("const a = { b: 1 };", "c: 2", options("ts_add_object_property", "a")).content,
+      ).toBe("const a = { b: 1, c: 2 };");
+    });
+  });
+
+  it("rejects target files with syntax errors", () => {
+    expect(() =>
+      applyTsPatch("const a = [;", "1", options("ts_append_array_element", "a")),
+    ).toThrow(
+      expect.objectContaining({
+        code: "PATCH_TS_INVALID",
+        details: expect.objectContaining({ source: "target file", line: 1 }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for patch `when` expressions.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { evaluateWhen, parseWhenExpression } from "../../src/core/patch/WhenExpression.js";
+
+const DATA = {
+  enableLogging: true,
+  enableMetrics: false,
+  framework: "express",
+  port: 3000,
+  features: ["auth", "billing"],
+  db: { kind: "postgres" },
+  empty: "",
+};
+
+describe("evaluateWhen()", () => {
+  it("uses the truthiness of bare inputs", () => {
+    expect(evaluateWhen("enableLogging", DATA)).toBe(true);
+    expect(evaluateWhen("enableMetrics", DATA)).toBe(false);
+    expect(evaluateWhen("empty", DATA)).toBe(false);
+    expect(evaluateWhen("features", DATA)).toBe(true);
+    expect(evaluateWhen("missing", DATA)).toBe(false);
+  });
+
+  it("compares with strict equality", () => {
+    expect(evaluateWhen("framework == 'express'", DATA)).toBe(true);
+    expect(evaluateWhen('framework != "express"', DATA)).toBe(false);
+    expect(evaluateWhen("port == 3000", DATA)).toBe(true);
+    expect(evaluateWhen("port == '3000'", DATA)).toBe(false);
+    expect(evaluateWhen("missing == null", DATA)).toBe(true);
+    expect(evaluateWhen("db.kind == 'postgres'", DATA)).toBe(true);
+  });
+
+  it("combines conditions with boolean logic and parentheses", () => {
+    expect(evaluateWhen("enableLogging && !enableMetrics", DATA)).toBe(true);
+    expect(evaluateWhen("enableMetrics || framework == 'koa'", DATA)).toBe(false);
+    expect(evaluateWhen("!(enableLogging && enableMetrics)", DATA)).toBe(true);
+    expect(evaluateWhen("!framework == 'koa'", DATA)).toBe(true);
+    expect(evaluateWhen("enableMetrics && x || enableLogging", DATA)).toBe(true);
+  });
+
+  it("checks membership with in", () => {
+    expect(evaluateWhen("framework in ['express', 'koa']", DATA)).toBe(true);
+    expect(evaluateWhen("'auth' in features", DATA)).toBe(true);
+    expect(evaluateWhen("'admin' in features", DATA)).toBe(false);
+    expect(evaluateWhen("'press' in framework", DATA)).toBe(true);
+    expect(evaluateWhen("port in missing", DATA)).toBe(false);
+    expect(evaluateWhen("port in []", DATA)).toBe(false);
+  });
+
+  it("handles escaped quotes in strings", () => {
+    expect(evaluateWhen("name == 'it\\'s'", { name: "it's" })).toBe(true);
+  });
+});
+
+describe("parseWhenExpression()", () => {
+  it.each([
+    ["framework ==", "unexpected end of expression"],
+    ["(enableLogging", "expected ')' but found end of expression"],
+    ["enableLogging enableMetrics", "unexpected 'enableMetrics'"],
+    ["framework == 'express", "unterminated string"],
+    ["port > 3000", "unexpected character '>'"],
+    ["['a'] == framework", "lists are only allowed after 'in'"],
+    ["framework = 'express'", "unexpected character '='"],
+  ])("rejects %s", (expression, reason) => {
+    expect(() => parseWhenExpression(expression)).toThrow(
+      expect.objectContaining({
+        code: "PATCH_CONDITION_INVALID",
+        details: expect.objectContaining({ expression, reason }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for comment-preserving YAML merging.
+ *
+ * @module
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { mergeYaml } from "../../src/core/patch/YamlMerge.js";
+
+const COMPOSE = `# Local development stack
+version: "3.9"
+
+x-env: &default-env
+  NODE_ENV: development # shared
+
+services:
+  api:
+    image: 'node:20'
+    environment:
+      <<: *default-env
+      PORT: "3000"
+    ports:
+    - "3000:3000"
+    command: [node, server.js]
+
+  db:
+    image: postgres:16 # pinned
+`;
+
+describe("mergeYaml()", () => {
+  it("merges into a key path keeping comments, anchors and layout", () => {
+    const { content, changedKeys } = mergeYaml(
+      COMPOSE,
+      'ports:\n  - "9229:9229"\nenvironment:\n  DEBUG: "true"\n',
+      { file: "docker-compose.yml", keyPath: "services.api" },
+    );
+
+    expect(changedKeys).toEqual(["services.api.ports", "services.api.environment.DEBUG"]);
+    expect(content).toBe(
+      COMPOSE.replace('      PORT: "3000"\n', '      PORT: "3000"\n      DEBUG: "true"\n').replace(
+        '    - "3000:3000"\n',
+        '    - "3000:3000"\n    - "9229:9229"\n',
+      ),
+    );
+  });
+
+  it("reports no changes and returns the source when already merged", () => {
+    const fragment =
+      'services:\n  api:\n    ports: ["3000:3000"]\n    environment:\n      PORT: "3000"';
+
+    const result = mergeYaml(COMPOSE, fragment, { file: "docker-compose.yml" });
+
+    expect(result.changedKeys).toEqual([]);
+    expect(result.content).toBe(COMPOSE);
+  });
+
+  it("replaces scalars in place, keeping their comments", () => {
+    const { content, changedKeys } = mergeYaml(COMPOSE, "image: postgres:17", {
+      file: "docker-compose.yml",
+      keyPath: "services.db",
+    });
+
+    expect(changedKeys).toEqual(["services.db.image"]);
+    expect(content).toContain("    image: postgres:17 # pinned\n");
+  });
+
+  it("keeps comments on the line of a merged key", () => {
+    const source = "services:\n  api: # the api\n    # image first\n    image: node\n";
+
+    const { content } = mergeYaml(source, "services:\n  api:\n    restart: always\n", {
+      file: "docker-compose.yml",
+    });
+
+    expect(content).toBe(
+      "services:\n  api: # the api\n    # image first\n    image: node\n    restart: always\n",
+    );
+  });
+
+  it("keeps aliases unless the merge changes the aliased value", () => {
+    const source = "base: &base\n  retries: 3\njob:\n  options: *base\n";
+
+    expect(mergeYaml(source, "retries: 3", { file: "ci.yml", keyPath: "job.options" })).toEqual({
+      content: source,
+      changedKeys: [],
+    });
+
+    const { content } = mergeYaml(source, "job:\n  options:\n    timeout: 10", { file: "ci.yml" });
+    expect(content).toBe(
+      "base: &base\n  retries: 3\njob:\n  options:\n    retries: 3\n    timeout: 10\n",
+    );
+  });
+
+  it("applies the configured array strategy", () => {
+    const source =
+      "steps:\n  - name: build\n    run: pnpm build\n  - name: test\n    run: pnpm test\n";
+
+    const { content, changedKeys } = mergeYaml(
+      source,
+      "steps:\n  - name: test\n    run: pnpm test --coverage\n  - name: lint\n    run: pnpm lint\n",
+      { file: "ci.yml", arrayStrategy: "by-key", arrayKey: "name" },
+    );
+
+    expect(changedKeys).toEqual(["steps[name=test].run", "steps[name=lint]"]);
+    expect(content).toBe(
+      "steps:\n  - name: build\n    run: pnpm build\n  - name: test\n    run: pnpm test --coverage\n" +
+        "  - name: lint\n    run: pnpm lint\n",
+    );
+  });
+
+  it("creates missing mappings along the key path", () => {
+    const { content } = mergeYaml("services:\n  api:\n    image: node:20\n", "LOG_LEVEL: debug", {
+      file: "docker-compose.yml",
+      keyPath: "services.worker.environment",
+    });
+
+    expect(content).toBe(
+      "services:\n  api:\n    image: node:20\n  worker:\n    environment:\n      LOG_LEVEL: debug\n",
+    );
+  });
+
+  it("throws PATCH_APPLY_FAILED when the key path crosses a non-mapping", () => {
+    expect(() =>
+      mergeYaml(COMPOSE, "a: 1", { file: "docker-compose.yml", keyPath: "services.api.ports" }),
+    ).toThrow(expect.objectContaining({ code: "PATCH_APPLY_FAILED" }));
+  });
+
+  it("throws PATCH_APPLY_FAILED with a location for invalid YAML", () => {
+    expect(() => mergeYaml("services:\n  api: [\n", "a: 1", { file: "compose.yml" })).toThrow(
+      expect.objectContaining({
+        code: "PATCH_APPLY_FAILED",
+        details: expect.objectContaining({ file: "compose.yml", line: expect.any(Number) }),
+      }),
+    );
+  });
+
+  it("rejects fragments that are not mappings", () => {
+    expect(() => mergeYaml(COMPOSE, "- a\n- b", { file: "docker-compose.yml" })).toThrow(
+      expect.objectContaining({ code: "PATCH_APPLY_FAILED" }),
+    );
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Integration tests for the `upgrade` handler.
+ *
+ * Installs two versions of a pack, generates a project from the first,
+ * edits it, and upgrades it to the second.
+ *
+ * @module
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { handlePackAdd } from "../src/cli/handlers/packAddHandler.js";
+import { handleGenerate } from "../src/cli/handlers/generateHandler.js";
+import { handleUpgrade, formatUpgradeOutput } from "../src/cli/handlers/upgradeHandler.js";
+import { handleDrift } from "../src/cli/handlers/driftHandler.js";
+import { ProjectStateManager, type ProjectStateV3 } from "../src/core/state/ProjectStateManager.js";
+import type { StoreServiceConfig, StoreLogger } from "../src/core/store/StoreService.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestLogger(): StoreLogger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+  };
+}
+
+function manifest(version: string, patches = ""): string {
+  return `pack:
+  name: upgrade-pack
+  version: "${version}"
+archetypes:
+  - id: service
+    templateRoot: templates
+    inputs:
+      - name: name
+        type: string
+        default: users
+${patches}`;
+}
+
+const V1: Record<string, string> = {
+  "archetype.yaml": manifest("0.1.0"),
+  "templates/src/__name__.service.ts": "export class {{name}}Service {\n  start() {}\n}\n",
+  "templates/README.md": "# {{name}}\n\nGenerated.\n",
+  "templates/config.json": '{ "port": 3000 }\n',
+  "templates/legacy.txt": "legacy\n",
+};
+
+const V2: Record<string, string> = {
+  "archetype.yaml": manifest(
+    "0.2.0",
+    `    patches:
+      - kind: append_if_missing
+        file: src/index.ts
+        idempotencyKey: export-service
+        contentTemplate: 'export * from "./{{name}}.service.js";'
+`,
+  ),
+  "templates/src/__name__.service.ts":
+    "export class {{name}}Service {\n  start() {}\n\n  stop() {}\n}\n",
+  "templates/README.md": "# {{name}}\n\nGenerated by 0.2.0.\n",
+  "templates/config.json": '{ "port": 4000 }\n',
+  "templates/new.txt": "new\n",
+};
+
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(dir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+async function createTestWorkspace(): Promise<{
+  workspaceDir: string;
+  storeDir: string;
+  packsDir: string;
+  registryFile: string;
+  targetDir: string;
+}> {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "scaffoldix-upgrade-test-"));
+
+  const storeDir = path.join(workspaceDir, "store");
+  const packsDir = path.join(storeDir, "packs");
+  const registryFile = path.join(storeDir, "registry.json");
+  const targetDir = path.join(workspaceDir, "target");
+
+  await fs.mkdir(packsDir, { recursive: true });
+
+  const storeConfig: StoreServiceConfig = { storeDir, packsDir, registryFile };
+  for (const [name, files] of [
+    ["v1", V1],
+    ["v2", V2],
+  ] as const) {
+    const packDir = path.join(workspaceDir, name);
+    await writeFiles(packDir, files);
+    await handlePackAdd(
+      { packPath: packDir, cwd: process.cwd() },
+      { storeConfig, logger: createTestLogger() },
+    );
+  }
+
+  await writeFiles(targetDir, { "src/index.ts": "// exports\n" });
+
+  return { workspaceDir, storeDir, packsDir, registryFile, targetDir };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("handleUpgrade()", () => {
+  let workspace: Awaited<ReturnType<typeof createTestWorkspace>> | undefined;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace.workspaceDir, { recursive: true, force: true });
+      workspace = undefined;
+    }
+  });
+
+  /**
+   * Generates from 0.1.0, then edits the service (clean merge) and the
+   * README (conflict) and leaves config.json and legacy.txt untouched.
+   */
+  async function generateAndEdit(): Promise<void> {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    await handleGenerate(
+      {
+        ref: "upgrade-pack@0.1.0:service",
+        targetDir,
+        dryRun: false,
+        data: {},
+        nonInteractive: true,
+      },
+      { registryFile, packsDir, storeDir },
+    );
+
+    await writeFiles(targetDir, {
+      "src/users.service.ts": "export class usersService {\n  hello() {}\n  start() {}\n}\n",
+      "README.md": "# users\n\nGenerated. Edited by hand.\n",
+    });
+  }
+
+  async function upgrade(
+    options: { reject?: boolean; version?: string; allowDowngrade?: boolean } = {},
+  ) {
+    const { registryFile, packsDir, storeDir, targetDir } = workspace!;
+    return handleUpgrade(
+      { targetDir, packId: "upgrade-pack", ...options },
+      { registryFile, packsDir, storeDir },
+    );
+  }
+
+  it("merges the new version into the project and records the outcome", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generateAndEdit();
+
+    const result = await upgrade();
+
+    expect(result.upToDate).toEqual([]);
+    expect(result.upgraded).toHaveLength(1);
+    const [upgraded] = result.upgraded;
+    expect(upgraded).toMatchObject({ fromVersion: "0.1.0", toVersion: "0.2.0" });
+    expect(upgraded.files).toEqual([
+      { path: "config.json", outcome: "updated" },
+      { path: "legacy.txt", outcome: "removed" },
+      { path: "new.txt", outcome: "added" },
+      {
+        path: "README.md",
+        outcome: "conflict",
+        reason: "1 conflicting change(s) marked in the file",
+      },
+      { path: "src/users.service.ts", outcome: "merged" },
+    ]);
+    expect(upgraded.patchReport).toMatchObject({ applied: 1, failed: 0 });
+
+    const read = (file: string) => fs.readFile(path.join(targetDir, file), "utf-8");
+    expect(await read("config.json")).toBe('{ "port": 4000 }\n');
+    expect(await read("new.txt")).toBe("new\n");
+    await expect(fs.access(path.join(targetDir, "legacy.txt"))).rejects.toThrow();
+    expect(await read("src/users.service.ts")).toBe(
+      "export class usersService {\n  hello() {}\n  start() {}\n\n  stop() {}\n}\n",
+    );
+    expect(await read("README.md")).toBe(
+      "# users\n\n<<<<<<< project\nGenerated. Edited by hand.\n=======\n" +
+        "Generated by 0.2.0.\n>>>>>>> upgrade-pack@0.2.0\n",
+    );
+    expect(await read("src/index.ts")).toContain('export * from "./users.service.js";');
+
+    const state = (await new ProjectStateManager().read(targetDir)) as ProjectStateV3;
+    const report = state.generations[state.generations.length - 1];
+    expect(report).toMatchObject({
+      id: upgraded.generationId,
+      packVersion: "0.2.0",
+      status: "success",
+      inputs: { name: "users" },
+      upgrade: {
+        fromVersion: "0.1.0",
+        fromGeneration: state.generations[0].id,
+        files: upgraded.files,
+      },
+    });
+
+    // Files the upgrade wrote are owned by it; the removed file is not owned any more
+    const drift = await handleDrift({ targetDir });
+    expect(drift.files.map((f) => [f.path, f.status])).toEqual([
+      ["config.json", "unchanged"],
+      ["new.txt", "unchanged"],
+      ["README.md", "unchanged"],
+      ["src/index.ts", "unchanged"],
+      ["src/users.service.ts", "unchanged"],
+    ]);
+
+    expect(formatUpgradeOutput(result)).toEqual([
+      "Upgraded upgrade-pack:service 0.1.0 → 0.2.0",
+      "  updated   config.json",
+      "  removed   legacy.txt",
+      "  added     new.txt",
+      "  conflict  README.md (1 conflicting change(s) marked in the file)",
+      "  merged    src/users.service.ts",
+      "  Patches: 1 applied, 0 skipped",
+      "",
+      "1 file(s) need manual resolution: README.md",
+    ]);
+  });
+
+  it("writes conflicts to .rej files with --reject", async () => {
+    workspace = await createTestWorkspace();
+    const { targetDir } = workspace;
+    await generateAndEdit();
+
+    const result = await upgrade({ reject: true });
+
+    expect(result.upgraded[0].files).toContainEqual({
+      path: "README.md",
+      outcome: "conflict",
+      reason: "1 conflicting change(s) written to README.md.rej",
+    });
+    expect(await fs.readFile(path.join(targetDir, "README.md"), "utf-8")).toBe(
+      "# users\n\nGenerated. Edited by hand.\n",
+    );
+    expect(await fs.readFile(path.join(targetDir, "README.md.rej"), "utf-8")).toBe(
+      "@@ line 3 @@\n<<<<<<< project\nGenerated. Edited by hand.\n=======\n" +
+        "Generated by 0.2.0.\n>>>>>>> upgrade-pack@0.2.0\n",
+    );
+  });
+
+  it("reports archetypes already at the target version", async () => {
+    workspace = await createTestWorkspace();
+    await generateAndEdit();
+    await upgrade();
+
+    const result = await upgrade();
+
+    expect(result.upgraded).toEqual([]);
+    expect(result.upToDate).toEqual([
+      { packId: "upgrade-pack", archetypeId: "service", version: "0.2.0" },
+    ]);
+    expect(formatUpgradeOutput(result)).toEqual(["upgrade-pack:service is up to date (0.2.0)"]);
+  });
+
+  it("rejects a lower target version unless downgrades are allowed", async () => {
+    workspace = await createTestWorkspace();
+    await generateAndEdit();
+    await upgrade({ reject: true });
+
+    await expect(upgrade({ version: "0.1.0" })).rejects.toMatchObject({
+      code: "UPGRADE_DOWNGRADE",
+      details: { fromVersion: "0.2.0", toVersion: "0.1.0" },
+    });
+
+    const result = await upgrade({ version: "0.1.0", allowDowngrade: true, reject: true });
+
+    expect(result.upgraded).toEqual([
+      expect.objectContaining({ fromVersion: "0.2.0", toVersion: "0.1.0" }),
+    ]);
+    expect(formatUpgradeOutput(result)[0]).toBe("Downgraded upgrade-pack:service 0.2.0 → 0.1.0");
+  });
+
+  it("rejects a pack with no generations in the project", async () => {
+    workspace = await createTestWorkspace();
+    await generateAndEdit();
+    const { registryFile, packsDir, storeDir, targetDir } = workspace;
+
+    await expect(
+      handleUpgrade({ targetDir, packId: "other-pack" }, { registryFile, packsDir, storeDir }),
+    ).rejects.toMatchObject({ code: "PACK_NOT_GENERATED" });
+    await expect(
+      handleUpgrade({ targetDir, version: "0.2.0" }, { registryFile, packsDir, storeDir }),
+    ).rejects.toMatchObject({ code: "UPGRADE_PACK_REQUIRED" });
+  });
+});